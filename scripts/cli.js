@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// Entry point of `npm run cli` and `npm start`; run it with tsx so the TypeScript sources load directly.
+const { createCli } = require('../src/cli');
+
+createCli().parseAsync(process.argv);
@@ -5,10 +5,16 @@ import {
 } from 'discord.js';
 
 import dotenv from 'dotenv';
-import { gatewayIntentBits } from './static/gatewayIntentBits';
+import { gatewayIntentBits, memberIntentBits } from './static/gatewayIntentBits';
 import { partials } from './static/partials';
 import { CommandHandler } from './handlers/CommandHandler';
 import { Logger } from './utils/Logger';
+import { ImportHelper } from './helpers/importFunctions';
+import { JournalStore } from './helpers/journalFunctions';
+import { ReplayHelper, ReplayStore } from './helpers/replayFunctions';
+import { BackupScheduler } from './helpers/backupFunctions';
+import { DriftMonitor } from './helpers/driftFunctions';
+import { Dashboard } from './dashboard/Dashboard';
 
 dotenv.config();
 
@@ -19,18 +25,26 @@ export class Bot {
     private static instance: Bot;
     public client: Client;
     private commandHandler: CommandHandler;
+    private dashboard: Dashboard | null = null;
+    private backups: BackupScheduler;
+    private drift: DriftMonitor;
 
     /**
      * Initializes a new instance of the Bot class.
      * This constructor is private to enforce the singleton pattern.
+     * The member intents are only requested when MEMBER_ROLE_BACKUPS is true.
      */
     private constructor() {
         this.client = new Client({
-            intents: gatewayIntentBits,
+            intents: process.env.MEMBER_ROLE_BACKUPS === 'true'
+                ? [...gatewayIntentBits, ...memberIntentBits]
+                : gatewayIntentBits,
             partials: partials
         });
 
         this.commandHandler = new CommandHandler(this.client);
+        this.backups = new BackupScheduler(this.client);
+        this.drift = new DriftMonitor(this.client);
         this.setupEventHandlers();
     }
 
@@ -47,16 +61,63 @@ export class Bot {
 
     /**
      * Sets up event handlers for the Discord client.
-     * Handles client ready and interaction create events.
+     * Handles client ready and interaction create events; slash commands, autocomplete
+     * requests and message components are all routed to the command they belong to.
+     * Role and channel changes are passed on to drift detection.
      * @private
      */
     private setupEventHandlers(): void {
         this.client.once(Events.ClientReady, async (client) => {
             Logger.info(`Templatte is up and running!`);
             await this.commandHandler.loadCommands();
+            await this.startDashboard();
+            this.backups.start();
+            await this.resumeImports();
+        });
+
+        this.client.on(Events.GuildRoleCreate, role => this.drift.handleChange(role.guild));
+        this.client.on(Events.GuildRoleUpdate, (oldRole, role) => this.drift.handleChange(role.guild));
+        this.client.on(Events.GuildRoleDelete, role => this.drift.handleChange(role.guild));
+        this.client.on(Events.ChannelCreate, channel => this.drift.handleChange(channel.guild));
+        this.client.on(Events.ChannelUpdate, (oldChannel, channel) => {
+            if (!channel.isDMBased()) this.drift.handleChange(channel.guild);
+        });
+        this.client.on(Events.ChannelDelete, channel => {
+            if (!channel.isDMBased()) this.drift.handleChange(channel.guild);
         });
 
         this.client.on(Events.InteractionCreate, async (interaction: Interaction) => {
+            if (interaction.isMessageComponent()) {
+                const commandName = interaction.customId.split(':')[0];
+                const command = this.commandHandler.getCommands().get(commandName);
+                if (!command?.handleComponent) {
+                    Logger.error(`No component handler matching ${interaction.customId} was found.`);
+                    return;
+                }
+
+                try {
+                    await command.handleComponent(interaction);
+                } catch (error) {
+                    Logger.error('Error handling component', error as Error);
+                    const content = 'There was an error handling this interaction!';
+                    const reply = interaction.replied || interaction.deferred
+                        ? interaction.followUp({ content, ephemeral: true })
+                        : interaction.reply({ content, ephemeral: true });
+                    await reply.catch(replyError => Logger.error('Error replying to the interaction', replyError as Error));
+                }
+                return;
+            }
+
+            if (interaction.isAutocomplete()) {
+                const command = this.commandHandler.getCommands().get(interaction.commandName);
+                try {
+                    await command?.autocomplete?.(interaction);
+                } catch (error) {
+                    Logger.error('Error handling autocomplete', error as Error);
+                }
+                return;
+            }
+
             if (!interaction.isChatInputCommand()) return;
 
             const command = this.commandHandler.getCommands().get(interaction.commandName);
@@ -69,15 +130,90 @@ export class Bot {
                 await command.execute(interaction);
             } catch (error) {
                 Logger.error('Error executing command', error as Error);
-                if (interaction.replied || interaction.deferred) {
-                    await interaction.followUp({ content: 'There was an error executing this command!', ephemeral: true });
-                } else {
-                    await interaction.reply({ content: 'There was an error executing this command!', ephemeral: true });
-                }
+                const content = 'There was an error executing this command!';
+                const reply = interaction.replied || interaction.deferred
+                    ? interaction.followUp({ content, ephemeral: true })
+                    : interaction.reply({ content, ephemeral: true });
+                await reply.catch(replyError => Logger.error('Error replying to the interaction', replyError as Error));
             }
         });
     }
 
+    /**
+     * Starts the web dashboard when DASHBOARD_PORT is set. Admins log in with
+     * DASHBOARD_TOKEN, and the dashboard only listens on localhost unless
+     * DASHBOARD_HOST is set.
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async startDashboard(): Promise<void> {
+        const port = Number(process.env.DASHBOARD_PORT);
+        if (!port) return;
+
+        const token = process.env.DASHBOARD_TOKEN;
+        if (!token) {
+            Logger.error('DASHBOARD_PORT is set but DASHBOARD_TOKEN is not, the dashboard was not started');
+            return;
+        }
+
+        const host = process.env.DASHBOARD_HOST || '127.0.0.1';
+        try {
+            this.dashboard = new Dashboard(this.client, token);
+            await this.dashboard.start(port, host);
+            Logger.info(`Dashboard is listening on http://${host}:${port}`);
+        } catch (error) {
+            this.dashboard = null;
+            Logger.error('Failed to start the dashboard', error as Error);
+        }
+    }
+
+    /**
+     * Resumes the imports that were interrupted when the bot last stopped, then the
+     * replays of archived messages whose import has finished.
+     * Disabled by setting AUTO_RESUME_IMPORTS to false, in which case they
+     * can still be resumed with `/import mode:resume`.
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async resumeImports(): Promise<void> {
+        if (process.env.AUTO_RESUME_IMPORTS === 'false') return;
+
+        const journals = new JournalStore();
+        for (const guildId of await journals.list()) {
+            const guild = this.client.guilds.cache.get(guildId);
+            if (!guild) continue;
+
+            try {
+                const journal = await journals.load(guildId);
+                if (!journal) continue;
+
+                Logger.info(`Resuming the interrupted ${journal.mode} import in ${guild.name}`);
+                const report = await new ImportHelper(guild).runJournal(journal, { resume: true });
+                Logger.info(`Finished the interrupted import in ${guild.name} (${report.failedSteps.length} failed step(s))`);
+            } catch (error) {
+                Logger.error(`Failed to resume the import in guild ${guildId}`, error as Error);
+            }
+        }
+
+        const replays = new ReplayStore();
+        const unfinished = await journals.list();
+        for (const guildId of await replays.list()) {
+            const guild = this.client.guilds.cache.get(guildId);
+            if (!guild || unfinished.includes(guildId)) continue;
+
+            try {
+                const cursor = await replays.load(guildId);
+                if (!cursor) continue;
+
+                Logger.info(`Resuming the replay of archive ${cursor.archiveId} in ${guild.name}`);
+                const report = await new ReplayHelper(guild).runReplay(cursor);
+                Logger.info(`Finished the replay in ${guild.name} (${report.replayed} message(s), ${report.failedSteps.length} failed step(s))`);
+            } catch (error) {
+                Logger.error(`Failed to resume the replay in guild ${guildId}`, error as Error);
+            }
+        }
+    }
+
     /**
      * Starts the bot by logging into Discord with the provided token.
      * Exits the process if login fails.
@@ -0,0 +1,557 @@
+import {
+    ChannelType,
+    GatewayIntentBits,
+    Guild,
+    GuildChannelTypes,
+    GuildFeature,
+    GuildMember,
+    Locale,
+    NonThreadGuildBasedChannel,
+    RateLimitData,
+    RESTEvents,
+    Role
+} from 'discord.js';
+
+import {
+    ChannelInput,
+    EmojiInput,
+    GuildAdapter,
+    GuildBotData,
+    GuildChannelData,
+    GuildChannelSettings,
+    GuildEmojiData,
+    GuildMemberData,
+    GuildRoleData,
+    GuildSettingsData,
+    GuildSettingsEdit,
+    GuildStickerData,
+    GuildWelcomeScreenData,
+    RoleInput,
+    StickerInput
+} from './GuildAdapter';
+
+/** Channel settings Discord clears when they are edited to null; the others cannot be null */
+const CLEARABLE_CHANNEL_SETTINGS = [
+    'topic',
+    'rtcRegion',
+    'videoQualityMode',
+    'defaultReactionEmoji',
+    'defaultSortOrder',
+] as const;
+
+/**
+ * Carries out guild operations on a live Discord server through Discord.js
+ * @class DiscordGuildAdapter
+ */
+export class DiscordGuildAdapter implements GuildAdapter {
+    /**
+     * Creates a new DiscordGuildAdapter
+     * @param {Guild} guild - The Discord guild
+     */
+    constructor(private guild: Guild) {}
+
+    /** The snowflake of the guild */
+    get id(): string {
+        return this.guild.id;
+    }
+
+    /**
+     * Lists the guild's roles
+     * @returns {Promise<GuildRoleData[]>} The roles
+     */
+    async fetchRoles(): Promise<GuildRoleData[]> {
+        const roles = await this.guild.roles.fetch();
+        return [...roles.values()].map(role => this.mapRole(role));
+    }
+
+    /**
+     * Creates a role below every other role except @everyone
+     * @param {RoleInput} input - The properties of the role
+     * @returns {Promise<GuildRoleData>} The new role
+     */
+    async createRole(input: RoleInput): Promise<GuildRoleData> {
+        return this.mapRole(await this.guild.roles.create(input));
+    }
+
+    /**
+     * Edits a role
+     * @param {string} id - The snowflake of the role
+     * @param {Partial<RoleInput>} input - The properties to change
+     * @returns {Promise<void>}
+     */
+    async editRole(id: string, input: Partial<RoleInput>): Promise<void> {
+        await this.guild.roles.edit(id, input);
+    }
+
+    /**
+     * Deletes a role
+     * @param {string} id - The snowflake of the role
+     * @returns {Promise<void>}
+     */
+    async deleteRole(id: string): Promise<void> {
+        await this.guild.roles.delete(id);
+    }
+
+    /**
+     * Moves roles in the hierarchy in a single request
+     * @param {{ id: string, position: number }[]} positions - The new position of each role
+     * @returns {Promise<void>}
+     */
+    async setRolePositions(positions: { id: string; position: number }[]): Promise<void> {
+        await this.guild.roles.setPositions(positions.map(item => ({ role: item.id, position: item.position })));
+    }
+
+    /**
+     * Lists the guild's categories and channels, without threads
+     * @returns {Promise<GuildChannelData[]>} The categories and channels
+     */
+    async fetchChannels(): Promise<GuildChannelData[]> {
+        const channels = await this.guild.channels.fetch();
+        return [...channels.values()]
+            .filter((channel): channel is NonThreadGuildBasedChannel => channel !== null)
+            .map(channel => this.mapChannel(channel));
+    }
+
+    /**
+     * Creates a category or channel
+     * @param {ChannelInput} input - The properties of the channel
+     * @returns {Promise<GuildChannelData>} The new channel
+     */
+    async createChannel(input: ChannelInput): Promise<GuildChannelData> {
+        const channel = await this.guild.channels.create({
+            ...this.mapChannelOptions(input),
+            name: input.name,
+            type: input.type as GuildChannelTypes,
+            parent: input.parentId
+        });
+        return this.mapChannel(channel);
+    }
+
+    /**
+     * Edits a category or channel without syncing it with its category. Settings
+     * that are null are cleared, settings that are undefined are left unchanged.
+     * @param {string} id - The snowflake of the channel
+     * @param {Partial<ChannelInput>} input - The properties to change
+     * @returns {Promise<void>}
+     */
+    async editChannel(id: string, input: Partial<ChannelInput>): Promise<void> {
+        await this.guild.channels.edit(id, {
+            ...this.mapChannelOptions(input),
+            name: input.name,
+            ...(input.parentId !== undefined ? { parent: input.parentId, lockPermissions: false } : {}),
+            ...Object.fromEntries(CLEARABLE_CHANNEL_SETTINGS
+                .filter(setting => input[setting] === null)
+                .map(setting => [setting, null]))
+        });
+    }
+
+    /**
+     * Deletes a category or channel
+     * @param {string} id - The snowflake of the channel
+     * @returns {Promise<void>}
+     */
+    async deleteChannel(id: string): Promise<void> {
+        await this.guild.channels.delete(id);
+    }
+
+    /**
+     * Moves categories and channels in a single request
+     * @param {{ id: string, position: number }[]} positions - The new position of each channel
+     * @returns {Promise<void>}
+     */
+    async setChannelPositions(positions: { id: string; position: number }[]): Promise<void> {
+        await this.guild.channels.setPositions(positions.map(item => ({ channel: item.id, position: item.position })));
+    }
+
+    /**
+     * Reads the guild's settings and boost tier limits
+     * @returns {Promise<GuildSettingsData>} The settings
+     */
+    async fetchSettings(): Promise<GuildSettingsData> {
+        const guild = this.guild;
+        return {
+            name: guild.name,
+            verificationLevel: guild.verificationLevel,
+            explicitContentFilter: guild.explicitContentFilter,
+            defaultMessageNotifications: guild.defaultMessageNotifications,
+            afkChannelId: guild.afkChannelId,
+            afkTimeout: guild.afkTimeout,
+            systemChannelId: guild.systemChannelId,
+            systemChannelFlags: guild.systemChannelFlags.bitfield,
+            rulesChannelId: guild.rulesChannelId,
+            publicUpdatesChannelId: guild.publicUpdatesChannelId,
+            preferredLocale: guild.preferredLocale,
+            iconURL: guild.iconURL({ extension: 'png', size: 4096 }),
+            bannerURL: guild.bannerURL({ extension: 'png', size: 4096 }),
+            splashURL: guild.splashURL({ extension: 'png', size: 4096 }),
+            community: guild.features.includes(GuildFeature.Community),
+            welcomeScreenEnabled: guild.features.includes(GuildFeature.WelcomeScreenEnabled),
+            premiumTier: guild.premiumTier,
+            maximumBitrate: guild.maximumBitrate
+        };
+    }
+
+    /**
+     * Changes the guild's settings in a single request
+     * @param {GuildSettingsEdit} edit - The settings to change
+     * @returns {Promise<void>}
+     */
+    async editSettings(edit: GuildSettingsEdit): Promise<void> {
+        await this.guild.edit({
+            name: edit.name,
+            verificationLevel: edit.verificationLevel,
+            explicitContentFilter: edit.explicitContentFilter,
+            defaultMessageNotifications: edit.defaultMessageNotifications,
+            afkChannel: edit.afkChannelId,
+            afkTimeout: edit.afkTimeout,
+            systemChannel: edit.systemChannelId,
+            systemChannelFlags: edit.systemChannelFlags,
+            rulesChannel: edit.rulesChannelId,
+            publicUpdatesChannel: edit.publicUpdatesChannelId,
+            preferredLocale: edit.preferredLocale as Locale | undefined,
+            icon: edit.icon,
+            banner: edit.banner,
+            splash: edit.splash
+        });
+    }
+
+    /**
+     * Reads the community welcome screen
+     * @returns {Promise<GuildWelcomeScreenData | null>} The welcome screen, or null if it is not enabled or cannot be read
+     */
+    async fetchWelcomeScreen(): Promise<GuildWelcomeScreenData | null> {
+        if (!this.guild.features.includes(GuildFeature.WelcomeScreenEnabled)) return null;
+
+        const screen = await this.guild.fetchWelcomeScreen().catch(() => null);
+        return screen && {
+            enabled: screen.enabled,
+            description: screen.description,
+            channels: [...screen.welcomeChannels.values()].map(welcome => ({
+                channelId: welcome.channelId,
+                description: welcome.description,
+                emoji: welcome.emoji.id || welcome.emoji.name
+                    ? { id: welcome.emoji.id ?? null, name: welcome.emoji.name ?? null }
+                    : null
+            }))
+        };
+    }
+
+    /**
+     * Replaces the community welcome screen
+     * @param {GuildWelcomeScreenData} screen - The new welcome screen
+     * @returns {Promise<void>}
+     */
+    async editWelcomeScreen(screen: GuildWelcomeScreenData): Promise<void> {
+        await this.guild.editWelcomeScreen({
+            enabled: screen.enabled,
+            description: screen.description ?? undefined,
+            welcomeChannels: screen.channels.map(welcome => ({
+                channel: welcome.channelId,
+                description: welcome.description,
+                emoji: welcome.emoji?.id ?? welcome.emoji?.name ?? undefined
+            }))
+        });
+    }
+
+    /**
+     * Lists the guild's custom emojis
+     * @returns {Promise<GuildEmojiData[]>} The emojis
+     */
+    async fetchEmojis(): Promise<GuildEmojiData[]> {
+        const emojis = await this.guild.emojis.fetch();
+        return [...emojis.values()].map(emoji => ({
+            id: emoji.id,
+            name: emoji.name,
+            animated: emoji.animated ?? false,
+            roles: [...emoji.roles.cache.keys()],
+            imageURL: emoji.imageURL({ extension: emoji.animated ? 'gif' : 'png' })
+        }));
+    }
+
+    /**
+     * Creates a custom emoji
+     * @param {EmojiInput} input - The emoji
+     * @returns {Promise<GuildEmojiData>} The new emoji
+     */
+    async createEmoji(input: EmojiInput): Promise<GuildEmojiData> {
+        const emoji = await this.guild.emojis.create({ attachment: input.image, name: input.name, roles: input.roles });
+        return {
+            id: emoji.id,
+            name: emoji.name,
+            animated: emoji.animated ?? false,
+            roles: input.roles,
+            imageURL: emoji.imageURL({ extension: emoji.animated ? 'gif' : 'png' })
+        };
+    }
+
+    /**
+     * Lists the guild's custom stickers
+     * @returns {Promise<GuildStickerData[]>} The stickers
+     */
+    async fetchStickers(): Promise<GuildStickerData[]> {
+        const stickers = await this.guild.stickers.fetch();
+        return [...stickers.values()].map(sticker => ({
+            id: sticker.id,
+            name: sticker.name,
+            description: sticker.description,
+            tags: sticker.tags ?? '',
+            format: sticker.format,
+            url: sticker.url
+        }));
+    }
+
+    /**
+     * Creates a custom sticker
+     * @param {StickerInput} input - The sticker
+     * @returns {Promise<GuildStickerData>} The new sticker
+     */
+    async createSticker(input: StickerInput): Promise<GuildStickerData> {
+        const sticker = await this.guild.stickers.create({
+            file: { attachment: input.image, name: input.fileName },
+            name: input.name,
+            tags: input.tags,
+            description: input.description
+        });
+        return {
+            id: sticker.id,
+            name: sticker.name,
+            description: sticker.description,
+            tags: sticker.tags ?? '',
+            format: sticker.format,
+            url: sticker.url
+        };
+    }
+
+    /**
+     * Reads the bot's highest role and permissions
+     * @returns {Promise<GuildBotData>} What the bot is allowed to do
+     */
+    async fetchBot(): Promise<GuildBotData> {
+        const me = await this.guild.members.fetchMe();
+        return {
+            highestRoleId: me.roles.highest.id === this.guild.id ? null : me.roles.highest.id,
+            highestRolePosition: me.roles.highest.position,
+            permissions: me.permissions.bitfield
+        };
+    }
+
+    /**
+     * Checks whether the bot receives the Guild Members intent
+     * @returns {boolean} True if members can be listed
+     */
+    canFetchMembers(): boolean {
+        return this.guild.client.options.intents.has(GatewayIntentBits.GuildMembers);
+    }
+
+    /**
+     * Lists every member of the guild
+     * @returns {Promise<GuildMemberData[]>} The members
+     */
+    async fetchMembers(): Promise<GuildMemberData[]> {
+        const members = await this.guild.members.fetch();
+        return [...members.values()].map(member => this.mapMember(member));
+    }
+
+    /**
+     * Looks up a single member
+     * @param {string} id - The user ID
+     * @returns {Promise<GuildMemberData | null>} The member, or null if the user is not in the guild
+     */
+    async fetchMember(id: string): Promise<GuildMemberData | null> {
+        const member = await this.guild.members.fetch(id).catch(() => null);
+        return member && this.mapMember(member);
+    }
+
+    /**
+     * Gives a member roles
+     * @param {string} id - The user ID
+     * @param {string[]} roles - Snowflakes of the roles to add
+     * @param {string} reason - The reason shown in the audit log
+     * @returns {Promise<void>}
+     */
+    async addMemberRoles(id: string, roles: string[], reason: string): Promise<void> {
+        const member = await this.guild.members.fetch(id);
+        await member.roles.add(roles, reason);
+    }
+
+    /**
+     * Changes a member's nickname
+     * @param {string} id - The user ID
+     * @param {string | null} nickname - The new nickname, or null to remove it
+     * @param {string} reason - The reason shown in the audit log
+     * @returns {Promise<void>}
+     */
+    async setMemberNickname(id: string, nickname: string | null, reason: string): Promise<void> {
+        await this.guild.members.edit(id, { nick: nickname, reason: reason });
+    }
+
+    /**
+     * Listens for the rate limits Discord.js reports for the client's requests
+     * @param {Function} listener - Called with the milliseconds until requests may continue
+     * @returns {Function} Stops listening
+     */
+    onRateLimit(listener: (retryAfter: number) => void): () => void {
+        const rest = this.guild.client.rest;
+        const onRateLimited = (info: RateLimitData) => listener(info.retryAfter);
+
+        rest.on(RESTEvents.RateLimited, onRateLimited);
+        return () => { rest.off(RESTEvents.RateLimited, onRateLimited); };
+    }
+
+    /**
+     * Maps the properties of a category or channel to Discord.js format, leaving out those that are not set
+     * @param {Partial<ChannelInput>} input - The properties of the channel
+     * @returns {Object} The options shared by creating and editing channels
+     * @private
+     */
+    private mapChannelOptions(input: Partial<ChannelInput>) {
+        return {
+            position: input.position,
+            permissionOverwrites: input.permissionOverwrites,
+            topic: input.topic ?? undefined,
+            nsfw: input.nsfw,
+            rateLimitPerUser: input.rateLimitPerUser,
+            defaultAutoArchiveDuration: input.defaultAutoArchiveDuration ?? undefined,
+            defaultThreadRateLimitPerUser: input.defaultThreadRateLimitPerUser ?? undefined,
+            bitrate: input.bitrate,
+            userLimit: input.userLimit,
+            rtcRegion: input.rtcRegion ?? undefined,
+            videoQualityMode: input.videoQualityMode ?? undefined,
+            availableTags: input.availableTags?.map(tag => ({
+                name: tag.name,
+                moderated: tag.moderated,
+                emoji: tag.emoji && { id: tag.emoji.id, name: tag.emoji.name }
+            })),
+            defaultReactionEmoji: input.defaultReactionEmoji ?? undefined,
+            defaultSortOrder: input.defaultSortOrder ?? undefined,
+            defaultForumLayout: input.defaultForumLayout
+        };
+    }
+
+    /**
+     * Converts a Discord.js role
+     * @param {Role} role - The role
+     * @returns {GuildRoleData} The role data
+     * @private
+     */
+    private mapRole(role: Role): GuildRoleData {
+        return {
+            id: role.id,
+            name: role.name,
+            color: role.color,
+            hoist: role.hoist,
+            position: role.position,
+            permissions: role.permissions.bitfield,
+            mentionable: role.mentionable,
+            managed: role.managed,
+            editable: role.editable
+        };
+    }
+
+    /**
+     * Converts a Discord.js member
+     * @param {GuildMember} member - The member
+     * @returns {GuildMemberData} The member data
+     * @private
+     */
+    private mapMember(member: GuildMember): GuildMemberData {
+        return {
+            id: member.id,
+            bot: member.user.bot,
+            roles: [...member.roles.cache.keys()].filter(id => id !== this.guild.id),
+            nickname: member.nickname,
+            manageable: member.manageable
+        };
+    }
+
+    /**
+     * Converts a Discord.js category or channel
+     * @param {NonThreadGuildBasedChannel} channel - The channel
+     * @returns {GuildChannelData} The channel data
+     * @private
+     */
+    private mapChannel(channel: NonThreadGuildBasedChannel): GuildChannelData {
+        return {
+            id: channel.id,
+            name: channel.name,
+            type: channel.type,
+            position: channel.position,
+            parentId: channel.parentId,
+            permissionOverwrites: [...channel.permissionOverwrites.cache.values()].map(overwrite => ({
+                id: overwrite.id,
+                type: overwrite.type,
+                allow: overwrite.allow.bitfield,
+                deny: overwrite.deny.bitfield
+            })),
+            manageable: channel.manageable,
+            deletable: channel.deletable,
+            ...this.mapChannelSettings(channel)
+        };
+    }
+
+    /**
+     * Reads the type-specific settings of a channel
+     * @param {NonThreadGuildBasedChannel} channel - The channel
+     * @returns {GuildChannelSettings} The settings that apply to the channel's type
+     * @private
+     */
+    private mapChannelSettings(channel: NonThreadGuildBasedChannel): GuildChannelSettings {
+        switch (channel.type) {
+            case ChannelType.GuildText:
+                return {
+                    topic: channel.topic,
+                    nsfw: channel.nsfw,
+                    rateLimitPerUser: channel.rateLimitPerUser,
+                    defaultAutoArchiveDuration: channel.defaultAutoArchiveDuration ?? null,
+                    defaultThreadRateLimitPerUser: channel.defaultThreadRateLimitPerUser
+                };
+            case ChannelType.GuildAnnouncement:
+                return {
+                    topic: channel.topic,
+                    nsfw: channel.nsfw,
+                    defaultAutoArchiveDuration: channel.defaultAutoArchiveDuration ?? null
+                };
+            case ChannelType.GuildVoice:
+            case ChannelType.GuildStageVoice:
+                return {
+                    ...(channel.type === ChannelType.GuildStageVoice ? { topic: channel.topic } : {}),
+                    nsfw: channel.nsfw,
+                    rateLimitPerUser: channel.rateLimitPerUser ?? 0,
+                    bitrate: channel.bitrate,
+                    userLimit: channel.userLimit,
+                    rtcRegion: channel.rtcRegion,
+                    videoQualityMode: channel.videoQualityMode
+                };
+            case ChannelType.GuildForum:
+            case ChannelType.GuildMedia:
+                return {
+                    topic: channel.topic,
+                    nsfw: channel.nsfw,
+                    rateLimitPerUser: channel.rateLimitPerUser ?? 0,
+                    defaultAutoArchiveDuration: channel.defaultAutoArchiveDuration,
+                    defaultThreadRateLimitPerUser: channel.defaultThreadRateLimitPerUser,
+                    availableTags: channel.availableTags.map(tag => ({
+                        name: tag.name,
+                        moderated: tag.moderated,
+                        emoji: tag.emoji ? { id: tag.emoji.id, name: tag.emoji.name } : null
+                    })),
+                    defaultReactionEmoji: channel.defaultReactionEmoji
+                        ? { id: channel.defaultReactionEmoji.id, name: channel.defaultReactionEmoji.name }
+                        : null,
+                    defaultSortOrder: channel.defaultSortOrder,
+                    ...(channel.type === ChannelType.GuildForum ? { defaultForumLayout: channel.defaultForumLayout } : {})
+                };
+            default:
+                return {};
+        }
+    }
+}
+
+/**
+ * Wraps a Discord.js guild in an adapter; adapters are returned as they are
+ * @param {Guild | GuildAdapter} guild - The guild or adapter
+ * @returns {GuildAdapter} The adapter
+ */
+export function adaptGuild(guild: Guild | GuildAdapter): GuildAdapter {
+    return guild instanceof Guild ? new DiscordGuildAdapter(guild) : guild;
+}
@@ -0,0 +1,482 @@
+import { GuildPremiumTier, StickerFormatType } from 'discord.js';
+
+import { TemplateChannel, TemplateEmojiReference } from '../schema/ServerTemplate';
+
+/**
+ * A role of a guild
+ * @interface GuildRoleData
+ */
+export interface GuildRoleData {
+    /** The snowflake of the role; @everyone has the guild's ID */
+    id: string;
+    /** The name of the role */
+    name: string;
+    /** The color of the role in integer format */
+    color: number;
+    /** Whether the role is displayed separately */
+    hoist: boolean;
+    /** The position of the role in the hierarchy, 0 for @everyone */
+    position: number;
+    /** The permissions of the role */
+    permissions: bigint;
+    /** Whether the role is mentionable */
+    mentionable: boolean;
+    /** Whether the role is managed by an integration (bot and booster roles) */
+    managed: boolean;
+    /** Whether the bot is allowed to edit and delete the role */
+    editable: boolean;
+}
+
+/**
+ * The properties of a role that can be set when creating or editing it
+ * @interface RoleInput
+ */
+export interface RoleInput {
+    /** The name of the role */
+    name: string;
+    /** The color of the role in integer format */
+    color: number;
+    /** Whether the role is displayed separately */
+    hoist: boolean;
+    /** The permissions of the role */
+    permissions: bigint;
+    /** Whether the role is mentionable */
+    mentionable: boolean;
+}
+
+/**
+ * A permission overwrite of a category or channel
+ * @interface GuildOverwriteData
+ */
+export interface GuildOverwriteData {
+    /** The snowflake of the role or user */
+    id: string;
+    /** The type of overwrite (0 for role, 1 for member) */
+    type: number;
+    /** The allowed permissions */
+    allow: bigint;
+    /** The denied permissions */
+    deny: bigint;
+}
+
+/** The type-specific settings of a channel; custom emojis are referenced by ID */
+export type GuildChannelSettings = Omit<TemplateChannel, 'key' | 'name' | 'type' | 'position' | 'permissionOverwrites' | 'when'>;
+
+/**
+ * A category or channel of a guild. Threads are not included.
+ * @interface GuildChannelData
+ */
+export interface GuildChannelData extends GuildChannelSettings {
+    /** The snowflake of the channel */
+    id: string;
+    /** The name of the channel */
+    name: string;
+    /** The channel type, as defined in Discord.js ChannelType */
+    type: number;
+    /** The position of the channel in the channel list */
+    position: number;
+    /** The snowflake of the category the channel belongs to, or null */
+    parentId: string | null;
+    /** The permission overwrites of the channel */
+    permissionOverwrites: GuildOverwriteData[];
+    /** Whether the bot is allowed to edit the channel */
+    manageable: boolean;
+    /** Whether the bot is allowed to delete the channel */
+    deletable: boolean;
+}
+
+/**
+ * The properties of a category or channel that can be set when creating or editing it.
+ * Overwrites are applied as given; an edited channel is never synced with its category.
+ * @interface ChannelInput
+ */
+export interface ChannelInput extends GuildChannelSettings {
+    /** The name of the channel */
+    name: string;
+    /** The channel type, as defined in Discord.js ChannelType; cannot be changed by an edit */
+    type: number;
+    /** The position of the channel in the channel list */
+    position?: number;
+    /** The snowflake of the category the channel belongs to, or null */
+    parentId?: string | null;
+    /** The permission overwrites of the channel, replacing the existing ones */
+    permissionOverwrites?: GuildOverwriteData[];
+}
+
+/**
+ * The server-wide settings of a guild, together with the limits that depend on its boost tier
+ * @interface GuildSettingsData
+ */
+export interface GuildSettingsData {
+    /** The name of the guild */
+    name: string;
+    /** Verification level, as defined in Discord.js GuildVerificationLevel */
+    verificationLevel: number;
+    /** Explicit media content filter level, as defined in Discord.js GuildExplicitContentFilter */
+    explicitContentFilter: number;
+    /** Default notification level, as defined in Discord.js GuildDefaultMessageNotifications */
+    defaultMessageNotifications: number;
+    /** The snowflake of the AFK channel */
+    afkChannelId: string | null;
+    /** Seconds of inactivity before a member is moved to the AFK channel */
+    afkTimeout: number;
+    /** The snowflake of the system channel */
+    systemChannelId: string | null;
+    /** Bitfield of suppressed system messages */
+    systemChannelFlags: number;
+    /** The snowflake of the rules channel */
+    rulesChannelId: string | null;
+    /** The snowflake of the community updates channel */
+    publicUpdatesChannelId: string | null;
+    /** The preferred locale, e.g. `en-US` */
+    preferredLocale: string;
+    /** Where the icon can be downloaded from */
+    iconURL: string | null;
+    /** Where the banner can be downloaded from */
+    bannerURL: string | null;
+    /** Where the invite splash image can be downloaded from */
+    splashURL: string | null;
+    /** Whether the guild is a Community server */
+    community: boolean;
+    /** Whether the welcome screen is enabled */
+    welcomeScreenEnabled: boolean;
+    /** The boost tier, which limits emojis, stickers, images and bitrate */
+    premiumTier: GuildPremiumTier;
+    /** The highest bitrate voice channels may have at the boost tier */
+    maximumBitrate: number;
+}
+
+/**
+ * Changes to the server-wide settings; settings that are left out are not changed
+ * @interface GuildSettingsEdit
+ */
+export interface GuildSettingsEdit {
+    /** The name of the guild */
+    name?: string;
+    /** Verification level, as defined in Discord.js GuildVerificationLevel */
+    verificationLevel?: number;
+    /** Explicit media content filter level, as defined in Discord.js GuildExplicitContentFilter */
+    explicitContentFilter?: number;
+    /** Default notification level, as defined in Discord.js GuildDefaultMessageNotifications */
+    defaultMessageNotifications?: number;
+    /** The snowflake of the AFK channel */
+    afkChannelId?: string | null;
+    /** Seconds of inactivity before a member is moved to the AFK channel */
+    afkTimeout?: number;
+    /** The snowflake of the system channel */
+    systemChannelId?: string | null;
+    /** Bitfield of suppressed system messages */
+    systemChannelFlags?: number;
+    /** The snowflake of the rules channel; community servers only */
+    rulesChannelId?: string | null;
+    /** The snowflake of the community updates channel; community servers only */
+    publicUpdatesChannelId?: string | null;
+    /** The preferred locale; community servers only */
+    preferredLocale?: string;
+    /** The icon as a data URI, or null to remove it */
+    icon?: string | null;
+    /** The banner as a data URI, or null to remove it */
+    banner?: string | null;
+    /** The invite splash image as a data URI, or null to remove it */
+    splash?: string | null;
+}
+
+/**
+ * The community welcome screen of a guild
+ * @interface GuildWelcomeScreenData
+ */
+export interface GuildWelcomeScreenData {
+    /** Whether the welcome screen is shown to new members */
+    enabled: boolean;
+    /** The server description shown on the welcome screen */
+    description: string | null;
+    /** The channels recommended to new members */
+    channels: {
+        /** The snowflake of the channel */
+        channelId: string;
+        /** The description shown for the channel */
+        description: string;
+        /** The emoji shown for the channel */
+        emoji: TemplateEmojiReference | null;
+    }[];
+}
+
+/**
+ * A custom emoji of a guild
+ * @interface GuildEmojiData
+ */
+export interface GuildEmojiData {
+    /** The snowflake of the emoji */
+    id: string;
+    /** The name of the emoji */
+    name: string | null;
+    /** Whether the emoji is animated */
+    animated: boolean;
+    /** Snowflakes of the roles allowed to use the emoji; empty for everyone */
+    roles: string[];
+    /** Where the image can be downloaded from */
+    imageURL: string;
+}
+
+/**
+ * The properties of a new custom emoji
+ * @interface EmojiInput
+ */
+export interface EmojiInput {
+    /** The image of the emoji */
+    image: Buffer;
+    /** The name of the emoji */
+    name: string;
+    /** Snowflakes of the roles allowed to use the emoji; empty for everyone */
+    roles: string[];
+}
+
+/**
+ * A custom sticker of a guild
+ * @interface GuildStickerData
+ */
+export interface GuildStickerData {
+    /** The snowflake of the sticker */
+    id: string;
+    /** The name of the sticker */
+    name: string;
+    /** The description of the sticker */
+    description: string | null;
+    /** The name of the unicode emoji the sticker is related to */
+    tags: string;
+    /** The sticker format */
+    format: StickerFormatType;
+    /** Where the image can be downloaded from */
+    url: string;
+}
+
+/**
+ * The properties of a new custom sticker
+ * @interface StickerInput
+ */
+export interface StickerInput {
+    /** The image of the sticker */
+    image: Buffer;
+    /** The file name of the image, whose extension tells the format */
+    fileName: string;
+    /** The name of the sticker */
+    name: string;
+    /** The name of the unicode emoji the sticker is related to */
+    tags: string;
+    /** The description of the sticker */
+    description: string | null;
+}
+
+/**
+ * A member of a guild
+ * @interface GuildMemberData
+ */
+export interface GuildMemberData {
+    /** The user ID of the member */
+    id: string;
+    /** Whether the member is a bot */
+    bot: boolean;
+    /** Snowflakes of the member's roles, without @everyone */
+    roles: string[];
+    /** The member's nickname */
+    nickname: string | null;
+    /** Whether the bot is allowed to change the member's nickname */
+    manageable: boolean;
+}
+
+/**
+ * What the bot itself is allowed to do in a guild
+ * @interface GuildBotData
+ */
+export interface GuildBotData {
+    /** The snowflake of the bot's highest role, or null if it has none */
+    highestRoleId: string | null;
+    /** The position of the bot's highest role; it cannot manage roles at or above it */
+    highestRolePosition: number;
+    /** The bot's guild-wide permissions */
+    permissions: bigint;
+}
+
+/**
+ * The operations imports and exports perform on a guild. The Discord implementation
+ * talks to a live server; the in-memory one lets the import and export logic run offline.
+ * Operations reject with the error of the underlying implementation when the bot
+ * is not allowed to carry them out.
+ * @interface GuildAdapter
+ */
+export interface GuildAdapter {
+    /** The snowflake of the guild, which is also the ID of its @everyone role */
+    readonly id: string;
+
+    /**
+     * Lists the guild's roles
+     * @returns {Promise<GuildRoleData[]>} The roles, in no particular order
+     */
+    fetchRoles(): Promise<GuildRoleData[]>;
+
+    /**
+     * Creates a role below every other role except @everyone
+     * @param {RoleInput} input - The properties of the role
+     * @returns {Promise<GuildRoleData>} The new role
+     */
+    createRole(input: RoleInput): Promise<GuildRoleData>;
+
+    /**
+     * Edits a role
+     * @param {string} id - The snowflake of the role
+     * @param {Partial<RoleInput>} input - The properties to change
+     * @returns {Promise<void>}
+     */
+    editRole(id: string, input: Partial<RoleInput>): Promise<void>;
+
+    /**
+     * Deletes a role
+     * @param {string} id - The snowflake of the role
+     * @returns {Promise<void>}
+     */
+    deleteRole(id: string): Promise<void>;
+
+    /**
+     * Moves roles in the hierarchy in a single request
+     * @param {{ id: string, position: number }[]} positions - The new position of each role
+     * @returns {Promise<void>}
+     */
+    setRolePositions(positions: { id: string; position: number }[]): Promise<void>;
+
+    /**
+     * Lists the guild's categories and channels, without threads
+     * @returns {Promise<GuildChannelData[]>} The categories and channels, in no particular order
+     */
+    fetchChannels(): Promise<GuildChannelData[]>;
+
+    /**
+     * Creates a category or channel
+     * @param {ChannelInput} input - The properties of the channel
+     * @returns {Promise<GuildChannelData>} The new channel
+     */
+    createChannel(input: ChannelInput): Promise<GuildChannelData>;
+
+    /**
+     * Edits a category or channel
+     * @param {string} id - The snowflake of the channel
+     * @param {Partial<ChannelInput>} input - The properties to change; settings set to null are cleared
+     * @returns {Promise<void>}
+     */
+    editChannel(id: string, input: Partial<ChannelInput>): Promise<void>;
+
+    /**
+     * Deletes a category or channel; the channels of a deleted category are left without one
+     * @param {string} id - The snowflake of the channel
+     * @returns {Promise<void>}
+     */
+    deleteChannel(id: string): Promise<void>;
+
+    /**
+     * Moves categories and channels in a single request
+     * @param {{ id: string, position: number }[]} positions - The new position of each channel
+     * @returns {Promise<void>}
+     */
+    setChannelPositions(positions: { id: string; position: number }[]): Promise<void>;
+
+    /**
+     * Reads the guild's settings and boost tier limits
+     * @returns {Promise<GuildSettingsData>} The settings
+     */
+    fetchSettings(): Promise<GuildSettingsData>;
+
+    /**
+     * Changes the guild's settings in a single request
+     * @param {GuildSettingsEdit} edit - The settings to change
+     * @returns {Promise<void>}
+     */
+    editSettings(edit: GuildSettingsEdit): Promise<void>;
+
+    /**
+     * Reads the community welcome screen
+     * @returns {Promise<GuildWelcomeScreenData | null>} The welcome screen, or null if the guild has none
+     */
+    fetchWelcomeScreen(): Promise<GuildWelcomeScreenData | null>;
+
+    /**
+     * Replaces the community welcome screen
+     * @param {GuildWelcomeScreenData} screen - The new welcome screen
+     * @returns {Promise<void>}
+     */
+    editWelcomeScreen(screen: GuildWelcomeScreenData): Promise<void>;
+
+    /**
+     * Lists the guild's custom emojis
+     * @returns {Promise<GuildEmojiData[]>} The emojis
+     */
+    fetchEmojis(): Promise<GuildEmojiData[]>;
+
+    /**
+     * Creates a custom emoji
+     * @param {EmojiInput} input - The emoji
+     * @returns {Promise<GuildEmojiData>} The new emoji
+     */
+    createEmoji(input: EmojiInput): Promise<GuildEmojiData>;
+
+    /**
+     * Lists the guild's custom stickers
+     * @returns {Promise<GuildStickerData[]>} The stickers
+     */
+    fetchStickers(): Promise<GuildStickerData[]>;
+
+    /**
+     * Creates a custom sticker
+     * @param {StickerInput} input - The sticker
+     * @returns {Promise<GuildStickerData>} The new sticker
+     */
+    createSticker(input: StickerInput): Promise<GuildStickerData>;
+
+    /**
+     * Reads the bot's highest role and permissions
+     * @returns {Promise<GuildBotData>} What the bot is allowed to do
+     */
+    fetchBot(): Promise<GuildBotData>;
+
+    /**
+     * Checks whether the members of the guild can be listed, which needs the Guild Members intent
+     * @returns {boolean} True if members can be listed
+     */
+    canFetchMembers(): boolean;
+
+    /**
+     * Lists every member of the guild
+     * @returns {Promise<GuildMemberData[]>} The members
+     */
+    fetchMembers(): Promise<GuildMemberData[]>;
+
+    /**
+     * Looks up a single member
+     * @param {string} id - The user ID
+     * @returns {Promise<GuildMemberData | null>} The member, or null if the user is not in the guild
+     */
+    fetchMember(id: string): Promise<GuildMemberData | null>;
+
+    /**
+     * Gives a member roles
+     * @param {string} id - The user ID
+     * @param {string[]} roles - Snowflakes of the roles to add
+     * @param {string} reason - The reason shown in the audit log
+     * @returns {Promise<void>}
+     */
+    addMemberRoles(id: string, roles: string[], reason: string): Promise<void>;
+
+    /**
+     * Changes a member's nickname
+     * @param {string} id - The user ID
+     * @param {string | null} nickname - The new nickname, or null to remove it
+     * @param {string} reason - The reason shown in the audit log
+     * @returns {Promise<void>}
+     */
+    setMemberNickname(id: string, nickname: string | null, reason: string): Promise<void>;
+
+    /**
+     * Listens for rate limits hit by requests to the guild
+     * @param {Function} listener - Called with the milliseconds until requests may continue
+     * @returns {Function} Stops listening
+     */
+    onRateLimit(listener: (retryAfter: number) => void): () => void;
+}
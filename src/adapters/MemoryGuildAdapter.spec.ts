@@ -0,0 +1,258 @@
+import {
+    ChannelType,
+    GuildPremiumTier,
+    OverwriteType,
+    PermissionFlagsBits
+} from 'discord.js';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+
+import { MemoryGuildAdapter, MemoryGuildError } from './MemoryGuildAdapter';
+import { ExportHelper } from '../helpers/exportFunctions';
+import { ImportHelper } from '../helpers/importFunctions';
+import { ServerTemplate } from '../schema/ServerTemplate';
+
+/** A 1x1 PNG, used as emoji and sticker image */
+const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==', 'base64');
+
+/**
+ * Builds a Community server with roles, overwrites, every channel type's settings, server settings and expressions
+ * @returns {Promise<MemoryGuildAdapter>} The seeded guild
+ */
+async function createSourceGuild(): Promise<MemoryGuildAdapter> {
+    const guild = new MemoryGuildAdapter({ name: 'Source', premiumTier: GuildPremiumTier.Tier2, community: true });
+    const mod = guild.seedRole({ name: 'Mod', color: 0xff0000, hoist: true, permissions: PermissionFlagsBits.KickMembers, mentionable: false });
+    const member = guild.seedRole({ name: 'Member', color: 0x00ff00, hoist: false, permissions: 0n, mentionable: true });
+    guild.seedMember({ id: '42', roles: [mod.id], nickname: 'Boss' });
+
+    const info = guild.seedChannel({
+        name: 'Info',
+        type: ChannelType.GuildCategory,
+        permissionOverwrites: [{ id: guild.id, type: OverwriteType.Role, allow: 0n, deny: PermissionFlagsBits.SendMessages }]
+    });
+    const rules = guild.seedChannel({
+        name: 'rules',
+        type: ChannelType.GuildText,
+        parentId: info.id,
+        topic: 'Read me first',
+        rateLimitPerUser: 10,
+        permissionOverwrites: [
+            { id: mod.id, type: OverwriteType.Role, allow: PermissionFlagsBits.SendMessages, deny: 0n },
+            { id: '42', type: OverwriteType.Member, allow: PermissionFlagsBits.ManageMessages, deny: 0n },
+        ]
+    });
+    const updates = guild.seedChannel({ name: 'updates', type: ChannelType.GuildText, parentId: info.id });
+    guild.seedChannel({
+        name: 'ideas',
+        type: ChannelType.GuildForum,
+        parentId: info.id,
+        availableTags: [{ name: 'Bug', moderated: true, emoji: { id: null, name: '🐛' } }],
+        permissionOverwrites: [{ id: member.id, type: OverwriteType.Role, allow: PermissionFlagsBits.SendMessages, deny: 0n }]
+    });
+    const afk = guild.seedChannel({ name: 'AFK', type: ChannelType.GuildVoice, bitrate: 96000, userLimit: 5 });
+
+    await guild.editSettings({
+        verificationLevel: 2,
+        afkChannelId: afk.id,
+        afkTimeout: 900,
+        systemChannelId: updates.id,
+        rulesChannelId: rules.id,
+        publicUpdatesChannelId: updates.id,
+        icon: `data:image/png;base64,${PNG.toString('base64')}`
+    });
+    await guild.editWelcomeScreen({
+        enabled: true,
+        description: 'Welcome!',
+        channels: [{ channelId: rules.id, description: 'Start here', emoji: null }]
+    });
+    await guild.createEmoji({ image: PNG, name: 'wave', roles: [member.id] });
+    await guild.createSticker({ image: PNG, fileName: 'hello.png', name: 'hello', tags: 'wave', description: 'Says hello' });
+
+    return guild;
+}
+
+/**
+ * Leaves out what differs between any two exports, even of the same server
+ * @param {ServerTemplate} template - An exported template
+ * @returns {Partial<ServerTemplate>} The template without its name and export time
+ */
+function comparable(template: ServerTemplate): Partial<ServerTemplate> {
+    const { name, exportedAt, ...rest } = template;
+    return rest;
+}
+
+describe('MemoryGuildAdapter round trip', () => {
+    it('exports the same template after importing it into another guild', async () => {
+        const exported = await new ExportHelper(await createSourceGuild()).exportTemplate();
+
+        const target = new MemoryGuildAdapter({ id: '2000000000000000000', premiumTier: GuildPremiumTier.Tier2, community: true });
+        target.seedMember({ id: '42' });
+        const report = await new ImportHelper(target).importTemplate(exported);
+
+        expect(report.failedSteps).toEqual([]);
+        expect(report.unresolvedOverwrites).toEqual([]);
+        expect(report.unappliedSettings).toEqual([]);
+        expect(comparable(await new ExportHelper(target).exportTemplate())).toEqual(comparable(exported));
+    });
+
+    it('does not export or recreate the bot\'s integration-managed role', async () => {
+        const source = await createSourceGuild();
+        const exported = await new ExportHelper(source).exportTemplate();
+        expect(exported.roles.map(role => role.name)).toEqual(['Member', 'Mod', '@everyone']);
+
+        const target = new MemoryGuildAdapter({ id: '2000000000000000000', premiumTier: GuildPremiumTier.Tier2, community: true });
+        await new ImportHelper(target).importTemplate(exported);
+
+        const roles = await target.fetchRoles();
+        expect(roles.filter(role => role.name === 'Templatte')).toHaveLength(1);
+        expect(roles).toHaveLength(4);
+    });
+
+    it('leaves nothing to change after syncing a guild with the template', async () => {
+        const exported = await new ExportHelper(await createSourceGuild()).exportTemplate();
+
+        const target = new MemoryGuildAdapter({ id: '2000000000000000000', premiumTier: GuildPremiumTier.Tier2, community: true });
+        target.seedMember({ id: '42' });
+        target.seedRole({ name: 'Mod', color: 0, hoist: false, permissions: 0n, mentionable: false });
+        target.seedChannel({ name: 'rules', type: ChannelType.GuildText, topic: 'Old topic' });
+        await new ImportHelper(target).syncTemplate(exported, { prune: true });
+
+        const plan = await new ImportHelper(target).planTemplate(exported, { prune: true });
+        const changes = [...plan.roles, ...plan.categories, ...plan.channels]
+            .filter(entry => entry.action !== 'keep' || entry.changes.length > 0 || entry.permissionChanges.length > 0);
+        expect(changes).toEqual([]);
+        expect(comparable(await new ExportHelper(target).exportTemplate())).toEqual(comparable(exported));
+    });
+
+    it('clears channel settings the template sets to null when syncing', async () => {
+        const exported = await new ExportHelper(await createSourceGuild()).exportTemplate();
+        const ideas = exported.categories[0].channels.find(channel => channel.key === 'ideas')!;
+        ideas.topic = null;
+        ideas.defaultReactionEmoji = null;
+
+        const target = new MemoryGuildAdapter({ id: '2000000000000000000', premiumTier: GuildPremiumTier.Tier2, community: true });
+        const live = target.seedChannel({
+            name: 'ideas',
+            type: ChannelType.GuildForum,
+            topic: 'Old topic',
+            defaultReactionEmoji: { id: null, name: '👍' }
+        });
+        await new ImportHelper(target).syncTemplate(exported);
+
+        const channel = (await target.fetchChannels()).find(item => item.id === live.id)!;
+        expect(channel.topic).toBeNull();
+        expect(channel.defaultReactionEmoji).toBeNull();
+        const plan = await new ImportHelper(target).planTemplate(exported);
+        expect(plan.channels.find(entry => entry.key === 'ideas')?.changes).toEqual([]);
+    });
+
+    it('refuses a second import that starts while the first one is saving its snapshot', async () => {
+        const dataDir = await mkdtemp(join(tmpdir(), 'templatte-'));
+        process.env.DATA_DIR = dataDir;
+        try {
+            const exported = await new ExportHelper(await createSourceGuild()).exportTemplate();
+            const target = new MemoryGuildAdapter({ id: '2000000000000000000', premiumTier: GuildPremiumTier.Tier2, community: true });
+            const options = { prune: false, skipSettings: [], startedBy: 'first', reason: 'before the first import' };
+
+            const first = new ImportHelper(target).applyTemplate(exported, 'sync', options);
+            expect(ImportHelper.isRunning(target.id)).toBe(true);
+            await expect(new ImportHelper(target).applyTemplate(exported, 'replace', { ...options, startedBy: 'second' }))
+                .rejects.toThrow('already running');
+
+            expect((await first).report.failedSteps).toEqual([]);
+            expect(ImportHelper.isRunning(target.id)).toBe(false);
+        } finally {
+            delete process.env.DATA_DIR;
+            await rm(dataDir, { recursive: true, force: true });
+        }
+    });
+
+    it('reports simulated rate limits and still completes the import', async () => {
+        const exported = await new ExportHelper(await createSourceGuild()).exportTemplate();
+
+        const target = new MemoryGuildAdapter({
+            id: '2000000000000000000',
+            premiumTier: GuildPremiumTier.Tier2,
+            community: true,
+            rateLimit: { every: 5, retryAfter: 5 }
+        });
+        target.seedMember({ id: '42' });
+        const limits: number[] = [];
+        target.onRateLimit(retryAfter => limits.push(retryAfter));
+        const report = await new ImportHelper(target).importTemplate(exported);
+
+        expect(limits.length).toBeGreaterThan(0);
+        expect(report.failedSteps).toEqual([]);
+        expect(comparable(await new ExportHelper(target).exportTemplate())).toEqual(comparable(exported));
+    });
+
+    it('only reports the community settings a template sets as unapplied on a non-Community server', async () => {
+        const source = new MemoryGuildAdapter({ name: 'Source' });
+        source.seedChannel({ name: 'general', type: ChannelType.GuildText });
+        const plain = await new ExportHelper(source).exportTemplate();
+
+        const target = new MemoryGuildAdapter({ id: '2000000000000000000' });
+        expect((await new ImportHelper(target).importTemplate(plain)).unappliedSettings).toEqual([]);
+
+        const community = await new ExportHelper(await createSourceGuild()).exportTemplate();
+        const report = await new ImportHelper(new MemoryGuildAdapter({ id: '3000000000000000000', premiumTier: GuildPremiumTier.Tier2 })).importTemplate(community);
+        expect(report.unappliedSettings.map(setting => setting.setting)).toEqual(['rulesChannel', 'publicUpdatesChannel', 'welcomeScreen']);
+    });
+
+    it('reports the steps a bot without Manage Roles could not carry out', async () => {
+        const exported = await new ExportHelper(await createSourceGuild()).exportTemplate();
+
+        const target = new MemoryGuildAdapter({
+            id: '2000000000000000000',
+            botPermissions: PermissionFlagsBits.ManageChannels | PermissionFlagsBits.ManageGuild
+        });
+        const report = await new ImportHelper(target).importTemplate(exported);
+
+        expect(report.failedSteps.length).toBeGreaterThan(0);
+        expect((await target.fetchRoles()).map(role => role.name)).not.toContain('Mod');
+    });
+});
+
+describe('MemoryGuildAdapter', () => {
+    it('rejects changes to roles at or above the bot\'s role', async () => {
+        const guild = new MemoryGuildAdapter();
+        const bot = await guild.fetchBot();
+        const admin = guild.seedRole({ name: 'Admin', color: 0, hoist: false, permissions: 0n, mentionable: false, position: bot.highestRolePosition + 1 });
+
+        await expect(guild.editRole(admin.id, { name: 'Owner' })).rejects.toThrow(MemoryGuildError);
+        await expect(guild.deleteRole(guild.id)).rejects.toMatchObject({ code: 50028 });
+    });
+
+    it('rejects settings the boost tier or a non-Community server does not allow', async () => {
+        const guild = new MemoryGuildAdapter();
+        const text = guild.seedChannel({ name: 'rules', type: ChannelType.GuildText });
+
+        await expect(guild.editSettings({ rulesChannelId: text.id })).rejects.toMatchObject({ code: 50035 });
+        await expect(guild.editSettings({ banner: `data:image/png;base64,${PNG.toString('base64')}` })).rejects.toMatchObject({ code: 50035 });
+        await expect(guild.createChannel({ name: 'loud', type: ChannelType.GuildVoice, bitrate: 384000 })).rejects.toMatchObject({ code: 50035 });
+    });
+
+    it('clears references to deleted channels and roles', async () => {
+        const guild = new MemoryGuildAdapter({ community: true });
+        const role = guild.seedRole({ name: 'Member', color: 0, hoist: false, permissions: 0n, mentionable: false });
+        const category = guild.seedChannel({ name: 'Info', type: ChannelType.GuildCategory });
+        const text = guild.seedChannel({
+            name: 'rules',
+            type: ChannelType.GuildText,
+            parentId: category.id,
+            permissionOverwrites: [{ id: role.id, type: OverwriteType.Role, allow: 0n, deny: 0n }]
+        });
+        await guild.editSettings({ systemChannelId: text.id });
+
+        await guild.deleteRole(role.id);
+        await guild.deleteChannel(category.id);
+        const [channel] = await guild.fetchChannels();
+        expect(channel.parentId).toBeNull();
+        expect(channel.permissionOverwrites).toEqual([]);
+
+        await guild.deleteChannel(text.id);
+        expect((await guild.fetchSettings()).systemChannelId).toBeNull();
+    });
+});
@@ -0,0 +1,992 @@
+import {
+    ChannelType,
+    GuildPremiumTier,
+    OverwriteType,
+    PermissionFlagsBits,
+    PermissionsBitField,
+    StickerFormatType
+} from 'discord.js';
+
+import {
+    ChannelInput,
+    EmojiInput,
+    GuildAdapter,
+    GuildBotData,
+    GuildChannelData,
+    GuildChannelSettings,
+    GuildEmojiData,
+    GuildMemberData,
+    GuildOverwriteData,
+    GuildRoleData,
+    GuildSettingsData,
+    GuildSettingsEdit,
+    GuildStickerData,
+    GuildWelcomeScreenData,
+    RoleInput,
+    StickerInput
+} from './GuildAdapter';
+
+/** The Discord error codes the in-memory guild rejects requests with */
+export const MEMORY_ERROR_CODES = {
+    unknownChannel: 10003,
+    unknownMember: 10007,
+    unknownRole: 10011,
+    maximumRoles: 30005,
+    maximumEmojis: 30008,
+    maximumChannels: 30013,
+    maximumStickers: 30039,
+    missingPermissions: 50013,
+    invalidRole: 50028,
+    invalidFormBody: 50035,
+} as const;
+
+/**
+ * Thrown by the in-memory guild when Discord would reject a request
+ * @extends {Error}
+ */
+export class MemoryGuildError extends Error {
+    /** The Discord error code of the rejection */
+    public code: number;
+
+    /**
+     * Creates a new MemoryGuildError
+     * @param {number} code - The Discord error code
+     * @param {string} message - Why the request was rejected
+     */
+    constructor(code: number, message: string) {
+        super(message);
+        this.name = 'MemoryGuildError';
+        this.code = code;
+    }
+}
+
+/**
+ * Options for an in-memory guild
+ * @interface MemoryGuildOptions
+ */
+export interface MemoryGuildOptions {
+    /** The snowflake of the guild; the IDs of everything created in it count up from it */
+    id?: string;
+    /** The name of the guild */
+    name?: string;
+    /** The bot's guild-wide permissions (default Administrator) */
+    botPermissions?: bigint;
+    /** The boost tier, which limits emojis, stickers, images and bitrate (default none) */
+    premiumTier?: GuildPremiumTier;
+    /** Whether the guild is a Community server (default false) */
+    community?: boolean;
+    /** Whether the bot receives the Guild Members intent (default true) */
+    memberIntent?: boolean;
+    /** Maximum number of roles, including @everyone (default 250) */
+    maxRoles?: number;
+    /** Maximum number of categories and channels (default 500) */
+    maxChannels?: number;
+    /** Rate limits every `every`-th change request for `retryAfter` milliseconds */
+    rateLimit?: { every: number; retryAfter: number };
+}
+
+/**
+ * A member of the in-memory guild, without the properties that depend on the bot
+ * @interface StoredMember
+ */
+interface StoredMember {
+    id: string;
+    bot: boolean;
+    roles: string[];
+    nickname: string | null;
+}
+
+/** The permissions @everyone starts with */
+const DEFAULT_EVERYONE_PERMISSIONS = PermissionFlagsBits.ViewChannel
+    | PermissionFlagsBits.SendMessages
+    | PermissionFlagsBits.ReadMessageHistory
+    | PermissionFlagsBits.AddReactions
+    | PermissionFlagsBits.Connect
+    | PermissionFlagsBits.Speak;
+
+/** The type-specific settings each channel type has, with their defaults */
+const CHANNEL_SETTINGS: Partial<Record<ChannelType, GuildChannelSettings>> = {
+    [ChannelType.GuildText]: {
+        topic: null,
+        nsfw: false,
+        rateLimitPerUser: 0,
+        defaultAutoArchiveDuration: null,
+        defaultThreadRateLimitPerUser: null
+    },
+    [ChannelType.GuildAnnouncement]: {
+        topic: null,
+        nsfw: false,
+        defaultAutoArchiveDuration: null
+    },
+    [ChannelType.GuildVoice]: {
+        nsfw: false,
+        rateLimitPerUser: 0,
+        bitrate: 64000,
+        userLimit: 0,
+        rtcRegion: null,
+        videoQualityMode: null
+    },
+    [ChannelType.GuildStageVoice]: {
+        topic: null,
+        nsfw: false,
+        rateLimitPerUser: 0,
+        bitrate: 64000,
+        userLimit: 0,
+        rtcRegion: null,
+        videoQualityMode: null
+    },
+    [ChannelType.GuildForum]: {
+        topic: null,
+        nsfw: false,
+        rateLimitPerUser: 0,
+        defaultAutoArchiveDuration: null,
+        defaultThreadRateLimitPerUser: null,
+        availableTags: [],
+        defaultReactionEmoji: null,
+        defaultSortOrder: null,
+        defaultForumLayout: 0
+    },
+    [ChannelType.GuildMedia]: {
+        topic: null,
+        nsfw: false,
+        rateLimitPerUser: 0,
+        defaultAutoArchiveDuration: null,
+        defaultThreadRateLimitPerUser: null,
+        availableTags: [],
+        defaultReactionEmoji: null,
+        defaultSortOrder: null
+    },
+};
+
+/** Highest voice bitrate per boost tier */
+const BITRATE_LIMITS: Record<GuildPremiumTier, number> = {
+    [GuildPremiumTier.None]: 96000,
+    [GuildPremiumTier.Tier1]: 128000,
+    [GuildPremiumTier.Tier2]: 256000,
+    [GuildPremiumTier.Tier3]: 384000,
+};
+
+/** Number of static and of animated emoji slots per boost tier */
+const EMOJI_LIMITS: Record<GuildPremiumTier, number> = {
+    [GuildPremiumTier.None]: 50,
+    [GuildPremiumTier.Tier1]: 100,
+    [GuildPremiumTier.Tier2]: 150,
+    [GuildPremiumTier.Tier3]: 250,
+};
+
+/** Number of sticker slots per boost tier */
+const STICKER_LIMITS: Record<GuildPremiumTier, number> = {
+    [GuildPremiumTier.None]: 5,
+    [GuildPremiumTier.Tier1]: 15,
+    [GuildPremiumTier.Tier2]: 30,
+    [GuildPremiumTier.Tier3]: 60,
+};
+
+/**
+ * A guild that lives entirely in memory, so imports and exports can run without Discord.
+ * It hands out snowflakes, keeps roles and channels in order, and rejects what Discord
+ * would: changes to roles at or above the bot's role, permissions the bot does not have,
+ * settings the boost tier or a non-Community server does not allow, and exceeded limits.
+ * Every change request can be rate limited, which is reported to the rate limit listeners.
+ * The guild starts with @everyone and the bot's own managed role, at the top of the hierarchy;
+ * the seed methods add roles, channels and members without any of these checks.
+ * @class MemoryGuildAdapter
+ */
+export class MemoryGuildAdapter implements GuildAdapter {
+    /** The snowflake of the guild */
+    public readonly id: string;
+    /** The user ID of the bot */
+    public readonly botId: string;
+
+    private nextId: bigint;
+    private botRoleId: string;
+    private botPermissions: bigint;
+    private memberIntent: boolean;
+    private maxRoles: number;
+    private maxChannels: number;
+    private rateLimit: { every: number; retryAfter: number } | null;
+    private requests = 0;
+    private listeners: Set<(retryAfter: number) => void> = new Set();
+
+    private roles: Map<string, Omit<GuildRoleData, 'editable'>> = new Map();
+    private channels: Map<string, Omit<GuildChannelData, 'manageable' | 'deletable'>> = new Map();
+    private emojis: Map<string, GuildEmojiData> = new Map();
+    private stickers: Map<string, GuildStickerData> = new Map();
+    private members: Map<string, StoredMember> = new Map();
+    private settings: Omit<GuildSettingsData, 'iconURL' | 'bannerURL' | 'splashURL' | 'welcomeScreenEnabled' | 'maximumBitrate'>
+        & { icon: string | null; banner: string | null; splash: string | null };
+    private welcomeScreen: GuildWelcomeScreenData | null = null;
+
+    /**
+     * Creates a new in-memory guild
+     * @param {MemoryGuildOptions} [options] - The guild's limits and what the bot may do in it
+     */
+    constructor(options: MemoryGuildOptions = {}) {
+        this.id = options.id ?? '1000000000000000000';
+        this.nextId = BigInt(this.id);
+        this.botPermissions = options.botPermissions ?? PermissionFlagsBits.Administrator;
+        this.memberIntent = options.memberIntent ?? true;
+        this.maxRoles = options.maxRoles ?? 250;
+        this.maxChannels = options.maxChannels ?? 500;
+        this.rateLimit = options.rateLimit ?? null;
+        this.settings = {
+            name: options.name ?? 'Memory Guild',
+            verificationLevel: 0,
+            explicitContentFilter: 0,
+            defaultMessageNotifications: 0,
+            afkChannelId: null,
+            afkTimeout: 300,
+            systemChannelId: null,
+            systemChannelFlags: 0,
+            rulesChannelId: null,
+            publicUpdatesChannelId: null,
+            preferredLocale: 'en-US',
+            icon: null,
+            banner: null,
+            splash: null,
+            community: options.community ?? false,
+            premiumTier: options.premiumTier ?? GuildPremiumTier.None
+        };
+
+        this.roles.set(this.id, {
+            id: this.id,
+            name: '@everyone',
+            color: 0,
+            hoist: false,
+            position: 0,
+            permissions: DEFAULT_EVERYONE_PERMISSIONS,
+            mentionable: false,
+            managed: false
+        });
+        this.botRoleId = this.seedRole({
+            name: 'Templatte',
+            color: 0,
+            hoist: false,
+            permissions: this.botPermissions,
+            mentionable: false,
+            managed: true
+        }).id;
+        this.botId = this.seedMember({ id: this.generateId(), bot: true, roles: [this.botRoleId] }).id;
+    }
+
+    /**
+     * Adds a role without any permission or hierarchy checks
+     * @param {RoleInput & { position?: number, managed?: boolean }} input - The role; by default it is placed right below the bot's role
+     * @returns {GuildRoleData} The new role
+     */
+    seedRole(input: RoleInput & { position?: number; managed?: boolean }): GuildRoleData {
+        const role = {
+            id: this.generateId(),
+            name: input.name,
+            color: input.color,
+            hoist: input.hoist,
+            position: 0,
+            permissions: input.permissions,
+            mentionable: input.mentionable,
+            managed: input.managed ?? false
+        };
+        this.roles.set(role.id, role);
+        this.moveRole(role.id, input.position ?? this.roles.get(this.botRoleId)?.position ?? 1);
+        return this.mapRole(role);
+    }
+
+    /**
+     * Adds a category or channel without any permission checks
+     * @param {ChannelInput} input - The channel
+     * @returns {GuildChannelData} The new channel
+     */
+    seedChannel(input: ChannelInput): GuildChannelData {
+        const channel = {
+            id: this.generateId(),
+            name: input.name,
+            type: input.type,
+            position: input.position ?? this.nextChannelPosition(input.parentId ?? null),
+            parentId: input.parentId ?? null,
+            permissionOverwrites: (input.permissionOverwrites ?? []).map(overwrite => ({ ...overwrite })),
+            ...CHANNEL_SETTINGS[input.type as ChannelType]
+        };
+        this.applyChannelSettings(channel, input);
+        this.channels.set(channel.id, channel);
+        return this.mapChannel(channel);
+    }
+
+    /**
+     * Adds a member
+     * @param {{ id: string, bot?: boolean, roles?: string[], nickname?: string | null }} member - The member
+     * @returns {GuildMemberData} The new member
+     */
+    seedMember(member: { id: string; bot?: boolean; roles?: string[]; nickname?: string | null }): GuildMemberData {
+        const stored: StoredMember = {
+            id: member.id,
+            bot: member.bot ?? false,
+            roles: [...member.roles ?? []],
+            nickname: member.nickname ?? null
+        };
+        this.members.set(stored.id, stored);
+        return this.mapMember(stored);
+    }
+
+    /**
+     * Lists the guild's roles
+     * @returns {Promise<GuildRoleData[]>} The roles
+     */
+    async fetchRoles(): Promise<GuildRoleData[]> {
+        return [...this.roles.values()].map(role => this.mapRole(role));
+    }
+
+    /**
+     * Creates a role at position 1, right above @everyone
+     * @param {RoleInput} input - The properties of the role
+     * @throws {MemoryGuildError} If the bot may not manage roles or grant the permissions, or the role limit is reached
+     * @returns {Promise<GuildRoleData>} The new role
+     */
+    async createRole(input: RoleInput): Promise<GuildRoleData> {
+        await this.request();
+        this.requirePermission(PermissionFlagsBits.ManageRoles, 'creating roles');
+        this.requireGrantable(input.permissions);
+        if (this.roles.size >= this.maxRoles) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.maximumRoles, `Maximum number of guild roles reached (${this.maxRoles})`);
+        }
+
+        return this.seedRole({ ...input, position: 1 });
+    }
+
+    /**
+     * Edits a role
+     * @param {string} id - The snowflake of the role
+     * @param {Partial<RoleInput>} input - The properties to change
+     * @throws {MemoryGuildError} If the role does not exist or is above the bot, or the bot may not grant the permissions
+     * @returns {Promise<void>}
+     */
+    async editRole(id: string, input: Partial<RoleInput>): Promise<void> {
+        await this.request();
+        const role = this.getEditableRole(id);
+        if (input.permissions !== undefined) this.requireGrantable(input.permissions);
+
+        Object.assign(role, Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined)));
+    }
+
+    /**
+     * Deletes a role, removing it from members, overwrites and emoji restrictions
+     * @param {string} id - The snowflake of the role
+     * @throws {MemoryGuildError} If the role is @everyone, does not exist or is above the bot
+     * @returns {Promise<void>}
+     */
+    async deleteRole(id: string): Promise<void> {
+        await this.request();
+        if (id === this.id) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.invalidRole, 'Invalid Role: @everyone cannot be deleted');
+        }
+        this.getEditableRole(id);
+
+        this.roles.delete(id);
+        this.moveRole(null, 0);
+        for (const member of this.members.values()) member.roles = member.roles.filter(role => role !== id);
+        for (const channel of this.channels.values()) {
+            channel.permissionOverwrites = channel.permissionOverwrites.filter(overwrite => overwrite.id !== id);
+        }
+        for (const emoji of this.emojis.values()) emoji.roles = emoji.roles.filter(role => role !== id);
+    }
+
+    /**
+     * Moves roles in the hierarchy, one after the other
+     * @param {{ id: string, position: number }[]} positions - The new position of each role
+     * @throws {MemoryGuildError} If a role is above the bot or would be moved to or above it
+     * @returns {Promise<void>}
+     */
+    async setRolePositions(positions: { id: string; position: number }[]): Promise<void> {
+        await this.request();
+        const botPosition = this.roles.get(this.botRoleId)!.position;
+        for (const item of positions) {
+            this.getEditableRole(item.id);
+            if (item.position >= botPosition) {
+                throw new MemoryGuildError(MEMORY_ERROR_CODES.missingPermissions,
+                    `Missing Permissions: roles cannot be moved to or above the bot's role (position ${botPosition})`);
+            }
+        }
+
+        for (const item of positions) this.moveRole(item.id, item.position);
+    }
+
+    /**
+     * Lists the guild's categories and channels
+     * @returns {Promise<GuildChannelData[]>} The categories and channels
+     */
+    async fetchChannels(): Promise<GuildChannelData[]> {
+        return [...this.channels.values()].map(channel => this.mapChannel(channel));
+    }
+
+    /**
+     * Creates a category or channel; without a position it is placed last in its category
+     * @param {ChannelInput} input - The properties of the channel
+     * @throws {MemoryGuildError} If the bot may not manage channels, the input is invalid or the channel limit is reached
+     * @returns {Promise<GuildChannelData>} The new channel
+     */
+    async createChannel(input: ChannelInput): Promise<GuildChannelData> {
+        await this.request();
+        this.requirePermission(PermissionFlagsBits.ManageChannels, 'creating channels');
+        if (this.channels.size >= this.maxChannels) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.maximumChannels, `Maximum number of guild channels reached (${this.maxChannels})`);
+        }
+        if (input.type !== ChannelType.GuildCategory && !CHANNEL_SETTINGS[input.type as ChannelType]) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.invalidFormBody, `Invalid Form Body: channel type ${input.type} cannot be created`);
+        }
+        this.checkChannelInput(input, input.type);
+
+        return this.seedChannel(input);
+    }
+
+    /**
+     * Edits a category or channel
+     * @param {string} id - The snowflake of the channel
+     * @param {Partial<ChannelInput>} input - The properties to change
+     * @throws {MemoryGuildError} If the channel does not exist, the bot may not manage it or the input is invalid
+     * @returns {Promise<void>}
+     */
+    async editChannel(id: string, input: Partial<ChannelInput>): Promise<void> {
+        await this.request();
+        const channel = this.getChannel(id);
+        this.requirePermission(PermissionFlagsBits.ManageChannels, 'editing channels');
+        if (input.type !== undefined && input.type !== channel.type) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.invalidFormBody, 'Invalid Form Body: the channel type cannot be changed');
+        }
+        this.checkChannelInput(input, channel.type);
+
+        if (input.name !== undefined) channel.name = input.name;
+        if (input.position !== undefined) channel.position = input.position;
+        if (input.parentId !== undefined) channel.parentId = input.parentId;
+        if (input.permissionOverwrites !== undefined) {
+            channel.permissionOverwrites = input.permissionOverwrites.map(overwrite => ({ ...overwrite }));
+        }
+        this.applyChannelSettings(channel, input);
+    }
+
+    /**
+     * Deletes a category or channel. The channels of a deleted category are left
+     * without one, and settings that referenced the channel are cleared.
+     * @param {string} id - The snowflake of the channel
+     * @throws {MemoryGuildError} If the channel does not exist or the bot may not manage channels
+     * @returns {Promise<void>}
+     */
+    async deleteChannel(id: string): Promise<void> {
+        await this.request();
+        this.getChannel(id);
+        this.requirePermission(PermissionFlagsBits.ManageChannels, 'deleting channels');
+
+        this.channels.delete(id);
+        for (const channel of this.channels.values()) {
+            if (channel.parentId === id) channel.parentId = null;
+        }
+        for (const setting of ['afkChannelId', 'systemChannelId', 'rulesChannelId', 'publicUpdatesChannelId'] as const) {
+            if (this.settings[setting] === id) this.settings[setting] = null;
+        }
+        if (this.welcomeScreen) {
+            this.welcomeScreen.channels = this.welcomeScreen.channels.filter(welcome => welcome.channelId !== id);
+        }
+    }
+
+    /**
+     * Moves categories and channels
+     * @param {{ id: string, position: number }[]} positions - The new position of each channel
+     * @throws {MemoryGuildError} If a channel does not exist or the bot may not manage channels
+     * @returns {Promise<void>}
+     */
+    async setChannelPositions(positions: { id: string; position: number }[]): Promise<void> {
+        await this.request();
+        this.requirePermission(PermissionFlagsBits.ManageChannels, 'moving channels');
+        for (const item of positions) this.getChannel(item.id);
+
+        for (const item of positions) this.getChannel(item.id).position = item.position;
+    }
+
+    /**
+     * Reads the guild's settings; images are returned as data URIs
+     * @returns {Promise<GuildSettingsData>} The settings
+     */
+    async fetchSettings(): Promise<GuildSettingsData> {
+        const { icon, banner, splash, ...settings } = this.settings;
+        return {
+            ...settings,
+            iconURL: icon,
+            bannerURL: banner,
+            splashURL: splash,
+            welcomeScreenEnabled: this.welcomeScreen?.enabled ?? false,
+            maximumBitrate: BITRATE_LIMITS[settings.premiumTier]
+        };
+    }
+
+    /**
+     * Changes the guild's settings
+     * @param {GuildSettingsEdit} edit - The settings to change
+     * @throws {MemoryGuildError} If the bot may not manage the guild, a channel does not exist, or a setting
+     * needs a Community server or a higher boost tier
+     * @returns {Promise<void>}
+     */
+    async editSettings(edit: GuildSettingsEdit): Promise<void> {
+        await this.request();
+        this.requirePermission(PermissionFlagsBits.ManageGuild, 'editing the server');
+
+        const invalid = (reason: string) => new MemoryGuildError(MEMORY_ERROR_CODES.invalidFormBody, `Invalid Form Body: ${reason}`);
+        const channels: [keyof GuildSettingsEdit, ChannelType][] = [
+            ['afkChannelId', ChannelType.GuildVoice],
+            ['systemChannelId', ChannelType.GuildText],
+            ['rulesChannelId', ChannelType.GuildText],
+            ['publicUpdatesChannelId', ChannelType.GuildText],
+        ];
+        for (const [setting, type] of channels) {
+            const id = edit[setting];
+            if (typeof id === 'string' && this.channels.get(id)?.type !== type) {
+                throw invalid(`${setting} must be a ${ChannelType[type]} channel of the server`);
+            }
+        }
+        const community = edit.rulesChannelId !== undefined || edit.publicUpdatesChannelId !== undefined;
+        if (community && !this.settings.community) throw invalid('rules and community updates channels need a Community server');
+        if (edit.banner && this.settings.premiumTier < GuildPremiumTier.Tier2) throw invalid('a banner needs boost tier 2');
+        if (edit.splash && this.settings.premiumTier < GuildPremiumTier.Tier1) throw invalid('an invite splash needs boost tier 1');
+
+        const { afkChannelId, systemChannelId, rulesChannelId, publicUpdatesChannelId, ...rest } = edit;
+        const changes = { ...rest, afkChannelId, systemChannelId, rulesChannelId, publicUpdatesChannelId };
+        Object.assign(this.settings, Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)));
+    }
+
+    /**
+     * Reads the community welcome screen
+     * @returns {Promise<GuildWelcomeScreenData | null>} The welcome screen, or null if it is not enabled
+     */
+    async fetchWelcomeScreen(): Promise<GuildWelcomeScreenData | null> {
+        if (!this.welcomeScreen?.enabled) return null;
+        return { ...this.welcomeScreen, channels: this.welcomeScreen.channels.map(welcome => ({ ...welcome })) };
+    }
+
+    /**
+     * Replaces the community welcome screen
+     * @param {GuildWelcomeScreenData} screen - The new welcome screen
+     * @throws {MemoryGuildError} If the guild is not a Community server or a channel does not exist
+     * @returns {Promise<void>}
+     */
+    async editWelcomeScreen(screen: GuildWelcomeScreenData): Promise<void> {
+        await this.request();
+        this.requirePermission(PermissionFlagsBits.ManageGuild, 'editing the welcome screen');
+        if (!this.settings.community) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.invalidFormBody, 'Invalid Form Body: the welcome screen needs a Community server');
+        }
+        for (const welcome of screen.channels) this.getChannel(welcome.channelId);
+
+        this.welcomeScreen = {
+            enabled: screen.enabled,
+            description: screen.description,
+            channels: screen.channels.map(welcome => ({
+                channelId: welcome.channelId,
+                description: welcome.description,
+                emoji: welcome.emoji && { id: welcome.emoji.id, name: welcome.emoji.name }
+            }))
+        };
+    }
+
+    /**
+     * Lists the guild's custom emojis; images are returned as data URIs
+     * @returns {Promise<GuildEmojiData[]>} The emojis
+     */
+    async fetchEmojis(): Promise<GuildEmojiData[]> {
+        return [...this.emojis.values()].map(emoji => ({ ...emoji, roles: [...emoji.roles] }));
+    }
+
+    /**
+     * Creates a custom emoji; it is animated if the image is a GIF
+     * @param {EmojiInput} input - The emoji
+     * @throws {MemoryGuildError} If the bot may not manage expressions or no slot is free at the boost tier
+     * @returns {Promise<GuildEmojiData>} The new emoji
+     */
+    async createEmoji(input: EmojiInput): Promise<GuildEmojiData> {
+        await this.request();
+        this.requirePermission(PermissionFlagsBits.ManageGuildExpressions, 'creating emojis');
+        for (const role of input.roles) this.getRole(role);
+
+        const animated = input.image.subarray(0, 4).toString('ascii') === 'GIF8';
+        const used = [...this.emojis.values()].filter(emoji => emoji.animated === animated).length;
+        if (used >= EMOJI_LIMITS[this.settings.premiumTier]) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.maximumEmojis, 'Maximum number of emojis reached');
+        }
+
+        const emoji: GuildEmojiData = {
+            id: this.generateId(),
+            name: input.name,
+            animated: animated,
+            roles: [...input.roles],
+            imageURL: `data:image/${animated ? 'gif' : 'png'};base64,${input.image.toString('base64')}`
+        };
+        this.emojis.set(emoji.id, emoji);
+        return { ...emoji, roles: [...emoji.roles] };
+    }
+
+    /**
+     * Lists the guild's custom stickers; images are returned as data URIs
+     * @returns {Promise<GuildStickerData[]>} The stickers
+     */
+    async fetchStickers(): Promise<GuildStickerData[]> {
+        return [...this.stickers.values()].map(sticker => ({ ...sticker }));
+    }
+
+    /**
+     * Creates a custom sticker; its format is taken from the file name
+     * @param {StickerInput} input - The sticker
+     * @throws {MemoryGuildError} If the bot may not manage expressions or no slot is free at the boost tier
+     * @returns {Promise<GuildStickerData>} The new sticker
+     */
+    async createSticker(input: StickerInput): Promise<GuildStickerData> {
+        await this.request();
+        this.requirePermission(PermissionFlagsBits.ManageGuildExpressions, 'creating stickers');
+        if (this.stickers.size >= STICKER_LIMITS[this.settings.premiumTier]) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.maximumStickers, 'Maximum number of stickers reached');
+        }
+
+        const gif = input.fileName.endsWith('.gif');
+        const sticker: GuildStickerData = {
+            id: this.generateId(),
+            name: input.name,
+            description: input.description,
+            tags: input.tags,
+            format: gif ? StickerFormatType.GIF : StickerFormatType.PNG,
+            url: `data:image/${gif ? 'gif' : 'png'};base64,${input.image.toString('base64')}`
+        };
+        this.stickers.set(sticker.id, sticker);
+        return { ...sticker };
+    }
+
+    /**
+     * Reads the bot's role and permissions
+     * @returns {Promise<GuildBotData>} What the bot is allowed to do
+     */
+    async fetchBot(): Promise<GuildBotData> {
+        return {
+            highestRoleId: this.botRoleId,
+            highestRolePosition: this.roles.get(this.botRoleId)!.position,
+            permissions: this.botPermissions
+        };
+    }
+
+    /**
+     * Checks whether the bot was given the Guild Members intent
+     * @returns {boolean} True if members can be listed
+     */
+    canFetchMembers(): boolean {
+        return this.memberIntent;
+    }
+
+    /**
+     * Lists every member of the guild
+     * @throws {Error} If the bot does not receive the Guild Members intent
+     * @returns {Promise<GuildMemberData[]>} The members
+     */
+    async fetchMembers(): Promise<GuildMemberData[]> {
+        if (!this.memberIntent) throw new Error('Listing members needs the Guild Members intent');
+        return [...this.members.values()].map(member => this.mapMember(member));
+    }
+
+    /**
+     * Looks up a single member
+     * @param {string} id - The user ID
+     * @returns {Promise<GuildMemberData | null>} The member, or null if the user is not in the guild
+     */
+    async fetchMember(id: string): Promise<GuildMemberData | null> {
+        const member = this.members.get(id);
+        return member ? this.mapMember(member) : null;
+    }
+
+    /**
+     * Gives a member roles
+     * @param {string} id - The user ID
+     * @param {string[]} roles - Snowflakes of the roles to add
+     * @throws {MemoryGuildError} If the member or a role does not exist, or a role is managed or above the bot
+     * @returns {Promise<void>}
+     */
+    async addMemberRoles(id: string, roles: string[]): Promise<void> {
+        await this.request();
+        const member = this.getMember(id);
+        for (const role of roles) this.getEditableRole(role);
+
+        member.roles = [...new Set([...member.roles, ...roles])];
+    }
+
+    /**
+     * Changes a member's nickname
+     * @param {string} id - The user ID
+     * @param {string | null} nickname - The new nickname, or null to remove it
+     * @throws {MemoryGuildError} If the member does not exist or the bot may not change their nickname
+     * @returns {Promise<void>}
+     */
+    async setMemberNickname(id: string, nickname: string | null): Promise<void> {
+        await this.request();
+        const member = this.getMember(id);
+        this.requirePermission(PermissionFlagsBits.ManageNicknames, 'changing nicknames');
+        if (!this.mapMember(member).manageable) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.missingPermissions, 'Missing Permissions: the member\'s highest role is not below the bot\'s');
+        }
+
+        member.nickname = nickname;
+    }
+
+    /**
+     * Listens for the simulated rate limits
+     * @param {Function} listener - Called with the milliseconds until requests may continue
+     * @returns {Function} Stops listening
+     */
+    onRateLimit(listener: (retryAfter: number) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /**
+     * Counts a change request, and holds it back if it hits the simulated rate limit
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async request(): Promise<void> {
+        this.requests++;
+        if (!this.rateLimit || this.requests % this.rateLimit.every !== 0) return;
+
+        const { retryAfter } = this.rateLimit;
+        for (const listener of this.listeners) listener(retryAfter);
+        await new Promise(resolve => setTimeout(resolve, retryAfter));
+    }
+
+    /**
+     * Hands out the next snowflake
+     * @returns {string} The snowflake
+     * @private
+     */
+    private generateId(): string {
+        this.nextId++;
+        return this.nextId.toString();
+    }
+
+    /**
+     * Checks whether the bot has a permission guild-wide
+     * @param {bigint} permission - The permission flag to check
+     * @returns {boolean} True if the bot has the permission or is an administrator
+     * @private
+     */
+    private hasPermission(permission: bigint): boolean {
+        return (this.botPermissions & PermissionFlagsBits.Administrator) !== 0n
+            || (this.botPermissions & permission) === permission;
+    }
+
+    /**
+     * Rejects a request the bot lacks a permission for
+     * @param {bigint} permission - The permission the request needs
+     * @param {string} action - What the request does, for the error message
+     * @throws {MemoryGuildError} If the bot lacks the permission
+     * @private
+     */
+    private requirePermission(permission: bigint, action: string): void {
+        if (!this.hasPermission(permission)) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.missingPermissions,
+                `Missing Permissions: ${action} needs ${new PermissionsBitField(permission).toArray().join(', ')}`);
+        }
+    }
+
+    /**
+     * Rejects permissions the bot cannot grant because it does not have them itself
+     * @param {bigint} permissions - The permissions to grant, allow or deny
+     * @throws {MemoryGuildError} If the bot lacks any of them
+     * @private
+     */
+    private requireGrantable(permissions: bigint): void {
+        if (this.hasPermission(PermissionFlagsBits.Administrator)) return;
+
+        const missing = permissions & ~this.botPermissions;
+        if (missing !== 0n) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.missingPermissions,
+                `Missing Permissions: the bot cannot grant ${new PermissionsBitField(missing).toArray().join(', ')}`);
+        }
+    }
+
+    /**
+     * Looks up a role
+     * @param {string} id - The snowflake of the role
+     * @throws {MemoryGuildError} If the role does not exist
+     * @returns {Omit<GuildRoleData, 'editable'>} The stored role
+     * @private
+     */
+    private getRole(id: string): Omit<GuildRoleData, 'editable'> {
+        const role = this.roles.get(id);
+        if (!role) throw new MemoryGuildError(MEMORY_ERROR_CODES.unknownRole, `Unknown Role: ${id}`);
+        return role;
+    }
+
+    /**
+     * Looks up a role the bot is allowed to change
+     * @param {string} id - The snowflake of the role
+     * @throws {MemoryGuildError} If the role does not exist, or the bot may not manage roles or this role
+     * @returns {Omit<GuildRoleData, 'editable'>} The stored role
+     * @private
+     */
+    private getEditableRole(id: string): Omit<GuildRoleData, 'editable'> {
+        const role = this.getRole(id);
+        this.requirePermission(PermissionFlagsBits.ManageRoles, 'changing roles');
+        if (!this.mapRole(role).editable) {
+            throw new MemoryGuildError(MEMORY_ERROR_CODES.missingPermissions, role.managed
+                ? `Missing Permissions: role ${role.name} is managed by an integration`
+                : `Missing Permissions: role ${role.name} is not below the bot's role`);
+        }
+        return role;
+    }
+
+    /**
+     * Looks up a category or channel
+     * @param {string} id - The snowflake of the channel
+     * @throws {MemoryGuildError} If the channel does not exist
+     * @returns {Omit<GuildChannelData, 'manageable' | 'deletable'>} The stored channel
+     * @private
+     */
+    private getChannel(id: string): Omit<GuildChannelData, 'manageable' | 'deletable'> {
+        const channel = this.channels.get(id);
+        if (!channel) throw new MemoryGuildError(MEMORY_ERROR_CODES.unknownChannel, `Unknown Channel: ${id}`);
+        return channel;
+    }
+
+    /**
+     * Looks up a member
+     * @param {string} id - The user ID
+     * @throws {MemoryGuildError} If the user is not in the guild
+     * @returns {StoredMember} The stored member
+     * @private
+     */
+    private getMember(id: string): StoredMember {
+        const member = this.members.get(id);
+        if (!member) throw new MemoryGuildError(MEMORY_ERROR_CODES.unknownMember, `Unknown Member: ${id}`);
+        return member;
+    }
+
+    /**
+     * Moves a role to a position and numbers all roles from 1 upwards, keeping their order.
+     * @everyone always stays at 0.
+     * @param {string | null} id - The snowflake of the role to move, or null to only renumber
+     * @param {number} position - The new position of the role
+     * @private
+     */
+    private moveRole(id: string | null, position: number): void {
+        const order = [...this.roles.values()]
+            .filter(role => role.id !== this.id && role.id !== id)
+            .sort((a, b) => a.position - b.position || a.id.localeCompare(b.id));
+        const moved = id ? this.roles.get(id) : undefined;
+        if (moved) order.splice(Math.max(0, Math.min(position - 1, order.length)), 0, moved);
+
+        order.forEach((role, index) => { role.position = index + 1; });
+    }
+
+    /**
+     * Finds the position after the last channel of a category, or after the last uncategorized channel
+     * @param {string | null} parentId - The snowflake of the category, or null
+     * @returns {number} The position
+     * @private
+     */
+    private nextChannelPosition(parentId: string | null): number {
+        const siblings = [...this.channels.values()].filter(channel => channel.parentId === parentId);
+        return siblings.length === 0 ? 0 : Math.max(...siblings.map(channel => channel.position)) + 1;
+    }
+
+    /**
+     * Rejects channel properties Discord would refuse
+     * @param {Partial<ChannelInput>} input - The properties to check
+     * @param {number} type - The type of the channel
+     * @throws {MemoryGuildError} If the category, an overwrite target or the bitrate is invalid,
+     * or the bot may not set the overwrites
+     * @private
+     */
+    private checkChannelInput(input: Partial<ChannelInput>, type: number): void {
+        const invalid = (reason: string) => new MemoryGuildError(MEMORY_ERROR_CODES.invalidFormBody, `Invalid Form Body: ${reason}`);
+
+        if (input.parentId) {
+            if (type === ChannelType.GuildCategory) throw invalid('categories cannot have a category');
+            if (this.channels.get(input.parentId)?.type !== ChannelType.GuildCategory) {
+                throw invalid(`category ${input.parentId} does not exist`);
+            }
+        }
+
+        const overwrites = input.permissionOverwrites ?? [];
+        if (overwrites.length > 0) this.requirePermission(PermissionFlagsBits.ManageRoles, 'setting permission overwrites');
+        for (const overwrite of overwrites) {
+            const exists = overwrite.type === OverwriteType.Member ? this.members.has(overwrite.id) : this.roles.has(overwrite.id);
+            if (!exists) throw invalid(`overwrite target ${overwrite.id} does not exist`);
+            this.requireGrantable(overwrite.allow | overwrite.deny);
+        }
+
+        if (input.bitrate !== undefined && input.bitrate > BITRATE_LIMITS[this.settings.premiumTier]) {
+            throw invalid(`bitrate ${input.bitrate} is above the limit of the server's boost tier`);
+        }
+    }
+
+    /**
+     * Copies the settings that apply to a channel's type from the input
+     * @param {Omit<GuildChannelData, 'manageable' | 'deletable'>} channel - The stored channel
+     * @param {Partial<ChannelInput>} input - The new settings
+     * @private
+     */
+    private applyChannelSettings(channel: Omit<GuildChannelData, 'manageable' | 'deletable'>, input: Partial<ChannelInput>): void {
+        const settings = channel as GuildChannelSettings;
+        for (const key of Object.keys(CHANNEL_SETTINGS[channel.type as ChannelType] ?? {}) as (keyof GuildChannelSettings)[]) {
+            const value = input[key];
+            if (value === undefined) continue;
+            Object.assign(settings, { [key]: value });
+        }
+
+        if (settings.availableTags) {
+            settings.availableTags = settings.availableTags.map(tag => ({
+                name: tag.name,
+                moderated: tag.moderated,
+                emoji: tag.emoji && { id: tag.emoji.id, name: tag.emoji.name }
+            }));
+        }
+        if (settings.defaultReactionEmoji) {
+            settings.defaultReactionEmoji = { id: settings.defaultReactionEmoji.id, name: settings.defaultReactionEmoji.name };
+        }
+    }
+
+    /**
+     * Adds what the bot may do with a stored role
+     * @param {Omit<GuildRoleData, 'editable'>} role - The stored role
+     * @returns {GuildRoleData} A copy of the role
+     * @private
+     */
+    private mapRole(role: Omit<GuildRoleData, 'editable'>): GuildRoleData {
+        return {
+            ...role,
+            editable: this.hasPermission(PermissionFlagsBits.ManageRoles)
+                && !role.managed
+                && role.position < this.roles.get(this.botRoleId)!.position
+        };
+    }
+
+    /**
+     * Adds what the bot may do with a stored channel
+     * @param {Omit<GuildChannelData, 'manageable' | 'deletable'>} channel - The stored channel
+     * @returns {GuildChannelData} A copy of the channel
+     * @private
+     */
+    private mapChannel(channel: Omit<GuildChannelData, 'manageable' | 'deletable'>): GuildChannelData {
+        const manageable = this.hasPermission(PermissionFlagsBits.ManageChannels);
+        return {
+            ...channel,
+            permissionOverwrites: channel.permissionOverwrites.map((overwrite: GuildOverwriteData) => ({ ...overwrite })),
+            ...(channel.availableTags ? { availableTags: channel.availableTags.map(tag => ({ ...tag })) } : {}),
+            manageable: manageable,
+            deletable: manageable
+        };
+    }
+
+    /**
+     * Adds whether the bot may change a stored member's nickname
+     * @param {StoredMember} member - The stored member
+     * @returns {GuildMemberData} A copy of the member
+     * @private
+     */
+    private mapMember(member: StoredMember): GuildMemberData {
+        const highest = Math.max(0, ...member.roles.map(id => this.roles.get(id)?.position ?? 0));
+        return {
+            ...member,
+            roles: [...member.roles],
+            manageable: member.id !== this.botId && highest < this.roles.get(this.botRoleId)!.position
+        };
+    }
+}
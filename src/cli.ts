@@ -0,0 +1,304 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { readFile, writeFile } from 'fs/promises';
+
+import { ServerTemplate } from './schema/ServerTemplate';
+import { parseTemplate } from './schema/migrations';
+import {
+    TemplateIssue,
+    TemplateValidationError,
+    validateOverlay
+} from './schema/validateTemplate';
+import { createImportPlan } from './helpers/planFunctions';
+import { auditTemplate, AUDIT_RULES } from './helpers/auditFunctions';
+import { splitList } from './helpers/selectionFunctions';
+import {
+    isNativeTemplate,
+    parseNativeTemplate,
+    toNativeTemplate
+} from './helpers/nativeFunctions';
+import {
+    applyOverlay,
+    createOverlay,
+    isOverlay
+} from './helpers/overlayFunctions';
+import {
+    parseVariableList,
+    renderTemplate,
+    VariableValues
+} from './helpers/renderFunctions';
+import { CliFormatter } from './utils/CliFormatter';
+import { Logger } from './utils/Logger';
+
+/**
+ * Converts a template into an output format
+ * @interface TemplateConverter
+ */
+interface TemplateConverter {
+    /** What the format is, shown in the help text */
+    description: string;
+    /** Converts the template; base is the template given with --base, if any */
+    convert: (template: ServerTemplate, base: ServerTemplate | null) => unknown;
+}
+
+/** The formats the convert command writes, by name */
+const CONVERTERS: Record<string, TemplateConverter> = {
+    template: {
+        description: 'a complete template; overlays are merged with their base',
+        convert: template => template
+    },
+    overlay: {
+        description: 'only the differences from the --base template',
+        convert: (template, base) => {
+            if (!base) throw new Error('Converting to an overlay needs the template it extends, pass it with --base');
+            return createOverlay(base, template);
+        }
+    },
+    'discord-native': {
+        description: 'Discord\'s own server template format, the serialized_source_guild of a template code',
+        convert: template => toNativeTemplate(template)
+    },
+};
+
+/**
+ * Reads and parses a JSON file
+ * @param {string} path - The path of the file
+ * @throws {Error} If the file cannot be read or is not valid JSON
+ * @returns {Promise<unknown>} The parsed content
+ */
+async function readJson(path: string): Promise<unknown> {
+    try {
+        return JSON.parse(await readFile(path, 'utf-8'));
+    } catch (error) {
+        throw new Error(`${path} could not be read: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Loads a template file the same way /import does: it is migrated to the current
+ * schema version and validated, an overlay is merged with its base first, and
+ * a template in Discord's own format is converted
+ * @param {string} path - The path of the template or overlay
+ * @param {string} [basePath] - The path of the base template, needed for overlays
+ * @throws {TemplateValidationError} If the template is invalid or the overlay conflicts with its base
+ * @returns {Promise<ServerTemplate>} The template
+ */
+async function loadTemplate(path: string, basePath?: string): Promise<ServerTemplate> {
+    const data = await readJson(path);
+    if (isNativeTemplate(data)) return parseNativeTemplate(data);
+    if (!isOverlay(data)) return parseTemplate(data);
+
+    if (!basePath) {
+        throw new Error(`${path} is an overlay; pass the template it extends with --base`);
+    }
+    return applyOverlay(parseTemplate(await readJson(basePath)), data);
+}
+
+/**
+ * Writes JSON to a file, or to standard output if no file is given
+ * @param {unknown} data - The data to write
+ * @param {string} [output] - The path of the output file
+ * @returns {Promise<void>}
+ */
+async function writeJson(data: unknown, output?: string): Promise<void> {
+    const content = JSON.stringify(data, null, 2);
+    if (output) {
+        await writeFile(output, `${content}\n`, 'utf-8');
+    } else {
+        process.stdout.write(`${content}\n`);
+    }
+}
+
+/**
+ * Reads the variable values given with --vars-file and --var, the latter taking precedence
+ * @param {{ var?: string[], varsFile?: string }} options - The command options
+ * @throws {Error} If the file is not a JSON object or a value is malformed
+ * @returns {Promise<VariableValues>} The values by variable name
+ */
+async function readVariables(options: { var?: string[]; varsFile?: string }): Promise<VariableValues> {
+    let values: VariableValues = {};
+    if (options.varsFile) {
+        const content = await readJson(options.varsFile);
+        if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+            throw new Error(`${options.varsFile} must contain a JSON object of name/value pairs`);
+        }
+        values = content as VariableValues;
+    }
+
+    for (const pair of options.var ?? []) {
+        values = { ...values, ...parseVariableList(pair) };
+    }
+    return values;
+}
+
+/**
+ * Wraps a command action so errors are printed and set a failing exit code instead of throwing
+ * @param {Function} action - The command action
+ * @returns {Function} The wrapped action
+ */
+function handleErrors<A extends unknown[]>(action: (...args: A) => Promise<void>): (...args: A) => Promise<void> {
+    return async (...args: A) => {
+        try {
+            await action(...args);
+        } catch (error) {
+            console.error(chalk.red((error as Error).message));
+            process.exitCode = 1;
+        }
+    };
+}
+
+/**
+ * Collects the values of an option that can be repeated
+ * @param {string} value - The value given
+ * @param {string[]} previous - The values given before
+ * @returns {string[]} All values
+ */
+function collect(value: string, previous: string[]): string[] {
+    return [...previous, value];
+}
+
+/**
+ * Creates the command line interface. Apart from `start`, every command works
+ * offline, so templates can be checked in CI before anyone imports them.
+ * @returns {Command} The program, ready to parse the command line
+ */
+export function createCli(): Command {
+    const program = new Command()
+        .name('templatte')
+        .description('Validate, compare and transform Templatte server templates');
+
+    program
+        .command('start')
+        .description('Start the Discord bot')
+        .action(handleErrors(async () => {
+            const { Bot } = await import('./Bot');
+            try {
+                await Bot.getInstance().start();
+            } catch (error) {
+                Logger.error('Failed to initialize the bot', error as Error);
+                process.exit(1);
+            }
+        }));
+
+    program
+        .command('validate')
+        .description('Check templates and overlays against the current schema; exits with 1 if any is invalid')
+        .argument('<files...>', 'the template or overlay files to check')
+        .option('-b, --base <file>', 'base template to merge overlays with; without it only the overlay itself is checked')
+        .action(handleErrors(async (files: string[], options: { base?: string }) => {
+            for (const file of files) {
+                let issues: TemplateIssue[] = [];
+                try {
+                    const data = await readJson(file);
+                    if (isOverlay(data) && !options.base) {
+                        issues = validateOverlay(data);
+                    } else {
+                        await loadTemplate(file, options.base);
+                    }
+                } catch (error) {
+                    issues = error instanceof TemplateValidationError
+                        ? error.issues
+                        : [{ path: '', message: (error as Error).message }];
+                }
+
+                console.log(CliFormatter.validation(file, issues));
+                if (issues.length > 0) process.exitCode = 1;
+            }
+        }));
+
+    program
+        .command('audit')
+        .description('Report risky or broken permissions in templates; exits with 1 if any error is found')
+        .argument('<files...>', 'the templates to audit')
+        .option('-b, --base <file>', 'base template for overlays')
+        .option('-s, --suppress <rules>', `comma separated rules to leave out, or rule:key for a single item: ${Object.keys(AUDIT_RULES).join(', ')}`)
+        .option('--json', 'print the findings as JSON')
+        .action(handleErrors(async (files: string[], options: { base?: string; suppress?: string; json?: boolean }) => {
+            for (const file of files) {
+                const findings = auditTemplate(await loadTemplate(file, options.base), { suppress: splitList(options.suppress ?? null) });
+                if (options.json) {
+                    await writeJson({ file, findings });
+                } else {
+                    console.log(CliFormatter.audit(file, findings));
+                }
+                if (findings.some(finding => finding.severity === 'error')) process.exitCode = 1;
+            }
+        }));
+
+    program
+        .command('diff')
+        .description('Show what importing the second template would change in a server built from the first')
+        .argument('<from>', 'the current template')
+        .argument('<to>', 'the template that would be imported')
+        .option('-b, --base <file>', 'base template for overlays')
+        .option('--no-prune', 'leave out roles and channels that only the first template has')
+        .option('--json', 'print the plan as JSON')
+        .action(handleErrors(async (from: string, to: string, options: { base?: string; prune: boolean; json?: boolean }) => {
+            const current = await loadTemplate(from, options.base);
+            const desired = await loadTemplate(to, options.base);
+            const plan = createImportPlan(desired, current, undefined, { prune: options.prune });
+
+            if (options.json) {
+                await writeJson(plan);
+            } else {
+                console.log(CliFormatter.diff(plan));
+            }
+        }));
+
+    program
+        .command('migrate')
+        .description('Upgrade a template to the current schema version')
+        .argument('<file>', 'the template to upgrade')
+        .option('-b, --base <file>', 'base template for overlays')
+        .option('-o, --output <file>', 'file to write the result to (default: standard output)')
+        .option('-i, --in-place', 'overwrite the input file')
+        .action(handleErrors(async (file: string, options: { base?: string; output?: string; inPlace?: boolean }) => {
+            const template = await loadTemplate(file, options.base);
+            await writeJson(template, options.inPlace ? file : options.output);
+        }));
+
+    program
+        .command('render')
+        .description('Fill in the variables of a parameterised template')
+        .argument('<file>', 'the template to render')
+        .option('-v, --var <name=value>', 'a variable value, can be repeated', collect, [])
+        .option('--vars-file <file>', 'a JSON file with variable values; --var takes precedence')
+        .option('-b, --base <file>', 'base template for overlays')
+        .option('-o, --output <file>', 'file to write the result to (default: standard output)')
+        .action(handleErrors(async (file: string, options: { var: string[]; varsFile?: string; base?: string; output?: string }) => {
+            const template = await loadTemplate(file, options.base);
+            await writeJson(renderTemplate(template, await readVariables(options)), options.output);
+        }));
+
+    program
+        .command('convert')
+        .description('Convert a template to another format')
+        .argument('<file>', 'the template or overlay to convert')
+        .requiredOption('-t, --to <format>', `the output format: ${Object.entries(CONVERTERS)
+            .map(([name, converter]) => `${name} (${converter.description})`).join(', ')}`)
+        .option('-b, --base <file>', 'base template for overlays')
+        .option('-o, --output <file>', 'file to write the result to (default: standard output)')
+        .action(handleErrors(async (file: string, options: { to: string; base?: string; output?: string }) => {
+            const converter = CONVERTERS[options.to];
+            if (!converter) {
+                throw new Error(`Unknown format "${options.to}". Valid formats are: ${Object.keys(CONVERTERS).join(', ')}`);
+            }
+
+            const template = await loadTemplate(file, options.base);
+            const base = options.base ? parseTemplate(await readJson(options.base)) : null;
+            await writeJson(converter.convert(template, base), options.output);
+        }));
+
+    program
+        .command('print')
+        .description('Print the roles and the channel tree of a template')
+        .argument('<file>', 'the template to print')
+        .option('-b, --base <file>', 'base template for overlays')
+        .option('--overwrites', 'also list the permission overwrites of categories and channels')
+        .action(handleErrors(async (file: string, options: { base?: string; overwrites?: boolean }) => {
+            const template = await loadTemplate(file, options.base);
+            console.log(CliFormatter.tree(template, options.overwrites));
+        }));
+
+    return program;
+}
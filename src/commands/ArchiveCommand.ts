@@ -0,0 +1,190 @@
+import {
+    ChatInputCommandInteraction,
+    GuildBasedChannel,
+    SlashCommandBuilder,
+    PermissionFlagsBits
+} from 'discord.js';
+
+import { BaseCommand } from '../structures/BaseCommand';
+import {
+    ArchiveHelper,
+    ArchiveManifest,
+    parseArchiveDate,
+    uploadLimit
+} from '../helpers/archiveFunctions';
+import { MessageFormatter } from '../utils/MessageFormatter';
+import { ProgressReporter } from '../utils/ProgressReporter';
+
+/**
+ * Command to archive message history into a downloadable ZIP file,
+ * e.g. to keep compliance records before restructuring a server.
+ * @extends BaseCommand
+ */
+export default class ArchiveCommand extends BaseCommand {
+    /**
+     * Slash command configuration for the archive command.
+     * Requires Administrator permissions to use.
+     */
+    public data = new SlashCommandBuilder()
+        .setName('archive')
+        .setDescription('Archive message history into a ZIP file')
+        .addStringOption(option =>
+            option
+                .setName('channels')
+                .setDescription('Comma separated channels or categories to archive (default: every channel the bot can read)')
+        )
+        .addStringOption(option =>
+            option
+                .setName('after')
+                .setDescription('Only archive messages sent on or after this date, e.g. 2024-01-31')
+        )
+        .addStringOption(option =>
+            option
+                .setName('before')
+                .setDescription('Only archive messages sent before this date, e.g. 2024-12-31')
+        )
+        .addBooleanOption(option =>
+            option
+                .setName('threads')
+                .setDescription('Also archive the threads of the channels (default: true)')
+        )
+        .addStringOption(option =>
+            option
+                .setName('attachments')
+                .setDescription('How to archive attachments (default: links)')
+                .addChoices(
+                    { name: 'links - only record their URLs', value: 'links' },
+                    { name: 'files - download them into the archive', value: 'files' }
+                )
+        )
+        .addBooleanOption(option =>
+            option
+                .setName('include_template')
+                .setDescription('Also include the server structure as template.json')
+        )
+        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder
+
+    /** IDs of the guilds an archive is currently being created in */
+    private running: Set<string> = new Set();
+
+    /**
+     * Executes the archive command.
+     * This method performs the following steps:
+     * 1. Validates the command can be executed in the current context
+     * 2. Resolves the channels and the date range
+     * 3. Pages through the history of every channel and its threads, reporting progress
+     * 4. Replies with the ZIP file, or with where it was stored if it is too large to upload
+     *
+     * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution
+     * @returns {Promise<void>} A promise that resolves when the archive has been created
+     */
+    async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+        await interaction.deferReply({ ephemeral: true });
+
+        const guild = interaction.guild;
+        if (!guild) {
+            await interaction.editReply({ content: 'This command can only be used in a server!' });
+            return;
+        }
+
+        if (!interaction.memberPermissions?.has('Administrator')) {
+            await interaction.editReply({ content: 'You need Administrator permission to use this command!' });
+            return;
+        }
+
+        if (this.running.has(guild.id)) {
+            await interaction.editReply({ content: 'An archive is already being created in this server, please wait for it to finish.' });
+            return;
+        }
+
+        try {
+            this.running.add(guild.id);
+            const helper = new ArchiveHelper(guild);
+
+            let after: Date | undefined;
+            let before: Date | undefined;
+            let requested: GuildBasedChannel[];
+            try {
+                const afterOption = interaction.options.getString('after');
+                const beforeOption = interaction.options.getString('before');
+                after = afterOption ? parseArchiveDate(afterOption) : undefined;
+                before = beforeOption ? parseArchiveDate(beforeOption) : undefined;
+                if (after && before && after >= before) {
+                    throw new Error('The `after` date must be earlier than the `before` date.');
+                }
+
+                const list = interaction.options.getString('channels');
+                requested = list
+                    ? await helper.resolveChannels(list)
+                    : [...(await guild.channels.fetch()).values()].filter(channel => channel !== null);
+            } catch (error) {
+                await interaction.editReply({ content: (error as Error).message });
+                return;
+            }
+
+            const { readable, unreadable } = helper.filterReadable(requested);
+            if (readable.length === 0) {
+                await interaction.editReply({ content: 'None of these channels have messages the bot can read.' });
+                return;
+            }
+
+            const progress = new ProgressReporter(interaction, 'Archiving messages');
+            const { manifest, zipPath, size } = await helper.createArchive({
+                channels: readable,
+                after: after,
+                before: before,
+                threads: interaction.options.getBoolean('threads') ?? true,
+                attachments: interaction.options.getString('attachments') === 'files' ? 'files' : 'links',
+                includeTemplate: interaction.options.getBoolean('include_template') ?? false,
+                createdBy: interaction.user.tag,
+                onProgress: update => progress.update(update)
+            });
+
+            const content = this.describe(manifest, unreadable.map(channel => channel.name));
+            if (size <= uploadLimit(guild)) {
+                await progress.finish({
+                    content: content,
+                    files: [{ attachment: zipPath, name: `${guild.name}-archive-${manifest.id}.zip` }]
+                });
+            } else {
+                await progress.finish({
+                    content: `${content}\n\nThe archive is ${(size / 1024 / 1024).toFixed(1)} MB, too large to upload here; ` +
+                        `it was stored on the bot's host as \`${zipPath}\`.`
+                });
+            }
+        } catch (error) {
+            console.error('Error creating archive:', error);
+            await interaction.editReply({
+                content: 'An error occurred while archiving the messages. Please make sure the bot can read the message history of the channels.'
+            }).catch(console.error);
+        } finally {
+            this.running.delete(guild.id);
+        }
+    }
+
+    /**
+     * Summarizes a finished archive
+     * @param {ArchiveManifest} manifest - The archive's manifest
+     * @param {string[]} unreadable - Names of the requested channels the bot could not read
+     * @returns {string} The summary, trimmed to leave room for a note about where the archive is stored
+     * @private
+     */
+    private describe(manifest: ArchiveManifest, unreadable: string[]): string {
+        const messages = manifest.channels.reduce((count, channel) =>
+            count + channel.messageCount + channel.threads.reduce((sum, thread) => sum + thread.messageCount, 0), 0);
+        const threads = manifest.channels.reduce((count, channel) => count + channel.threads.length, 0);
+
+        const lines = [
+            ...(unreadable.length > 0 ? ['', `Skipped ${unreadable.length} channel(s) the bot cannot read: ${unreadable.join(', ')}`] : []),
+            ...(manifest.failures.length > 0 ? ['', `${manifest.failures.length} channel(s) could not be archived:`] : []),
+            ...manifest.failures.map(failure => `- ${failure.label}: ${failure.reason}`),
+        ];
+
+        return MessageFormatter.appendLines(
+            `Archived ${messages} message(s) from ${manifest.channels.length} channel(s) and ${threads} thread(s) ` +
+            `as \`${manifest.id}\`.`,
+            lines,
+            1700
+        );
+    }
+}
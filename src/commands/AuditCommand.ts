@@ -0,0 +1,111 @@
+import {
+    ChatInputCommandInteraction,
+    SlashCommandBuilder,
+    PermissionFlagsBits
+} from 'discord.js';
+
+import { BaseCommand } from '../structures/BaseCommand';
+import { ExportHelper } from '../helpers/exportFunctions';
+import { auditTemplate, AuditFinding } from '../helpers/auditFunctions';
+import { isNativeTemplate, parseNativeTemplate } from '../helpers/nativeFunctions';
+import { isOverlay } from '../helpers/overlayFunctions';
+import { splitList } from '../helpers/selectionFunctions';
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { parseTemplate } from '../schema/migrations';
+import { MessageFormatter } from '../utils/MessageFormatter';
+
+/**
+ * Command to audit the server, or a template before it is imported, for risky or broken
+ * configurations: dangerous permissions, overwrites for missing roles, channels nobody
+ * can see and roles the bot could not change during an import.
+ * @extends BaseCommand
+ */
+export default class AuditCommand extends BaseCommand {
+    /**
+     * Slash command configuration for the audit command.
+     * Requires Administrator permissions to use.
+     */
+    public data = new SlashCommandBuilder()
+        .setName('audit')
+        .setDescription('Report risky or broken permissions in the server or a template')
+        .addAttachmentOption(option =>
+            option
+                .setName('template')
+                .setDescription('A template JSON file to audit against this server (default: the server itself)')
+        )
+        .addStringOption(option =>
+            option
+                .setName('suppress')
+                .setDescription('Comma separated rules to leave out, or rule:key to leave a rule out for one item')
+        )
+        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder
+
+    /**
+     * Executes the audit command. Rules listed in AUDIT_SUPPRESS are always left out,
+     * in addition to those given with the suppress option.
+     * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution
+     * @returns {Promise<void>} A promise that resolves when the report has been sent
+     */
+    async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const guild = interaction.guild;
+            if (!guild) {
+                await interaction.editReply({ content: 'This command can only be used in a server!' });
+                return;
+            }
+
+            if (!interaction.memberPermissions?.has('Administrator')) {
+                await interaction.editReply({ content: 'You need Administrator permission to use this command!' });
+                return;
+            }
+
+            const attachment = interaction.options.getAttachment('template');
+            let template: ServerTemplate | null = null;
+            if (attachment) {
+                try {
+                    const data = await (await fetch(attachment.url)).json();
+                    if (isOverlay(data)) {
+                        await interaction.editReply({
+                            content: 'Overlays cannot be audited on their own; merge it with its base first, e.g. with `npm run cli -- convert overlay.json --to template --base base.json`.'
+                        });
+                        return;
+                    }
+                    template = isNativeTemplate(data) ? parseNativeTemplate(data) : parseTemplate(data);
+                } catch (error) {
+                    await interaction.editReply({ content: MessageFormatter.templateError(error as Error) });
+                    return;
+                }
+            }
+
+            const state = await new ExportHelper(guild).captureState();
+            const suppress = [
+                ...splitList(process.env.AUDIT_SUPPRESS ?? null),
+                ...splitList(interaction.options.getString('suppress')),
+            ];
+
+            let findings: AuditFinding[];
+            try {
+                findings = auditTemplate(template ?? state.template, { guild: state, suppress });
+            } catch (error) {
+                await interaction.editReply({ content: (error as Error).message });
+                return;
+            }
+
+            const title = template ? `\`${template.name}\` for this server` : 'this server';
+            await interaction.editReply({
+                content: MessageFormatter.auditReport(title, findings),
+                files: findings.length === 0 ? [] : [{
+                    attachment: Buffer.from(JSON.stringify(findings, null, 2), 'utf-8'),
+                    name: `${guild.name}-audit.json`
+                }]
+            });
+        } catch (error) {
+            console.error('Error during audit:', error);
+            await interaction.editReply({
+                content: 'An error occurred while auditing. Please make sure the bot has the necessary permissions.'
+            });
+        }
+    }
+}
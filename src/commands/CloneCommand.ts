@@ -0,0 +1,303 @@
+import {
+    AutocompleteInteraction,
+    ChatInputCommandInteraction,
+    Guild,
+    MessageComponentInteraction,
+    SlashCommandBuilder,
+    PermissionFlagsBits
+} from 'discord.js';
+
+import { BaseCommand } from '../structures/BaseCommand';
+import { ExportHelper } from '../helpers/exportFunctions';
+import { ImportHelper } from '../helpers/importFunctions';
+import { ReplayHelper } from '../helpers/replayFunctions';
+import {
+    addSelectionOptions,
+    readSelection,
+    selectTemplate,
+    splitList
+} from '../helpers/selectionFunctions';
+import {
+    GUILD_SETTINGS,
+    GuildSettingName,
+    ServerTemplate
+} from '../schema/ServerTemplate';
+import { ConfirmationGate } from '../utils/ConfirmationGate';
+import { MessageFormatter } from '../utils/MessageFormatter';
+import { ProgressReporter } from '../utils/ProgressReporter';
+
+/** Milliseconds autocomplete waits for uncached members, well within the 3 seconds Discord allows for a response */
+const AUTOCOMPLETE_BUDGET = 2000;
+
+/**
+ * Command to copy another server the bot is in onto this one, without exporting
+ * and uploading a file. The source server is exported in memory and applied through
+ * the import pipeline, with the same section filters, role matching, confirmation
+ * and snapshot as /import. The user must be an administrator in both servers.
+ *
+ * @extends BaseCommand
+ */
+export default class CloneCommand extends BaseCommand {
+    /**
+     * Slash command configuration for the clone command.
+     * Requires Administrator permissions to use.
+     */
+    public data = addSelectionOptions(new SlashCommandBuilder()
+        .setName('clone')
+        .setDescription('Copy the roles, channels and settings of another server onto this one')
+        .addStringOption(option =>
+            option
+                .setName('source')
+                .setDescription('The server to copy; the bot must be in it and you must be an administrator of it')
+                .setRequired(true)
+                .setAutocomplete(true)
+        )
+        .addStringOption(option =>
+            option
+                .setName('mode')
+                .setDescription('How to apply the source server (default: replace)')
+                .addChoices(
+                    { name: 'replace - delete everything and recreate it', value: 'replace' },
+                    { name: 'sync - edit the server in place', value: 'sync' },
+                    { name: 'plan - only preview the changes a sync would make', value: 'plan' }
+                )
+        )
+        .addStringOption(option =>
+            option
+                .setName('skip_settings')
+                .setDescription('Comma separated server settings to leave unchanged, e.g. name,icon,verificationLevel')
+        )
+        .addBooleanOption(option =>
+            option
+                .setName('prune')
+                .setDescription('In sync and plan mode, delete roles and channels that are not in the source server')
+        )
+        .addBooleanOption(option =>
+            option
+                .setName('owner_confirmation')
+                .setDescription('Also require the server owner to approve the clone')
+        )
+        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder)
+
+    /** Asks for confirmation before a replace or sync clone changes anything */
+    private confirmations = new ConfirmationGate('clone');
+
+    /**
+     * Executes the clone command.
+     * This method performs the following steps:
+     * 1. Checks that the user is an administrator of this server and of the source server,
+     *    and that the bot is in the source server
+     * 2. Exports the source server as a template and limits it to the selected sections;
+     *    partial templates are always synced, never replaced
+     * 3. In plan mode, replies with the changes a sync clone would make and stops.
+     *    Every reply is ephemeral, so other members do not see the source server's layout
+     * 4. Replies with a summary of what will be deleted and created, and
+     *    waits for the invoking user (and optionally the server owner) to confirm
+     *
+     * The confirmed clone is carried out by runClone.
+     *
+     * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution
+     * @returns {Promise<void>} A promise that resolves once the clone is running or awaiting confirmation
+     */
+    async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+        const mode = interaction.options.getString('mode') ?? 'replace';
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const guild = interaction.guild;
+            if (!guild) {
+                await interaction.editReply({ content: 'This command can only be used in a server!' });
+                return;
+            }
+
+            if (!interaction.memberPermissions?.has('Administrator')) {
+                await interaction.editReply({ content: 'You need Administrator permission to use this command!' });
+                return;
+            }
+
+            if (mode !== 'plan' && (ImportHelper.isRunning(guild.id) || ReplayHelper.isRunning(guild.id))) {
+                await interaction.editReply({ content: 'An import is already running in this server, please wait for it to finish.' });
+                return;
+            }
+
+            const value = interaction.options.getString('source', true).trim();
+            const source = interaction.client.guilds.cache.get(value) ??
+                interaction.client.guilds.cache.find(candidate => candidate.name.toLowerCase() === value.toLowerCase());
+            if (!source) {
+                await interaction.editReply({ content: `The bot is not in a server \`${value}\`. Pick one from the suggestions.` });
+                return;
+            }
+
+            if (source.id === guild.id) {
+                await interaction.editReply({ content: 'The source server must be a different server than this one.' });
+                return;
+            }
+
+            if (!await this.isAdministrator(source, interaction.user.id)) {
+                await interaction.editReply({ content: `You need Administrator permission in \`${source.name}\` to clone it.` });
+                return;
+            }
+
+            const skipSettings = splitList(interaction.options.getString('skip_settings'));
+            const unknownSettings = skipSettings.filter(setting => !GUILD_SETTINGS.includes(setting as GuildSettingName));
+            if (unknownSettings.length > 0) {
+                await interaction.editReply({
+                    content: `Unknown server setting(s): ${unknownSettings.join(', ')}. Valid settings are: ${GUILD_SETTINGS.join(', ')}.`
+                });
+                return;
+            }
+
+            let template: ServerTemplate;
+            try {
+                template = selectTemplate(await new ExportHelper(source).exportTemplate(), readSelection(interaction));
+            } catch (error) {
+                await interaction.editReply({ content: (error as Error).message });
+                return;
+            }
+
+            if (template.partial && mode === 'replace') {
+                await interaction.editReply({
+                    content: `The selection only covers part of a server (${template.partial.sections.join(', ')}); ` +
+                        'use `mode:sync` to apply it without deleting anything else.'
+                });
+                return;
+            }
+
+            const prune = interaction.options.getBoolean('prune') ?? false;
+
+            if (mode === 'plan') {
+                const plan = await new ImportHelper(guild).planTemplate(template, { prune });
+                await interaction.editReply({
+                    content: MessageFormatter.plan(template, plan),
+                    files: [{
+                        attachment: Buffer.from(JSON.stringify(plan, null, 2), 'utf-8'),
+                        name: `${guild.name}-clone-plan.json`
+                    }]
+                });
+                return;
+            }
+
+            const importMode = mode === 'sync' ? 'sync' : 'replace';
+            const requireOwner = process.env.REQUIRE_OWNER_CONFIRMATION === 'true' ||
+                (interaction.options.getBoolean('owner_confirmation') ?? false);
+            const summary = await new ImportHelper(guild).summarizeImport(template, importMode, prune);
+
+            await this.confirmations.request(interaction, {
+                content: MessageFormatter.importConfirmation(`/clone mode:${importMode} of \`${source.name}\``, summary, requireOwner),
+                requireOwner: requireOwner,
+                run: confirmed => this.runClone(confirmed, source.name, importMode, template, {
+                    prune,
+                    skipSettings: skipSettings as GuildSettingName[]
+                })
+            });
+        } catch (error) {
+            console.error('Error during clone:', error);
+            await interaction.editReply({
+                content: 'An error occurred while cloning. Please make sure the bot has the necessary permissions in both servers.'
+            }).catch(console.error);
+        }
+    }
+
+    /**
+     * Checks whether a user is an administrator of a guild, fetching the member if it is not cached
+     * @param {Guild} guild - The guild
+     * @param {string} userId - The user ID
+     * @returns {Promise<boolean>} True if the user is in the guild and has Administrator permission
+     * @private
+     */
+    private async isAdministrator(guild: Guild, userId: string): Promise<boolean> {
+        const member = guild.members.cache.get(userId) ?? await guild.members.fetch(userId).catch(() => null);
+        return member?.permissions.has(PermissionFlagsBits.Administrator) ?? false;
+    }
+
+    /**
+     * Suggests the other servers the bot shares with the user and the user administers, for the source option.
+     * Servers where the user is cached are checked first; the others are fetched in parallel, and
+     * servers whose member has not been fetched once the time budget is spent are left out.
+     * @param {AutocompleteInteraction} interaction - The autocomplete interaction
+     * @returns {Promise<void>}
+     */
+    async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+        const typed = interaction.options.getFocused().toLowerCase();
+        const candidates = interaction.client.guilds.cache.filter(guild => guild.id !== interaction.guildId &&
+            (guild.name.toLowerCase().includes(typed) || guild.id.includes(typed)));
+
+        const administered: Guild[] = [];
+        const uncached: Guild[] = [];
+        for (const guild of candidates.values()) {
+            const member = guild.members.cache.get(interaction.user.id);
+            if (!member) uncached.push(guild);
+            else if (member.permissions.has(PermissionFlagsBits.Administrator)) administered.push(guild);
+        }
+
+        if (administered.length < 25 && uncached.length > 0) {
+            const lookups = uncached.map(guild => this.isAdministrator(guild, interaction.user.id)
+                .then(isAdministrator => { if (isAdministrator) administered.push(guild); }));
+            let timer: NodeJS.Timeout | undefined;
+            await Promise.race([
+                Promise.all(lookups),
+                new Promise(resolve => { timer = setTimeout(resolve, AUTOCOMPLETE_BUDGET); })
+            ]);
+            clearTimeout(timer);
+        }
+
+        await interaction.respond(administered.slice(0, 25).map(guild => ({ name: guild.name.slice(0, 100), value: guild.id })));
+    }
+
+    /**
+     * Handles the Confirm, Approve and Cancel buttons of a pending clone
+     * @param {MessageComponentInteraction} interaction - The button interaction
+     * @returns {Promise<void>}
+     */
+    async handleComponent(interaction: MessageComponentInteraction): Promise<void> {
+        await this.confirmations.handle(interaction);
+    }
+
+    /**
+     * Carries out a confirmed clone, with a snapshot first so it can be rolled back
+     * @param {MessageComponentInteraction} interaction - The invoking user's Confirm interaction, also when the owner approved the clone
+     * @param {string} sourceName - The name of the source server
+     * @param {'replace' | 'sync'} mode - Whether the server is wiped and rebuilt or synced in place
+     * @param {ServerTemplate} template - The template exported from the source server
+     * @param {{ prune: boolean, skipSettings: GuildSettingName[] }} options - The import options
+     * @returns {Promise<void>} A promise that resolves when the clone is complete
+     * @private
+     */
+    private async runClone(
+        interaction: MessageComponentInteraction,
+        sourceName: string,
+        mode: 'replace' | 'sync',
+        template: ServerTemplate,
+        options: { prune: boolean; skipSettings: GuildSettingName[] }
+    ): Promise<void> {
+        const progress = new ProgressReporter(interaction, `Cloning \`${sourceName}\``);
+        try {
+            const guild = interaction.guild!;
+            if (ImportHelper.isRunning(guild.id) || ReplayHelper.isRunning(guild.id)) {
+                await interaction.editReply({ content: 'An import is already running in this server, please wait for it to finish.' });
+                return;
+            }
+
+            await interaction.editReply({ content: `Saving a snapshot of the server, then cloning \`${sourceName}\`...` });
+            const { report, snapshot } = await new ImportHelper(guild).applyTemplate(template, mode, {
+                ...options,
+                startedBy: interaction.user.tag,
+                reason: `before /clone of ${sourceName} by ${interaction.user.tag}`,
+                onProgress: update => progress.update(update)
+            });
+
+            await progress.finish({
+                content: MessageFormatter.importReport(
+                    `\`${sourceName}\` has been cloned! A snapshot was saved first; use \`/rollback snapshot:${snapshot.id}\` to undo.`,
+                    report
+                )
+            });
+        } catch (error) {
+            console.error('Error during clone:', error);
+            await progress.finish({
+                content: 'An error occurred while cloning. Please make sure the bot has the necessary permissions. ' +
+                    'If the clone was interrupted, use `/import mode:resume` to continue it.'
+            });
+        }
+    }
+}
@@ -0,0 +1,241 @@
+import {
+    AutocompleteInteraction,
+    ChannelType,
+    ChatInputCommandInteraction,
+    Guild,
+    SlashCommandBuilder,
+    PermissionFlagsBits
+} from 'discord.js';
+
+import { BaseCommand } from '../structures/BaseCommand';
+import { ExportHelper } from '../helpers/exportFunctions';
+import { TemplateLibrary } from '../helpers/libraryFunctions';
+import { renderTemplate } from '../helpers/renderFunctions';
+import { splitList } from '../helpers/selectionFunctions';
+import {
+    DriftConfig,
+    DriftHelper,
+    DriftStore
+} from '../helpers/driftFunctions';
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { MessageFormatter } from '../utils/MessageFormatter';
+
+/**
+ * Command to pin a template to the server and detect drift from it: role and channel
+ * changes are compared with the pinned template, reported to a log channel together
+ * with who made them, and optionally reverted for protected roles and categories.
+ *
+ * @extends BaseCommand
+ */
+export default class DriftCommand extends BaseCommand {
+    /**
+     * Slash command configuration for the drift command.
+     * Requires Administrator permissions to use.
+     */
+    public data = new SlashCommandBuilder()
+        .setName('drift')
+        .setDescription('Detect changes to the server\'s roles and channels')
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('pin')
+                .setDescription('Pin a template the server should match, and watch for changes from it')
+                .addStringOption(option =>
+                    option
+                        .setName('template')
+                        .setDescription('A stored template to pin (default: the server as it is now)')
+                        .setAutocomplete(true)
+                )
+                .addChannelOption(option =>
+                    option
+                        .setName('log_channel')
+                        .setDescription('The channel drift reports are posted to')
+                        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement)
+                )
+                .addBooleanOption(option =>
+                    option
+                        .setName('auto_revert')
+                        .setDescription('Automatically revert changes to the protected roles and categories')
+                )
+                .addStringOption(option =>
+                    option
+                        .setName('protected_roles')
+                        .setDescription('Comma separated role names to revert when auto_revert is on')
+                )
+                .addStringOption(option =>
+                    option
+                        .setName('protected_categories')
+                        .setDescription('Comma separated category names to revert with their channels when auto_revert is on')
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('check')
+                .setDescription('Compare the server with its pinned template now')
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('unpin')
+                .setDescription('Stop watching the server for drift')
+        )
+        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder
+
+    private library: TemplateLibrary = new TemplateLibrary();
+    private store: DriftStore = new DriftStore();
+
+    /**
+     * Executes the drift command by dispatching to its subcommand
+     * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution
+     * @returns {Promise<void>} A promise that resolves when the reply has been sent
+     */
+    async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const guild = interaction.guild;
+            if (!guild) {
+                await interaction.editReply({ content: 'This command can only be used in a server!' });
+                return;
+            }
+
+            if (!interaction.memberPermissions?.has('Administrator')) {
+                await interaction.editReply({ content: 'You need Administrator permission to use this command!' });
+                return;
+            }
+
+            switch (interaction.options.getSubcommand()) {
+                case 'pin': return await this.pin(interaction, guild);
+                case 'check': return await this.check(interaction, guild);
+                case 'unpin': return await this.unpin(interaction, guild);
+            }
+        } catch (error) {
+            console.error('Error managing drift detection:', error);
+            await interaction.editReply({
+                content: 'An error occurred while checking the server for drift. Please make sure the bot can view the audit log.'
+            });
+        }
+    }
+
+    /**
+     * Pins the current server or a stored template, replacing any previous pin
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {Guild} guild - The guild
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async pin(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        const name = interaction.options.getString('template');
+        let template: ServerTemplate;
+        if (name) {
+            try {
+                const stored = await this.library.load(guild.id, name);
+                if (!stored) {
+                    await interaction.editReply({ content: `No template \`${name}\` is stored for this server. Use \`/template list\` to see them.` });
+                    return;
+                }
+                template = renderTemplate(stored.template);
+            } catch (error) {
+                await interaction.editReply({ content: MessageFormatter.templateError(error as Error) });
+                return;
+            }
+        } else {
+            template = await new ExportHelper(guild).exportTemplate();
+        }
+
+        const autoRevert = interaction.options.getBoolean('auto_revert') ?? false;
+        let config: DriftConfig;
+        try {
+            config = await new DriftHelper(guild).pin(template, {
+                templateName: name,
+                pinnedBy: interaction.user.tag,
+                logChannelId: interaction.options.getChannel('log_channel')?.id ?? null,
+                autoRevert: autoRevert,
+                protectedRoles: splitList(interaction.options.getString('protected_roles')),
+                protectedCategories: splitList(interaction.options.getString('protected_categories'))
+            });
+        } catch (error) {
+            await interaction.editReply({ content: (error as Error).message });
+            return;
+        }
+
+        const warning = autoRevert && config.protectedRoles.length === 0 && config.protectedCategories.length === 0
+            ? '\nAuto-revert is on, but no roles or categories are protected; pass `protected_roles` or `protected_categories`.'
+            : '';
+        await interaction.editReply({
+            content: `${name ? `\`${name}\`` : 'The current server'} has been pinned. ${this.describeConfig(config)}${warning}`
+        });
+    }
+
+    /**
+     * Compares the server with its pinned template and replies with the drift
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {Guild} guild - The guild
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async check(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        const config = await this.store.load(guild.id);
+        if (!config) {
+            await interaction.editReply({ content: 'No template is pinned to this server. Pin one with `/drift pin`.' });
+            return;
+        }
+
+        const report = await new DriftHelper(guild).check(config);
+        await interaction.editReply({
+            content: MessageFormatter.driftReport(this.describeConfig(config), report),
+            allowedMentions: { parse: [] }
+        });
+    }
+
+    /**
+     * Removes the server's pin
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {Guild} guild - The guild
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async unpin(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        const removed = await this.store.remove(guild.id);
+        await interaction.editReply({
+            content: removed
+                ? 'The template has been unpinned; the server is no longer watched for drift.'
+                : 'No template is pinned to this server.'
+        });
+    }
+
+    /**
+     * Describes what is pinned and how drift is handled
+     * @param {DriftConfig} config - The pin
+     * @returns {string} The description
+     * @private
+     */
+    private describeConfig(config: DriftConfig): string {
+        const pinned = config.templateName ? `\`${config.templateName}\`` : 'a snapshot of the server';
+        const log = config.logChannelId
+            ? `Drift is reported in <#${config.logChannelId}>`
+            : 'Drift is not reported anywhere; set `log_channel` to get reports';
+        const revert = config.autoRevert
+            ? `, and changes to ${config.protectedRoles.length} role(s) and ${config.protectedCategories.length} category(ies) are reverted.`
+            : '.';
+
+        return `Pinned: ${pinned} by ${config.pinnedBy} <t:${Math.floor(Date.parse(config.pinnedAt) / 1000)}:R>. ${log}${revert}`;
+    }
+
+    /**
+     * Suggests the stored templates of the server for the template option
+     * @param {AutocompleteInteraction} interaction - The autocomplete interaction
+     * @returns {Promise<void>}
+     */
+    async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+        if (!interaction.guildId) {
+            await interaction.respond([]);
+            return;
+        }
+
+        const typed = interaction.options.getFocused().toLowerCase();
+        const entries = await this.library.list(interaction.guildId);
+        await interaction.respond(entries
+            .filter(entry => entry.name.toLowerCase().includes(typed))
+            .slice(0, 25)
+            .map(entry => ({ name: entry.name, value: entry.name })));
+    }
+}
@@ -1,9 +1,22 @@
 import { 
     ChatInputCommandInteraction, 
+    GatewayIntentBits, 
     SlashCommandBuilder 
 } from 'discord.js';
 
 import { BaseCommand } from '../structures/BaseCommand';
+import { ExportHelper } from '../helpers/exportFunctions';
+import { describeNativeOmissions, toNativeTemplate } from '../helpers/nativeFunctions';
+import { createOverlay } from '../helpers/overlayFunctions';
+import { 
+    addSelectionOptions, 
+    isFullSelection, 
+    readSelection, 
+    selectTemplate 
+} from '../helpers/selectionFunctions';
+import { ServerTemplate, TemplateOverlay } from '../schema/ServerTemplate';
+import { parseTemplate } from '../schema/migrations';
+import { MessageFormatter } from '../utils/MessageFormatter';
 
 /**
  * Command to export a Discord server's configuration as a JSON template.
@@ -15,9 +28,42 @@ export default class ExportCommand extends BaseCommand {
      * Slash command builder configuration
      * @public
      */
-    public data = new SlashCommandBuilder()
+    public data = addSelectionOptions(new SlashCommandBuilder()
         .setName('export')
-        .setDescription('Export the server template as a JSON file');
+        .setDescription('Export the server template as a JSON file')
+        .addStringOption(option =>
+            option
+                .setName('mode')
+                .setDescription('What to export (default: full)')
+                .addChoices(
+                    { name: 'full - the whole server as a template', value: 'full' },
+                    { name: 'overlay - only the differences from a base template', value: 'overlay' }
+                )
+        )
+        .addAttachmentOption(option =>
+            option
+                .setName('base')
+                .setDescription('In overlay mode, the base template to compare the server with')
+        )
+        .addStringOption(option =>
+            option
+                .setName('format')
+                .setDescription('The file format (default: json)')
+                .addChoices(
+                    { name: 'json - a template for this bot', value: 'json' },
+                    { name: 'discord-native - a template in Discord\'s own server template format', value: 'discord-native' }
+                )
+        )
+        .addBooleanOption(option =>
+            option
+                .setName('members')
+                .setDescription('Also record the roles of every member, to give them back on import')
+        )
+        .addBooleanOption(option =>
+            option
+                .setName('nicknames')
+                .setDescription('With members, also record member nicknames')
+        ) as SlashCommandBuilder);
 
     /**
      * Executes the export command
@@ -40,120 +86,43 @@ export default class ExportCommand extends BaseCommand {
                 return;
             }
 
-            const roles = await guild.roles.fetch();
-            const rolesData = roles.map(role => ({
-                name: role.name,
-                color: role.color,
-                hoist: role.hoist,
-                position: role.position,
-                permissions: role.permissions.toJSON(),
-                mentionable: role.mentionable
-            }));
-
-            const channels = await guild.channels.fetch();
-            
-            const categories = channels
-                .filter(channel => channel?.type === 4)
-                .map(category => ({
-                    id: category?.id,
-                    name: category?.name,
-                    position: category?.position,
-                    permissionOverwrites: [...category!.permissionOverwrites.cache.values()].map(perm => ({
-                        id: perm.id,
-                        type: perm.type,
-                        allow: perm.allow.toJSON(),
-                        deny: perm.deny.toJSON()
-                    })),
-                    channels: channels
-                        .filter(ch => ch?.parentId === category?.id)
-                        .map(channel => ({
-                            name: channel?.name,
-                            type: channel?.type,
-                            position: channel?.position,
-                            permissionOverwrites: [...channel!.permissionOverwrites.cache.values()].map(perm => ({
-                                id: perm.id,
-                                type: perm.type,
-                                allow: perm.allow.toJSON(),
-                                deny: perm.deny.toJSON()
-                            }))
-                        }))
-                }));
-
-            const uncategorizedChannels = channels
-                .filter(channel => !channel?.parentId && channel?.type !== 4)
-                .map(channel => ({
-                    name: channel?.name,
-                    type: channel?.type,
-                    position: channel?.position,
-                    permissionOverwrites: [...channel!.permissionOverwrites.cache.values()].map(perm => ({
-                        id: perm.id,
-                        type: perm.type,
-                        allow: perm.allow.toJSON(),
-                        deny: perm.deny.toJSON()
-                    }))
-                }));
-
-            /**
-             * Template object containing the server configuration
-             * @type {{
-             *   name: string,
-             *   roles: Array<{
-             *     name: string,
-             *     color: number,
-             *     hoist: boolean,
-             *     position: number,
-             *     permissions: string[],
-             *     mentionable: boolean
-             *   }>,
-             *   categories: Array<{
-             *     id: string,
-             *     name: string,
-             *     position: number,
-             *     permissionOverwrites: Array<{
-             *       id: string,
-             *       type: number,
-             *       allow: string[],
-             *       deny: string[]
-             *     }>,
-             *     channels: Array<{
-             *       name: string,
-             *       type: number,
-             *       position: number,
-             *       permissionOverwrites: Array<{
-             *         id: string,
-             *         type: number,
-             *         allow: string[],
-             *         deny: string[]
-             *       }>
-             *     }>
-             *   }>,
-             *   uncategorizedChannels: Array<{
-             *     name: string,
-             *     type: number,
-             *     position: number,
-             *     permissionOverwrites: Array<{
-             *       id: string,
-             *       type: number,
-             *       allow: string[],
-             *       deny: string[]
-             *     }>
-             *   }>,
-             *   exportedAt: string
-             * }}
-             */
-            const template = {
-                name: guild.name,
-                roles: rolesData,
-                categories: categories,
-                uncategorizedChannels: uncategorizedChannels,
-                exportedAt: new Date().toISOString()
-            };
+            const members = interaction.options.getBoolean('members') ?? false;
+            if (members && !interaction.client.options.intents.has(GatewayIntentBits.GuildMembers)) {
+                await interaction.editReply({
+                    content: 'Exporting members needs the Guild Members intent: enable it for the bot in the Discord developer portal and set `MEMBER_ROLE_BACKUPS=true`.'
+                });
+                return;
+            }
+
+            let template = await new ExportHelper(guild).exportTemplate({
+                members: members,
+                nicknames: interaction.options.getBoolean('nicknames') ?? false
+            });
+
+            if (interaction.options.getString('format') === 'discord-native') {
+                await this.exportNative(interaction, template);
+                return;
+            }
+
+            if (interaction.options.getString('mode') === 'overlay') {
+                await this.exportOverlay(interaction, template);
+                return;
+            }
+
+            try {
+                template = selectTemplate(template, readSelection(interaction));
+            } catch (error) {
+                await interaction.editReply({ content: (error as Error).message });
+                return;
+            }
 
             const jsonData = JSON.stringify(template, null, 2);
             const buffer = Buffer.from(jsonData, 'utf-8');
 
             await interaction.editReply({
-                content: 'Server template exported successfully!',
+                content: template.partial
+                    ? `Partial server template (${template.partial.sections.join(', ')}) exported successfully!`
+                    : 'Server template exported successfully!',
                 files: [{
                     attachment: buffer,
                     name: `${guild.name}-template.json`
@@ -166,4 +135,76 @@ export default class ExportCommand extends BaseCommand {
             });
         }
     }
-} 
\ No newline at end of file
+
+    /**
+     * Replies with the server in Discord's native template format, noting what the format cannot hold
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {ServerTemplate} template - The exported server
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async exportNative(interaction: ChatInputCommandInteraction, template: ServerTemplate): Promise<void> {
+        if (interaction.options.getString('mode') === 'overlay' || !isFullSelection(readSelection(interaction))) {
+            await interaction.editReply({ content: 'Discord templates always cover the whole server; remove the mode, sections, categories and roles options.' });
+            return;
+        }
+
+        const omissions = describeNativeOmissions(template);
+        const content = MessageFormatter.appendLines(
+            'Server exported in Discord\'s template format successfully!',
+            omissions.length > 0 ? ['', 'Discord templates cannot hold these, so they were left out:', ...omissions.map(omission => `- ${omission}`)] : []
+        );
+
+        await interaction.editReply({
+            content: content,
+            files: [{
+                attachment: Buffer.from(JSON.stringify(toNativeTemplate(template), null, 2), 'utf-8'),
+                name: `${interaction.guild!.name}-discord-template.json`
+            }]
+        });
+    }
+
+    /**
+     * Replies with the overlay that turns the base template into the current server
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {ServerTemplate} template - The exported server
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async exportOverlay(interaction: ChatInputCommandInteraction, template: ServerTemplate): Promise<void> {
+        if (!isFullSelection(readSelection(interaction))) {
+            await interaction.editReply({ content: 'Overlays always cover the whole server; remove the sections, categories and roles options.' });
+            return;
+        }
+
+        const attachment = interaction.options.getAttachment('base');
+        if (!attachment) {
+            await interaction.editReply({ content: 'Please provide the base template to compare the server with!' });
+            return;
+        }
+
+        let base: ServerTemplate;
+        try {
+            base = parseTemplate(await (await fetch(attachment.url)).json());
+        } catch (error) {
+            await interaction.editReply({ content: MessageFormatter.templateError(error as Error) });
+            return;
+        }
+
+        let overlay: TemplateOverlay;
+        try {
+            overlay = createOverlay(base, template);
+        } catch (error) {
+            await interaction.editReply({ content: (error as Error).message });
+            return;
+        }
+
+        await interaction.editReply({
+            content: `Overlay on \`${base.name}\` exported successfully!`,
+            files: [{
+                attachment: Buffer.from(JSON.stringify(overlay, null, 2), 'utf-8'),
+                name: `${interaction.guild!.name}-overlay.json`
+            }]
+        });
+    }
+}
@@ -1,11 +1,46 @@
 import { 
+    AutocompleteInteraction,
     ChatInputCommandInteraction,
+    Guild,
+    MessageComponentInteraction,
     SlashCommandBuilder, 
     PermissionFlagsBits 
 } from 'discord.js';
 
 import { BaseCommand } from '../structures/BaseCommand';
-import { ImportHelper } from '../helpers/importFunctions';
+import { ImportHelper, ImportReport } from '../helpers/importFunctions';
+import { JournalStore } from '../helpers/journalFunctions';
+import { 
+    isNativeTemplate, 
+    parseNativeTemplate, 
+    parseTemplateCode 
+} from '../helpers/nativeFunctions';
+import { applyOverlay, isOverlay } from '../helpers/overlayFunctions';
+import { ArchiveManifest, ArchiveStore } from '../helpers/archiveFunctions';
+import { 
+    ReplayCursor, 
+    ReplayHelper, 
+    ReplayStore 
+} from '../helpers/replayFunctions';
+import { 
+    addSelectionOptions, 
+    readSelection, 
+    selectTemplate 
+} from '../helpers/selectionFunctions';
+import { 
+    parseVariableList, 
+    renderTemplate, 
+    VariableValues 
+} from '../helpers/renderFunctions';
+import { 
+    GUILD_SETTINGS, 
+    GuildSettingName, 
+    ServerTemplate 
+} from '../schema/ServerTemplate';
+import { parseTemplate } from '../schema/migrations';
+import { ConfirmationGate } from '../utils/ConfirmationGate';
+import { MessageFormatter } from '../utils/MessageFormatter';
+import { ProgressReporter } from '../utils/ProgressReporter';
 
 /**
  * Command to import a server template from a JSON file.
@@ -19,30 +54,95 @@ export default class ImportCommand extends BaseCommand {
      * Slash command configuration for the import command.
      * Requires Administrator permissions to use.
      */
-    public data = new SlashCommandBuilder()
+    public data = addSelectionOptions(new SlashCommandBuilder()
         .setName('import')
         .setDescription('Import a server template from a JSON file')
         .addAttachmentOption(option => 
             option
                 .setName('template')
-                .setDescription('The template JSON file to import')
-                .setRequired(true)
+                .setDescription('The template JSON file to import (not needed to resume)')
+        )
+        .addStringOption(option =>
+            option
+                .setName('discord_template')
+                .setDescription('Instead of a file, a Discord template code or link, or the pasted JSON of a Discord template')
+        )
+        .addAttachmentOption(option =>
+            option
+                .setName('base')
+                .setDescription('The base template, when the template file is an overlay that extends it')
+        )
+        .addStringOption(option =>
+            option
+                .setName('mode')
+                .setDescription('How to apply the template (default: replace)')
+                .addChoices(
+                    { name: 'replace - delete everything and recreate it', value: 'replace' },
+                    { name: 'sync - edit the server in place', value: 'sync' },
+                    { name: 'plan - only preview the changes a sync would make', value: 'plan' },
+                    { name: 'resume - finish an import that was interrupted', value: 'resume' }
+                )
+        )
+        .addStringOption(option =>
+            option
+                .setName('skip_settings')
+                .setDescription('Comma separated server settings to leave unchanged, e.g. name,icon,verificationLevel')
+        )
+        .addBooleanOption(option =>
+            option
+                .setName('prune')
+                .setDescription('In sync and plan mode, delete roles and channels that are not in the template')
+        )
+        .addBooleanOption(option =>
+            option
+                .setName('owner_confirmation')
+                .setDescription('Also require the server owner to approve the import')
+        )
+        .addStringOption(option =>
+            option
+                .setName('variables')
+                .setDescription('Values for a parameterised template, e.g. projectName=Acme, brandColor=#ff8800, voice=true')
         )
-        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder
+        .addAttachmentOption(option =>
+            option
+                .setName('variables_file')
+                .setDescription('A JSON file with values for a parameterised template; the variables option takes precedence')
+        )
+        .addStringOption(option =>
+            option
+                .setName('archive')
+                .setDescription('An archive created with /archive whose messages are replayed into the imported channels')
+                .setAutocomplete(true)
+        )
+        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder)
+
+    /** Asks for confirmation before a replace or sync import changes anything */
+    private confirmations = new ConfirmationGate('import');
 
     /**
      * Executes the import command.
      * This method performs the following steps:
      * 1. Validates the command can be executed in the current context
-     * 2. Cleans up existing server channels and roles
-     * 3. Imports the new template configuration
+     *    (in resume mode, continues the interrupted import and replay and stops)
+     * 2. Converts a template in Discord's own format (a file, code, link or pasted JSON),
+     *    applies an overlay to its base template, migrates the template to the current schema version,
+     *    validates it, renders it with the
+     *    given variable values and limits it to the selected sections; partial templates are
+     *    always synced, never replaced
+     * 3. Checks that the archive to replay exists and the user may read it
+     * 4. In plan mode, replies with the changes syncing with the template would make and stops
+     * 5. Replies with an ephemeral summary of what will be deleted and created, and
+     *    waits for the invoking user (and optionally the server owner) to confirm
+     * 
+     * The confirmed import is carried out by runImport.
      * 
      * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution
      * @throws {Error} When the template file is invalid or when lacking required permissions
-     * @returns {Promise<void>} A promise that resolves when the import is complete
+     * @returns {Promise<void>} A promise that resolves once the import is running or awaiting confirmation
      */
     async execute(interaction: ChatInputCommandInteraction): Promise<void> {
-        await interaction.deferReply();
+        const mode = interaction.options.getString('mode') ?? 'replace';
+        await interaction.deferReply({ ephemeral: mode === 'replace' || mode === 'sync' });
 
         try {
             const guild = interaction.guild;
@@ -56,56 +156,403 @@ export default class ImportCommand extends BaseCommand {
                 return;
             }
 
-            const attachment = interaction.options.getAttachment('template');
-            if (!attachment) {
-                await interaction.editReply({ content: 'Please provide a template file!' });
+            if (mode !== 'plan' && (ImportHelper.isRunning(guild.id) || ReplayHelper.isRunning(guild.id))) {
+                await interaction.editReply({ content: 'An import is already running in this server, please wait for it to finish.' });
                 return;
             }
 
-            await interaction.editReply({ content: 'Starting server cleanup...' });
+            if (mode === 'resume') {
+                await this.resume(interaction, guild);
+                return;
+            }
 
-            const channels = await guild.channels.fetch();
-            const systemChannelId = guild.systemChannelId;
-            
-            for (const [_, channel] of channels) {
-                if (channel && channel.id !== systemChannelId && channel.deletable) {
-                    await channel.delete().catch(console.error);
-                }
+            const attachment = interaction.options.getAttachment('template');
+            const native = interaction.options.getString('discord_template');
+            if (!attachment && !native) {
+                await interaction.editReply({ content: 'Please provide a template file or a Discord template!' });
+                return;
             }
 
-            const roles = await guild.roles.fetch();
-            const everyoneRole = guild.roles.everyone;
-            const botRole = guild.members.me?.roles.highest;
-            
-            for (const [_, role] of roles) {
-                if (role && 
-                    role.id !== everyoneRole.id && 
-                    role.id !== botRole?.id &&
-                    role.position < (botRole?.position || 0) &&
-                    role.editable) {
-                    await role.delete().catch(console.error);
+            let template: ServerTemplate;
+            try {
+                if (native) {
+                    template = await this.readNative(interaction, native);
+                } else {
+                    const data = await (await fetch(attachment!.url)).json();
+                    template = isNativeTemplate(data)
+                        ? parseNativeTemplate(data)
+                        : isOverlay(data) ? applyOverlay(await this.readBase(interaction), data) : parseTemplate(data);
                 }
+            } catch (error) {
+                await interaction.editReply({ content: MessageFormatter.templateError(error as Error) });
+                return;
             }
 
-            const response = await fetch(attachment.url);
-            const templateData = await response.json();
-            
-            await interaction.editReply({ 
-                content: 'Server cleanup completed! Starting template import...' 
-            });
+            let values: VariableValues;
+            try {
+                values = await this.readVariables(interaction);
+            } catch (error) {
+                await interaction.editReply({ content: `The variable values could not be read: ${(error as Error).message}` });
+                return;
+            }
 
-            const importHelper = new ImportHelper(guild);
-            await importHelper.importTemplate(templateData);
+            try {
+                template = renderTemplate(template, values);
+            } catch (error) {
+                await interaction.editReply({ content: MessageFormatter.templateError(error as Error) });
+                return;
+            }
 
-            await interaction.editReply({ 
-                content: 'Server template has been successfully imported!' 
-            });
+            try {
+                template = selectTemplate(template, readSelection(interaction));
+            } catch (error) {
+                await interaction.editReply({ content: (error as Error).message });
+                return;
+            }
+
+            if (template.partial && interaction.options.getString('mode') === 'replace') {
+                await interaction.editReply({
+                    content: `This template only covers part of a server (${template.partial.sections.join(', ')}); ` +
+                        'use `mode:sync` to apply it without deleting anything else.'
+                });
+                return;
+            }
+
+            const prune = interaction.options.getBoolean('prune') ?? false;
+
+            const requestedSettings = (interaction.options.getString('skip_settings') ?? '')
+                .split(',')
+                .map(setting => setting.trim())
+                .filter(setting => setting.length > 0);
+            const unknownSettings = requestedSettings.filter(setting => !GUILD_SETTINGS.includes(setting as GuildSettingName));
+            if (unknownSettings.length > 0) {
+                await interaction.editReply({
+                    content: `Unknown server setting(s): ${unknownSettings.join(', ')}. Valid settings are: ${GUILD_SETTINGS.join(', ')}.`
+                });
+                return;
+            }
+            const skipSettings = requestedSettings as GuildSettingName[];
+
+            let archive: { sourceGuildId: string; manifest: ArchiveManifest } | null;
+            try {
+                archive = await this.readArchive(interaction, guild);
+            } catch (error) {
+                await interaction.editReply({ content: (error as Error).message });
+                return;
+            }
+
+            if (mode === 'plan') {
+                const plan = await new ImportHelper(guild).planTemplate(template, { prune });
+                await interaction.editReply({
+                    content: MessageFormatter.plan(template, plan),
+                    files: [{
+                        attachment: Buffer.from(JSON.stringify(plan, null, 2), 'utf-8'),
+                        name: `${guild.name}-import-plan.json`
+                    }]
+                });
+                return;
+            }
+
+            const importMode = mode === 'sync' || template.partial ? 'sync' : 'replace';
+            const requireOwner = process.env.REQUIRE_OWNER_CONFIRMATION === 'true' ||
+                (interaction.options.getBoolean('owner_confirmation') ?? false);
+            const summary = await new ImportHelper(guild).summarizeImport(template, importMode, prune);
+            const replay = archive ? { sourceGuildId: archive.sourceGuildId, archiveId: archive.manifest.id } : undefined;
+            const title = `/import mode:${importMode} of \`${template.name}\`` +
+                (archive ? ` with the messages of archive \`${archive.manifest.id}\`` : '');
 
+            await this.confirmations.request(interaction, {
+                content: MessageFormatter.importConfirmation(title, summary, requireOwner),
+                requireOwner: requireOwner,
+                run: confirmed => this.runImport(confirmed, importMode, template, { prune, skipSettings, replay })
+            });
         } catch (error) {
             console.error('Error during import process:', error);
             await interaction.editReply({
                 content: 'An error occurred during the import process. Please make sure you uploaded a valid template file and the bot has the necessary permissions.'
+            }).catch(console.error);
+        }
+    }
+
+    /**
+     * Reads the base template an uploaded overlay extends
+     * @param {ChatInputCommandInteraction} interaction - The command interaction
+     * @throws {Error} If no base template was provided
+     * @throws {TemplateValidationError} If the base template is invalid
+     * @returns {Promise<ServerTemplate>} The base template
+     * @private
+     */
+    private async readBase(interaction: ChatInputCommandInteraction): Promise<ServerTemplate> {
+        const base = interaction.options.getAttachment('base');
+        if (!base) {
+            throw new Error('this file is an overlay; provide the template it extends with the base option');
+        }
+
+        return parseTemplate(await (await fetch(base.url)).json());
+    }
+
+    /**
+     * Reads a template in Discord's native format from the discord_template option
+     * @param {ChatInputCommandInteraction} interaction - The command interaction
+     * @param {string} value - A template code or link, or the pasted JSON of a Discord template
+     * @throws {Error} If the value is neither or no template with the code exists
+     * @throws {TemplateValidationError} If the Discord template cannot be converted
+     * @returns {Promise<ServerTemplate>} The converted template
+     * @private
+     */
+    private async readNative(interaction: ChatInputCommandInteraction, value: string): Promise<ServerTemplate> {
+        if (value.trim().startsWith('{')) {
+            return parseNativeTemplate(JSON.parse(value));
+        }
+
+        const code = parseTemplateCode(value);
+        if (!code) {
+            throw new Error('the discord_template option must be a template code, a template link or the JSON of a Discord template');
+        }
+
+        const source = await interaction.client.fetchGuildTemplate(code).catch(() => null);
+        if (!source) {
+            throw new Error(`no Discord template with the code \`${code}\` exists`);
+        }
+        return parseNativeTemplate(source.serializedGuild);
+    }
+
+    /**
+     * Reads the values for a parameterised template from the variables_file and variables options
+     * @param {ChatInputCommandInteraction} interaction - The command interaction
+     * @throws {Error} If the file is not a JSON object or the option is malformed
+     * @returns {Promise<VariableValues>} The values by variable name
+     * @private
+     */
+    private async readVariables(interaction: ChatInputCommandInteraction): Promise<VariableValues> {
+        let fileValues: VariableValues = {};
+
+        const file = interaction.options.getAttachment('variables_file');
+        if (file) {
+            const content = await (await fetch(file.url)).json();
+            if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+                throw new Error('the variables file must contain a JSON object of name/value pairs');
+            }
+            fileValues = content;
+        }
+
+        return { ...fileValues, ...parseVariableList(interaction.options.getString('variables')) };
+    }
+
+    /**
+     * Continues an interrupted import from its journal, then the pending replay of archived messages
+     * @param {ChatInputCommandInteraction} interaction - The command interaction
+     * @param {Guild} guild - The guild to resume in
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async resume(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        const journal = await new JournalStore().load(guild.id);
+        const cursor = await new ReplayStore().load(guild.id);
+        if (!journal && !cursor) {
+            await interaction.editReply({ content: 'There is no interrupted import to resume in this server.' });
+            return;
+        }
+
+        let content = 'There was no interrupted import left to finish.';
+        if (journal) {
+            await interaction.editReply({
+                content: `Resuming the ${journal.mode} import started by ${journal.startedBy} ` +
+                    `<t:${Math.floor(Date.parse(journal.startedAt) / 1000)}:R>...`
             });
+            const progress = new ProgressReporter(interaction, 'Resuming the import');
+            let report: ImportReport;
+            try {
+                report = await new ImportHelper(guild).runJournal(journal, {
+                    resume: true,
+                    onProgress: update => progress.update(update)
+                });
+            } catch (error) {
+                console.error('Error resuming the import:', error);
+                await progress.finish({
+                    content: 'An error occurred while resuming the import. Please make sure the bot has the necessary permissions, ' +
+                        'then use `/import mode:resume` to try again.'
+                });
+                return;
+            }
+
+            const rollbackHint = journal.snapshotId
+                ? ` Use \`/rollback snapshot:${journal.snapshotId}\` to undo it.`
+                : '';
+            content = MessageFormatter.importReport(`The interrupted import has been completed!${rollbackHint}`, report);
+            await progress.finish({ content });
+        }
+
+        if (cursor) {
+            await this.replayArchive(interaction, guild, cursor, content);
+        }
+    }
+
+    /**
+     * Reads the archive option: either an archive of this server, or `<server ID>/<archive ID>`
+     * for an archive of another server, which the user must be an administrator of
+     * @param {ChatInputCommandInteraction} interaction - The command interaction
+     * @param {Guild} guild - The guild being imported into
+     * @throws {Error} If the archive does not exist or the user may not read it
+     * @returns {Promise<{ sourceGuildId: string, manifest: ArchiveManifest } | null>} The archive, or null if none was given
+     * @private
+     */
+    private async readArchive(
+        interaction: ChatInputCommandInteraction,
+        guild: Guild
+    ): Promise<{ sourceGuildId: string; manifest: ArchiveManifest } | null> {
+        const value = interaction.options.getString('archive')?.trim();
+        if (!value) return null;
+
+        const [sourceGuildId, archiveId] = value.includes('/') ? value.split('/', 2) : [guild.id, value];
+        const manifest = /^\d+$/.test(sourceGuildId)
+            ? await new ArchiveStore().loadManifest(sourceGuildId, archiveId)
+            : null;
+        if (!manifest) {
+            throw new Error(`The archive \`${value}\` was not found.`);
+        }
+
+        if (sourceGuildId !== guild.id) {
+            const source = interaction.client.guilds.cache.get(sourceGuildId);
+            const member = source ? await source.members.fetch(interaction.user.id).catch(() => null) : null;
+            if (!member?.permissions.has(PermissionFlagsBits.Administrator)) {
+                throw new Error('You need Administrator permission in the server the archive was created in to replay it.');
+            }
+        }
+
+        return { sourceGuildId, manifest };
+    }
+
+    /**
+     * Suggests the archives of this server, and of other servers the user is known to administer, for the archive option
+     * @param {AutocompleteInteraction} interaction - The autocomplete interaction
+     * @returns {Promise<void>}
+     */
+    async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+        const typed = interaction.options.getFocused().toLowerCase();
+        const store = new ArchiveStore();
+        const guilds = interaction.client.guilds.cache.filter(guild => guild.id === interaction.guildId ||
+            guild.members.cache.get(interaction.user.id)?.permissions.has(PermissionFlagsBits.Administrator));
+
+        const choices: { name: string; value: string }[] = [];
+        for (const guild of guilds.values()) {
+            for (const manifest of await store.list(guild.id)) {
+                const value = guild.id === interaction.guildId ? manifest.id : `${guild.id}/${manifest.id}`;
+                const name = `${guild.name} - ${manifest.id} (${manifest.channels.length} channel(s))`;
+                if (name.toLowerCase().includes(typed) || value.includes(typed)) {
+                    choices.push({ name: name.slice(0, 100), value });
+                }
+            }
         }
+
+        await interaction.respond(choices.slice(0, 25));
+    }
+
+    /**
+     * Handles the Confirm, Approve and Cancel buttons of a pending import
+     * @param {MessageComponentInteraction} interaction - The button interaction
+     * @returns {Promise<void>}
+     */
+    async handleComponent(interaction: MessageComponentInteraction): Promise<void> {
+        await this.confirmations.handle(interaction);
+    }
+
+    /**
+     * Carries out a confirmed import.
+     * This method performs the following steps:
+     * 1. Saves a snapshot of the server so the import can be rolled back
+     * 2. Starts a journal, so the import can be resumed if it is interrupted
+     * 3. In sync mode, edits the server in place
+     * 4. Otherwise cleans up existing server channels and roles and imports the template
+     * 5. Replays the messages of the requested archive into the imported channels
+     * 
+     * @param {MessageComponentInteraction} interaction - The invoking user's Confirm interaction, also when the owner approved the import
+     * @param {'replace' | 'sync'} mode - Whether the server is wiped and rebuilt or synced in place
+     * @param {ServerTemplate} template - The validated template
+     * @param {{ prune: boolean, skipSettings: GuildSettingName[], replay?: { sourceGuildId: string, archiveId: string } }} options - The import options
+     * @returns {Promise<void>} A promise that resolves when the import is complete
+     * @private
+     */
+    private async runImport(
+        interaction: MessageComponentInteraction,
+        mode: 'replace' | 'sync',
+        template: ServerTemplate,
+        options: { prune: boolean; skipSettings: GuildSettingName[]; replay?: { sourceGuildId: string; archiveId: string } }
+    ): Promise<void> {
+        const progress = new ProgressReporter(interaction, mode === 'sync' ? 'Syncing the server with the template' : 'Importing the template');
+        try {
+            const guild = interaction.guild!;
+            if (ImportHelper.isRunning(guild.id) || ReplayHelper.isRunning(guild.id)) {
+                await interaction.editReply({ content: 'An import is already running in this server, please wait for it to finish.' });
+                return;
+            }
+
+            await interaction.editReply({
+                content: mode === 'sync'
+                    ? 'Saving a snapshot of the server, then syncing it with the template...'
+                    : 'Saving a snapshot of the server, then cleaning it up and importing the template...'
+            });
+
+            const { report, snapshot, replay } = await new ImportHelper(guild).applyTemplate(template, mode, {
+                ...options,
+                startedBy: interaction.user.tag,
+                reason: `before /import mode:${mode} by ${interaction.user.tag}`,
+                onProgress: update => progress.update(update)
+            });
+
+            const rollbackHint = `A snapshot was saved first; use \`/rollback snapshot:${snapshot.id}\` to undo.`;
+            const content = MessageFormatter.importReport(
+                mode === 'sync'
+                    ? `Server has been synced with the template! ${rollbackHint}`
+                    : `Server template has been successfully imported! ${rollbackHint}`,
+                report
+            );
+            await progress.finish({ content });
+
+            if (replay) {
+                await this.replayArchive(interaction, guild, replay, content);
+            }
+        } catch (error) {
+            console.error('Error during import process:', error);
+            await progress.finish({
+                content: 'An error occurred during the import process. Please make sure the bot has the necessary permissions. ' +
+                    'If the import was interrupted, use `/import mode:resume` to continue it.'
+            });
+        }
+    }
+
+    /**
+     * Replays archived messages into the imported channels, showing progress in the reply.
+     * The import's result is restored in the reply afterwards and the replay's result is sent as a follow-up,
+     * or to the user directly if the replay outlasted the interaction token.
+     * @param {ChatInputCommandInteraction | MessageComponentInteraction} interaction - The interaction whose reply shows the progress
+     * @param {Guild} guild - The guild to replay into
+     * @param {ReplayCursor} cursor - The cursor of the replay
+     * @param {string} importResult - The reply describing the import the replay follows
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async replayArchive(
+        interaction: ChatInputCommandInteraction | MessageComponentInteraction,
+        guild: Guild,
+        cursor: ReplayCursor,
+        importResult: string
+    ): Promise<void> {
+        const progress = new ProgressReporter(interaction, `Replaying the messages of archive ${cursor.archiveId}`);
+        let content: string;
+        try {
+            const report = await new ReplayHelper(guild).runReplay(cursor, {
+                onProgress: update => progress.update(update)
+            });
+            content = MessageFormatter.replayReport('The archived messages have been replayed!', report);
+        } catch (error) {
+            console.error('Error replaying archived messages:', error);
+            content = `The archived messages could not be replayed: ${(error as Error).message}. ` +
+                'Use `/import mode:resume` to continue the replay.';
+        }
+
+        await progress.stop();
+        await interaction.editReply({ content: importResult }).catch(console.error);
+        await progress.followUp(content);
     }
 }
@@ -0,0 +1,99 @@
+import { 
+    ChatInputCommandInteraction,
+    SlashCommandBuilder, 
+    PermissionFlagsBits 
+} from 'discord.js';
+
+import { BaseCommand } from '../structures/BaseCommand';
+import { ImportHelper } from '../helpers/importFunctions';
+import { ReplayHelper } from '../helpers/replayFunctions';
+import { SnapshotStore } from '../helpers/snapshotFunctions';
+import { MessageFormatter } from '../utils/MessageFormatter';
+import { ProgressReporter } from '../utils/ProgressReporter';
+
+/**
+ * Command to restore the server to a snapshot taken before an import.
+ * The server is synced with the snapshot, so anything created since is deleted
+ * and anything that still exists keeps its ID.
+ * 
+ * @extends BaseCommand
+ */
+export default class RollbackCommand extends BaseCommand {
+    /**
+     * Slash command configuration for the rollback command.
+     * Requires Administrator permissions to use.
+     */
+    public data = new SlashCommandBuilder()
+        .setName('rollback')
+        .setDescription('Restore the server to a snapshot taken before an import')
+        .addStringOption(option =>
+            option
+                .setName('snapshot')
+                .setDescription('The snapshot ID from /snapshots list (default: the latest snapshot)')
+        )
+        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder
+
+    /**
+     * Executes the rollback command.
+     * The current state is saved as a snapshot first, so a rollback can itself be undone,
+     * and the rollback is journaled, so it can be resumed with `/import mode:resume`.
+     * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution
+     * @returns {Promise<void>} A promise that resolves when the rollback is complete
+     */
+    async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+        await interaction.deferReply();
+
+        const progress = new ProgressReporter(interaction, 'Restoring the snapshot');
+        try {
+            const guild = interaction.guild;
+            if (!guild) {
+                await interaction.editReply({ content: 'This command can only be used in a server!' });
+                return;
+            }
+
+            if (!interaction.memberPermissions?.has('Administrator')) {
+                await interaction.editReply({ content: 'You need Administrator permission to use this command!' });
+                return;
+            }
+
+            if (ImportHelper.isRunning(guild.id) || ReplayHelper.isRunning(guild.id)) {
+                await interaction.editReply({ content: 'An import is already running in this server, please wait for it to finish.' });
+                return;
+            }
+
+            const store = new SnapshotStore();
+            const requested = interaction.options.getString('snapshot') ?? undefined;
+            const loaded = await store.load(guild.id, requested);
+            if (!loaded) {
+                await interaction.editReply({
+                    content: requested
+                        ? `No snapshot \`${requested}\` was found for this server. Use \`/snapshots list\` to see the available snapshots.`
+                        : 'There are no snapshots for this server yet.'
+                });
+                return;
+            }
+
+            await interaction.editReply({ content: `Saving the current state, then restoring snapshot \`${loaded.snapshot.id}\`...` });
+            const { report, snapshot: current } = await new ImportHelper(guild).applyTemplate(loaded.template, 'sync', {
+                prune: true,
+                skipSettings: [],
+                startedBy: interaction.user.tag,
+                reason: `before /rollback by ${interaction.user.tag}`,
+                onProgress: update => progress.update(update)
+            });
+
+            await progress.finish({
+                content: MessageFormatter.importReport(
+                    `Server has been restored to snapshot \`${loaded.snapshot.id}\` (${loaded.snapshot.reason}). ` +
+                    `The previous state was saved as \`${current.id}\`.`,
+                    report
+                )
+            });
+        } catch (error) {
+            console.error('Error during rollback:', error);
+            await progress.finish({
+                content: 'An error occurred during the rollback. Please make sure the bot has the necessary permissions.'
+            });
+        }
+    }
+}
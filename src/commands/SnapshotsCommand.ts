@@ -0,0 +1,65 @@
+import { 
+    ChatInputCommandInteraction,
+    SlashCommandBuilder, 
+    PermissionFlagsBits 
+} from 'discord.js';
+
+import { BaseCommand } from '../structures/BaseCommand';
+import { SnapshotStore } from '../helpers/snapshotFunctions';
+import { MessageFormatter } from '../utils/MessageFormatter';
+
+/**
+ * Command to inspect the snapshots stored for the server.
+ * 
+ * @extends BaseCommand
+ */
+export default class SnapshotsCommand extends BaseCommand {
+    /**
+     * Slash command configuration for the snapshots command.
+     * Requires Administrator permissions to use.
+     */
+    public data = new SlashCommandBuilder()
+        .setName('snapshots')
+        .setDescription('Manage the snapshots taken before imports')
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('list')
+                .setDescription('List the stored snapshots of this server, newest first')
+        )
+        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder
+
+    /**
+     * Executes the snapshots command
+     * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution
+     * @returns {Promise<void>} A promise that resolves when the reply has been sent
+     */
+    async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+        await interaction.deferReply({ ephemeral: true });
+
+        const guild = interaction.guild;
+        if (!guild) {
+            await interaction.editReply({ content: 'This command can only be used in a server!' });
+            return;
+        }
+
+        if (!interaction.memberPermissions?.has('Administrator')) {
+            await interaction.editReply({ content: 'You need Administrator permission to use this command!' });
+            return;
+        }
+
+        const snapshots = await new SnapshotStore().list(guild.id);
+        if (snapshots.length === 0) {
+            await interaction.editReply({ content: 'There are no snapshots for this server yet.' });
+            return;
+        }
+
+        await interaction.editReply({
+            content: MessageFormatter.appendLines(
+                `**${snapshots.length} snapshot(s)** - restore one with \`/rollback snapshot:<id>\``,
+                snapshots.map(snapshot =>
+                    `- \`${snapshot.id}\` <t:${Math.floor(Date.parse(snapshot.createdAt) / 1000)}:R> - ${snapshot.reason}`
+                )
+            )
+        });
+    }
+}
@@ -0,0 +1,431 @@
+import {
+    AutocompleteInteraction,
+    ChatInputCommandInteraction,
+    Guild,
+    MessageComponentInteraction,
+    SlashCommandBuilder,
+    PermissionFlagsBits
+} from 'discord.js';
+
+import { BaseCommand } from '../structures/BaseCommand';
+import { ExportHelper } from '../helpers/exportFunctions';
+import { ImportHelper } from '../helpers/importFunctions';
+import { ReplayHelper } from '../helpers/replayFunctions';
+import { isValidTemplateName, TemplateLibrary } from '../helpers/libraryFunctions';
+import { parseVariableList, renderTemplate } from '../helpers/renderFunctions';
+import {
+    BACKUP_INTERVALS,
+    BACKUP_PREFIX,
+    BackupInterval,
+    BackupSchedule,
+    BackupScheduleStore
+} from '../helpers/backupFunctions';
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { ConfirmationGate } from '../utils/ConfirmationGate';
+import { MessageFormatter } from '../utils/MessageFormatter';
+import { ProgressReporter } from '../utils/ProgressReporter';
+
+/** Number of backups kept when a schedule does not say */
+const DEFAULT_BACKUP_KEEP = 7;
+
+/**
+ * Command to manage the templates stored for the server: save the current server
+ * under a name, list, apply and delete stored templates, and schedule automatic backups.
+ *
+ * @extends BaseCommand
+ */
+export default class TemplateCommand extends BaseCommand {
+    /**
+     * Slash command configuration for the template command.
+     * Requires Administrator permissions to use.
+     */
+    public data = new SlashCommandBuilder()
+        .setName('template')
+        .setDescription('Manage the templates stored for this server')
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('save')
+                .setDescription('Save the current server as a named template')
+                .addStringOption(option =>
+                    option
+                        .setName('name')
+                        .setDescription('The name to save the template as: letters, digits, dashes and underscores')
+                        .setRequired(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('list')
+                .setDescription('List the stored templates and the backup schedule')
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('apply')
+                .setDescription('Apply a stored template to this server')
+                .addStringOption(option =>
+                    option
+                        .setName('name')
+                        .setDescription('The stored template to apply')
+                        .setRequired(true)
+                        .setAutocomplete(true)
+                )
+                .addStringOption(option =>
+                    option
+                        .setName('mode')
+                        .setDescription('How to apply the template (default: sync)')
+                        .addChoices(
+                            { name: 'sync - edit the server in place', value: 'sync' },
+                            { name: 'replace - delete everything and recreate it', value: 'replace' }
+                        )
+                )
+                .addBooleanOption(option =>
+                    option
+                        .setName('prune')
+                        .setDescription('In sync mode, delete roles and channels that are not in the template')
+                )
+                .addStringOption(option =>
+                    option
+                        .setName('variables')
+                        .setDescription('Values for a parameterised template, e.g. projectName=Acme, voice=true')
+                )
+                .addBooleanOption(option =>
+                    option
+                        .setName('owner_confirmation')
+                        .setDescription('Also require the server owner to approve')
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('delete')
+                .setDescription('Delete a stored template')
+                .addStringOption(option =>
+                    option
+                        .setName('name')
+                        .setDescription('The stored template to delete')
+                        .setRequired(true)
+                        .setAutocomplete(true)
+                )
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName('backups')
+                .setDescription('Schedule automatic backups into the template library, or show the schedule')
+                .addStringOption(option =>
+                    option
+                        .setName('interval')
+                        .setDescription('How often to back up the server')
+                        .addChoices(
+                            { name: 'off - stop taking backups', value: 'off' },
+                            { name: 'hourly', value: 'hourly' },
+                            { name: 'daily', value: 'daily' },
+                            { name: 'weekly', value: 'weekly' }
+                        )
+                )
+                .addIntegerOption(option =>
+                    option
+                        .setName('keep')
+                        .setDescription(`How many backups to keep; older ones are deleted (default: ${DEFAULT_BACKUP_KEEP})`)
+                        .setMinValue(1)
+                        .setMaxValue(100)
+                )
+        )
+        .setDefaultMemberPermissions(PermissionFlagsBits.Administrator) as SlashCommandBuilder
+
+    private library: TemplateLibrary = new TemplateLibrary();
+    private schedules: BackupScheduleStore = new BackupScheduleStore();
+    /** Asks for confirmation before a stored template is applied */
+    private confirmations = new ConfirmationGate('template');
+
+    /**
+     * Executes the template command by dispatching to its subcommand
+     * @param {ChatInputCommandInteraction} interaction - The interaction object representing the command execution
+     * @returns {Promise<void>} A promise that resolves when the reply has been sent
+     */
+    async execute(interaction: ChatInputCommandInteraction): Promise<void> {
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const guild = interaction.guild;
+            if (!guild) {
+                await interaction.editReply({ content: 'This command can only be used in a server!' });
+                return;
+            }
+
+            if (!interaction.memberPermissions?.has('Administrator')) {
+                await interaction.editReply({ content: 'You need Administrator permission to use this command!' });
+                return;
+            }
+
+            switch (interaction.options.getSubcommand()) {
+                case 'save': return await this.save(interaction, guild);
+                case 'list': return await this.list(interaction, guild);
+                case 'apply': return await this.apply(interaction, guild);
+                case 'delete': return await this.delete(interaction, guild);
+                case 'backups': return await this.backups(interaction, guild);
+            }
+        } catch (error) {
+            console.error('Error managing templates:', error);
+            await interaction.editReply({
+                content: 'An error occurred while managing the stored templates. Please try again later.'
+            });
+        }
+    }
+
+    /**
+     * Saves the current server under a name, replacing any template stored under it
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {Guild} guild - The guild
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async save(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        const name = interaction.options.getString('name', true).trim();
+        if (!isValidTemplateName(name)) {
+            await interaction.editReply({ content: 'Template names may only contain letters, digits, dashes and underscores, up to 64 characters.' });
+            return;
+        }
+        if (name.startsWith(BACKUP_PREFIX)) {
+            await interaction.editReply({ content: `Names starting with \`${BACKUP_PREFIX}\` are reserved for scheduled backups.` });
+            return;
+        }
+
+        const replaced = (await this.library.load(guild.id, name).catch(() => null)) !== null;
+        const template = await new ExportHelper(guild).exportTemplate();
+        await this.library.save(guild.id, name, template, interaction.user.tag);
+
+        await interaction.editReply({
+            content: `The server has been saved as \`${name}\`${replaced ? ', replacing the previous version' : ''}. ` +
+                `Apply it with \`/template apply name:${name}\`.`
+        });
+    }
+
+    /**
+     * Lists the stored templates and the backup schedule
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {Guild} guild - The guild
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async list(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        const entries = await this.library.list(guild.id);
+        const schedule = await this.schedules.load(guild.id);
+        const scheduleLine = schedule
+            ? `Backups are taken ${schedule.interval}, keeping the last ${schedule.keep}.`
+            : 'Automatic backups are off; turn them on with `/template backups`.';
+
+        if (entries.length === 0) {
+            await interaction.editReply({ content: `There are no stored templates for this server yet. ${scheduleLine}` });
+            return;
+        }
+
+        await interaction.editReply({
+            content: MessageFormatter.appendLines(
+                `**${entries.length} stored template(s)** - ${scheduleLine}`,
+                entries.map(entry =>
+                    `- \`${entry.name}\` <t:${Math.floor(Date.parse(entry.savedAt) / 1000)}:R> by ${entry.savedBy}`
+                )
+            )
+        });
+    }
+
+    /**
+     * Loads a stored template and asks for confirmation before applying it
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {Guild} guild - The guild
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async apply(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        if (ImportHelper.isRunning(guild.id) || ReplayHelper.isRunning(guild.id)) {
+            await interaction.editReply({ content: 'An import is already running in this server, please wait for it to finish.' });
+            return;
+        }
+
+        const name = interaction.options.getString('name', true);
+        let template: ServerTemplate;
+        try {
+            const stored = await this.library.load(guild.id, name);
+            if (!stored) {
+                await interaction.editReply({ content: `No template \`${name}\` is stored for this server. Use \`/template list\` to see them.` });
+                return;
+            }
+            template = renderTemplate(stored.template, parseVariableList(interaction.options.getString('variables')));
+        } catch (error) {
+            await interaction.editReply({ content: MessageFormatter.templateError(error as Error) });
+            return;
+        }
+
+        const mode = interaction.options.getString('mode') === 'replace' && !template.partial ? 'replace' : 'sync';
+        const prune = interaction.options.getBoolean('prune') ?? false;
+        const requireOwner = process.env.REQUIRE_OWNER_CONFIRMATION === 'true' ||
+            (interaction.options.getBoolean('owner_confirmation') ?? false);
+        const summary = await new ImportHelper(guild).summarizeImport(template, mode, prune);
+
+        await this.confirmations.request(interaction, {
+            content: MessageFormatter.importConfirmation(`/template apply mode:${mode} of \`${name}\``, summary, requireOwner),
+            requireOwner: requireOwner,
+            run: confirmed => this.runApply(confirmed, name, mode, template, prune)
+        });
+    }
+
+    /**
+     * Carries out a confirmed apply, with a snapshot first so it can be rolled back
+     * @param {MessageComponentInteraction} interaction - The invoking user's Confirm interaction, also when the owner approved the apply
+     * @param {string} name - The name of the stored template
+     * @param {'replace' | 'sync'} mode - Whether the server is wiped and rebuilt or synced in place
+     * @param {ServerTemplate} template - The rendered template
+     * @param {boolean} prune - Whether extra roles and channels are deleted in sync mode
+     * @returns {Promise<void>} A promise that resolves when the template has been applied
+     * @private
+     */
+    private async runApply(
+        interaction: MessageComponentInteraction,
+        name: string,
+        mode: 'replace' | 'sync',
+        template: ServerTemplate,
+        prune: boolean
+    ): Promise<void> {
+        const progress = new ProgressReporter(interaction, `Applying \`${name}\``);
+        try {
+            const guild = interaction.guild!;
+            if (ImportHelper.isRunning(guild.id) || ReplayHelper.isRunning(guild.id)) {
+                await interaction.editReply({ content: 'An import is already running in this server, please wait for it to finish.' });
+                return;
+            }
+
+            await interaction.editReply({ content: `Saving a snapshot of the server, then applying \`${name}\`...` });
+            const { report, snapshot } = await new ImportHelper(guild).applyTemplate(template, mode, {
+                prune: prune,
+                skipSettings: [],
+                startedBy: interaction.user.tag,
+                reason: `before /template apply of ${name} by ${interaction.user.tag}`,
+                onProgress: update => progress.update(update)
+            });
+
+            await progress.finish({
+                content: MessageFormatter.importReport(
+                    `\`${name}\` has been applied! A snapshot was saved first; use \`/rollback snapshot:${snapshot.id}\` to undo.`,
+                    report
+                )
+            });
+        } catch (error) {
+            console.error('Error applying stored template:', error);
+            await progress.finish({
+                content: 'An error occurred while applying the template. Please make sure the bot has the necessary permissions. ' +
+                    'If it was interrupted, use `/import mode:resume` to continue it.'
+            });
+        }
+    }
+
+    /**
+     * Deletes a stored template
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {Guild} guild - The guild
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async delete(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        const name = interaction.options.getString('name', true);
+        const removed = await this.library.remove(guild.id, name);
+
+        await interaction.editReply({
+            content: removed
+                ? `The template \`${name}\` has been deleted.`
+                : `No template \`${name}\` is stored for this server.`
+        });
+    }
+
+    /**
+     * Changes the backup schedule, or shows it when no option is given
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {Guild} guild - The guild
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async backups(interaction: ChatInputCommandInteraction, guild: Guild): Promise<void> {
+        const interval = interaction.options.getString('interval');
+        const keep = interaction.options.getInteger('keep');
+        const current = await this.schedules.load(guild.id);
+
+        if (interval === 'off') {
+            const removed = await this.schedules.remove(guild.id);
+            await interaction.editReply({
+                content: removed
+                    ? 'Automatic backups have been turned off. Existing backups are kept in `/template list`.'
+                    : 'Automatic backups were already off.'
+            });
+            return;
+        }
+
+        if (!interval && keep === null) {
+            await interaction.editReply({
+                content: current
+                    ? this.describeSchedule(current)
+                    : 'Automatic backups are off; turn them on with `/template backups interval:daily`.'
+            });
+            return;
+        }
+
+        const schedule: BackupSchedule = {
+            guildId: guild.id,
+            interval: (interval ?? current?.interval ?? 'daily') as BackupInterval,
+            keep: keep ?? current?.keep ?? DEFAULT_BACKUP_KEEP,
+            configuredBy: interaction.user.tag,
+            configuredAt: new Date().toISOString(),
+            lastBackupAt: current?.lastBackupAt ?? null,
+            lastError: current?.lastError ?? null
+        };
+        await this.schedules.save(schedule);
+
+        const pruned = await this.library.prune(guild.id, BACKUP_PREFIX, schedule.keep);
+        await interaction.editReply({
+            content: `Backups will be taken ${schedule.interval}, keeping the last ${schedule.keep}.` +
+                (pruned.length > 0 ? ` ${pruned.length} older backup(s) were deleted.` : '')
+        });
+    }
+
+    /**
+     * Describes a backup schedule, when its last backup was taken and when the next one is due
+     * @param {BackupSchedule} schedule - The schedule
+     * @returns {string} The description
+     * @private
+     */
+    private describeSchedule(schedule: BackupSchedule): string {
+        const last = schedule.lastBackupAt ? Date.parse(schedule.lastBackupAt) : null;
+        const next = last === null ? Date.now() : last + BACKUP_INTERVALS[schedule.interval];
+        const failure = schedule.lastError ? ` and failed: ${schedule.lastError}` : '';
+        return [
+            `Backups are taken ${schedule.interval}, keeping the last ${schedule.keep}.`,
+            last === null ? 'No backup has been taken yet.' : `The last backup was taken <t:${Math.floor(last / 1000)}:R>${failure}.`,
+            `The next backup is due <t:${Math.floor(next / 1000)}:R>.`,
+        ].join('\n');
+    }
+
+    /**
+     * Suggests stored templates for the name option
+     * @param {AutocompleteInteraction} interaction - The autocomplete interaction
+     * @returns {Promise<void>}
+     */
+    async autocomplete(interaction: AutocompleteInteraction): Promise<void> {
+        if (!interaction.guildId) {
+            await interaction.respond([]);
+            return;
+        }
+
+        const typed = interaction.options.getFocused().toLowerCase();
+        const entries = await this.library.list(interaction.guildId);
+        await interaction.respond(entries
+            .filter(entry => entry.name.toLowerCase().includes(typed))
+            .slice(0, 25)
+            .map(entry => ({ name: entry.name, value: entry.name })));
+    }
+
+    /**
+     * Handles the Confirm, Approve and Cancel buttons of a pending apply
+     * @param {MessageComponentInteraction} interaction - The button interaction
+     * @returns {Promise<void>}
+     */
+    async handleComponent(interaction: MessageComponentInteraction): Promise<void> {
+        await this.confirmations.handle(interaction);
+    }
+}
@@ -0,0 +1,551 @@
+import express, {
+    Express,
+    NextFunction,
+    Request,
+    Response
+} from 'express';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Server } from 'http';
+import { join } from 'path';
+import {
+    Client,
+    Guild,
+    PermissionsBitField
+} from 'discord.js';
+
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { parseTemplate } from '../schema/migrations';
+import { TemplateIssue, TemplateValidationError } from '../schema/validateTemplate';
+import { ExportHelper } from '../helpers/exportFunctions';
+import { ImportHelper } from '../helpers/importFunctions';
+import { TemplateLibrary } from '../helpers/libraryFunctions';
+import { isNativeTemplate, parseNativeTemplate } from '../helpers/nativeFunctions';
+import { ReplayHelper } from '../helpers/replayFunctions';
+import { SnapshotStore } from '../helpers/snapshotFunctions';
+import {
+    parseVariableList,
+    renderTemplate,
+    VariableValues
+} from '../helpers/renderFunctions';
+import { Logger } from '../utils/Logger';
+import { MessageFormatter } from '../utils/MessageFormatter';
+
+/** Name of the cookie holding the session ID */
+const SESSION_COOKIE = 'templatte_session';
+
+/** How long a login lasts, in milliseconds */
+const SESSION_LIFETIME = 12 * 60 * 60 * 1000;
+
+/**
+ * The state of an import started from the dashboard
+ * @interface DashboardImport
+ */
+interface DashboardImport {
+    /** Whether the guild is wiped and rebuilt or synced in place */
+    mode: 'replace' | 'sync';
+    /** When the import was started, as an ISO timestamp */
+    startedAt: string;
+    /** Whether the import is still running */
+    status: 'running' | 'finished' | 'failed';
+    /** The latest progress or the final report, formatted like the slash command's reply */
+    message: string;
+}
+
+/**
+ * A template submitted from the editor, as text so invalid JSON can be reported
+ * @interface TemplateSubmission
+ */
+interface TemplateSubmission {
+    template?: string;
+    variables?: string;
+}
+
+/**
+ * Serves a web dashboard for browsing, editing and applying templates.
+ * Every page requires logging in with the DASHBOARD_TOKEN; whoever knows it
+ * can change every server the bot is in, so the dashboard binds to localhost
+ * unless DASHBOARD_HOST says otherwise.
+ * @class Dashboard
+ */
+export class Dashboard {
+    private client: Client;
+    private tokenHash: Buffer;
+    private app: Express;
+    private server: Server | null = null;
+    /** Session IDs mapped to when they expire */
+    private sessions: Map<string, number> = new Map();
+    /** The latest import started from the dashboard, by guild ID */
+    private imports: Map<string, DashboardImport> = new Map();
+    private library: TemplateLibrary = new TemplateLibrary();
+    private snapshots: SnapshotStore = new SnapshotStore();
+
+    /**
+     * Creates an instance of Dashboard
+     * @param {Client} client - The logged in Discord client
+     * @param {string} token - The secret admins log in with
+     */
+    constructor(client: Client, token: string) {
+        this.client = client;
+        this.tokenHash = createHash('sha256').update(token).digest();
+        this.app = express();
+        this.setup();
+    }
+
+    /**
+     * Starts listening for requests
+     * @param {number} port - The port to listen on
+     * @param {string} host - The address to bind to
+     * @returns {Promise<void>} Resolves once the server is listening
+     */
+    start(port: number, host: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const server = this.app.listen(port, host, () => resolve());
+            server.once('error', reject);
+            this.server = server;
+        });
+    }
+
+    /**
+     * Stops listening for requests
+     * @returns {Promise<void>} Resolves once the server is closed
+     */
+    stop(): Promise<void> {
+        return new Promise(resolve => {
+            if (!this.server) return resolve();
+            this.server.close(() => resolve());
+            this.server = null;
+        });
+    }
+
+    /**
+     * Registers the view engine, middleware and routes
+     * @private
+     */
+    private setup(): void {
+        this.app.set('view engine', 'ejs');
+        this.app.set('views', join(__dirname, 'views'));
+        this.app.locals.permissionNames = (bits: string) => new PermissionsBitField(BigInt(bits)).toArray();
+
+        this.app.use('/static', express.static(join(__dirname, 'public')));
+        this.app.use(express.urlencoded({ extended: false }));
+        this.app.use(express.json({ limit: '25mb' }));
+
+        this.app.get('/login', (req, res) => res.render('login', { failed: false }));
+        this.app.post('/login', (req, res) => this.login(req, res));
+        this.app.use((req, res, next) => this.authenticate(req, res, next));
+        this.app.post('/logout', (req, res) => this.logout(req, res));
+
+        this.app.get('/', this.handle((req, res) => this.showGuilds(req, res)));
+        this.app.get('/guilds/:guildId', this.handle((req, res) => this.showGuild(req, res)));
+        this.app.get('/guilds/:guildId/editor', this.handle((req, res) => this.showEditor(req, res)));
+        this.app.get('/guilds/:guildId/snapshots/:snapshotId', this.handle((req, res) => this.showSnapshot(req, res)));
+
+        this.app.post('/api/validate', this.handle((req, res) => this.validate(req, res)));
+        this.app.put('/api/guilds/:guildId/templates/:name', this.handle((req, res) => this.saveTemplate(req, res)));
+        this.app.delete('/api/guilds/:guildId/templates/:name', this.handle((req, res) => this.deleteTemplate(req, res)));
+        this.app.post('/api/guilds/:guildId/plan', this.handle((req, res) => this.plan(req, res)));
+        this.app.post('/api/guilds/:guildId/summary', this.handle((req, res) => this.summarize(req, res)));
+        this.app.post('/api/guilds/:guildId/import', this.handle((req, res) => this.startImport(req, res)));
+        this.app.get('/api/guilds/:guildId/import', this.handle((req, res) => this.importStatus(req, res)));
+    }
+
+    /**
+     * Wraps an async route handler so its errors are logged and answered with a 500
+     * @param {Function} handler - The route handler
+     * @returns {Function} The wrapped handler
+     * @private
+     */
+    private handle(handler: (req: Request, res: Response) => Promise<void>): (req: Request, res: Response) => void {
+        return (req, res) => {
+            handler(req, res).catch(error => {
+                Logger.error(`Dashboard request ${req.method} ${req.path} failed`, error as Error);
+                if (!res.headersSent) res.status(500).send('Something went wrong, see the bot logs for details.');
+            });
+        };
+    }
+
+    /**
+     * Reads the session ID from the request's cookies
+     * @param {Request} req - The request
+     * @returns {string | null} The session ID, or null if there is none
+     * @private
+     */
+    private sessionId(req: Request): string | null {
+        for (const cookie of (req.headers.cookie ?? '').split(';')) {
+            const [name, value] = cookie.trim().split('=');
+            if (name === SESSION_COOKIE && value) return value;
+        }
+        return null;
+    }
+
+    /**
+     * Rejects requests without a valid session; pages redirect to the login form
+     * @param {Request} req - The request
+     * @param {Response} res - The response
+     * @param {NextFunction} next - Continues with the next handler
+     * @private
+     */
+    private authenticate(req: Request, res: Response, next: NextFunction): void {
+        const id = this.sessionId(req);
+        const expiresAt = id ? this.sessions.get(id) : undefined;
+        if (id && expiresAt && expiresAt > Date.now()) {
+            next();
+            return;
+        }
+
+        if (id) this.sessions.delete(id);
+        if (req.path.startsWith('/api/')) {
+            res.status(401).json({ error: 'Not logged in' });
+        } else {
+            res.redirect('/login');
+        }
+    }
+
+    /**
+     * Checks the submitted token and starts a session
+     * @param {Request} req - The login form request
+     * @param {Response} res - The response
+     * @private
+     */
+    private login(req: Request, res: Response): void {
+        const submitted = createHash('sha256').update(String(req.body?.token ?? '')).digest();
+        if (!timingSafeEqual(submitted, this.tokenHash)) {
+            res.status(401).render('login', { failed: true });
+            return;
+        }
+
+        const id = randomBytes(32).toString('hex');
+        this.sessions.set(id, Date.now() + SESSION_LIFETIME);
+        res.cookie(SESSION_COOKIE, id, { httpOnly: true, sameSite: 'strict', maxAge: SESSION_LIFETIME });
+        res.redirect('/');
+    }
+
+    /**
+     * Ends the current session
+     * @param {Request} req - The request
+     * @param {Response} res - The response
+     * @private
+     */
+    private logout(req: Request, res: Response): void {
+        const id = this.sessionId(req);
+        if (id) this.sessions.delete(id);
+        res.clearCookie(SESSION_COOKIE);
+        res.redirect('/login');
+    }
+
+    /**
+     * Finds the guild named by the request's guildId parameter, answering with a 404 if the bot is not in it
+     * @param {Request} req - The request
+     * @param {Response} res - The response
+     * @returns {Guild | null} The guild, or null if a 404 was sent
+     * @private
+     */
+    private findGuild(req: Request, res: Response): Guild | null {
+        const guild = /^\d+$/.test(req.params.guildId) ? this.client.guilds.cache.get(req.params.guildId) : undefined;
+        if (!guild) {
+            res.status(404).send('The bot is not in this server.');
+            return null;
+        }
+        return guild;
+    }
+
+    /**
+     * Parses a template submitted from the editor and renders it with the submitted variable values
+     * @param {TemplateSubmission} body - The request body
+     * @param {boolean} render - Whether to render a parameterised template
+     * @returns {{ template: ServerTemplate } | { issues: TemplateIssue[] }} The template, or the problems found
+     * @private
+     */
+    private readTemplate(body: TemplateSubmission, render: boolean): { template: ServerTemplate } | { issues: TemplateIssue[] } {
+        let data: unknown;
+        try {
+            data = JSON.parse(body.template ?? '');
+        } catch (error) {
+            return { issues: [{ path: '', message: `Invalid JSON: ${(error as Error).message}` }] };
+        }
+
+        try {
+            const template = isNativeTemplate(data) ? parseNativeTemplate(data) : parseTemplate(data);
+            if (!render) return { template };
+
+            const values: VariableValues = parseVariableList(body.variables ?? null);
+            return { template: renderTemplate(template, values) };
+        } catch (error) {
+            return {
+                issues: error instanceof TemplateValidationError
+                    ? error.issues
+                    : [{ path: '', message: (error as Error).message }]
+            };
+        }
+    }
+
+    /**
+     * Shows the guilds the bot is in
+     * @param {Request} req - The request
+     * @param {Response} res - The response
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async showGuilds(req: Request, res: Response): Promise<void> {
+        const guilds = await Promise.all([...this.client.guilds.cache.values()].map(async guild => ({
+            id: guild.id,
+            name: guild.name,
+            icon: guild.iconURL({ size: 64 }),
+            templates: (await this.library.list(guild.id)).length,
+            snapshots: (await this.snapshots.list(guild.id)).length
+        })));
+
+        res.render('guilds', { guilds: guilds.sort((a, b) => a.name.localeCompare(b.name)) });
+    }
+
+    /**
+     * Shows a guild's live structure with its stored templates and snapshots
+     * @param {Request} req - The request
+     * @param {Response} res - The response
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async showGuild(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        const state = await new ExportHelper(guild).captureState();
+        res.render('guild', {
+            guild: { id: guild.id, name: guild.name },
+            template: state.template,
+            live: state.live,
+            templates: await this.library.list(guild.id),
+            snapshots: await this.snapshots.list(guild.id),
+            running: this.imports.get(guild.id)?.status === 'running'
+        });
+    }
+
+    /**
+     * Shows the template editor, filled with a stored template, a snapshot or the live guild
+     * @param {Request} req - The request; `template` or `snapshot` in the query selects what to edit
+     * @param {Response} res - The response
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async showEditor(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        const name = typeof req.query.template === 'string' ? req.query.template : null;
+        const snapshotId = typeof req.query.snapshot === 'string' ? req.query.snapshot : null;
+
+        let template: ServerTemplate;
+        if (name) {
+            const stored = await this.library.load(guild.id, name);
+            if (!stored) {
+                res.status(404).type('text/plain').send(`No template named "${name}" is stored for this server.`);
+                return;
+            }
+            template = stored.template;
+        } else if (snapshotId) {
+            const stored = await this.snapshots.load(guild.id, snapshotId);
+            if (!stored) {
+                res.status(404).type('text/plain').send(`No snapshot "${snapshotId}" is stored for this server.`);
+                return;
+            }
+            template = stored.template;
+        } else {
+            template = await new ExportHelper(guild).exportTemplate();
+        }
+
+        res.render('editor', {
+            guild: { id: guild.id, name: guild.name },
+            name: name ?? '',
+            source: JSON.stringify(template, null, 2)
+        });
+    }
+
+    /**
+     * Shows the structure stored in a snapshot
+     * @param {Request} req - The request
+     * @param {Response} res - The response
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async showSnapshot(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        const stored = await this.snapshots.load(guild.id, req.params.snapshotId);
+        if (!stored) {
+            res.status(404).send('This snapshot does not exist.');
+            return;
+        }
+
+        res.render('snapshot', {
+            guild: { id: guild.id, name: guild.name },
+            snapshot: stored.snapshot,
+            template: stored.template
+        });
+    }
+
+    /**
+     * Validates a template from the editor
+     * @param {Request} req - The request, with the template as text
+     * @param {Response} res - Answered with the issues found; empty if the template is valid
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async validate(req: Request, res: Response): Promise<void> {
+        const result = this.readTemplate(req.body, false);
+        res.json({ issues: 'issues' in result ? result.issues : [] });
+    }
+
+    /**
+     * Stores a template from the editor in the guild's library
+     * @param {Request} req - The request, with the template as text
+     * @param {Response} res - The response
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async saveTemplate(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        const result = this.readTemplate(req.body, false);
+        if ('issues' in result) {
+            res.status(400).json({ issues: result.issues });
+            return;
+        }
+
+        try {
+            const entry = await this.library.save(guild.id, req.params.name, result.template, 'dashboard');
+            res.json({ entry });
+        } catch (error) {
+            res.status(400).json({ error: (error as Error).message });
+        }
+    }
+
+    /**
+     * Removes a template from the guild's library
+     * @param {Request} req - The request
+     * @param {Response} res - The response
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async deleteTemplate(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        const removed = await this.library.remove(guild.id, req.params.name);
+        res.status(removed ? 200 : 404).json({ removed });
+    }
+
+    /**
+     * Previews the changes a template from the editor would make to the live guild
+     * @param {Request} req - The request, with the template as text and whether to prune
+     * @param {Response} res - Answered with the import plan
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async plan(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        const result = this.readTemplate(req.body, true);
+        if ('issues' in result) {
+            res.status(400).json({ issues: result.issues });
+            return;
+        }
+
+        const plan = await new ImportHelper(guild).planTemplate(result.template, { prune: req.body.prune === true });
+        res.json({ plan });
+    }
+
+    /**
+     * Summarizes what importing a template from the editor would delete, create and edit, for confirmation
+     * @param {Request} req - The request, with the template as text, the mode and whether to prune
+     * @param {Response} res - Answered with the summary
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async summarize(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        const result = this.readTemplate(req.body, true);
+        if ('issues' in result) {
+            res.status(400).json({ issues: result.issues });
+            return;
+        }
+
+        const mode = req.body.mode === 'sync' || result.template.partial ? 'sync' : 'replace';
+        const summary = await new ImportHelper(guild).summarizeImport(result.template, mode, req.body.prune === true);
+        res.json({ mode, summary });
+    }
+
+    /**
+     * Starts importing a template from the editor. The import runs in the background;
+     * its progress is read from importStatus.
+     * @param {Request} req - The request, with the template as text, the mode and whether to prune
+     * @param {Response} res - Answered once the import has started
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async startImport(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        const result = this.readTemplate(req.body, true);
+        if ('issues' in result) {
+            res.status(400).json({ issues: result.issues });
+            return;
+        }
+
+        if (ImportHelper.isRunning(guild.id) || ReplayHelper.isRunning(guild.id) || this.imports.get(guild.id)?.status === 'running') {
+            res.status(409).json({ error: 'An import is already running in this server.' });
+            return;
+        }
+
+        const mode = req.body.mode === 'sync' || result.template.partial ? 'sync' : 'replace';
+        const title = mode === 'sync' ? 'Syncing the server with the template' : 'Importing the template';
+        const state: DashboardImport = {
+            mode: mode,
+            startedAt: new Date().toISOString(),
+            status: 'running',
+            message: 'Saving a snapshot of the server...'
+        };
+        this.imports.set(guild.id, state);
+        Logger.info(`Dashboard started a ${mode} import of ${result.template.name} in ${guild.name}`);
+
+        new ImportHelper(guild).applyTemplate(result.template, mode, {
+            prune: req.body.prune === true,
+            skipSettings: [],
+            startedBy: 'dashboard',
+            reason: `before dashboard import mode:${mode}`,
+            onProgress: progress => { state.message = MessageFormatter.progress(title, progress); }
+        }).then(({ report, snapshot }) => {
+            state.status = 'finished';
+            state.message = MessageFormatter.importReport(
+                `${mode === 'sync' ? 'Server has been synced with the template!' : 'Server template has been successfully imported!'} ` +
+                `A snapshot was saved first; use \`/rollback snapshot:${snapshot.id}\` to undo.`,
+                report
+            );
+        }).catch(error => {
+            Logger.error(`Dashboard import in ${guild.name} failed`, error as Error);
+            state.status = 'failed';
+            state.message = `The import failed: ${(error as Error).message}. If it was interrupted, use \`/import mode:resume\` to continue it.`;
+        });
+
+        res.status(202).json({ import: state });
+    }
+
+    /**
+     * Reports the progress of the latest import started from the dashboard
+     * @param {Request} req - The request
+     * @param {Response} res - Answered with the import's state, or null if none was started
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async importStatus(req: Request, res: Response): Promise<void> {
+        const guild = this.findGuild(req, res);
+        if (!guild) return;
+
+        res.json({ import: this.imports.get(guild.id) ?? null });
+    }
+}
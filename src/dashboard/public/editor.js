@@ -0,0 +1,136 @@
+// Live validation, diff preview and imports for the template editor.
+(() => {
+    const editor = document.getElementById('editor');
+    const guildId = editor.dataset.guild;
+    const field = id => document.getElementById(id);
+    const output = field('output');
+    let validationTimer = null;
+    let statusTimer = null;
+
+    const escape = text => String(text).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+    const request = async (method, url, body) => {
+        const response = await fetch(url, {
+            method: method,
+            headers: { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+        if (response.status === 401) {
+            window.location.href = '/login';
+        }
+        return { ok: response.ok, status: response.status, data: await response.json().catch(() => ({})) };
+    };
+
+    const submission = () => ({
+        template: field('template').value,
+        variables: field('variables').value,
+        mode: field('mode').value,
+        prune: field('prune').checked
+    });
+
+    const showIssues = issues => {
+        field('issues').innerHTML = issues.length === 0
+            ? '<p class="valid">The template is valid.</p>'
+            : `<p class="error">${issues.length} problem(s):</p><ul>${issues
+                .map(issue => `<li><code>${escape(issue.path ? `${issue.path}: ${issue.message}` : issue.message)}</code></li>`)
+                .join('')}</ul>`;
+    };
+
+    const showMessage = (text, kind = '') => {
+        output.innerHTML = `<pre class="${kind}">${escape(text)}</pre>`;
+    };
+
+    const showFailure = result => {
+        if (result.data.issues) {
+            showIssues(result.data.issues);
+            showMessage('The template has problems, see the list below the editor.', 'error');
+        } else {
+            showMessage(result.data.error || `The request failed (${result.status}).`, 'error');
+        }
+    };
+
+    const validate = async () => {
+        const result = await request('POST', '/api/validate', { template: field('template').value });
+        showIssues(result.data.issues || []);
+    };
+
+    const showPlan = plan => {
+        const entries = [...plan.roles, ...plan.categories, ...plan.channels].filter(entry => entry.action !== 'keep');
+        const blocked = plan.blocked.map(item => `<li class="error">${escape(`${item.action} ${item.kind} ${item.name}: ${item.reason}`)}</li>`);
+        const changes = entries.map(entry => {
+            const details = entry.action === 'update' && entry.changes.length > 0 ? ` (${entry.changes.join(', ')})` : '';
+            return `<li class="${entry.action}">${escape(`${entry.action} ${entry.kind} ${entry.name}${details}`)}</li>`;
+        });
+
+        output.innerHTML = [
+            '<h3>Changes against the live server</h3>',
+            blocked.length > 0 ? `<p>Blocked:</p><ul>${blocked.join('')}</ul>` : '',
+            changes.length > 0 ? `<ul class="plan">${changes.join('')}</ul>` : '<p>The server already matches the template.</p>',
+        ].join('');
+    };
+
+    const pollStatus = async () => {
+        clearTimeout(statusTimer);
+        const result = await request('GET', `/api/guilds/${guildId}/import`);
+        const state = result.data.import;
+        if (!state) return;
+
+        showMessage(state.message, state.status === 'failed' ? 'error' : '');
+        if (state.status === 'running') {
+            statusTimer = setTimeout(pollStatus, 2000);
+        }
+    };
+
+    field('template').addEventListener('input', () => {
+        clearTimeout(validationTimer);
+        validationTimer = setTimeout(validate, 500);
+    });
+
+    field('save').addEventListener('click', async () => {
+        const name = field('name').value.trim();
+        if (!/^[\w-]{1,64}$/.test(name)) {
+            showMessage('Template names may only contain letters, digits, dashes and underscores.', 'error');
+            return;
+        }
+
+        const result = await request('PUT', `/api/guilds/${guildId}/templates/${encodeURIComponent(name)}`, submission());
+        if (!result.ok) return showFailure(result);
+        showMessage(`Saved as "${name}".`);
+        field('delete').disabled = false;
+    });
+
+    field('delete').addEventListener('click', async () => {
+        const name = field('name').value.trim();
+        if (!window.confirm(`Delete the stored template "${name}"?`)) return;
+
+        const result = await request('DELETE', `/api/guilds/${guildId}/templates/${encodeURIComponent(name)}`);
+        showMessage(result.ok ? `Deleted "${name}".` : `No template named "${name}" is stored.`, result.ok ? '' : 'error');
+    });
+
+    field('preview').addEventListener('click', async () => {
+        showMessage('Comparing the template with the live server...');
+        const result = await request('POST', `/api/guilds/${guildId}/plan`, submission());
+        if (!result.ok) return showFailure(result);
+        showPlan(result.data.plan);
+    });
+
+    field('import').addEventListener('click', async () => {
+        const summary = await request('POST', `/api/guilds/${guildId}/summary`, submission());
+        if (!summary.ok) return showFailure(summary);
+
+        const { mode, summary: { deletions, creations, updates } } = summary.data;
+        const list = (label, items) => items.length > 0 ? `\n${label} (${items.length}):\n${items.slice(0, 15).join('\n')}` : '';
+        const confirmed = window.confirm(
+            `Import in ${mode} mode? A snapshot is saved first.\n` +
+            list('Delete', deletions) + list('Create', creations) + list('Update', updates)
+        );
+        if (!confirmed) return;
+
+        const result = await request('POST', `/api/guilds/${guildId}/import`, { ...submission(), mode });
+        if (!result.ok) return showFailure(result);
+        pollStatus();
+    });
+
+    validate();
+    pollStatus();
+})();
@@ -0,0 +1,712 @@
+import archiver from 'archiver';
+import { createWriteStream } from 'fs';
+import {
+    mkdir,
+    open,
+    readdir,
+    readFile,
+    rm,
+    stat,
+    writeFile
+} from 'fs/promises';
+import { join } from 'path';
+import {
+    AnyThreadChannel,
+    Attachment,
+    ChannelType,
+    Guild,
+    GuildBasedChannel,
+    GuildPremiumTier,
+    Message,
+    PermissionFlagsBits,
+    RateLimitData,
+    RESTEvents,
+    SnowflakeUtil
+} from 'discord.js';
+
+import {
+    TaskFailure,
+    TaskProgress,
+    TaskScheduler
+} from '../utils/TaskScheduler';
+import { KeyAllocator } from '../utils/TemplateKeys';
+import { ExportHelper } from './exportFunctions';
+
+/** Version of the archive layout, raised whenever the files change incompatibly */
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+/** Number of messages Discord returns per history request */
+const PAGE_SIZE = 100;
+
+/** Largest file the bot can upload, per boost tier */
+const UPLOAD_LIMITS: Record<GuildPremiumTier, number> = {
+    [GuildPremiumTier.None]: 10 * 1024 * 1024,
+    [GuildPremiumTier.Tier1]: 10 * 1024 * 1024,
+    [GuildPremiumTier.Tier2]: 50 * 1024 * 1024,
+    [GuildPremiumTier.Tier3]: 100 * 1024 * 1024,
+};
+
+/**
+ * An archived attachment
+ * @interface ArchivedAttachment
+ */
+export interface ArchivedAttachment {
+    /** The ID of the attachment */
+    id: string;
+    /** The file name */
+    name: string;
+    /** The CDN URL; Discord's signed URLs expire, so download the file while it is valid */
+    url: string;
+    /** The size in bytes */
+    size: number;
+    /** The MIME type, if known */
+    contentType: string | null;
+    /** The alt text */
+    description: string | null;
+    /** Path of the downloaded file inside the archive, when attachments were downloaded */
+    file: string | null;
+}
+
+/**
+ * An archived reaction
+ * @interface ArchivedReaction
+ */
+export interface ArchivedReaction {
+    /** The ID of a custom emoji, or null for a unicode emoji */
+    emojiId: string | null;
+    /** The emoji name, or the unicode emoji itself */
+    emojiName: string | null;
+    /** Whether the custom emoji is animated */
+    animated: boolean;
+    /** How many users reacted */
+    count: number;
+}
+
+/**
+ * An archived message
+ * @interface ArchivedMessage
+ */
+export interface ArchivedMessage {
+    /** The ID of the message */
+    id: string;
+    /** The message type, see Discord's MessageType */
+    type: number;
+    /** Who sent the message */
+    author: {
+        id: string;
+        username: string;
+        /** The name shown in the server when the message was archived */
+        displayName: string;
+        avatarUrl: string;
+        bot: boolean;
+    };
+    /** When the message was sent, as an ISO timestamp */
+    createdAt: string;
+    /** When the message was last edited, as an ISO timestamp */
+    editedAt: string | null;
+    /** The text content */
+    content: string;
+    /** Whether the message is pinned */
+    pinned: boolean;
+    /** The embeds, in Discord's API format */
+    embeds: unknown[];
+    /** The attachments */
+    attachments: ArchivedAttachment[];
+    /** The reactions and their counts */
+    reactions: ArchivedReaction[];
+    /** The ID of the message this one replies to */
+    replyTo: string | null;
+    /** The ID of the thread started from this message */
+    threadId: string | null;
+}
+
+/**
+ * An archived thread, listed in the manifest under its parent channel
+ * @interface ArchivedThread
+ */
+export interface ArchivedThread {
+    /** The ID of the thread */
+    id: string;
+    /** The name of the thread */
+    name: string;
+    /** The thread type, see Discord's ChannelType */
+    type: number;
+    /** Whether the thread was archived by Discord when it was exported */
+    archived: boolean;
+    /** Whether the thread was locked */
+    locked: boolean;
+    /** Path of the thread's file inside the archive */
+    file: string;
+    /** Number of archived messages */
+    messageCount: number;
+}
+
+/**
+ * An archived channel, as listed in the manifest
+ * @interface ArchivedChannel
+ */
+export interface ArchivedChannel {
+    /** The ID of the channel */
+    id: string;
+    /** The template key of the channel, matching template.json and the keys an import records */
+    key: string | null;
+    /** The name of the channel */
+    name: string;
+    /** The channel type, see Discord's ChannelType */
+    type: number;
+    /** The name of the category the channel is in */
+    category: string | null;
+    /** Path of the channel's file inside the archive */
+    file: string;
+    /** Number of archived messages, not counting threads */
+    messageCount: number;
+    /** The threads of the channel that have messages in the date range */
+    threads: ArchivedThread[];
+}
+
+/**
+ * The manifest describing an archive, stored as `manifest.json`
+ * @interface ArchiveManifest
+ */
+export interface ArchiveManifest {
+    /** The version of the archive layout */
+    formatVersion: number;
+    /** The ID of the archive, unique per guild */
+    id: string;
+    /** The guild the messages were archived from */
+    guild: { id: string; name: string };
+    /** When the archive was created, as an ISO timestamp */
+    createdAt: string;
+    /** Who created the archive */
+    createdBy: string;
+    /** The date range of the archived messages, as ISO timestamps; null means unbounded */
+    range: { after: string | null; before: string | null };
+    /** Whether attachments were downloaded into the archive or only linked */
+    attachments: 'links' | 'files';
+    /** Whether `template.json` holds the server structure at the time of archiving */
+    includesTemplate: boolean;
+    /** The archived channels */
+    channels: ArchivedChannel[];
+    /** Channels and threads that could not be archived */
+    failures: TaskFailure[];
+}
+
+/**
+ * The content of a channel or thread file
+ * @interface ArchivedChannelFile
+ */
+export interface ArchivedChannelFile {
+    /** The ID of the channel or thread */
+    id: string;
+    /** The name of the channel or thread */
+    name: string;
+    /** For threads, the ID of the parent channel */
+    parentId: string | null;
+    /** The messages, oldest first */
+    messages: ArchivedMessage[];
+}
+
+/**
+ * Options for creating an archive
+ * @interface ArchiveOptions
+ */
+export interface ArchiveOptions {
+    /** The channels to archive */
+    channels: GuildBasedChannel[];
+    /** Only archive messages sent at or after this time */
+    after?: Date;
+    /** Only archive messages sent before this time */
+    before?: Date;
+    /** Whether to archive the threads of the channels (default true) */
+    threads?: boolean;
+    /** Whether to download attachments into the archive or only link them (default links) */
+    attachments?: 'links' | 'files';
+    /** Whether to include the server structure as `template.json` */
+    includeTemplate?: boolean;
+    /** Who creates the archive, recorded in the manifest */
+    createdBy: string;
+    /** Maximum number of channels archived at the same time (default IMPORT_CONCURRENCY or 4) */
+    concurrency?: number;
+    /** Called whenever a channel starts or finishes */
+    onProgress?: (progress: TaskProgress) => void;
+}
+
+/**
+ * Parses a date given as `YYYY-MM-DD` or as an ISO timestamp; dates without a time are midnight UTC
+ * @param {string} value - The date to parse
+ * @throws {Error} If the value is not a valid date
+ * @returns {Date} The parsed date
+ */
+export function parseArchiveDate(value: string): Date {
+    const date = new Date(value.trim());
+    if (Number.isNaN(date.getTime())) {
+        throw new Error(`"${value}" is not a valid date, use YYYY-MM-DD or an ISO timestamp`);
+    }
+    return date;
+}
+
+/**
+ * Looks up the largest file the bot can upload in a guild
+ * @param {Guild} guild - The guild
+ * @returns {number} The limit in bytes
+ */
+export function uploadLimit(guild: Guild): number {
+    return UPLOAD_LIMITS[guild.premiumTier];
+}
+
+/**
+ * Stores message archives on the local file system. Each archive is kept both unpacked in
+ * `<DATA_DIR>/archives/<guild ID>/<archive ID>/`, so messages can be replayed from it,
+ * and as `<archive ID>.zip` next to it for download.
+ * @class ArchiveStore
+ */
+export class ArchiveStore {
+    private directory: string;
+
+    /**
+     * Creates an instance of ArchiveStore
+     * @param {string} [dataDir] - Base directory for stored data, defaults to `DATA_DIR` or `./data`
+     */
+    constructor(dataDir = process.env.DATA_DIR || 'data') {
+        this.directory = join(dataDir, 'archives');
+    }
+
+    /**
+     * Resolves the directory holding an unpacked archive
+     * @param {string} guildId - The ID of the guild
+     * @param {string} id - The ID of the archive
+     * @returns {string} The directory path
+     */
+    archiveDirectory(guildId: string, id: string): string {
+        return join(this.directory, guildId, id);
+    }
+
+    /**
+     * Resolves the path of an archive's ZIP file
+     * @param {string} guildId - The ID of the guild
+     * @param {string} id - The ID of the archive
+     * @returns {string} The file path
+     */
+    zipPath(guildId: string, id: string): string {
+        return join(this.directory, guildId, `${id}.zip`);
+    }
+
+    /**
+     * Lists the archives of a guild
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<ArchiveManifest[]>} The manifests, newest first
+     */
+    async list(guildId: string): Promise<ArchiveManifest[]> {
+        const entries = await readdir(join(this.directory, guildId), { withFileTypes: true }).catch(() => []);
+        const manifests: ArchiveManifest[] = [];
+
+        for (const entry of entries.filter(entry => entry.isDirectory())) {
+            const manifest = await this.loadManifest(guildId, entry.name);
+            if (manifest) manifests.push(manifest);
+        }
+
+        return manifests.sort((a, b) => b.id.localeCompare(a.id));
+    }
+
+    /**
+     * Loads the manifest of an archive
+     * @param {string} guildId - The ID of the guild
+     * @param {string} id - The ID of the archive
+     * @returns {Promise<ArchiveManifest | null>} The manifest, or null if the archive does not exist or is incomplete
+     */
+    async loadManifest(guildId: string, id: string): Promise<ArchiveManifest | null> {
+        if (!/^[\w-]+$/.test(id)) return null;
+
+        const content = await readFile(join(this.archiveDirectory(guildId, id), 'manifest.json'), 'utf-8').catch(() => null);
+        return content ? JSON.parse(content) : null;
+    }
+
+    /**
+     * Reads a channel or thread file of an archive
+     * @param {string} guildId - The ID of the guild
+     * @param {string} id - The ID of the archive
+     * @param {string} file - The path of the file inside the archive, as listed in the manifest
+     * @returns {Promise<ArchivedChannelFile>} The file content
+     */
+    async readChannel(guildId: string, id: string, file: string): Promise<ArchivedChannelFile> {
+        return JSON.parse(await readFile(join(this.archiveDirectory(guildId, id), file), 'utf-8'));
+    }
+}
+
+/**
+ * Helper class for archiving a guild's message history
+ * @class ArchiveHelper
+ */
+export class ArchiveHelper {
+    private guild: Guild;
+    private store: ArchiveStore = new ArchiveStore();
+
+    /**
+     * Creates an instance of ArchiveHelper
+     * @param {Guild} guild - The Discord guild to archive
+     */
+    constructor(guild: Guild) {
+        this.guild = guild;
+    }
+
+    /**
+     * Resolves a comma separated list of channel mentions, IDs or names.
+     * Categories stand for every channel in them.
+     * @param {string} list - The channels to resolve
+     * @throws {Error} If a channel cannot be found
+     * @returns {Promise<GuildBasedChannel[]>} The channels
+     */
+    async resolveChannels(list: string): Promise<GuildBasedChannel[]> {
+        const channels = [...(await this.guild.channels.fetch()).values()].filter(channel => channel !== null);
+        const resolved = new Set<GuildBasedChannel>();
+        const missing: string[] = [];
+
+        for (const part of list.split(',').map(part => part.trim()).filter(part => part.length > 0)) {
+            const id = part.match(/^<#(\d+)>$/)?.[1] ?? part;
+            const name = part.replace(/^#/, '').toLowerCase();
+            const channel = channels.find(channel => channel.id === id) ??
+                channels.find(channel => channel.name.toLowerCase() === name);
+
+            if (!channel) {
+                missing.push(part);
+            } else if (channel.type === ChannelType.GuildCategory) {
+                channels.filter(child => child.parentId === channel.id).forEach(child => resolved.add(child));
+            } else {
+                resolved.add(channel);
+            }
+        }
+
+        if (missing.length > 0) {
+            throw new Error(`Channel(s) not found: ${missing.join(', ')}`);
+        }
+        return [...resolved];
+    }
+
+    /**
+     * Lists the channels the bot can archive: channels with messages or threads that it can read
+     * @param {GuildBasedChannel[]} channels - The candidate channels
+     * @returns {{ readable: GuildBasedChannel[], unreadable: GuildBasedChannel[] }} The channels split by whether the bot can read them
+     */
+    filterReadable(channels: GuildBasedChannel[]): { readable: GuildBasedChannel[]; unreadable: GuildBasedChannel[] } {
+        const me = this.guild.members.me;
+        const archivable = channels.filter(channel => channel.isTextBased() || 'threads' in channel);
+        const canRead = (channel: GuildBasedChannel) => me !== null &&
+            channel.permissionsFor(me).has([PermissionFlagsBits.ViewChannel, PermissionFlagsBits.ReadMessageHistory]);
+
+        return {
+            readable: archivable.filter(canRead),
+            unreadable: archivable.filter(channel => !canRead(channel))
+        };
+    }
+
+    /**
+     * Archives the message history of channels and packs it into a ZIP file.
+     * Channels are archived concurrently and page through their history 100 messages
+     * at a time; new requests pause whenever Discord reports a rate limit.
+     * @param {ArchiveOptions} options - What to archive
+     * @returns {Promise<{ manifest: ArchiveManifest, zipPath: string, size: number }>} The manifest and the ZIP file
+     */
+    async createArchive(options: ArchiveOptions): Promise<{ manifest: ArchiveManifest; zipPath: string; size: number }> {
+        const createdAt = new Date().toISOString();
+        const id = createdAt.replace(/[:.]/g, '-');
+        const directory = this.store.archiveDirectory(this.guild.id, id);
+        await mkdir(join(directory, 'channels'), { recursive: true });
+
+        const state = await new ExportHelper(this.guild).captureState();
+        const channelKeys = new Map([...state.live.channels].map(([key, item]) => [item.id, key]));
+
+        const manifest: ArchiveManifest = {
+            formatVersion: ARCHIVE_FORMAT_VERSION,
+            id: id,
+            guild: { id: this.guild.id, name: this.guild.name },
+            createdAt: createdAt,
+            createdBy: options.createdBy,
+            range: {
+                after: options.after?.toISOString() ?? null,
+                before: options.before?.toISOString() ?? null
+            },
+            attachments: options.attachments ?? 'links',
+            includesTemplate: options.includeTemplate ?? false,
+            channels: [],
+            failures: []
+        };
+
+        const scheduler = new TaskScheduler({
+            concurrency: options.concurrency,
+            onProgress: options.onProgress
+        });
+        for (const channel of options.channels) {
+            scheduler.add({
+                id: `channel:${channel.id}`,
+                label: `#${channel.name}`,
+                run: async () => {
+                    manifest.channels.push(await this.archiveChannel(channel, channelKeys.get(channel.id) ?? null, directory, options));
+                }
+            });
+        }
+
+        manifest.failures = await this.runTasks(scheduler);
+        const order = new Map(options.channels.map((channel, index) => [channel.id, index]));
+        manifest.channels.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+        if (manifest.includesTemplate) {
+            await writeFile(join(directory, 'template.json'), JSON.stringify(state.template, null, 2), 'utf-8');
+        }
+        await writeFile(join(directory, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+
+        const zipPath = this.store.zipPath(this.guild.id, id);
+        await this.zipDirectory(directory, zipPath);
+        return { manifest, zipPath, size: (await stat(zipPath)).size };
+    }
+
+    /**
+     * Runs the scheduled tasks, pausing the scheduler whenever Discord.js reports a rate limit
+     * @param {TaskScheduler} scheduler - The scheduler to run
+     * @returns {Promise<TaskFailure[]>} The tasks that failed
+     * @private
+     */
+    private async runTasks(scheduler: TaskScheduler): Promise<TaskFailure[]> {
+        const rest = this.guild.client.rest;
+        const onRateLimited = (info: RateLimitData) => scheduler.pause(info.retryAfter);
+
+        rest.on(RESTEvents.RateLimited, onRateLimited);
+        try {
+            return await scheduler.run();
+        } finally {
+            rest.off(RESTEvents.RateLimited, onRateLimited);
+        }
+    }
+
+    /**
+     * Archives a channel's messages and those of its threads
+     * @param {GuildBasedChannel} channel - The channel to archive
+     * @param {string | null} key - The channel's template key
+     * @param {string} directory - The directory of the archive
+     * @param {ArchiveOptions} options - What to archive
+     * @returns {Promise<ArchivedChannel>} The channel's manifest entry
+     * @private
+     */
+    private async archiveChannel(
+        channel: GuildBasedChannel,
+        key: string | null,
+        directory: string,
+        options: ArchiveOptions
+    ): Promise<ArchivedChannel> {
+        const file = `channels/${channel.id}-${KeyAllocator.slugify(channel.name) || 'channel'}.json`;
+        const messageCount = await this.archiveMessages(channel, directory, file, null, options);
+
+        const threads: ArchivedThread[] = [];
+        if (options.threads !== false && 'threads' in channel) {
+            for (const thread of await this.fetchThreads(channel)) {
+                const threadFile = `threads/${thread.id}-${KeyAllocator.slugify(thread.name) || 'thread'}.json`;
+                const threadMessages = await this.archiveMessages(thread, directory, threadFile, channel.id, options);
+                if (threadMessages === 0) {
+                    await rm(join(directory, threadFile));
+                    continue;
+                }
+
+                threads.push({
+                    id: thread.id,
+                    name: thread.name,
+                    type: thread.type,
+                    archived: thread.archived ?? false,
+                    locked: thread.locked ?? false,
+                    file: threadFile,
+                    messageCount: threadMessages
+                });
+            }
+        }
+
+        return {
+            id: channel.id,
+            key: key,
+            name: channel.name,
+            type: channel.type,
+            category: channel.parent?.name ?? null,
+            file: file,
+            messageCount: messageCount,
+            threads: threads
+        };
+    }
+
+    /**
+     * Fetches the active and archived threads of a channel. Private archived threads
+     * are only included when the bot is allowed to see them.
+     * @param {GuildBasedChannel} channel - A channel that has threads
+     * @returns {Promise<AnyThreadChannel[]>} The threads
+     * @private
+     */
+    private async fetchThreads(channel: GuildBasedChannel): Promise<AnyThreadChannel[]> {
+        if (!('threads' in channel)) return [];
+
+        const threads = new Map<string, AnyThreadChannel>();
+        const active = await channel.threads.fetchActive(false);
+        active.threads.forEach(thread => threads.set(thread.id, thread));
+
+        for (const type of ['public', 'private'] as const) {
+            let before: AnyThreadChannel | undefined;
+            try {
+                while (true) {
+                    const page = await channel.threads.fetchArchived({ type, before, limit: PAGE_SIZE }, false);
+                    page.threads.forEach(thread => threads.set(thread.id, thread));
+                    before = page.threads.last();
+                    if (!page.hasMore || !before) break;
+                }
+            } catch (error) {
+                if (type === 'public') throw error;
+                console.error(`Skipping private archived threads of #${channel.name}:`, (error as Error).message);
+            }
+        }
+
+        return [...threads.values()];
+    }
+
+    /**
+     * Pages through the message history of a channel or thread within the date range, oldest
+     * first, and writes it to the channel's file page by page, so a long history is never
+     * held in memory or serialized at once. Channels without messages get a file with none.
+     * @param {GuildBasedChannel} channel - The channel or thread
+     * @param {string} directory - The directory of the archive
+     * @param {string} file - The path of the channel's file within the archive
+     * @param {string | null} parentId - For threads, the ID of the parent channel
+     * @param {ArchiveOptions} options - What to archive
+     * @returns {Promise<number>} The number of archived messages
+     * @private
+     */
+    private async archiveMessages(
+        channel: GuildBasedChannel,
+        directory: string,
+        file: string,
+        parentId: string | null,
+        options: ArchiveOptions
+    ): Promise<number> {
+        const header: ArchivedChannelFile = { id: channel.id, name: channel.name, parentId: parentId, messages: [] };
+        const opening = JSON.stringify(header, null, 2);
+
+        await mkdir(join(directory, file, '..'), { recursive: true });
+        const output = await open(join(directory, file), 'w');
+        let count = 0;
+        try {
+            await output.write(opening.slice(0, opening.lastIndexOf('[]') + 1));
+
+            const before = options.before?.getTime() ?? Infinity;
+            let after = options.after ? SnowflakeUtil.generate({ timestamp: options.after }).toString() : '0';
+            while (channel.isTextBased()) {
+                const page = await channel.messages.fetch({ limit: PAGE_SIZE, after, cache: false });
+                const ordered = [...page.values()].sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+                const inRange = ordered.filter(message => message.createdTimestamp < before);
+
+                let chunk = '';
+                for (const message of inRange) {
+                    const serialized = JSON.stringify(await this.serializeMessage(message, directory, options), null, 2);
+                    chunk += `${count === 0 ? '' : ','}\n${serialized.replace(/^/gm, '    ')}`;
+                    count++;
+                }
+                if (chunk) await output.write(chunk);
+
+                after = ordered[ordered.length - 1]?.id;
+                if (page.size < PAGE_SIZE || inRange.length < page.size || !after) break;
+            }
+
+            await output.write(count === 0 ? ']\n}' : '\n  ]\n}');
+        } finally {
+            await output.close();
+        }
+
+        return count;
+    }
+
+    /**
+     * Serializes a message, downloading its attachments when requested
+     * @param {Message} message - The message
+     * @param {string} directory - The directory of the archive
+     * @param {ArchiveOptions} options - What to archive
+     * @returns {Promise<ArchivedMessage>} The archived message
+     * @private
+     */
+    private async serializeMessage(message: Message, directory: string, options: ArchiveOptions): Promise<ArchivedMessage> {
+        const attachments: ArchivedAttachment[] = [];
+        for (const attachment of message.attachments.values()) {
+            attachments.push({
+                id: attachment.id,
+                name: attachment.name,
+                url: attachment.url,
+                size: attachment.size,
+                contentType: attachment.contentType,
+                description: attachment.description,
+                file: options.attachments === 'files'
+                    ? await this.downloadAttachment(attachment, message.channelId, directory)
+                    : null
+            });
+        }
+
+        return {
+            id: message.id,
+            type: message.type,
+            author: {
+                id: message.author.id,
+                username: message.author.username,
+                displayName: message.member?.displayName ?? message.author.displayName,
+                avatarUrl: message.member?.displayAvatarURL() ?? message.author.displayAvatarURL(),
+                bot: message.author.bot
+            },
+            createdAt: message.createdAt.toISOString(),
+            editedAt: message.editedAt?.toISOString() ?? null,
+            content: message.content,
+            pinned: message.pinned,
+            embeds: message.embeds.map(embed => embed.toJSON()),
+            attachments: attachments,
+            reactions: [...message.reactions.cache.values()].map(reaction => ({
+                emojiId: reaction.emoji.id,
+                emojiName: reaction.emoji.name,
+                animated: reaction.emoji.animated ?? false,
+                count: reaction.count
+            })),
+            replyTo: message.reference?.messageId ?? null,
+            threadId: message.thread?.id ?? null
+        };
+    }
+
+    /**
+     * Downloads an attachment into the archive
+     * @param {Attachment} attachment - The attachment
+     * @param {string} channelId - The ID of the channel the attachment was posted in
+     * @param {string} directory - The directory of the archive
+     * @returns {Promise<string | null>} The path of the file inside the archive, or null if it could not be downloaded
+     * @private
+     */
+    private async downloadAttachment(attachment: Attachment, channelId: string, directory: string): Promise<string | null> {
+        const file = `attachments/${channelId}/${attachment.id}-${attachment.name.replace(/[^\w.-]/g, '_')}`;
+        try {
+            const response = await fetch(attachment.url);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+            await mkdir(join(directory, 'attachments', channelId), { recursive: true });
+            await writeFile(join(directory, file), Buffer.from(await response.arrayBuffer()));
+            return file;
+        } catch (error) {
+            console.error(`Error downloading attachment ${attachment.url}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Packs a directory into a ZIP file
+     * @param {string} directory - The directory to pack
+     * @param {string} zipPath - The path of the ZIP file
+     * @returns {Promise<void>} Resolves once the file has been written
+     * @private
+     */
+    private zipDirectory(directory: string, zipPath: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const output = createWriteStream(zipPath);
+            const zip = archiver('zip', { zlib: { level: 9 } });
+
+            output.on('close', () => resolve());
+            zip.on('error', reject);
+            zip.pipe(output);
+            zip.directory(directory, false);
+            zip.finalize();
+        });
+    }
+}
@@ -0,0 +1,402 @@
+import {
+    OverwriteType,
+    PermissionFlagsBits,
+    PermissionsBitField
+} from 'discord.js';
+
+import { EVERYONE_ROLE_KEY } from '../utils/TemplateKeys';
+import {
+    ServerTemplate,
+    TemplateCategory,
+    TemplateChannel,
+    TemplatePermissionOverwrite,
+    TemplateRole
+} from '../schema/ServerTemplate';
+import { GuildState } from './exportFunctions';
+import { createImportPlan, PlanItemKind } from './planFunctions';
+
+/** How serious a finding is */
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+/** The stable IDs of the audit rules, used to suppress them */
+export type AuditRuleId =
+    | 'administrator-role'
+    | 'privileged-role'
+    | 'everyone-mention'
+    | 'everyone-dangerous'
+    | 'overwrite-missing-role'
+    | 'overwrite-redundant'
+    | 'channel-unreachable'
+    | 'import-blocked';
+
+/**
+ * Describes an audit rule
+ * @interface AuditRule
+ */
+export interface AuditRule {
+    /** The severity of every finding of the rule */
+    severity: AuditSeverity;
+    /** What the rule looks for */
+    description: string;
+}
+
+/**
+ * A risky or broken configuration found by an audit
+ * @interface AuditFinding
+ */
+export interface AuditFinding {
+    /** The ID of the rule that found it */
+    rule: AuditRuleId;
+    /** How serious it is */
+    severity: AuditSeverity;
+    /** The kind of item it was found on */
+    kind: PlanItemKind;
+    /** The template key of the item */
+    key: string;
+    /** The name of the item */
+    name: string;
+    /** What is wrong */
+    message: string;
+}
+
+/**
+ * Options that control an audit
+ * @interface AuditOptions
+ */
+export interface AuditOptions {
+    /** The guild the template would be imported into; needed to find what would block the bot */
+    guild?: GuildState;
+    /** Rule IDs to leave out, or `rule:key` to leave a rule out for a single item only */
+    suppress?: string[];
+}
+
+/** Every audit rule by ID */
+export const AUDIT_RULES: Record<AuditRuleId, AuditRule> = {
+    'administrator-role': {
+        severity: 'warning',
+        description: 'A role grants Administrator, which bypasses every permission overwrite'
+    },
+    'privileged-role': {
+        severity: 'warning',
+        description: 'A role without Administrator grants Manage Roles or Manage Webhooks, which can be used to gain more permissions'
+    },
+    'everyone-mention': {
+        severity: 'error',
+        description: '@everyone may mention @everyone and @here, server-wide or in a channel'
+    },
+    'everyone-dangerous': {
+        severity: 'error',
+        description: '@everyone is granted a moderation or management permission, server-wide or in a channel'
+    },
+    'overwrite-missing-role': {
+        severity: 'error',
+        description: 'A permission overwrite references a role that does not exist'
+    },
+    'overwrite-redundant': {
+        severity: 'info',
+        description: 'A permission overwrite changes nothing, or repeats its category\'s overwrite in a channel that is out of sync with it'
+    },
+    'channel-unreachable': {
+        severity: 'warning',
+        description: 'No role except administrators can view the channel'
+    },
+    'import-blocked': {
+        severity: 'warning',
+        description: 'The role hierarchy or the bot\'s permissions would stop an import from changing an item'
+    },
+};
+
+/** Permissions @everyone should never be granted */
+const DANGEROUS_PERMISSIONS = PermissionFlagsBits.Administrator
+    | PermissionFlagsBits.ManageGuild
+    | PermissionFlagsBits.ManageRoles
+    | PermissionFlagsBits.ManageChannels
+    | PermissionFlagsBits.ManageWebhooks
+    | PermissionFlagsBits.ManageMessages
+    | PermissionFlagsBits.ManageThreads
+    | PermissionFlagsBits.ManageNicknames
+    | PermissionFlagsBits.ManageGuildExpressions
+    | PermissionFlagsBits.ManageEvents
+    | PermissionFlagsBits.KickMembers
+    | PermissionFlagsBits.BanMembers
+    | PermissionFlagsBits.ModerateMembers;
+
+/** Permissions that let members without Administrator grant themselves more */
+const PRIVILEGED_PERMISSIONS = PermissionFlagsBits.ManageRoles | PermissionFlagsBits.ManageWebhooks;
+
+/**
+ * Lists the names of the permissions in a bitfield
+ * @param {bigint} bits - The permissions
+ * @returns {string} The permission names, comma separated
+ */
+function permissionNames(bits: bigint): string {
+    return new PermissionsBitField(bits).toArray().join(', ');
+}
+
+/**
+ * Checks a list of suppressions for rules that do not exist
+ * @param {string[]} suppress - Rule IDs, or `rule:key` pairs
+ * @throws {Error} If a suppression names an unknown rule
+ */
+function checkSuppressions(suppress: string[]): void {
+    const unknown = suppress.filter(entry => !Object.prototype.hasOwnProperty.call(AUDIT_RULES, entry.split(':')[0]));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown audit rule(s): ${unknown.join(', ')}. Valid rules are: ${Object.keys(AUDIT_RULES).join(', ')}`);
+    }
+}
+
+/**
+ * Collects the findings of every rule
+ */
+class TemplateAuditor {
+    private findings: AuditFinding[] = [];
+    private roles: Map<string, TemplateRole>;
+    private everyone: bigint;
+
+    /**
+     * Creates a new TemplateAuditor
+     * @param {ServerTemplate} template - The template to audit
+     */
+    constructor(private template: ServerTemplate) {
+        this.roles = new Map(template.roles.map(role => [role.key, role]));
+        this.everyone = BigInt(this.roles.get(EVERYONE_ROLE_KEY)?.permissions ?? '0');
+    }
+
+    /**
+     * Runs every rule
+     * @param {GuildState} [guild] - The guild the template would be imported into
+     * @returns {AuditFinding[]} The findings, in the order the rules ran
+     */
+    audit(guild?: GuildState): AuditFinding[] {
+        this.auditRoles();
+
+        for (const category of this.template.categories) {
+            this.auditOverwrites('category', category, category.permissionOverwrites);
+            for (const channel of category.channels) this.auditChannel(channel, category);
+        }
+        for (const channel of this.template.uncategorizedChannels) this.auditChannel(channel, null);
+
+        if (guild) this.auditImport(guild);
+        return this.findings;
+    }
+
+    /**
+     * Records a finding
+     * @param {AuditRuleId} rule - The rule that found it
+     * @param {PlanItemKind} kind - The kind of item
+     * @param {{ key: string, name: string }} item - The item
+     * @param {string} message - What is wrong
+     * @private
+     */
+    private report(rule: AuditRuleId, kind: PlanItemKind, item: { key: string; name: string }, message: string): void {
+        this.findings.push({
+            rule: rule,
+            severity: AUDIT_RULES[rule].severity,
+            kind: kind,
+            key: item.key,
+            name: item.name,
+            message: message
+        });
+    }
+
+    /**
+     * Checks the server-wide permissions of every role
+     * @private
+     */
+    private auditRoles(): void {
+        for (const role of this.template.roles) {
+            const permissions = BigInt(role.permissions);
+
+            if (role.key === EVERYONE_ROLE_KEY) {
+                if (permissions & PermissionFlagsBits.MentionEveryone) {
+                    this.report('everyone-mention', 'role', role, 'everyone in the server can mention @everyone and @here');
+                }
+                if (permissions & DANGEROUS_PERMISSIONS) {
+                    this.report('everyone-dangerous', 'role', role,
+                        `everyone in the server has ${permissionNames(permissions & DANGEROUS_PERMISSIONS)}`);
+                }
+                continue;
+            }
+
+            if (permissions & PermissionFlagsBits.Administrator) {
+                this.report('administrator-role', 'role', role, 'grants Administrator, which bypasses every overwrite');
+            } else if (permissions & PRIVILEGED_PERMISSIONS) {
+                this.report('privileged-role', 'role', role,
+                    `grants ${permissionNames(permissions & PRIVILEGED_PERMISSIONS)} without being an administrator role`);
+            }
+        }
+    }
+
+    /**
+     * Checks a channel's overwrites, whether they repeat its category's and whether anyone can view it
+     * @param {TemplateChannel} channel - The channel
+     * @param {TemplateCategory | null} category - The category of the channel, if any
+     * @private
+     */
+    private auditChannel(channel: TemplateChannel, category: TemplateCategory | null): void {
+        this.auditOverwrites('channel', channel, channel.permissionOverwrites);
+        if (category) this.auditInherited(channel, category);
+        if (!this.template.partial) this.auditReachable(channel);
+    }
+
+    /**
+     * Checks the overwrites of a category or channel for missing roles, overwrites that
+     * do nothing, and permissions granted to @everyone
+     * @param {PlanItemKind} kind - The kind of item
+     * @param {TemplateCategory | TemplateChannel} item - The category or channel
+     * @param {TemplatePermissionOverwrite[]} overwrites - Its overwrites
+     * @private
+     */
+    private auditOverwrites(
+        kind: PlanItemKind,
+        item: TemplateCategory | TemplateChannel,
+        overwrites: TemplatePermissionOverwrite[]
+    ): void {
+        const references = new Set(this.template.partial?.roleReferences.map(reference => reference.key) ?? []);
+
+        for (const overwrite of overwrites) {
+            const allow = BigInt(overwrite.allow);
+            const deny = BigInt(overwrite.deny);
+            const target = this.targetName(overwrite);
+
+            if (overwrite.type === OverwriteType.Role && !this.roles.has(overwrite.id) && !references.has(overwrite.id)) {
+                this.report('overwrite-missing-role', kind, item, `has an overwrite for role \`${overwrite.id}\`, which does not exist`);
+                continue;
+            }
+
+            if (allow === 0n && deny === 0n) {
+                this.report('overwrite-redundant', kind, item, `has an overwrite for ${target} that neither allows nor denies anything`);
+                continue;
+            }
+
+            if (overwrite.type !== OverwriteType.Role || overwrite.id !== EVERYONE_ROLE_KEY) continue;
+            if (allow & PermissionFlagsBits.MentionEveryone) {
+                this.report('everyone-mention', kind, item, 'lets @everyone mention @everyone and @here');
+            }
+            if (allow & DANGEROUS_PERMISSIONS) {
+                this.report('everyone-dangerous', kind, item, `grants @everyone ${permissionNames(allow & DANGEROUS_PERMISSIONS)}`);
+            }
+        }
+    }
+
+    /**
+     * Finds overwrites that a channel out of sync with its category copies unchanged from the category.
+     * Channels whose overwrites all equal the category's are in sync and not reported.
+     * @param {TemplateChannel} channel - The channel
+     * @param {TemplateCategory} category - The category of the channel
+     * @private
+     */
+    private auditInherited(channel: TemplateChannel, category: TemplateCategory): void {
+        const identify = (overwrite: TemplatePermissionOverwrite) =>
+            `${overwrite.type}:${overwrite.id}:${BigInt(overwrite.allow)}:${BigInt(overwrite.deny)}`;
+        const inherited = new Set(category.permissionOverwrites.map(identify));
+        const repeated = channel.permissionOverwrites.filter(overwrite =>
+            inherited.has(identify(overwrite)) && (BigInt(overwrite.allow) !== 0n || BigInt(overwrite.deny) !== 0n));
+
+        const synced = repeated.length === channel.permissionOverwrites.length
+            && repeated.length === category.permissionOverwrites.length;
+        if (synced) return;
+
+        for (const overwrite of repeated) {
+            this.report('overwrite-redundant', 'channel', channel,
+                `repeats the overwrite of category \`${category.name}\` for ${this.targetName(overwrite)}; sync the channel with its category instead`);
+        }
+    }
+
+    /**
+     * Checks whether a member with @everyone and at most one other role, which is not an
+     * administrator role, can view a channel. Role overwrites only ever add the
+     * permissions they allow, so a combination of roles cannot see more than its best role.
+     * @param {TemplateChannel} channel - The channel
+     * @private
+     */
+    private auditReachable(channel: TemplateChannel): void {
+        if (this.everyone & PermissionFlagsBits.Administrator) return;
+
+        const overwrites = new Map(channel.permissionOverwrites
+            .filter(overwrite => overwrite.type === OverwriteType.Role)
+            .map(overwrite => [overwrite.id, overwrite]));
+        const apply = (permissions: bigint, key: string) => {
+            const overwrite = overwrites.get(key);
+            return overwrite ? (permissions & ~BigInt(overwrite.deny)) | BigInt(overwrite.allow) : permissions;
+        };
+
+        const reachable = this.template.roles.some(role => {
+            const permissions = this.everyone | BigInt(role.permissions);
+            if (permissions & PermissionFlagsBits.Administrator) return false;
+
+            const everyone = apply(permissions, EVERYONE_ROLE_KEY);
+            const effective = role.key === EVERYONE_ROLE_KEY ? everyone : apply(everyone, role.key);
+            return (effective & PermissionFlagsBits.ViewChannel) !== 0n;
+        }) || channel.permissionOverwrites.some(overwrite =>
+            overwrite.type === OverwriteType.Member && (BigInt(overwrite.allow) & PermissionFlagsBits.ViewChannel) !== 0n);
+
+        if (!reachable) {
+            this.report('channel-unreachable', 'channel', channel, 'cannot be viewed by anyone except administrators');
+        }
+    }
+
+    /**
+     * Finds what the bot could not change when the template is imported into a guild,
+     * and roles it could never change because they are at or above its highest role
+     * @param {GuildState} guild - The guild the template would be imported into
+     * @private
+     */
+    private auditImport(guild: GuildState): void {
+        const plan = createImportPlan(this.template, guild.template, guild.live, { prune: !this.template.partial });
+        for (const blocked of plan.blocked) {
+            this.report('import-blocked', blocked.kind, blocked, `cannot be ${blocked.action}d: ${blocked.reason}`);
+        }
+
+        const blocked = new Set(plan.blocked.map(item => `${item.kind}:${item.key}`));
+        for (const entry of plan.roles) {
+            const item = entry.currentKey === undefined ? undefined : guild.live.roles.get(entry.currentKey);
+            if (!item || item.manageable || item.managed || entry.key === EVERYONE_ROLE_KEY) continue;
+            if (blocked.has(`role:${entry.key}`)) continue;
+
+            this.report('import-blocked', 'role', entry, 'is at or above the bot\'s highest role, so imports can never change or delete it');
+        }
+    }
+
+    /**
+     * Describes the target of an overwrite
+     * @param {TemplatePermissionOverwrite} overwrite - The overwrite
+     * @returns {string} The role's name or the user's mention
+     * @private
+     */
+    private targetName(overwrite: TemplatePermissionOverwrite): string {
+        if (overwrite.type === OverwriteType.Member) return `member \`${overwrite.id}\``;
+        if (overwrite.id === EVERYONE_ROLE_KEY) return '@everyone';
+        return `role \`${this.roles.get(overwrite.id)?.name ?? overwrite.id}\``;
+    }
+}
+
+/**
+ * Analyses a template for risky or broken configurations, such as dangerous permissions,
+ * overwrites for roles that do not exist and channels nobody can see.
+ * Audit a live guild by passing its exported template together with its state.
+ * @param {ServerTemplate} template - The template to audit
+ * @param {AuditOptions} [options] - The guild to check an import against and the rules to suppress
+ * @throws {Error} If a suppression names an unknown rule
+ * @returns {AuditFinding[]} The findings that are not suppressed, most severe first
+ */
+export function auditTemplate(template: ServerTemplate, options: AuditOptions = {}): AuditFinding[] {
+    const suppress = new Set(options.suppress ?? []);
+    checkSuppressions([...suppress]);
+
+    const order: AuditSeverity[] = ['error', 'warning', 'info'];
+    return new TemplateAuditor(template).audit(options.guild)
+        .filter(finding => !suppress.has(finding.rule) && !suppress.has(`${finding.rule}:${finding.key}`))
+        .sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+}
+
+/**
+ * Counts findings by severity
+ * @param {AuditFinding[]} findings - The findings to count
+ * @returns {Record<AuditSeverity, number>} The number of findings per severity
+ */
+export function countSeverities(findings: AuditFinding[]): Record<AuditSeverity, number> {
+    const counts: Record<AuditSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const finding of findings) counts[finding.severity]++;
+    return counts;
+}
@@ -0,0 +1,215 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Client, Guild } from 'discord.js';
+
+import { ExportHelper } from './exportFunctions';
+import { ImportHelper } from './importFunctions';
+import { JournalStore } from './journalFunctions';
+import { LibraryEntry, TemplateLibrary } from './libraryFunctions';
+
+/** Prefix of the names scheduled backups are stored under in the template library */
+export const BACKUP_PREFIX = 'backup-';
+
+/** Milliseconds between backups for each schedule interval */
+export const BACKUP_INTERVALS = {
+    hourly: 60 * 60 * 1000,
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** How often backups can be scheduled */
+export type BackupInterval = keyof typeof BACKUP_INTERVALS;
+
+/**
+ * The automatic backup schedule of a guild
+ * @interface BackupSchedule
+ */
+export interface BackupSchedule {
+    /** The ID of the guild */
+    guildId: string;
+    /** How often a backup is taken */
+    interval: BackupInterval;
+    /** How many backups are kept; older ones are removed after each backup */
+    keep: number;
+    /** Who configured the schedule */
+    configuredBy: string;
+    /** When the schedule was configured, as an ISO timestamp */
+    configuredAt: string;
+    /** When the last backup was taken, as an ISO timestamp */
+    lastBackupAt: string | null;
+    /** Why the last backup failed, if it did */
+    lastError: string | null;
+}
+
+/**
+ * Stores the backup schedule of each guild on the local file system.
+ * Schedules live in `<DATA_DIR>/backups/<guild ID>.json`.
+ * @class BackupScheduleStore
+ */
+export class BackupScheduleStore {
+    private directory: string;
+
+    /**
+     * Creates an instance of BackupScheduleStore
+     * @param {string} [dataDir] - Base directory for stored data, defaults to `DATA_DIR` or `./data`
+     */
+    constructor(dataDir = process.env.DATA_DIR || 'data') {
+        this.directory = join(dataDir, 'backups');
+    }
+
+    /**
+     * Stores a guild's schedule, replacing its previous one
+     * @param {BackupSchedule} schedule - The schedule
+     * @returns {Promise<void>}
+     */
+    async save(schedule: BackupSchedule): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(this.schedulePath(schedule.guildId), JSON.stringify(schedule, null, 2), 'utf-8');
+    }
+
+    /**
+     * Loads a guild's schedule
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<BackupSchedule | null>} The schedule, or null if backups are not scheduled
+     */
+    async load(guildId: string): Promise<BackupSchedule | null> {
+        if (!/^\d+$/.test(guildId)) return null;
+
+        const content = await readFile(this.schedulePath(guildId), 'utf-8').catch(() => null);
+        return content ? JSON.parse(content) : null;
+    }
+
+    /**
+     * Lists the schedules of all guilds
+     * @returns {Promise<BackupSchedule[]>} The schedules
+     */
+    async list(): Promise<BackupSchedule[]> {
+        const files = await readdir(this.directory).catch(() => [] as string[]);
+        const schedules: BackupSchedule[] = [];
+
+        for (const file of files.filter(name => /^\d+\.json$/.test(name))) {
+            const schedule = await this.load(file.slice(0, -'.json'.length));
+            if (schedule) schedules.push(schedule);
+        }
+        return schedules;
+    }
+
+    /**
+     * Removes a guild's schedule, which stops its backups; backups already taken are kept
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<boolean>} True if backups were scheduled
+     */
+    async remove(guildId: string): Promise<boolean> {
+        const exists = (await this.load(guildId)) !== null;
+        await rm(this.schedulePath(guildId), { force: true });
+        return exists;
+    }
+
+    /**
+     * Resolves the path of a guild's schedule file
+     * @param {string} guildId - The ID of the guild
+     * @returns {string} The file path
+     * @private
+     */
+    private schedulePath(guildId: string): string {
+        return join(this.directory, `${guildId}.json`);
+    }
+}
+
+/**
+ * Takes the scheduled backups of every guild in the background. Backups are exported
+ * like `/export` and stored in the guild's template library as `backup-<timestamp>`;
+ * after each backup, the oldest backups beyond the schedule's limit are removed.
+ * @class BackupScheduler
+ */
+export class BackupScheduler {
+    private client: Client;
+    private checkInterval: number;
+    private timer: NodeJS.Timeout | null = null;
+    /** Whether a check is in progress, so slow backups do not overlap */
+    private checking = false;
+    private schedules: BackupScheduleStore = new BackupScheduleStore();
+    private library: TemplateLibrary = new TemplateLibrary();
+
+    /**
+     * Creates an instance of BackupScheduler
+     * @param {Client} client - The logged in client
+     * @param {number} [checkInterval] - Milliseconds between checks for due backups
+     */
+    constructor(client: Client, checkInterval = 5 * 60 * 1000) {
+        this.client = client;
+        this.checkInterval = checkInterval;
+    }
+
+    /**
+     * Starts checking for due backups, beginning right away
+     */
+    start(): void {
+        if (this.timer) return;
+
+        this.timer = setInterval(() => this.runDue(), this.checkInterval);
+        this.runDue();
+    }
+
+    /**
+     * Stops checking for due backups. A backup in progress still finishes.
+     */
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Takes the backups that are due. Guilds with a running or interrupted import are
+     * skipped until the next check, so a backup never captures a half-imported server.
+     * @returns {Promise<void>}
+     */
+    async runDue(): Promise<void> {
+        if (this.checking) return;
+        this.checking = true;
+
+        try {
+            const unfinished = await new JournalStore().list();
+            for (const schedule of await this.schedules.list()) {
+                const guild = this.client.guilds.cache.get(schedule.guildId);
+                const last = schedule.lastBackupAt ? Date.parse(schedule.lastBackupAt) : 0;
+                if (!guild || ImportHelper.isRunning(guild.id) || unfinished.includes(guild.id) ||
+                    Date.now() - last < BACKUP_INTERVALS[schedule.interval]) {
+                    continue;
+                }
+
+                let lastError: string | null = null;
+                try {
+                    await this.backup(guild, schedule.keep);
+                } catch (error) {
+                    console.error(`Error backing up guild ${guild.id}:`, error);
+                    lastError = (error as Error).message;
+                }
+
+                const current = await this.schedules.load(guild.id);
+                if (current) {
+                    await this.schedules.save({ ...current, lastBackupAt: new Date().toISOString(), lastError });
+                }
+            }
+        } catch (error) {
+            console.error('Error checking for due backups:', error);
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    /**
+     * Exports a guild into its template library as a backup and prunes the oldest backups
+     * @param {Guild} guild - The guild to back up
+     * @param {number} keep - How many backups to keep
+     * @returns {Promise<LibraryEntry>} The stored backup
+     */
+    async backup(guild: Guild, keep: number): Promise<LibraryEntry> {
+        const template = await new ExportHelper(guild).exportTemplate();
+        const name = `${BACKUP_PREFIX}${new Date().toISOString().replace(/[:.]/g, '-')}`;
+        const entry = await this.library.save(guild.id, name, template, 'scheduled backup');
+
+        await this.library.prune(guild.id, BACKUP_PREFIX, keep);
+        return entry;
+    }
+}
@@ -1,24 +1,26 @@
-import { 
-    ChannelType, 
-    Guild, 
-    GuildChannel, 
-    Role, 
-    BaseGuildTextChannel 
-} from "discord.js";
+import { ChannelType } from "discord.js";
+
+import {
+    GuildAdapter,
+    GuildChannelData,
+    GuildRoleData
+} from "../adapters/GuildAdapter";
 
 /**
  * Generic delete function that handles bulk deletions with error handling
  * @param items Array of items to delete
  * @param itemName Name of the type being deleted (for logging)
+ * @param remove Deletes a single item by ID
  * @returns Promise<void>
  */
-async function bulkDelete<T extends GuildChannel | Role>(
+async function bulkDelete<T extends GuildChannelData | GuildRoleData>(
     items: T[],
-    itemName: string
+    itemName: string,
+    remove: (id: string) => Promise<void>
 ): Promise<void> {
     for (const item of items) {
         try {
-            await item.delete();
+            await remove(item.id);
             console.log(`Deleted ${itemName}: ${item.name}`);
         } catch (error) {
             console.error(`Failed to delete ${itemName}: ${item.name}`, error);
@@ -28,51 +30,51 @@ async function bulkDelete<T extends GuildChannel | Role>(
 
 /**
  * Deletes all text channels in a guild
- * @param guild Discord Guild object
+ * @param guild Guild adapter
  * @returns Promise<void>
  */
-async function deleteTextChannels(guild: Guild): Promise<void> {
-    const textChannels = [...guild.channels.cache.values()]
+async function deleteTextChannels(guild: GuildAdapter): Promise<void> {
+    const textChannels = (await guild.fetchChannels())
         .filter(channel => channel.type === ChannelType.GuildText);
-    await bulkDelete(textChannels, 'text channel');
+    await bulkDelete(textChannels, 'text channel', id => guild.deleteChannel(id));
 }
 
 /**
  * Deletes all voice channels in a guild
- * @param guild Discord Guild object
+ * @param guild Guild adapter
  * @returns Promise<void>
  */
-async function deleteVoiceChannels(guild: Guild): Promise<void> {
-    const voiceChannels = [...guild.channels.cache.values()]
+async function deleteVoiceChannels(guild: GuildAdapter): Promise<void> {
+    const voiceChannels = (await guild.fetchChannels())
         .filter(channel => channel.type === ChannelType.GuildVoice);
-    await bulkDelete(voiceChannels, 'voice channel');
+    await bulkDelete(voiceChannels, 'voice channel', id => guild.deleteChannel(id));
 }
 
-async function deleteAllChannels(guild: Guild): Promise<void> {
-  const channels: BaseGuildTextChannel[] = [...guild.channels.cache.values()]
-      .filter(channel => channel.type !== ChannelType.GuildCategory) as BaseGuildTextChannel[];
-  await bulkDelete(channels, 'channel');
+async function deleteAllChannels(guild: GuildAdapter): Promise<void> {
+  const channels = (await guild.fetchChannels())
+      .filter(channel => channel.type !== ChannelType.GuildCategory);
+  await bulkDelete(channels, 'channel', id => guild.deleteChannel(id));
 }
 
 /**
  * Deletes all roles in a guild
- * @param guild Discord Guild object
+ * @param guild Guild adapter
  * @returns Promise<void>
  */
-async function deleteAllRoles(guild: Guild): Promise<void> {
-    const roles = [...guild.roles.cache.values()];
-    await bulkDelete(roles, 'role');
+async function deleteAllRoles(guild: GuildAdapter): Promise<void> {
+    const roles = await guild.fetchRoles();
+    await bulkDelete(roles, 'role', id => guild.deleteRole(id));
 }
 
 /**
  * Deletes all category channels in a guild
- * @param guild Discord Guild object
+ * @param guild Guild adapter
  * @returns Promise<void>
  */
-async function deleteCategories(guild: Guild): Promise<void> {
-    const categories = [...guild.channels.cache.values()]
+async function deleteCategories(guild: GuildAdapter): Promise<void> {
+    const categories = (await guild.fetchChannels())
         .filter(channel => channel.type === ChannelType.GuildCategory);
-    await bulkDelete(categories, 'category');
+    await bulkDelete(categories, 'category', id => guild.deleteChannel(id));
 }
 
-export { deleteAllRoles, deleteCategories, deleteAllChannels };
\ No newline at end of file
+export { deleteAllRoles, deleteCategories, deleteAllChannels };
@@ -0,0 +1,446 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+    Client,
+    Guild,
+    PermissionFlagsBits
+} from 'discord.js';
+
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { ExportHelper } from './exportFunctions';
+import { ImportHelper, ImportReport } from './importFunctions';
+import { JournalStore } from './journalFunctions';
+import {
+    createImportPlan,
+    ImportPlan,
+    PlanItemKind
+} from './planFunctions';
+import { ReplayHelper } from './replayFunctions';
+import { selectTemplate } from './selectionFunctions';
+import { MessageFormatter } from '../utils/MessageFormatter';
+
+/** How a role, category or channel differs from the pinned template */
+export type DriftChange = 'missing' | 'unexpected' | 'modified';
+
+/**
+ * A guild's pinned template and how drift from it is handled.
+ * Pins live in `<DATA_DIR>/drift/<guild ID>.json`.
+ * @interface DriftConfig
+ */
+export interface DriftConfig {
+    /** The ID of the guild */
+    guildId: string;
+    /** The rendered template the guild is compared with */
+    template: ServerTemplate;
+    /** The name of the stored template that was pinned, or null if the server itself was */
+    templateName: string | null;
+    /** Who pinned the template */
+    pinnedBy: string;
+    /** When the template was pinned, as an ISO timestamp */
+    pinnedAt: string;
+    /** The channel drift reports are posted to, if any */
+    logChannelId: string | null;
+    /** Whether drift of protected roles and categories is reverted automatically */
+    autoRevert: boolean;
+    /** Keys of the roles that are reverted */
+    protectedRoles: string[];
+    /** Keys of the categories that are reverted together with their channels */
+    protectedCategories: string[];
+    /** The live IDs of the pinned items by `<kind>:<key>`, so deleted items can still be looked up in the audit log */
+    ids: Record<string, string>;
+    /** A fingerprint of the last drift that was posted, so unchanged drift is not posted again */
+    lastReport: string | null;
+}
+
+/**
+ * A role, category or channel that differs from the pinned template
+ * @interface DriftEntry
+ */
+export interface DriftEntry {
+    /** The kind of item */
+    kind: PlanItemKind;
+    /** How the item differs */
+    change: DriftChange;
+    /** The template key of the item, or the live key of an unexpected item */
+    key: string;
+    /** The name of the item */
+    name: string;
+    /** The live snowflake of the item, if known */
+    id: string | null;
+    /** Names of the properties that differ, for modified items */
+    changes: string[];
+    /** The ID of the user who last changed the item according to the audit log, if known */
+    changedBy: string | null;
+}
+
+/**
+ * The result of comparing a guild with its pinned template
+ * @interface DriftReport
+ */
+export interface DriftReport {
+    /** When the guild was compared, as an ISO timestamp */
+    checkedAt: string;
+    /** The items that differ, roles first */
+    entries: DriftEntry[];
+    /** The live IDs of the pinned items found in the guild, by `<kind>:<key>` */
+    ids: Record<string, string>;
+}
+
+/**
+ * Options for pinning a template
+ * @interface PinOptions
+ */
+export interface PinOptions {
+    /** The name of the stored template being pinned, or null for the server itself */
+    templateName: string | null;
+    /** Who pins the template */
+    pinnedBy: string;
+    /** The channel drift reports are posted to */
+    logChannelId: string | null;
+    /** Whether drift of protected roles and categories is reverted automatically */
+    autoRevert: boolean;
+    /** Names or keys of the roles to protect */
+    protectedRoles: string[];
+    /** Names or keys of the categories to protect */
+    protectedCategories: string[];
+}
+
+/**
+ * Stores the pinned template of each guild on the local file system
+ * @class DriftStore
+ */
+export class DriftStore {
+    private directory: string;
+
+    /**
+     * Creates an instance of DriftStore
+     * @param {string} [dataDir] - Base directory for stored data, defaults to `DATA_DIR` or `./data`
+     */
+    constructor(dataDir = process.env.DATA_DIR || 'data') {
+        this.directory = join(dataDir, 'drift');
+    }
+
+    /**
+     * Stores a guild's pin, replacing its previous one
+     * @param {DriftConfig} config - The pin
+     * @returns {Promise<void>}
+     */
+    async save(config: DriftConfig): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(this.configPath(config.guildId), JSON.stringify(config, null, 2), 'utf-8');
+    }
+
+    /**
+     * Loads a guild's pin
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<DriftConfig | null>} The pin, or null if no template is pinned
+     */
+    async load(guildId: string): Promise<DriftConfig | null> {
+        if (!/^\d+$/.test(guildId)) return null;
+
+        const content = await readFile(this.configPath(guildId), 'utf-8').catch(() => null);
+        return content ? JSON.parse(content) : null;
+    }
+
+    /**
+     * Removes a guild's pin, which stops drift detection
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<boolean>} True if a template was pinned
+     */
+    async remove(guildId: string): Promise<boolean> {
+        const exists = (await this.load(guildId)) !== null;
+        await rm(this.configPath(guildId), { force: true });
+        return exists;
+    }
+
+    /**
+     * Resolves the path of a guild's pin file
+     * @param {string} guildId - The ID of the guild
+     * @returns {string} The file path
+     * @private
+     */
+    private configPath(guildId: string): string {
+        return join(this.directory, `${guildId}.json`);
+    }
+}
+
+/**
+ * Compares a guild with its pinned template and reverts drift of protected items.
+ * Roles, categories and channels are compared like `/import mode:plan` does; positions
+ * are left out because they shift whenever anything else is added or moved.
+ * @class DriftHelper
+ */
+export class DriftHelper {
+    private guild: Guild;
+
+    /**
+     * Creates an instance of DriftHelper
+     * @param {Guild} guild - The guild to watch
+     */
+    constructor(guild: Guild) {
+        this.guild = guild;
+    }
+
+    /**
+     * Pins a template to the guild, replacing any previous pin
+     * @param {ServerTemplate} template - The rendered template to pin
+     * @param {PinOptions} options - Who pins it and how drift is handled
+     * @throws {Error} If a protected role or category is not in the template
+     * @returns {Promise<DriftConfig>} The stored pin
+     */
+    async pin(template: ServerTemplate, options: PinOptions): Promise<DriftConfig> {
+        const unknown: string[] = [];
+        const resolve = (wanted: string[], items: { key: string; name: string }[], label: string) => wanted.flatMap(name => {
+            const item = items.find(item => item.key === name || item.name.toLowerCase() === name.toLowerCase());
+            if (!item) unknown.push(`${label} "${name}"`);
+            return item ? [item.key] : [];
+        });
+
+        const protectedRoles = resolve(options.protectedRoles, template.roles, 'role');
+        const protectedCategories = resolve(options.protectedCategories, template.categories, 'category');
+        if (unknown.length > 0) {
+            throw new Error(`Not found in the pinned template: ${unknown.join(', ')}`);
+        }
+
+        const config: DriftConfig = {
+            guildId: this.guild.id,
+            template: template,
+            templateName: options.templateName,
+            pinnedBy: options.pinnedBy,
+            pinnedAt: new Date().toISOString(),
+            logChannelId: options.logChannelId,
+            autoRevert: options.autoRevert,
+            protectedRoles: protectedRoles,
+            protectedCategories: protectedCategories,
+            ids: {},
+            lastReport: null
+        };
+        config.ids = (await this.check(config)).ids;
+
+        await new DriftStore().save(config);
+        return config;
+    }
+
+    /**
+     * Compares the guild with its pinned template and looks up who last changed each differing item
+     * @param {DriftConfig} config - The pin
+     * @returns {Promise<DriftReport>} The drift
+     */
+    async check(config: DriftConfig): Promise<DriftReport> {
+        const state = await new ExportHelper(this.guild).captureState();
+        const plan = createImportPlan(config.template, state.template, state.live, { prune: !config.template.partial });
+
+        const entries: DriftEntry[] = [...plan.roles, ...plan.categories, ...plan.channels].flatMap((entry): DriftEntry[] => {
+            const changes = entry.changes.filter(change => change !== 'position');
+            if (entry.action === 'keep' || (entry.action === 'update' && changes.length === 0)) return [];
+
+            return [{
+                kind: entry.kind,
+                change: entry.action === 'create' ? 'missing' : entry.action === 'delete' ? 'unexpected' : 'modified',
+                key: entry.key,
+                name: entry.name,
+                id: entry.id ?? config.ids[`${entry.kind}:${entry.key}`] ?? null,
+                changes: entry.action === 'update' ? changes : [],
+                changedBy: null
+            }];
+        });
+
+        await this.attribute(entries, Date.parse(config.pinnedAt));
+        return {
+            checkedAt: new Date().toISOString(),
+            entries: entries,
+            ids: this.collectIds(plan)
+        };
+    }
+
+    /**
+     * Restores the protected roles and categories that are missing or were modified, by syncing
+     * the part of the pinned template that covers them as a journaled import, so no other import
+     * can start while it runs. Unexpected items are left alone, and so is drift the bot itself
+     * caused, e.g. with an import.
+     * @param {DriftConfig} config - The pin
+     * @param {DriftReport} report - The drift to revert
+     * @returns {Promise<{ reverted: DriftEntry[]; report: ImportReport } | null>} The reverted entries and
+     * the report of the sync, or null if no protected item drifted or an import or replay is running
+     * @throws {Error} If an import started in the meantime
+     */
+    async revert(config: DriftConfig, report: DriftReport): Promise<{ reverted: DriftEntry[]; report: ImportReport } | null> {
+        const parents = new Map(config.template.categories.flatMap(category =>
+            category.channels.map(channel => [channel.key, category.key])));
+        const categoryOf = (entry: DriftEntry) => entry.kind === 'category' ? entry.key : parents.get(entry.key);
+
+        const reverted = report.entries.filter(entry =>
+            entry.change !== 'unexpected' &&
+            entry.changedBy !== this.guild.client.user.id &&
+            (entry.kind === 'role'
+                ? config.protectedRoles.includes(entry.key)
+                : config.protectedCategories.includes(categoryOf(entry) ?? '')));
+        if (reverted.length === 0 || ImportHelper.isRunning(this.guild.id) || ReplayHelper.isRunning(this.guild.id)) return null;
+
+        const template = selectTemplate(config.template, {
+            sections: [],
+            roles: [...new Set(reverted.filter(entry => entry.kind === 'role').map(entry => entry.key))],
+            categories: [...new Set(reverted.filter(entry => entry.kind !== 'role').map(entry => categoryOf(entry)!))]
+        });
+
+        const syncReport = await new ImportHelper(this.guild).restoreTemplate(template, this.guild.client.user.tag);
+        return { reverted, report: syncReport };
+    }
+
+    /**
+     * Records who last changed each item, from the guild's audit log since the template was pinned.
+     * Nothing is recorded if the bot cannot view the audit log.
+     * @param {DriftEntry[]} entries - The entries to attribute
+     * @param {number} since - Only audit log entries after this timestamp are used
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async attribute(entries: DriftEntry[], since: number): Promise<void> {
+        const targets = new Set(entries.map(entry => entry.id).filter(id => id !== null));
+        if (targets.size === 0 || !this.guild.members.me?.permissions.has(PermissionFlagsBits.ViewAuditLog)) return;
+
+        const logs = await this.guild.fetchAuditLogs({ limit: 100 }).catch(() => null);
+        if (!logs) return;
+
+        const latest = new Map<string, string>();
+        for (const log of logs.entries.values()) {
+            if (!log.targetId || !log.executorId || log.createdTimestamp < since || latest.has(log.targetId)) continue;
+            if (targets.has(log.targetId)) latest.set(log.targetId, log.executorId);
+        }
+
+        for (const entry of entries) {
+            entry.changedBy = entry.id ? latest.get(entry.id) ?? null : null;
+        }
+    }
+
+    /**
+     * Collects the live IDs of the pinned items that were found in the guild
+     * @param {ImportPlan} plan - The comparison of the pinned template with the guild
+     * @returns {Record<string, string>} The IDs by `<kind>:<key>`
+     * @private
+     */
+    private collectIds(plan: ImportPlan): Record<string, string> {
+        const ids: Record<string, string> = {};
+        for (const entry of [...plan.roles, ...plan.categories, ...plan.channels]) {
+            if (entry.id && entry.action !== 'delete' && entry.currentKey !== undefined) {
+                ids[`${entry.kind}:${entry.key}`] = entry.id;
+            }
+        }
+        return ids;
+    }
+}
+
+/**
+ * Watches guilds with a pinned template for structural changes. Role and channel events
+ * are collected for a few seconds, then the guild is compared with its template, protected
+ * items are reverted if enabled, and new drift is posted to the log channel.
+ * @class DriftMonitor
+ */
+export class DriftMonitor {
+    private client: Client;
+    private delay: number;
+    /** Pending checks by guild ID */
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    /** IDs of the guilds being checked, so a check never overlaps the revert of the previous one */
+    private checking: Set<string> = new Set();
+    private store: DriftStore = new DriftStore();
+
+    /**
+     * Creates an instance of DriftMonitor
+     * @param {Client} client - The logged in client
+     * @param {number} [delay] - Milliseconds to wait after the last change before checking, defaults to `DRIFT_CHECK_DELAY` or 10 seconds
+     */
+    constructor(client: Client, delay = Number(process.env.DRIFT_CHECK_DELAY) || 10000) {
+        this.client = client;
+        this.delay = delay;
+    }
+
+    /**
+     * Schedules a check of a guild whose roles or channels changed, postponing any check already scheduled
+     * @param {Guild} guild - The guild that changed
+     */
+    handleChange(guild: Guild): void {
+        const pending = this.timers.get(guild.id);
+        if (pending) clearTimeout(pending);
+
+        this.timers.set(guild.id, setTimeout(() => this.run(guild.id), this.delay));
+    }
+
+    /**
+     * Cancels the scheduled checks
+     */
+    stop(): void {
+        for (const timer of this.timers.values()) clearTimeout(timer);
+        this.timers.clear();
+    }
+
+    /**
+     * Checks a guild against its pinned template. Guilds with a running or interrupted
+     * import or a running replay are skipped, as their structure is still changing. A change
+     * made while the guild is being checked is checked again once the check has finished.
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<void>}
+     */
+    async run(guildId: string): Promise<void> {
+        this.timers.delete(guildId);
+        const guild = this.client.guilds.cache.get(guildId);
+        if (!guild || ImportHelper.isRunning(guildId) || ReplayHelper.isRunning(guildId)) return;
+        if (this.checking.has(guildId)) {
+            this.handleChange(guild);
+            return;
+        }
+        if ((await new JournalStore().list()).includes(guildId)) return;
+
+        this.checking.add(guildId);
+        try {
+            const config = await this.store.load(guildId);
+            if (!config) return;
+
+            const helper = new DriftHelper(guild);
+            let report = await helper.check(config);
+            let reverted: DriftEntry[] = [];
+            if (config.autoRevert) {
+                const result = await helper.revert(config, report).catch(error => {
+                    console.error(`Error reverting drift in guild ${guildId}:`, error);
+                    return null;
+                });
+                if (result) {
+                    reverted = result.reverted;
+                    report = await helper.check(config);
+                }
+            }
+
+            const fingerprint = report.entries.length > 0
+                ? JSON.stringify(report.entries.map(entry => [entry.kind, entry.change, entry.key, entry.changes]))
+                : null;
+            const current = await this.store.load(guildId);
+            if (!current) return;
+
+            if (fingerprint !== current.lastReport || reverted.length > 0) {
+                await this.post(guild, current, MessageFormatter.driftReport('**Drift detection**', report, reverted));
+            }
+            await this.store.save({ ...current, ids: { ...current.ids, ...report.ids }, lastReport: fingerprint });
+        } catch (error) {
+            console.error(`Error checking guild ${guildId} for drift:`, error);
+        } finally {
+            this.checking.delete(guildId);
+        }
+    }
+
+    /**
+     * Posts a message to the pin's log channel, without pinging anyone
+     * @param {Guild} guild - The guild
+     * @param {DriftConfig} config - The pin
+     * @param {string} content - The message
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async post(guild: Guild, config: DriftConfig, content: string): Promise<void> {
+        if (!config.logChannelId) return;
+
+        const channel = await guild.channels.fetch(config.logChannelId).catch(() => null);
+        if (!channel?.isTextBased()) return;
+
+        await channel.send({ content: content, allowedMentions: { parse: [] } });
+    }
+}
@@ -0,0 +1,445 @@
+import { 
+    ChannelType, 
+    Guild, 
+    OverwriteType, 
+    StickerFormatType 
+} from 'discord.js';
+
+import { EVERYONE_ROLE_KEY, KeyAllocator } from '../utils/TemplateKeys';
+import { 
+    ServerTemplate, 
+    TEMPLATE_SCHEMA_VERSION, 
+    TemplateCategory, 
+    TemplateChannel, 
+    TemplateEmoji, 
+    TemplateEmojiReference, 
+    TemplateGuildSettings, 
+    TemplateMember, 
+    TemplatePermissionOverwrite, 
+    TemplateRole, 
+    TemplateSticker 
+} from '../schema/ServerTemplate';
+import { 
+    GuildAdapter, 
+    GuildChannelData, 
+    GuildOverwriteData, 
+    GuildRoleData, 
+    GuildSettingsData 
+} from '../adapters/GuildAdapter';
+import { adaptGuild } from '../adapters/DiscordGuildAdapter';
+
+/**
+ * Live information about a guild item that a template does not capture
+ * @interface LiveItem
+ */
+export interface LiveItem {
+    /** The Discord snowflake of the item */
+    id: string;
+    /** Whether the bot is allowed to edit and delete the item */
+    manageable: boolean;
+    /** Whether the item is managed by an integration (bot and booster roles) */
+    managed: boolean;
+}
+
+/**
+ * Live guild information keyed by the template keys assigned during export
+ * @interface LiveContext
+ */
+export interface LiveContext {
+    /** Live role information by role key */
+    roles: Map<string, LiveItem>;
+    /** Live category information by category key */
+    categories: Map<string, LiveItem>;
+    /** Live channel information by channel key */
+    channels: Map<string, LiveItem>;
+    /** Position of the bot's highest role; it cannot manage roles at or above it */
+    botHighestRolePosition: number;
+    /** The bot's guild-wide permissions bitfield as a decimal string */
+    botPermissions: string;
+}
+
+/**
+ * A guild exported as a template together with its live metadata
+ * @interface GuildState
+ */
+export interface GuildState {
+    /** The guild in template form */
+    template: ServerTemplate;
+    /** Snowflakes and bot capabilities for every item in the template */
+    live: LiveContext;
+}
+
+/**
+ * Options for an export
+ * @interface ExportOptions
+ */
+export interface ExportOptions {
+    /** Whether the roles of every member are recorded, which needs the member intents */
+    members?: boolean;
+    /** Whether member nicknames are recorded along with their roles */
+    nicknames?: boolean;
+}
+
+/**
+ * Helper class for exporting a Discord server as a template
+ * @class ExportHelper
+ */
+export class ExportHelper {
+    private guild: GuildAdapter;
+    /** The roles of the guild by ID, recorded while exporting them */
+    private roles: Map<string, GuildRoleData> = new Map();
+    /** Maps source role IDs to their template keys */
+    private roleKeyMap: Map<string, string> = new Map();
+    /** Maps source channel IDs to their template keys */
+    private channelKeyMap: Map<string, string> = new Map();
+    /** Maps source emoji IDs to their template keys */
+    private emojiKeyMap: Map<string, string> = new Map();
+
+    /**
+     * Creates an instance of ExportHelper
+     * @param {Guild | GuildAdapter} guild - The Discord guild to export, or an adapter for it
+     */
+    constructor(guild: Guild | GuildAdapter) {
+        this.guild = adaptGuild(guild);
+    }
+
+    /**
+     * Exports the guild's roles, categories and channels as a template
+     * @param {ExportOptions} [options] - Options that control the export
+     * @throws {Error} If members are requested but the bot does not receive the member intents
+     * @returns {Promise<ServerTemplate>} The exported template
+     */
+    async exportTemplate(options: ExportOptions = {}): Promise<ServerTemplate> {
+        const { template } = await this.captureState();
+        if (options.members) {
+            template.members = await this.exportMembers(options.nicknames ?? false);
+        }
+        return template;
+    }
+
+    /**
+     * Exports the guild as a template and records the live IDs and
+     * bot capabilities for every exported item
+     * @returns {Promise<GuildState>} The exported template with live metadata
+     */
+    async captureState(): Promise<GuildState> {
+        const bot = await this.guild.fetchBot();
+        const live: LiveContext = {
+            roles: new Map(),
+            categories: new Map(),
+            channels: new Map(),
+            botHighestRolePosition: bot.highestRolePosition,
+            botPermissions: bot.permissions.toString()
+        };
+
+        const roles = await this.exportRoles(live);
+        const emojis = await this.exportEmojis();
+        const stickers = await this.exportStickers();
+
+        const settings = await this.guild.fetchSettings();
+        const channels = (await this.guild.fetchChannels())
+            .sort((a, b) => a.position - b.position);
+        const categoryKeys = new KeyAllocator();
+        const channelKeys = new KeyAllocator();
+        this.channelKeyMap.clear();
+
+        const categories: TemplateCategory[] = channels
+            .filter(channel => channel.type === ChannelType.GuildCategory)
+            .map(category => {
+                const key = categoryKeys.allocate(category.name, 'category');
+                live.categories.set(key, {
+                    id: category.id,
+                    manageable: category.manageable,
+                    managed: false
+                });
+
+                return {
+                    key: key,
+                    name: category.name,
+                    position: category.position,
+                    permissionOverwrites: this.mapPermissionOverwrites(category.permissionOverwrites),
+                    channels: channels
+                        .filter(ch => ch.parentId === category.id)
+                        .map(channel => this.mapChannel(channel, channelKeys, live))
+                };
+            });
+
+        const uncategorizedChannels: TemplateChannel[] = channels
+            .filter(channel => !channel.parentId && channel.type !== ChannelType.GuildCategory)
+            .map(channel => this.mapChannel(channel, channelKeys, live));
+
+        const template: ServerTemplate = {
+            schemaVersion: TEMPLATE_SCHEMA_VERSION,
+            name: settings.name,
+            roles: roles,
+            categories: categories,
+            uncategorizedChannels: uncategorizedChannels,
+            settings: await this.exportSettings(settings),
+            emojis: emojis,
+            stickers: stickers,
+            exportedAt: new Date().toISOString()
+        };
+
+        return { template, live };
+    }
+
+    /**
+     * Serializes the guild's roles, highest first, assigning each a template key.
+     * Integration-managed roles (bot and booster roles) are left out, as an import
+     * could only recreate them as ordinary roles.
+     * @param {LiveContext} live - Receives the live metadata of every role
+     * @returns {Promise<TemplateRole[]>} The serialized roles
+     * @private
+     */
+    private async exportRoles(live: LiveContext): Promise<TemplateRole[]> {
+        const roles = await this.guild.fetchRoles();
+        const roleKeys = new KeyAllocator([EVERYONE_ROLE_KEY]);
+        this.roleKeyMap.clear();
+        this.roles = new Map(roles.map(role => [role.id, role]));
+
+        return roles
+            .filter(role => !role.managed)
+            .sort((a, b) => b.position - a.position)
+            .map(role => {
+                const key = role.id === this.guild.id
+                    ? EVERYONE_ROLE_KEY
+                    : roleKeys.allocate(role.name, 'role');
+                this.roleKeyMap.set(role.id, key);
+                live.roles.set(key, {
+                    id: role.id,
+                    manageable: role.editable,
+                    managed: role.managed
+                });
+
+                return {
+                    key: key,
+                    name: role.name,
+                    color: role.color,
+                    hoist: role.hoist,
+                    position: role.position,
+                    permissions: role.permissions.toString(),
+                    mentionable: role.mentionable
+                };
+            });
+    }
+
+    /**
+     * Records the roles of every member who has any, by template key. Bots, @everyone and
+     * integration-managed roles are left out, as they cannot be given back on import.
+     * Must run after the roles have been exported, so their keys are known.
+     * @param {boolean} nicknames - Whether to record nicknames too
+     * @throws {Error} If the bot does not receive the member intents
+     * @returns {Promise<TemplateMember[]>} The recorded members
+     * @private
+     */
+    private async exportMembers(nicknames: boolean): Promise<TemplateMember[]> {
+        if (!this.guild.canFetchMembers()) {
+            throw new Error('Exporting members needs the Guild Members intent; set MEMBER_ROLE_BACKUPS=true and enable the intent in the Discord developer portal');
+        }
+
+        const members = await this.guild.fetchMembers();
+        return members
+            .filter(member => !member.bot)
+            .map(member => ({
+                id: member.id,
+                roles: member.roles
+                    .map(id => this.roles.get(id))
+                    .filter((role): role is GuildRoleData => role !== undefined && !role.managed && this.roleKeyMap.has(role.id))
+                    .sort((a, b) => b.position - a.position)
+                    .map(role => this.roleKeyMap.get(role.id)!),
+                ...(nicknames ? { nickname: member.nickname } : {})
+            }))
+            .filter(member => member.roles.length > 0 || member.nickname);
+    }
+
+    /**
+     * Serializes the guild's custom emojis with their images and role restrictions
+     * @returns {Promise<TemplateEmoji[]>} The serialized emojis
+     * @private
+     */
+    private async exportEmojis(): Promise<TemplateEmoji[]> {
+        const emojis = await this.guild.fetchEmojis();
+        const emojiKeys = new KeyAllocator();
+        const exported: TemplateEmoji[] = [];
+        this.emojiKeyMap.clear();
+
+        for (const emoji of emojis) {
+            const image = await this.fetchImage(emoji.imageURL);
+            if (!image || !emoji.name) continue;
+
+            const key = emojiKeys.allocate(emoji.name, 'emoji');
+            this.emojiKeyMap.set(emoji.id, key);
+            exported.push({
+                key: key,
+                name: emoji.name,
+                animated: emoji.animated,
+                image: image,
+                roles: emoji.roles
+                    .map(id => this.roleKeyMap.get(id))
+                    .filter((key): key is string => key !== undefined)
+            });
+        }
+
+        return exported;
+    }
+
+    /**
+     * Serializes the guild's custom stickers with their images.
+     * Lottie stickers are skipped since only Discord can upload them.
+     * @returns {Promise<TemplateSticker[]>} The serialized stickers
+     * @private
+     */
+    private async exportStickers(): Promise<TemplateSticker[]> {
+        const stickers = await this.guild.fetchStickers();
+        const stickerKeys = new KeyAllocator();
+        const exported: TemplateSticker[] = [];
+
+        for (const sticker of stickers) {
+            if (sticker.format === StickerFormatType.Lottie) continue;
+
+            const image = await this.fetchImage(sticker.url);
+            if (!image) continue;
+
+            exported.push({
+                key: stickerKeys.allocate(sticker.name, 'sticker'),
+                name: sticker.name,
+                description: sticker.description,
+                tags: sticker.tags,
+                format: sticker.format,
+                image: image
+            });
+        }
+
+        return exported;
+    }
+
+    /**
+     * Serializes a reference to a unicode or custom emoji. Custom emojis of this
+     * guild are referenced by template key so they can be resolved after import.
+     * @param {TemplateEmojiReference} emoji - The ID of a custom emoji, or the name or unicode character of the emoji
+     * @returns {TemplateEmojiReference} The serialized reference
+     * @private
+     */
+    private mapEmojiReference({ id, name }: TemplateEmojiReference): TemplateEmojiReference {
+        const key = id ? this.emojiKeyMap.get(id) : undefined;
+        return key ? { key, id, name } : { id, name };
+    }
+
+    /**
+     * Serializes the server-wide settings. Must run after the channels have been
+     * serialized, since channels are referenced by their template keys.
+     * @param {GuildSettingsData} settings - The guild's current settings
+     * @returns {Promise<TemplateGuildSettings>} The serialized settings
+     * @private
+     */
+    private async exportSettings(settings: GuildSettingsData): Promise<TemplateGuildSettings> {
+        const channelKey = (id: string | null) => id ? this.channelKeyMap.get(id) ?? null : null;
+        const welcomeScreen = await this.guild.fetchWelcomeScreen();
+
+        return {
+            verificationLevel: settings.verificationLevel,
+            explicitContentFilter: settings.explicitContentFilter,
+            defaultMessageNotifications: settings.defaultMessageNotifications,
+            afkChannel: channelKey(settings.afkChannelId),
+            afkTimeout: settings.afkTimeout,
+            systemChannel: channelKey(settings.systemChannelId),
+            systemChannelFlags: settings.systemChannelFlags,
+            rulesChannel: channelKey(settings.rulesChannelId),
+            publicUpdatesChannel: channelKey(settings.publicUpdatesChannelId),
+            preferredLocale: settings.preferredLocale,
+            icon: await this.fetchImage(settings.iconURL),
+            banner: await this.fetchImage(settings.bannerURL),
+            splash: await this.fetchImage(settings.splashURL),
+            welcomeScreen: welcomeScreen && {
+                enabled: welcomeScreen.enabled,
+                description: welcomeScreen.description,
+                channels: welcomeScreen.channels
+                    .filter(welcome => this.channelKeyMap.has(welcome.channelId))
+                    .map(welcome => ({
+                        channel: this.channelKeyMap.get(welcome.channelId)!,
+                        description: welcome.description,
+                        emoji: welcome.emoji && this.mapEmojiReference(welcome.emoji)
+                    }))
+            }
+        };
+    }
+
+    /**
+     * Downloads an image and embeds it as a data URI
+     * @param {string | null} url - The CDN URL of the image
+     * @returns {Promise<string | null>} The data URI, or null if there is no image or it could not be downloaded
+     * @private
+     */
+    private async fetchImage(url: string | null): Promise<string | null> {
+        if (!url) return null;
+
+        try {
+            const response = await fetch(url);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+            const contentType = response.headers.get('content-type') ?? 'image/png';
+            const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+            return `data:${contentType};base64,${data}`;
+        } catch (error) {
+            console.error(`Error downloading image ${url}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Serializes a single non-category channel
+     * @param {GuildChannelData} channel - The channel to serialize
+     * @param {KeyAllocator} channelKeys - Allocates the channel's template key
+     * @param {LiveContext} live - Receives the live metadata of the channel
+     * @returns {TemplateChannel} The serialized channel
+     * @private
+     */
+    private mapChannel(channel: GuildChannelData, channelKeys: KeyAllocator, live: LiveContext): TemplateChannel {
+        const key = channelKeys.allocate(channel.name, 'channel');
+        this.channelKeyMap.set(channel.id, key);
+        live.channels.set(key, {
+            id: channel.id,
+            manageable: channel.manageable,
+            managed: false
+        });
+
+        const { id, name, type, position, parentId, manageable, deletable, permissionOverwrites, ...settings } = channel;
+        const { availableTags, defaultReactionEmoji } = settings;
+        return {
+            key: key,
+            name: name,
+            type: type,
+            position: position,
+            permissionOverwrites: this.mapPermissionOverwrites(permissionOverwrites),
+            ...settings,
+            ...(availableTags ? {
+                availableTags: availableTags.map(tag => ({
+                    ...tag,
+                    emoji: tag.emoji && this.mapEmojiReference(tag.emoji)
+                }))
+            } : {}),
+            ...(defaultReactionEmoji !== undefined ? {
+                defaultReactionEmoji: defaultReactionEmoji && this.mapEmojiReference(defaultReactionEmoji)
+            } : {})
+        };
+    }
+
+    /**
+     * Serializes a channel's permission overwrites, replacing role snowflakes
+     * with their template-local keys. Member overwrites keep the user ID; overwrites
+     * for integration-managed roles are left out along with the roles.
+     * @param {GuildOverwriteData[]} overwrites - The channel's overwrites
+     * @returns {TemplatePermissionOverwrite[]} The serialized permission overwrites
+     * @private
+     */
+    private mapPermissionOverwrites(overwrites: GuildOverwriteData[]): TemplatePermissionOverwrite[] {
+        return overwrites
+            .filter(perm => perm.type !== OverwriteType.Role || !this.roles.get(perm.id)?.managed)
+            .map(perm => ({
+                id: perm.type === OverwriteType.Role ? this.roleKeyMap.get(perm.id) ?? perm.id : perm.id,
+                type: perm.type,
+                allow: perm.allow.toString(),
+                deny: perm.deny.toString()
+            }));
+    }
+}
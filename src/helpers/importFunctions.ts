@@ -1,93 +1,210 @@
 import { 
     Guild, 
+    GuildPremiumTier, 
+    StickerFormatType, 
     ChannelType, 
-    PermissionsBitField,
+    OverwriteType,
 } from 'discord.js';
 
+import { EVERYONE_ROLE_KEY } from '../utils/TemplateKeys';
+import { 
+    TaskFailure, 
+    TaskProgress, 
+    TaskScheduler 
+} from '../utils/TaskScheduler';
+import { 
+    GuildSettingName, 
+    ServerTemplate, 
+    TemplateCategory, 
+    TemplateChannel, 
+    TemplateEmojiReference, 
+    TemplateMember, 
+    TemplatePermissionOverwrite, 
+    TemplateRole 
+} from '../schema/ServerTemplate';
+import { assertValidTemplate } from '../schema/validateTemplate';
+import { 
+    GuildAdapter, 
+    GuildChannelData, 
+    GuildChannelSettings, 
+    GuildOverwriteData, 
+    GuildRoleData 
+} from '../adapters/GuildAdapter';
+import { adaptGuild } from '../adapters/DiscordGuildAdapter';
+import { ExportHelper } from './exportFunctions';
+import { ImportJournal, JournalStore } from './journalFunctions';
+import { SnapshotInfo, SnapshotStore } from './snapshotFunctions';
+import { ReplayCursor, ReplayStore } from './replayFunctions';
+import { renderTemplate, VariableValues } from './renderFunctions';
+import { 
+    createImportPlan, 
+    ImportPlan, 
+    PlanEntry, 
+    PlanOptions 
+} from './planFunctions';
+
+/** Number of static and of animated emoji slots per boost tier */
+const EMOJI_LIMITS: Record<GuildPremiumTier, number> = {
+    [GuildPremiumTier.None]: 50,
+    [GuildPremiumTier.Tier1]: 100,
+    [GuildPremiumTier.Tier2]: 150,
+    [GuildPremiumTier.Tier3]: 250,
+};
+
+/** Number of sticker slots per boost tier */
+const STICKER_LIMITS: Record<GuildPremiumTier, number> = {
+    [GuildPremiumTier.None]: 5,
+    [GuildPremiumTier.Tier1]: 15,
+    [GuildPremiumTier.Tier2]: 30,
+    [GuildPremiumTier.Tier3]: 60,
+};
+
+/** The preferred locale Discord gives every server, which a non-Community server keeps */
+const DEFAULT_LOCALE = 'en-US';
+
 /**
- * Represents a channel within a Discord server template
- * @interface TemplateChannel
+ * Decodes a base64 data URI into its binary content
+ * @param {string} dataUri - The data URI to decode
+ * @returns {Buffer} The decoded content
  */
-interface TemplateChannel {
-    /** The name of the channel */
-    name: string;
-    /** The channel type (text, voice, etc.) as defined in Discord.js ChannelType */
-    type: number;
-    /** The position of the channel in the channel list */
-    position: number;
-    /** Array of permission overwrites for the channel */
-    permissionOverwrites: {
-        /** The ID of the role or user */
-        id: string;
-        /** The type of overwrite (0 for role, 1 for member) */
-        type: number;
-        /** Array of allowed permissions */
-        allow: string[];
-        /** Array of denied permissions */
-        deny: string[];
-    }[];
+function decodeDataUri(dataUri: string): Buffer {
+    return Buffer.from(dataUri.slice(dataUri.indexOf(',') + 1), 'base64');
 }
 
 /**
- * Represents a category within a Discord server template
- * @interface TemplateCategory
+ * Describes a permission overwrite that could not be applied during import
+ * @interface UnresolvedOverwrite
  */
-interface TemplateCategory {
-    /** Unique identifier for the category */
+export interface UnresolvedOverwrite {
+    /** The name of the category or channel the overwrite belongs to */
+    target: string;
+    /** The role key or user ID the overwrite referenced */
     id: string;
-    /** The name of the category */
-    name: string;
-    /** The position of the category in the channel list */
-    position: number;
-    /** Array of permission overwrites for the category */
-    permissionOverwrites: {
-        /** The ID of the role or user */
-        id: string;
-        /** The type of overwrite (0 for role, 1 for member) */
-        type: number;
-        /** Array of allowed permissions */
-        allow: string[];
-        /** Array of denied permissions */
-        deny: string[];
-    }[];
-    /** Array of channels within this category */
-    channels: TemplateChannel[];
+    /** The type of overwrite (0 for role, 1 for member) */
+    type: number;
+    /** Why the overwrite could not be resolved */
+    reason: string;
 }
 
 /**
- * Represents a role within a Discord server template
- * @interface TemplateRole
+ * Summary of an import run
+ * @interface ImportReport
  */
-interface TemplateRole {
-    /** The name of the role */
-    name: string;
-    /** The color of the role in integer format */
-    color: number;
-    /** Whether the role is hoisted (displayed separately) */
-    hoist: boolean;
-    /** The position of the role in the role hierarchy */
-    position: number;
-    /** The permissions bitfield for the role */
-    permissions: string;
-    /** Whether the role is mentionable */
-    mentionable: boolean;
+export interface ImportReport {
+    /** Permission overwrites that were dropped because their target does not exist */
+    unresolvedOverwrites: UnresolvedOverwrite[];
+    /** Server settings that could not be applied */
+    unappliedSettings: UnappliedSetting[];
+    /** Custom emojis and stickers that could not be created */
+    skippedExpressions: SkippedExpression[];
+    /** Import steps that failed, e.g. a role or channel Discord refused to create */
+    failedSteps: TaskFailure[];
+    /** How the member role assignments were restored, or null if the template has none or they were not restored in this run */
+    memberRestore: MemberRestore | null;
+}
+
+/**
+ * Describes how the member role assignments of a template were restored
+ * @interface MemberRestore
+ */
+export interface MemberRestore {
+    /** Number of members who were given back roles or their nickname */
+    restored: number;
+    /** IDs of the recorded members who are no longer in the guild */
+    departed: string[];
+    /** Members whose roles or nickname could not be restored */
+    failed: { id: string; reason: string }[];
 }
 
 /**
- * Represents a complete Discord server template
- * @interface ServerTemplate
+ * Describes a custom emoji or sticker that could not be created during import
+ * @interface SkippedExpression
  */
-interface ServerTemplate {
-    /** The name of the server */
+export interface SkippedExpression {
+    /** Whether the item is an emoji or a sticker */
+    kind: 'emoji' | 'sticker';
+    /** The name of the emoji or sticker */
     name: string;
-    /** Array of roles to be created */
-    roles: TemplateRole[];
-    /** Array of categories and their channels */
-    categories: TemplateCategory[];
-    /** Array of channels not belonging to any category */
-    uncategorizedChannels: TemplateChannel[];
-    /** Timestamp when the template was exported */
-    exportedAt: string;
+    /** Why it could not be created */
+    reason: string;
+}
+
+/**
+ * Describes a server setting that could not be applied during import
+ * @interface UnappliedSetting
+ */
+export interface UnappliedSetting {
+    /** The name of the setting */
+    setting: GuildSettingName;
+    /** Why the setting could not be applied */
+    reason: string;
+}
+
+/**
+ * Options for an import
+ * @interface ImportOptions
+ */
+export interface ImportOptions {
+    /** Server settings from the template that are left unchanged */
+    skipSettings?: GuildSettingName[];
+    /** Maximum number of import steps running at the same time (default IMPORT_CONCURRENCY or 4) */
+    concurrency?: number;
+    /** Called whenever an import step starts or finishes */
+    onProgress?: (progress: TaskProgress) => void;
+    /** Values for the variables of a parameterised template */
+    variables?: VariableValues;
+}
+
+/**
+ * Options for a non-destructive sync
+ * @interface SyncOptions
+ */
+export interface SyncOptions extends ImportOptions {
+    /** Whether roles, categories and channels that are not in the template are deleted (default false) */
+    prune?: boolean;
+}
+
+/**
+ * Describes what an import will delete, create and edit, for confirmation before it runs
+ * @interface ImportSummary
+ */
+export interface ImportSummary {
+    /** Items that will be deleted, e.g. "channel `general`" */
+    deletions: string[];
+    /** Items that will be created */
+    creations: string[];
+    /** Items that will be edited in place */
+    updates: string[];
+}
+
+/**
+ * Options for running a journaled import
+ * @interface JournalRunOptions
+ */
+export interface JournalRunOptions {
+    /** Whether the journal belongs to an interrupted import that is being resumed */
+    resume?: boolean;
+    /** Maximum number of import steps running at the same time (default IMPORT_CONCURRENCY or 4) */
+    concurrency?: number;
+    /** Called whenever an import step starts or finishes */
+    onProgress?: (progress: TaskProgress) => void;
+}
+
+/**
+ * Options for applying a template as a new journaled import
+ * @interface ApplyOptions
+ */
+export interface ApplyOptions extends Omit<JournalRunOptions, 'resume'> {
+    /** Whether extra roles and channels are deleted in sync mode */
+    prune: boolean;
+    /** Server settings from the template that are left unchanged */
+    skipSettings: GuildSettingName[];
+    /** Who started the import, recorded in the journal */
+    startedBy: string;
+    /** Why the snapshot taken before the import is saved, e.g. `before /import mode:sync by user` */
+    reason: string;
+    /** An archive whose messages are to be replayed into the imported channels once the import finishes */
+    replay?: { sourceGuildId: string; archiveId: string };
 }
 
 /**
@@ -95,152 +212,1137 @@ interface ServerTemplate {
  * @class ImportHelper
  */
 export class ImportHelper {
-    private guild: Guild;
-    /** Maps role names to their new IDs */
+    /** IDs of the guilds a journaled import is currently running in */
+    private static running: Set<string> = new Set();
+
+    private guild: GuildAdapter;
+    /** The guild's roles when the current import started */
+    private roles: GuildRoleData[] = [];
+    /** The guild's categories and channels when the current import started */
+    private channels: GuildChannelData[] = [];
+    /** IDs of the guild's custom emojis, including those created during the current import */
+    private emojiIds: Set<string> = new Set();
+    /** The highest bitrate voice channels may have at the guild's boost tier */
+    private maximumBitrate = 0;
+    /** Persists the journal of the current import */
+    private journals: JournalStore = new JournalStore();
+    /** The journal of the current import, if it is journaled */
+    private journal: ImportJournal | null = null;
+    /** Whether the current import resumes an interrupted one */
+    private resuming = false;
+    /** Maps role template keys to their new IDs */
     private roleMap: Map<string, string> = new Map();
-    /** Maps category template IDs to their new IDs */
+    /** Maps category template keys to their new IDs */
     private categoryMap: Map<string, string> = new Map();
+    /** Maps channel template keys to their new IDs */
+    private channelMap: Map<string, string> = new Map();
+    /** Maps emoji template keys to their new IDs */
+    private emojiMap: Map<string, string> = new Map();
+    /** Roles created or moved during the current import, with their template positions */
+    private rolePositions: { role: string; position: number }[] = [];
+    /** Categories and channels created during the current import, with their template positions */
+    private channelPositions: { channel: string; position: number }[] = [];
+    /** Maps the keys of roles a partial template references without including them to their names */
+    private roleReferences: Map<string, string> = new Map();
+    /** Caches whether member overwrite targets are present in the guild */
+    private memberCache: Map<string, boolean> = new Map();
+    /** Overwrites that could not be resolved during the current import */
+    private unresolvedOverwrites: UnresolvedOverwrite[] = [];
+    /** Settings that could not be applied during the current import */
+    private unappliedSettings: UnappliedSetting[] = [];
+    /** Emojis and stickers that could not be created during the current import */
+    private skippedExpressions: SkippedExpression[] = [];
+    /** How the member role assignments were restored in this run */
+    private memberRestore: MemberRestore | null = null;
 
     /**
      * Creates an instance of ImportHelper
-     * @param {Guild} guild - The Discord guild to import the template into
+     * @param {Guild | GuildAdapter} guild - The Discord guild to import the template into, or an adapter for it
+     */
+    constructor(guild: Guild | GuildAdapter) {
+        this.guild = adaptGuild(guild);
+    }
+
+    /**
+     * Checks whether a journaled import is currently running in a guild
+     * @param {string} guildId - The ID of the guild
+     * @returns {boolean} True if an import is running
+     */
+    static isRunning(guildId: string): boolean {
+        return ImportHelper.running.has(guildId);
+    }
+
+    /**
+     * Runs an import recorded in a journal. Every completed step and every created ID
+     * is written to the journal, so an interrupted import can be resumed by running
+     * its journal again; completed steps are skipped, and roles and channels that
+     * were created just before the interruption are reused instead of duplicated.
+     * The journal is removed once the import finishes.
+     * @param {ImportJournal} journal - The journal of the import to run
+     * @param {JournalRunOptions} [options] - Options that control the run
+     * @throws {Error} If an import is already running in the guild
+     * @returns {Promise<ImportReport>} A report of anything that could not be applied
+     */
+    async runJournal(journal: ImportJournal, options: JournalRunOptions = {}): Promise<ImportReport> {
+        this.reserve();
+        try {
+            return await this.executeJournal(journal, options);
+        } finally {
+            ImportHelper.running.delete(this.guild.id);
+        }
+    }
+
+    /**
+     * Marks the guild as running an import. This happens before anything is awaited, so two
+     * imports started at the same time cannot both pass the check; the caller must remove
+     * the guild from the running imports once it is done.
+     * @throws {Error} If an import is already running in the guild
+     * @private
+     */
+    private reserve(): void {
+        if (ImportHelper.running.has(this.guild.id)) {
+            throw new Error('An import is already running in this server');
+        }
+
+        ImportHelper.running.add(this.guild.id);
+    }
+
+    /**
+     * Runs an import recorded in a journal in a guild the caller has already reserved
+     * @param {ImportJournal} journal - The journal of the import to run
+     * @param {JournalRunOptions} options - Options that control the run
+     * @returns {Promise<ImportReport>} A report of anything that could not be applied
+     * @private
+     */
+    private async executeJournal(journal: ImportJournal, options: JournalRunOptions): Promise<ImportReport> {
+        this.journal = journal;
+        this.resuming = options.resume ?? false;
+
+        try {
+            if (journal.mode === 'replace' && !journal.cleared) {
+                await this.clearGuild();
+                journal.cleared = true;
+                await this.journals.save(journal);
+            }
+
+            const importOptions = {
+                skipSettings: journal.skipSettings,
+                concurrency: options.concurrency,
+                onProgress: options.onProgress
+            };
+            const report = journal.mode === 'sync'
+                ? await this.syncTemplate(journal.template, { ...importOptions, prune: journal.prune })
+                : await this.importTemplate(journal.template, importOptions);
+
+            await this.journals.remove(this.guild.id);
+            return report;
+        } finally {
+            this.journal = null;
+            this.resuming = false;
+        }
+    }
+
+    /**
+     * Applies a template as a new import: a snapshot of the guild is saved first so
+     * the import can be rolled back, then the import runs from a fresh journal.
+     * When a replay is requested, its cursor is stored alongside the journal so that it is
+     * still pending if the import is interrupted; otherwise any earlier pending replay is dropped.
+     * @param {ServerTemplate} template - The validated and rendered template
+     * @param {'replace' | 'sync'} mode - Whether the guild is wiped and rebuilt or synced in place
+     * @param {ApplyOptions} options - Options that control the import
+     * @throws {Error} If an import is already running in the guild
+     * @returns {Promise<{ report: ImportReport, snapshot: SnapshotInfo, replay: ReplayCursor | null }>} The import report,
+     * the snapshot taken before it and the cursor of the requested replay
+     */
+    async applyTemplate(
+        template: ServerTemplate,
+        mode: 'replace' | 'sync',
+        options: ApplyOptions
+    ): Promise<{ report: ImportReport; snapshot: SnapshotInfo; replay: ReplayCursor | null }> {
+        this.reserve();
+        try {
+            return await this.startJournal(template, mode, options);
+        } finally {
+            ImportHelper.running.delete(this.guild.id);
+        }
+    }
+
+    /**
+     * Syncs a guild with a template as a journaled import, like applyTemplate but without a
+     * snapshot and without touching a pending replay. Used to restore items that drifted from a
+     * pinned template, which happens too often to take a snapshot each time.
+     * @param {ServerTemplate} template - The validated template, usually limited to the items to restore
+     * @param {string} startedBy - Who started the sync, recorded in the journal
+     * @throws {Error} If an import is already running in the guild
+     * @returns {Promise<ImportReport>} A report of anything that could not be applied
+     */
+    async restoreTemplate(template: ServerTemplate, startedBy: string): Promise<ImportReport> {
+        this.reserve();
+        try {
+            const journal = await this.journals.start({
+                guildId: this.guild.id,
+                mode: 'sync',
+                template: template,
+                skipSettings: [],
+                prune: false,
+                startedBy: startedBy,
+                snapshotId: null
+            });
+            return await this.executeJournal(journal, {});
+        } finally {
+            ImportHelper.running.delete(this.guild.id);
+        }
+    }
+
+    /**
+     * Saves the snapshot, journal and replay cursor of a new import and runs it, in a guild
+     * the caller has already reserved
+     * @param {ServerTemplate} template - The validated and rendered template
+     * @param {'replace' | 'sync'} mode - Whether the guild is wiped and rebuilt or synced in place
+     * @param {ApplyOptions} options - Options that control the import
+     * @returns {Promise<{ report: ImportReport, snapshot: SnapshotInfo, replay: ReplayCursor | null }>} The import report,
+     * the snapshot taken before it and the cursor of the requested replay
+     * @private
+     */
+    private async startJournal(
+        template: ServerTemplate,
+        mode: 'replace' | 'sync',
+        options: ApplyOptions
+    ): Promise<{ report: ImportReport; snapshot: SnapshotInfo; replay: ReplayCursor | null }> {
+        const snapshot = await new SnapshotStore().save(
+            this.guild.id,
+            await new ExportHelper(this.guild).exportTemplate(),
+            options.reason
+        );
+        const journal = await this.journals.start({
+            guildId: this.guild.id,
+            mode: mode,
+            template: template,
+            skipSettings: options.skipSettings,
+            prune: options.prune,
+            startedBy: options.startedBy,
+            snapshotId: snapshot.id
+        });
+
+        const replays = new ReplayStore();
+        const replay = options.replay
+            ? await replays.start({ guildId: this.guild.id, ...options.replay, startedBy: options.startedBy })
+            : null;
+        if (!replay) await replays.remove(this.guild.id);
+
+        const report = await this.executeJournal(journal, {
+            concurrency: options.concurrency,
+            onProgress: options.onProgress
+        });
+        return { report, snapshot, replay };
+    }
+
+    /**
+     * Deletes every channel and role the bot is able to delete, to make room for a replace import
+     * @returns {Promise<void>}
+     */
+    async clearGuild(): Promise<void> {
+        const { channels, roles } = await this.findClearable();
+
+        for (const channel of channels) {
+            await this.guild.deleteChannel(channel.id).catch(console.error);
+        }
+
+        for (const role of roles) {
+            await this.guild.deleteRole(role.id).catch(console.error);
+        }
+    }
+
+    /**
+     * Finds the channels and roles a replace import deletes: everything the bot is able
+     * to delete, except the system channel, @everyone, managed roles and the bot's own role
+     * @returns {Promise<{ channels: GuildChannelData[], roles: GuildRoleData[] }>} The channels and roles to delete
+     */
+    async findClearable(): Promise<{ channels: GuildChannelData[]; roles: GuildRoleData[] }> {
+        const channels = await this.guild.fetchChannels();
+        const { systemChannelId } = await this.guild.fetchSettings();
+
+        const roles = await this.guild.fetchRoles();
+        const bot = await this.guild.fetchBot();
+
+        return {
+            channels: channels.filter(channel => channel.id !== systemChannelId && channel.deletable),
+            roles: roles.filter(role =>
+                role.id !== this.guild.id &&
+                role.id !== bot.highestRoleId &&
+                !role.managed &&
+                role.position < bot.highestRolePosition &&
+                role.editable)
+        };
+    }
+
+    /**
+     * Summarizes what applying a template would delete, create and edit, without changing anything
+     * @param {ServerTemplate} template - The template to apply, already migrated to the current schema
+     * @param {'replace' | 'sync'} mode - Whether the guild is wiped and rebuilt or synced in place
+     * @param {boolean} [prune] - Whether extra roles and channels are deleted in sync mode
+     * @returns {Promise<ImportSummary>} The summary
+     */
+    async summarizeImport(template: ServerTemplate, mode: 'replace' | 'sync', prune = false): Promise<ImportSummary> {
+        if (mode === 'sync') {
+            const plan = await this.planTemplate(template, { prune });
+            const entries = [...plan.roles, ...plan.categories, ...plan.channels];
+            const describe = (action: string) => entries
+                .filter(entry => entry.action === action)
+                .map(entry => `${entry.kind} \`${entry.name}\``);
+
+            return { deletions: describe('delete'), creations: describe('create'), updates: describe('update') };
+        }
+
+        const { channels, roles } = await this.findClearable();
+        return {
+            deletions: [
+                ...channels.map(channel => `${channel.type === ChannelType.GuildCategory ? 'category' : 'channel'} \`${channel.name}\``),
+                ...roles.map(role => `role \`${role.name}\``),
+            ],
+            creations: [
+                ...template.roles.filter(role => role.key !== EVERYONE_ROLE_KEY).map(role => `role \`${role.name}\``),
+                ...template.categories.map(category => `category \`${category.name}\``),
+                ...template.categories.flatMap(category => category.channels).map(channel => `channel \`${channel.name}\``),
+                ...template.uncategorizedChannels.map(channel => `channel \`${channel.name}\``),
+            ],
+            updates: []
+        };
+    }
+
+    /**
+     * Imports a server template into the guild. Independent roles, categories and
+     * channels are created concurrently; roles are always created before the
+     * overwrites that reference them and categories before their channels.
+     * @param {ServerTemplate} template - The server template to import, already migrated to the current schema
+     * @param {ImportOptions} [options] - Options that control the import
+     * @throws {TemplateValidationError} If the template does not match the current schema or cannot be rendered
+     * @returns {Promise<ImportReport>} A report of anything that could not be applied
+     */
+    async importTemplate(template: ServerTemplate, options: ImportOptions = {}): Promise<ImportReport> {
+        assertValidTemplate(template);
+        template = renderTemplate(template, options.variables);
+        this.reset();
+        await this.loadGuild();
+        this.resolveRoleReferences(template);
+
+        const scheduler = this.createScheduler(options);
+        this.scheduleTemplate(scheduler, template, options);
+
+        return this.createReport(await this.runTasks(scheduler));
+    }
+
+    /**
+     * Reconciles the guild with a template without recreating anything that already exists.
+     * Roles, categories and channels are matched by key or name and edited in place,
+     * which keeps their IDs, messages, pins, webhooks and member role assignments.
+     * Missing items are created; extra items are only deleted when pruning is requested,
+     * and never for partial templates.
+     * @param {ServerTemplate} template - The server template to apply, already migrated to the current schema
+     * @param {SyncOptions} [options] - Options that control the sync
+     * @throws {TemplateValidationError} If the template does not match the current schema or cannot be rendered
+     * @returns {Promise<ImportReport>} A report of anything that could not be applied
+     */
+    async syncTemplate(template: ServerTemplate, options: SyncOptions = {}): Promise<ImportReport> {
+        assertValidTemplate(template);
+        template = renderTemplate(template, options.variables);
+        this.reset();
+        await this.loadGuild();
+        this.resolveRoleReferences(template);
+
+        const state = await new ExportHelper(this.guild).captureState();
+        const prune = !template.partial && (options.prune ?? false);
+        const plan = createImportPlan(template, state.template, state.live, { prune });
+
+        const scheduler = this.createScheduler(options);
+        const applied = this.scheduleTemplate(scheduler, template, options, plan);
+        this.scheduleDeletions(scheduler, plan, applied);
+
+        return this.createReport(await this.runTasks(scheduler));
+    }
+
+    /**
+     * Compares a template with the guild's current state without changing anything.
+     * Partial templates are never pruned.
+     * @param {ServerTemplate} template - The server template to compare, already migrated to the current schema
+     * @param {PlanOptions & Pick<ImportOptions, 'variables'>} [options] - Options that control the plan
+     * @throws {TemplateValidationError} If the template does not match the current schema or cannot be rendered
+     * @returns {Promise<ImportPlan>} The changes an import would make
+     */
+    async planTemplate(template: ServerTemplate, options: PlanOptions & Pick<ImportOptions, 'variables'> = {}): Promise<ImportPlan> {
+        assertValidTemplate(template);
+        template = renderTemplate(template, options.variables);
+
+        const state = await new ExportHelper(this.guild).captureState();
+        return createImportPlan(template, state.template, state.live, template.partial ? { ...options, prune: false } : options);
+    }
+
+    /**
+     * Clears the state left behind by a previous import.
+     * When the import is journaled, the state recorded by its completed steps is restored instead.
+     * @private
+     */
+    private reset(): void {
+        const journal = this.journal;
+
+        this.roleMap = new Map(Object.entries(journal?.roleMap ?? {}));
+        this.categoryMap = new Map(Object.entries(journal?.categoryMap ?? {}));
+        this.channelMap = new Map(Object.entries(journal?.channelMap ?? {}));
+        this.emojiMap = new Map(Object.entries(journal?.emojiMap ?? {}));
+        this.rolePositions = [...journal?.rolePositions ?? []];
+        this.channelPositions = [...journal?.channelPositions ?? []];
+        this.unresolvedOverwrites = [...journal?.unresolvedOverwrites ?? []];
+        this.unappliedSettings = [...journal?.unappliedSettings ?? []];
+        this.skippedExpressions = [...journal?.skippedExpressions ?? []];
+        this.memberRestore = null;
+    }
+
+    /**
+     * Reads the roles, channels, emojis and bitrate limit of the guild at the start of an import
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async loadGuild(): Promise<void> {
+        this.roles = await this.guild.fetchRoles();
+        this.channels = await this.guild.fetchChannels();
+        this.emojiIds = new Set((await this.guild.fetchEmojis()).map(emoji => emoji.id));
+        this.maximumBitrate = (await this.guild.fetchSettings()).maximumBitrate;
+    }
+
+    /**
+     * Maps the roles a template references without including them to roles of this guild.
+     * The @everyone role always maps to the guild's own; the roles a partial template
+     * references are matched by name, and overwrites of roles that cannot be matched are
+     * reported as unresolved.
+     * @param {ServerTemplate} template - The template being imported
+     * @private
+     */
+    private resolveRoleReferences(template: ServerTemplate): void {
+        this.roleReferences.clear();
+        if (!this.roleMap.has(EVERYONE_ROLE_KEY)) {
+            this.roleMap.set(EVERYONE_ROLE_KEY, this.guild.id);
+        }
+
+        for (const reference of template.partial?.roleReferences ?? []) {
+            this.roleReferences.set(reference.key, reference.name);
+            const role = this.roles.find(role => role.name === reference.name && role.id !== this.guild.id);
+            if (role && !this.roleMap.has(reference.key)) {
+                this.roleMap.set(reference.key, role.id);
+            }
+        }
+    }
+
+    /**
+     * Creates a scheduler for the current import, which skips the steps its journal has already completed
+     * @param {ImportOptions} options - Options that control the import
+     * @returns {TaskScheduler} The scheduler
+     * @private
+     */
+    private createScheduler(options: ImportOptions): TaskScheduler {
+        return new TaskScheduler({
+            concurrency: options.concurrency,
+            onProgress: options.onProgress,
+            completed: this.journal?.completedSteps,
+            onTaskComplete: id => this.recordStep(id)
+        });
+    }
+
+    /**
+     * Writes a completed step and the state it produced to the journal of the current import
+     * @param {string} id - The ID of the completed step
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async recordStep(id: string): Promise<void> {
+        if (!this.journal) return;
+
+        Object.assign(this.journal, {
+            completedSteps: [...this.journal.completedSteps, id],
+            roleMap: Object.fromEntries(this.roleMap),
+            categoryMap: Object.fromEntries(this.categoryMap),
+            channelMap: Object.fromEntries(this.channelMap),
+            emojiMap: Object.fromEntries(this.emojiMap),
+            rolePositions: this.rolePositions,
+            channelPositions: this.channelPositions,
+            unresolvedOverwrites: this.unresolvedOverwrites,
+            unappliedSettings: this.unappliedSettings,
+            skippedExpressions: this.skippedExpressions
+        });
+
+        try {
+            await this.journals.save(this.journal);
+        } catch (error) {
+            console.error('Error writing import journal:', error);
+        }
+    }
+
+    /**
+     * Finds a role or channel left behind by an interrupted import: one that matches
+     * the template item but is not mapped to any template key yet. Only used when
+     * resuming, since the step that created it never completed.
+     * @param {string} name - The name of the template item
+     * @param {ChannelType | 'role'} type - The channel type, or 'role' for roles
+     * @param {string | null} [parent] - The ID of the channel's category
+     * @returns {string | undefined} The ID of the leftover item, if there is one
+     * @private
      */
-    constructor(guild: Guild) {
-        this.guild = guild;
+    private findLeftover(name: string, type: ChannelType | 'role', parent: string | null = null): string | undefined {
+        if (!this.resuming) return undefined;
+
+        const mapped = new Set([...this.roleMap.values(), ...this.categoryMap.values(), ...this.channelMap.values()]);
+
+        if (type === 'role') {
+            return this.roles.find(role =>
+                role.name === name &&
+                !role.managed &&
+                role.id !== this.guild.id &&
+                !mapped.has(role.id)
+            )?.id;
+        }
+
+        return this.channels.find(channel =>
+            channel.type === type &&
+            channel.name === name &&
+            channel.parentId === parent &&
+            !mapped.has(channel.id)
+        )?.id;
     }
 
     /**
-     * Imports a server template into the guild
-     * @param {ServerTemplate} template - The server template to import
-     * @throws {Error} If the template format is invalid
+     * Collects everything that could not be applied during the current import
+     * @param {TaskFailure[]} failedSteps - The steps that failed
+     * @returns {ImportReport} The import report
+     * @private
+     */
+    private createReport(failedSteps: TaskFailure[]): ImportReport {
+        return {
+            unresolvedOverwrites: this.unresolvedOverwrites,
+            unappliedSettings: this.unappliedSettings,
+            skippedExpressions: this.skippedExpressions,
+            failedSteps: failedSteps,
+            memberRestore: this.memberRestore
+        };
+    }
+
+    /**
+     * Runs the scheduled tasks, pausing the scheduler whenever the guild reports a rate limit
+     * @param {TaskScheduler} scheduler - The scheduler to run
+     * @returns {Promise<TaskFailure[]>} The tasks that failed
+     * @private
+     */
+    private async runTasks(scheduler: TaskScheduler): Promise<TaskFailure[]> {
+        const stopListening = this.guild.onRateLimit(retryAfter => scheduler.pause(retryAfter));
+        try {
+            return await scheduler.run();
+        } finally {
+            stopListening();
+        }
+    }
+
+    /**
+     * Schedules the creation or update of everything in a template.
+     * Without a plan every item is created; with one, items are created, edited or kept as planned.
+     * @param {TaskScheduler} scheduler - The scheduler to add the tasks to
+     * @param {ServerTemplate} template - The template to apply
+     * @param {ImportOptions} options - Options that control the import
+     * @param {ImportPlan} [plan] - The planned changes, when syncing
+     * @returns {string[]} The IDs of all scheduled tasks
+     * @private
+     */
+    private scheduleTemplate(
+        scheduler: TaskScheduler,
+        template: ServerTemplate,
+        options: ImportOptions,
+        plan?: ImportPlan
+    ): string[] {
+        const plannedRoles = this.indexPlanEntries(plan?.roles ?? []);
+        const plannedCategories = this.indexPlanEntries(plan?.categories ?? []);
+        const plannedChannels = this.indexPlanEntries(plan?.channels ?? []);
+        const verb = plan ? 'Syncing' : 'Creating';
+
+        const roles = template.roles.map(roleData => scheduler.add({
+            id: `role:${roleData.key}`,
+            label: `${verb} role ${roleData.name}`,
+            run: () => this.applyRole(roleData, plannedRoles.get(roleData.key))
+        }));
+        const rolePositions = scheduler.add({
+            id: 'roles:positions',
+            label: 'Ordering roles',
+            dependsOn: roles,
+            run: () => this.setRolePositions()
+        });
+        const expressions = scheduler.add({
+            id: 'expressions',
+            label: 'Creating emojis and stickers',
+            dependsOn: roles,
+            run: () => this.createExpressions(template)
+        });
+
+        const categories = template.categories.map(categoryData => scheduler.add({
+            id: `category:${categoryData.key}`,
+            label: `${verb} category ${categoryData.name}`,
+            dependsOn: roles,
+            run: () => this.applyCategory(categoryData, plannedCategories.get(categoryData.key))
+        }));
+
+        const channels = [
+            ...template.categories.flatMap(category =>
+                category.channels.map(channel => ({ channel, parent: category.key as string | null }))),
+            ...template.uncategorizedChannels.map(channel => ({ channel, parent: null })),
+        ].map(({ channel: channelData, parent }) => scheduler.add({
+            id: `channel:${channelData.key}`,
+            label: `${verb} channel ${channelData.name}`,
+            dependsOn: [...roles, expressions, ...(parent ? [`category:${parent}`] : [])],
+            run: () => this.applyChannel(channelData, parent, plannedChannels.get(channelData.key))
+        }));
+
+        const channelPositions = scheduler.add({
+            id: 'channels:positions',
+            label: 'Ordering channels',
+            dependsOn: [...categories, ...channels],
+            run: () => this.setChannelPositions()
+        });
+        const settings = scheduler.add({
+            id: 'settings',
+            label: 'Applying server settings',
+            dependsOn: [channelPositions, expressions],
+            run: () => this.applySettings(template, options.skipSettings ?? [])
+        });
+
+        const members = template.members?.length
+            ? [scheduler.add({
+                id: 'members',
+                label: 'Restoring member roles',
+                dependsOn: [rolePositions],
+                run: () => this.restoreMembers(template.members!)
+            })]
+            : [];
+
+        return [...roles, rolePositions, expressions, ...categories, ...channels, channelPositions, settings, ...members];
+    }
+
+    /**
+     * Schedules the deletions a plan calls for. Channels and categories are deleted
+     * once everything else has been applied, and roles only after them.
+     * @param {TaskScheduler} scheduler - The scheduler to add the tasks to
+     * @param {ImportPlan} plan - The plan whose deletions to carry out
+     * @param {string[]} after - IDs of the tasks that must finish first
+     * @private
+     */
+    private scheduleDeletions(scheduler: TaskScheduler, plan: ImportPlan, after: string[]): void {
+        const channels = [...plan.channels, ...plan.categories]
+            .filter(entry => entry.action === 'delete' && entry.id)
+            .map(entry => scheduler.add({
+                id: `delete:${entry.kind}:${entry.id}`,
+                label: `Deleting ${entry.kind} ${entry.name}`,
+                dependsOn: after,
+                run: async () => {
+                    const channel = this.channels.find(channel => channel.id === entry.id);
+                    if (!channel || !channel.deletable) return;
+                    await this.guild.deleteChannel(channel.id);
+                }
+            }));
+
+        for (const entry of plan.roles) {
+            if (entry.action !== 'delete' || !entry.id) continue;
+            scheduler.add({
+                id: `delete:role:${entry.id}`,
+                label: `Deleting role ${entry.name}`,
+                dependsOn: [...after, ...channels],
+                run: () => this.guild.deleteRole(entry.id!)
+            });
+        }
+    }
+
+    /**
+     * Creates, edits or keeps a role as planned. Without a plan entry the role is created.
+     * The @everyone role is never created; its permissions are applied to the existing one.
+     * @param {TemplateRole} roleData - The role from the template
+     * @param {PlanEntry} [entry] - The planned change for the role
      * @returns {Promise<void>}
+     * @private
      */
-    async importTemplate(template: ServerTemplate): Promise<void> {
-        if (!template || !template.roles || !template.categories) {
-            throw new Error('Invalid template format');
+    private async applyRole(roleData: TemplateRole, entry?: PlanEntry): Promise<void> {
+        if (roleData.key === EVERYONE_ROLE_KEY) {
+            this.roleMap.set(roleData.key, this.guild.id);
+            if (!entry || entry.action === 'update') {
+                await this.guild.editRole(this.guild.id, { permissions: BigInt(roleData.permissions) });
+            }
+            return;
         }
 
-        await this.createRoles(template.roles);
-        await this.createCategories(template.categories);
-        await this.createCategoryChannels(template.categories);
+        if (!entry || entry.action === 'create') {
+            const id = (!entry && this.findLeftover(roleData.name, 'role')) || (await this.guild.createRole({
+                name: roleData.name,
+                color: roleData.color,
+                hoist: roleData.hoist,
+                permissions: BigInt(roleData.permissions),
+                mentionable: roleData.mentionable
+            })).id;
+            this.roleMap.set(roleData.key, id);
+            this.rolePositions.push({ role: id, position: roleData.position });
+            return;
+        }
 
-        if (template.uncategorizedChannels) {
-            await this.createUncategorizedChannels(template.uncategorizedChannels);
+        this.roleMap.set(roleData.key, entry.id!);
+        if (entry.action !== 'update') return;
+
+        await this.guild.editRole(entry.id!, {
+            name: roleData.name,
+            color: roleData.color,
+            hoist: roleData.hoist,
+            permissions: BigInt(roleData.permissions),
+            mentionable: roleData.mentionable
+        });
+        if (entry.changes.includes('position')) {
+            this.rolePositions.push({ role: entry.id!, position: roleData.position });
         }
     }
 
     /**
-     * Creates roles from the template
-     * @param {TemplateRole[]} roles - Array of roles to create
+     * Moves created and repositioned roles into place in a single request.
+     * Roles can never be moved to or above the bot's highest role, whose position
+     * is read again here since every created role pushes it up.
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async setRolePositions(): Promise<void> {
+        if (this.rolePositions.length === 0) return;
+
+        const botHighestRolePosition = (await this.guild.fetchBot()).highestRolePosition;
+
+        await this.guild.setRolePositions(this.rolePositions.map(item => ({
+            id: item.role,
+            position: Math.max(1, Math.min(item.position, botHighestRolePosition - 1))
+        })));
+    }
+
+    /**
+     * Gives the recorded members who are still in the guild back the roles they are missing,
+     * and their nickname if it was recorded. Roles are only added, never removed, so the step
+     * simply starts over when an interrupted import is resumed. Members are paced by
+     * MEMBER_RESTORE_DELAY milliseconds (default 500), on top of Discord's rate limits.
+     * @param {TemplateMember[]} members - The recorded members
+     * @throws {Error} If the bot does not receive the member intents
      * @returns {Promise<void>}
      * @private
      */
-    private async createRoles(roles: TemplateRole[]): Promise<void> {
-        const sortedRoles = [...roles].sort((a, b) => b.position - a.position);
+    private async restoreMembers(members: TemplateMember[]): Promise<void> {
+        if (!this.guild.canFetchMembers()) {
+            throw new Error('restoring member roles needs the Guild Members intent; set MEMBER_ROLE_BACKUPS=true');
+        }
+
+        const delay = Number(process.env.MEMBER_RESTORE_DELAY) || 500;
+        const current = new Map((await this.guild.fetchMembers()).map(member => [member.id, member]));
+        const guildRoles = new Map((await this.guild.fetchRoles()).map(role => [role.id, role]));
+        const botHighestRolePosition = (await this.guild.fetchBot()).highestRolePosition;
+        const restore: MemberRestore = { restored: 0, departed: [], failed: [] };
+        this.memberRestore = restore;
+
+        for (const recorded of members) {
+            const member = current.get(recorded.id);
+            if (!member) {
+                restore.departed.push(recorded.id);
+                continue;
+            }
+
+            const roles = recorded.roles
+                .map(key => guildRoles.get(this.roleMap.get(key) ?? ''))
+                .filter((role): role is GuildRoleData => role !== undefined &&
+                    !role.managed &&
+                    role.position < botHighestRolePosition &&
+                    !member.roles.includes(role.id));
+            const nickname = recorded.nickname !== undefined && recorded.nickname !== member.nickname && member.manageable;
+            if (roles.length === 0 && !nickname) continue;
 
-        for (const roleData of sortedRoles) {
             try {
-                if (roleData.name === '@everyone') continue;
-
-                const role = await this.guild.roles.create({
-                    name: roleData.name,
-                    color: roleData.color,
-                    hoist: roleData.hoist,
-                    position: roleData.position,
-                    permissions: roleData.permissions as any,
-                    mentionable: roleData.mentionable
-                });
-                
-                this.roleMap.set(roleData.name, role.id);
+                if (roles.length > 0) {
+                    await this.guild.addMemberRoles(member.id, roles.map(role => role.id), 'Restoring member roles from a template');
+                }
+                if (nickname) {
+                    await this.guild.setMemberNickname(member.id, recorded.nickname ?? null, 'Restoring member nicknames from a template');
+                }
+                restore.restored++;
             } catch (error) {
-                console.error(`Error creating role ${roleData.name}:`, error);
+                restore.failed.push({ id: member.id, reason: (error as Error).message });
             }
+            await new Promise(resolve => setTimeout(resolve, delay));
         }
     }
 
     /**
-     * Creates categories from the template
-     * @param {TemplateCategory[]} categories - Array of categories to create
+     * Creates, edits or keeps a category as planned. Without a plan entry the category is created.
+     * @param {TemplateCategory} categoryData - The category from the template
+     * @param {PlanEntry} [entry] - The planned change for the category
      * @returns {Promise<void>}
      * @private
      */
-    private async createCategories(categories: TemplateCategory[]): Promise<void> {
-        for (const categoryData of categories) {
+    private async applyCategory(categoryData: TemplateCategory, entry?: PlanEntry): Promise<void> {
+        if (!entry || entry.action === 'create') {
+            const id = (!entry && this.findLeftover(categoryData.name, ChannelType.GuildCategory)) || (await this.guild.createChannel({
+                name: categoryData.name,
+                type: ChannelType.GuildCategory,
+                position: categoryData.position,
+                permissionOverwrites: await this.mapPermissionOverwrites(categoryData.permissionOverwrites, categoryData.name)
+            })).id;
+            this.categoryMap.set(categoryData.key, id);
+            this.channelPositions.push({ channel: id, position: categoryData.position });
+            return;
+        }
+
+        this.categoryMap.set(categoryData.key, entry.id!);
+        if (entry.action !== 'update') return;
+
+        await this.guild.editChannel(entry.id!, {
+            name: categoryData.name,
+            position: categoryData.position,
+            permissionOverwrites: await this.mapPermissionOverwrites(categoryData.permissionOverwrites, categoryData.name)
+        });
+    }
+
+    /**
+     * Creates, edits or keeps a channel as planned, moving it between categories where needed.
+     * Without a plan entry the channel is created. Channels whose category could not be
+     * created are skipped.
+     * @param {TemplateChannel} channelData - The channel from the template
+     * @param {string | null} parentKey - Template key of the channel's category, or null if it has none
+     * @param {PlanEntry} [entry] - The planned change for the channel
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async applyChannel(channelData: TemplateChannel, parentKey: string | null, entry?: PlanEntry): Promise<void> {
+        const parent = parentKey ? this.categoryMap.get(parentKey) : null;
+        if (parent === undefined) {
+            throw new Error(`category \`${parentKey}\` was not created`);
+        }
+
+        if (!entry || entry.action === 'create') {
+            const id = (!entry && this.findLeftover(channelData.name, channelData.type, parent)) || (await this.guild.createChannel({
+                name: channelData.name,
+                type: channelData.type,
+                position: channelData.position,
+                parentId: parent,
+                permissionOverwrites: await this.mapPermissionOverwrites(channelData.permissionOverwrites, channelData.name),
+                ...this.mapChannelSettings(channelData)
+            })).id;
+            this.channelMap.set(channelData.key, id);
+            this.channelPositions.push({ channel: id, position: channelData.position });
+            return;
+        }
+
+        this.channelMap.set(channelData.key, entry.id!);
+        if (entry.action !== 'update') return;
+
+        await this.guild.editChannel(entry.id!, {
+            name: channelData.name,
+            position: channelData.position,
+            parentId: parent,
+            permissionOverwrites: await this.mapPermissionOverwrites(channelData.permissionOverwrites, channelData.name),
+            ...this.mapChannelSettings(channelData)
+        });
+    }
+
+    /**
+     * Moves created categories and channels into place in a single request,
+     * since concurrent creation does not preserve their order
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async setChannelPositions(): Promise<void> {
+        if (this.channelPositions.length === 0) return;
+
+        await this.guild.setChannelPositions(this.channelPositions.map(item => ({ id: item.channel, position: item.position })));
+    }
+
+    /**
+     * Creates the template's custom emojis and stickers. Emojis and stickers whose
+     * name already exists in the guild are reused; the rest are created as long as
+     * the guild's boost tier has free slots for them.
+     * @param {ServerTemplate} template - The template containing the emojis and stickers
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async createExpressions(template: ServerTemplate): Promise<void> {
+        const tier = (await this.guild.fetchSettings()).premiumTier;
+
+        const emojis = await this.guild.fetchEmojis();
+        const freeEmojiSlots = {
+            static: EMOJI_LIMITS[tier] - emojis.filter(emoji => !emoji.animated).length,
+            animated: EMOJI_LIMITS[tier] - emojis.filter(emoji => emoji.animated).length
+        };
+
+        for (const emojiData of template.emojis ?? []) {
+            const existing = emojis.find(emoji => emoji.name === emojiData.name);
+            if (existing) {
+                this.emojiMap.set(emojiData.key, existing.id);
+                continue;
+            }
+
+            const slot = emojiData.animated ? 'animated' : 'static';
+            if (freeEmojiSlots[slot] <= 0) {
+                this.skippedExpressions.push({
+                    kind: 'emoji',
+                    name: emojiData.name,
+                    reason: `no free ${slot} emoji slots at the server's boost tier`
+                });
+                continue;
+            }
+
             try {
-                const category = await this.guild.channels.create({
-                    name: categoryData.name,
-                    type: ChannelType.GuildCategory,
-                    position: categoryData.position,
-                    permissionOverwrites: this.mapPermissionOverwrites(categoryData.permissionOverwrites)
+                const emoji = await this.guild.createEmoji({
+                    image: decodeDataUri(emojiData.image),
+                    name: emojiData.name,
+                    roles: emojiData.roles
+                        .map(key => this.roleMap.get(key))
+                        .filter((id): id is string => id !== undefined)
                 });
+                this.emojiMap.set(emojiData.key, emoji.id);
+                this.emojiIds.add(emoji.id);
+                freeEmojiSlots[slot]--;
+            } catch (error) {
+                this.skippedExpressions.push({ kind: 'emoji', name: emojiData.name, reason: (error as Error).message });
+            }
+        }
 
-                this.categoryMap.set(categoryData.id, category.id);
+        const stickers = await this.guild.fetchStickers();
+        let freeStickerSlots = STICKER_LIMITS[tier] - stickers.length;
+
+        for (const stickerData of template.stickers ?? []) {
+            if (stickers.some(sticker => sticker.name === stickerData.name)) continue;
+
+            if (freeStickerSlots <= 0) {
+                this.skippedExpressions.push({
+                    kind: 'sticker',
+                    name: stickerData.name,
+                    reason: 'no free sticker slots at the server\'s boost tier'
+                });
+                continue;
+            }
+
+            try {
+                await this.guild.createSticker({
+                    image: decodeDataUri(stickerData.image),
+                    fileName: `${stickerData.key}.${stickerData.format === StickerFormatType.GIF ? 'gif' : 'png'}`,
+                    name: stickerData.name,
+                    tags: stickerData.tags,
+                    description: stickerData.description
+                });
+                freeStickerSlots--;
             } catch (error) {
-                console.error(`Error creating category ${categoryData.name}:`, error);
+                this.skippedExpressions.push({ kind: 'sticker', name: stickerData.name, reason: (error as Error).message });
             }
         }
     }
 
     /**
-     * Creates channels within categories from the template
-     * @param {TemplateCategory[]} categories - Array of categories containing channels to create
+     * Applies the template's server settings. Settings are applied in separate
+     * requests so that one that is rejected, e.g. a banner on a server without
+     * the required boost tier, does not prevent the others from being applied.
+     * On a non-Community server, only community settings the template actually
+     * sets, i.e. that are not empty or Discord's default, are reported as unapplied.
+     * @param {ServerTemplate} template - The template containing the settings
+     * @param {GuildSettingName[]} skip - Settings that are left unchanged
      * @returns {Promise<void>}
      * @private
      */
-    private async createCategoryChannels(categories: TemplateCategory[]): Promise<void> {
-        for (const categoryData of categories) {
-            const categoryId = this.categoryMap.get(categoryData.id);
-            if (!categoryId) continue;
-
-            for (const channelData of categoryData.channels) {
-                try {
-                    await this.guild.channels.create({
-                        name: channelData.name,
-                        type: channelData.type,
-                        position: channelData.position,
-                        parent: categoryId,
-                        permissionOverwrites: this.mapPermissionOverwrites(channelData.permissionOverwrites)
-                    });
-                } catch (error) {
-                    console.error(`Error creating channel ${channelData.name}:`, error);
+    private async applySettings(template: ServerTemplate, skip: GuildSettingName[]): Promise<void> {
+        if (template.partial && !template.partial.sections.includes('settings')) return;
+
+        const settings = template.settings ?? {};
+        const wanted = (setting: GuildSettingName) =>
+            !skip.includes(setting) && (setting === 'name' || settings[setting] !== undefined);
+        const channel = (setting: GuildSettingName, key: string | null | undefined) => {
+            if (!key) return null;
+            const id = this.channelMap.get(key);
+            if (!id) this.unappliedSettings.push({ setting, reason: `channel \`${key}\` was not created` });
+            return id;
+        };
+
+        const apply = async (names: GuildSettingName[], edit: () => Promise<unknown>) => {
+            const applicable = names.filter(wanted);
+            if (applicable.length === 0) return;
+            try {
+                await edit();
+            } catch (error) {
+                for (const setting of applicable) {
+                    this.unappliedSettings.push({ setting, reason: (error as Error).message });
                 }
             }
+        };
+
+        await apply(['name', 'verificationLevel', 'explicitContentFilter', 'defaultMessageNotifications', 'afkChannel', 'afkTimeout', 'systemChannel', 'systemChannelFlags'], () =>
+            this.guild.editSettings({
+                name: wanted('name') ? template.name : undefined,
+                verificationLevel: wanted('verificationLevel') ? settings.verificationLevel : undefined,
+                explicitContentFilter: wanted('explicitContentFilter') ? settings.explicitContentFilter : undefined,
+                defaultMessageNotifications: wanted('defaultMessageNotifications') ? settings.defaultMessageNotifications : undefined,
+                afkChannelId: wanted('afkChannel') ? channel('afkChannel', settings.afkChannel) : undefined,
+                afkTimeout: wanted('afkTimeout') ? settings.afkTimeout : undefined,
+                systemChannelId: wanted('systemChannel') ? channel('systemChannel', settings.systemChannel) : undefined,
+                systemChannelFlags: wanted('systemChannelFlags') ? settings.systemChannelFlags : undefined
+            })
+        );
+
+        for (const image of ['icon', 'banner', 'splash'] as const) {
+            await apply([image], () => this.guild.editSettings({ [image]: settings[image] }));
+        }
+
+        const communitySettings = ['rulesChannel', 'publicUpdatesChannel', 'preferredLocale', 'welcomeScreen'] as const;
+        if (!(await this.guild.fetchSettings()).community) {
+            const customized = (setting: typeof communitySettings[number]) =>
+                settings[setting] != null && (setting !== 'preferredLocale' || settings.preferredLocale !== DEFAULT_LOCALE);
+            for (const setting of communitySettings.filter(setting => wanted(setting) && customized(setting))) {
+                this.unappliedSettings.push({ setting, reason: 'the server is not a Community server' });
+            }
+            return;
+        }
+
+        await apply(['rulesChannel', 'publicUpdatesChannel', 'preferredLocale'], () =>
+            this.guild.editSettings({
+                rulesChannelId: wanted('rulesChannel') ? channel('rulesChannel', settings.rulesChannel) : undefined,
+                publicUpdatesChannelId: wanted('publicUpdatesChannel') ? channel('publicUpdatesChannel', settings.publicUpdatesChannel) : undefined,
+                preferredLocale: wanted('preferredLocale') ? settings.preferredLocale : undefined
+            })
+        );
+
+        const welcomeScreen = settings.welcomeScreen;
+        if (welcomeScreen) {
+            await apply(['welcomeScreen'], () =>
+                this.guild.editWelcomeScreen({
+                    enabled: welcomeScreen.enabled,
+                    description: welcomeScreen.description,
+                    channels: welcomeScreen.channels
+                        .filter(welcome => this.channelMap.has(welcome.channel))
+                        .map(welcome => ({
+                            channelId: this.channelMap.get(welcome.channel)!,
+                            description: welcome.description,
+                            emoji: this.resolveEmoji(welcome.emoji) ?? null
+                        }))
+                })
+            );
         }
     }
 
     /**
-     * Creates channels that don't belong to any category
-     * @param {TemplateChannel[]} channels - Array of channels to create
-     * @returns {Promise<void>}
+     * Indexes plan entries by template key. Entries for items that only exist
+     * in the guild come last in a plan and may reuse a template key, so the
+     * first entry for each key wins.
+     * @param {PlanEntry[]} entries - The plan entries to index
+     * @returns {Map<string, PlanEntry>} The entries by template key
      * @private
      */
-    private async createUncategorizedChannels(channels: TemplateChannel[]): Promise<void> {
-        for (const channelData of channels) {
-            try {
-                await this.guild.channels.create({
-                    name: channelData.name,
-                    type: channelData.type,
-                    position: channelData.position,
-                    permissionOverwrites: this.mapPermissionOverwrites(channelData.permissionOverwrites)
+    private indexPlanEntries(entries: PlanEntry[]): Map<string, PlanEntry> {
+        const index = new Map<string, PlanEntry>();
+        for (const entry of entries) {
+            if (!index.has(entry.key)) index.set(entry.key, entry);
+        }
+        return index;
+    }
+
+    /**
+     * Maps the type-specific settings of a template channel to the guild's format.
+     * The bitrate is capped at the guild's boost-tier limit and custom emojis that
+     * do not exist in the guild are left out, since either would fail the request.
+     * Settings the template clears with null stay null, so editing a channel clears them too.
+     * @param {TemplateChannel} channelData - The channel from the template
+     * @returns {GuildChannelSettings} The channel settings to pass when creating or editing the channel
+     * @private
+     */
+    private mapChannelSettings(channelData: TemplateChannel): GuildChannelSettings {
+        return {
+            topic: channelData.topic,
+            nsfw: channelData.nsfw,
+            rateLimitPerUser: channelData.rateLimitPerUser,
+            defaultAutoArchiveDuration: channelData.defaultAutoArchiveDuration ?? undefined,
+            defaultThreadRateLimitPerUser: channelData.defaultThreadRateLimitPerUser ?? undefined,
+            bitrate: channelData.bitrate !== undefined
+                ? Math.min(channelData.bitrate, this.maximumBitrate)
+                : undefined,
+            userLimit: channelData.userLimit,
+            rtcRegion: channelData.rtcRegion,
+            videoQualityMode: channelData.videoQualityMode,
+            availableTags: channelData.availableTags?.map(tag => ({
+                name: tag.name,
+                moderated: tag.moderated,
+                emoji: this.resolveEmoji(tag.emoji) ?? null
+            })),
+            defaultReactionEmoji: this.resolveEmoji(channelData.defaultReactionEmoji),
+            defaultSortOrder: channelData.defaultSortOrder,
+            defaultForumLayout: channelData.defaultForumLayout
+        };
+    }
+
+    /**
+     * Resolves a template emoji reference for use in this guild
+     * @param {TemplateEmojiReference | null | undefined} emoji - The emoji from the template
+     * @returns {TemplateEmojiReference | null | undefined} The emoji, or null if it is a custom emoji this guild does not have
+     * @private
+     */
+    private resolveEmoji(emoji: TemplateEmojiReference | null | undefined): TemplateEmojiReference | null | undefined {
+        if (!emoji) return emoji;
+
+        const id = (emoji.key && this.emojiMap.get(emoji.key)) || emoji.id;
+        if (id && !this.emojiIds.has(id)) return null;
+        return { id: id, name: id ? null : emoji.name };
+    }
+
+    /**
+     * Maps permission overwrites from the template to the guild's format.
+     * Role keys are resolved to the IDs created during this import and member
+     * overwrites are kept only if the user is in the guild; anything else is
+     * dropped and recorded in the import report.
+     * @param {TemplatePermissionOverwrite[]} permissions - Array of permission overwrites to map
+     * @param {string} target - Name of the category or channel, used for reporting
+     * @returns {Promise<GuildOverwriteData[]>} Mapped permission overwrites
+     * @private
+     */
+    private async mapPermissionOverwrites(permissions: TemplatePermissionOverwrite[], target: string): Promise<GuildOverwriteData[]> {
+        const mapped: GuildOverwriteData[] = [];
+
+        for (const perm of permissions) {
+            const id = await this.resolveOverwriteTarget(perm.id, perm.type);
+            if (!id) {
+                this.unresolvedOverwrites.push({
+                    target: target,
+                    id: perm.id,
+                    type: perm.type,
+                    reason: perm.type === OverwriteType.Member
+                        ? 'member is not in this server'
+                        : this.roleReferences.has(perm.id)
+                            ? `role "${this.roleReferences.get(perm.id)}" does not exist in this server`
+                            : 'role key is not defined by the template'
                 });
-            } catch (error) {
-                console.error(`Error creating channel ${channelData.name}:`, error);
+                continue;
             }
+
+            mapped.push({
+                id: id,
+                type: perm.type,
+                allow: BigInt(perm.allow),
+                deny: BigInt(perm.deny)
+            });
         }
+
+        return mapped;
     }
 
     /**
-     * Maps permission overwrites from the template to Discord.js format
-     * @param {any[]} permissions - Array of permission overwrites to map
-     * @returns {Object[]} Mapped permission overwrites
+     * Resolves the target of a template permission overwrite to a guild snowflake
+     * @param {string} id - The role key or user ID from the template
+     * @param {number} type - The type of overwrite (0 for role, 1 for member)
+     * @returns {Promise<string | undefined>} The resolved ID, or undefined if it does not exist
      * @private
      */
-    private mapPermissionOverwrites(permissions: any[]) {
-        return permissions.map(perm => ({
-            id: this.roleMap.get(perm.id) || perm.id,
-            type: perm.type,
-            allow: new PermissionsBitField(perm.allow),
-            deny: new PermissionsBitField(perm.deny)
-        }));
+    private async resolveOverwriteTarget(id: string, type: number): Promise<string | undefined> {
+        if (type !== OverwriteType.Member) {
+            return this.roleMap.get(id);
+        }
+
+        if (!this.memberCache.has(id)) {
+            const member = await this.guild.fetchMember(id).catch(() => null);
+            this.memberCache.set(id, member !== null);
+        }
+
+        return this.memberCache.get(id) ? id : undefined;
     }
-} 
\ No newline at end of file
+}
\ No newline at end of file
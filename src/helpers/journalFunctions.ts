@@ -0,0 +1,170 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { GuildSettingName, ServerTemplate } from '../schema/ServerTemplate';
+import { parseTemplate } from '../schema/migrations';
+import {
+    SkippedExpression,
+    UnappliedSetting,
+    UnresolvedOverwrite
+} from './importFunctions';
+
+/**
+ * The persisted state of an import, written after every completed step
+ * so an interrupted import can be resumed where it stopped
+ * @interface ImportJournal
+ */
+export interface ImportJournal {
+    /** The ID of the guild being imported into */
+    guildId: string;
+    /** Whether the guild is wiped and rebuilt or synced in place */
+    mode: 'replace' | 'sync';
+    /** The template being applied */
+    template: ServerTemplate;
+    /** Server settings from the template that are left unchanged */
+    skipSettings: GuildSettingName[];
+    /** Whether extra roles and channels are deleted in sync mode */
+    prune: boolean;
+    /** When the import was started, as an ISO timestamp */
+    startedAt: string;
+    /** The tag of the user who started the import */
+    startedBy: string;
+    /** The snapshot taken before the import, if any */
+    snapshotId: string | null;
+    /** Whether the existing channels and roles have been deleted, in replace mode */
+    cleared: boolean;
+    /** IDs of the import steps that have completed */
+    completedSteps: string[];
+    /** Role template keys mapped to the IDs they were created or matched as */
+    roleMap: Record<string, string>;
+    /** Category template keys mapped to their IDs */
+    categoryMap: Record<string, string>;
+    /** Channel template keys mapped to their IDs */
+    channelMap: Record<string, string>;
+    /** Emoji template keys mapped to their IDs */
+    emojiMap: Record<string, string>;
+    /** Roles that still need to be moved into place */
+    rolePositions: { role: string; position: number }[];
+    /** Categories and channels that still need to be moved into place */
+    channelPositions: { channel: string; position: number }[];
+    /** Overwrites that could not be resolved in the completed steps */
+    unresolvedOverwrites: UnresolvedOverwrite[];
+    /** Settings that could not be applied in the completed steps */
+    unappliedSettings: UnappliedSetting[];
+    /** Emojis and stickers that could not be created in the completed steps */
+    skippedExpressions: SkippedExpression[];
+}
+
+/**
+ * Stores the journal of the running import of each guild on the local file system.
+ * Journals live in `<DATA_DIR>/journals/<guild ID>.json` and are removed once the import finishes.
+ * @class JournalStore
+ */
+export class JournalStore {
+    private directory: string;
+    /** Pending writes per guild, so journal updates are written in order */
+    private writes: Map<string, Promise<void>> = new Map();
+
+    /**
+     * Creates an instance of JournalStore
+     * @param {string} [dataDir] - Base directory for stored data, defaults to `DATA_DIR` or `./data`
+     */
+    constructor(dataDir = process.env.DATA_DIR || 'data') {
+        this.directory = join(dataDir, 'journals');
+    }
+
+    /**
+     * Creates the journal for a new import, replacing the journal of any earlier one
+     * @param {Object} details - What is being imported and by whom
+     * @returns {Promise<ImportJournal>} The stored journal
+     */
+    async start(details: Pick<ImportJournal, 'guildId' | 'mode' | 'template' | 'skipSettings' | 'prune' | 'startedBy' | 'snapshotId'>): Promise<ImportJournal> {
+        const journal: ImportJournal = {
+            ...details,
+            startedAt: new Date().toISOString(),
+            cleared: false,
+            completedSteps: [],
+            roleMap: {},
+            categoryMap: {},
+            channelMap: {},
+            emojiMap: {},
+            rolePositions: [],
+            channelPositions: [],
+            unresolvedOverwrites: [],
+            unappliedSettings: [],
+            skippedExpressions: []
+        };
+
+        await this.save(journal);
+        return journal;
+    }
+
+    /**
+     * Writes a journal to disk. The file is replaced atomically, so a crash
+     * while writing leaves the previous version intact.
+     * @param {ImportJournal} journal - The journal to write
+     * @returns {Promise<void>}
+     */
+    async save(journal: ImportJournal): Promise<void> {
+        const content = JSON.stringify(journal);
+        const previous = this.writes.get(journal.guildId) ?? Promise.resolve();
+
+        const write = previous.catch(() => undefined).then(async () => {
+            const path = this.journalPath(journal.guildId);
+            await mkdir(this.directory, { recursive: true });
+            await writeFile(`${path}.tmp`, content, 'utf-8');
+            await rename(`${path}.tmp`, path);
+        });
+
+        this.writes.set(journal.guildId, write);
+        return write;
+    }
+
+    /**
+     * Loads the journal of a guild's interrupted import, migrating its template to the current schema version
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<ImportJournal | null>} The journal, or null if there is none
+     * @throws {TemplateValidationError} If the stored template is invalid
+     */
+    async load(guildId: string): Promise<ImportJournal | null> {
+        if (!/^\d+$/.test(guildId)) return null;
+
+        const content = await readFile(this.journalPath(guildId), 'utf-8').catch(() => null);
+        if (!content) return null;
+
+        const journal: ImportJournal = JSON.parse(content);
+        return { ...journal, template: parseTemplate(journal.template) };
+    }
+
+    /**
+     * Lists the IDs of the guilds that have an interrupted import
+     * @returns {Promise<string[]>} The guild IDs
+     */
+    async list(): Promise<string[]> {
+        const files = await readdir(this.directory).catch(() => [] as string[]);
+        return files
+            .filter(name => /^\d+\.json$/.test(name))
+            .map(name => name.slice(0, -'.json'.length));
+    }
+
+    /**
+     * Removes the journal of a guild once its import has finished
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<void>}
+     */
+    async remove(guildId: string): Promise<void> {
+        await this.writes.get(guildId)?.catch(() => undefined);
+        this.writes.delete(guildId);
+        await rm(this.journalPath(guildId), { force: true });
+    }
+
+    /**
+     * Resolves the path of a guild's journal file
+     * @param {string} guildId - The ID of the guild
+     * @returns {string} The file path
+     * @private
+     */
+    private journalPath(guildId: string): string {
+        return join(this.directory, `${guildId}.json`);
+    }
+}
@@ -0,0 +1,188 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { parseTemplate } from '../schema/migrations';
+
+/** Names of stored templates: letters, digits, dashes and underscores */
+const TEMPLATE_NAME_PATTERN = /^[\w-]{1,64}$/;
+
+/**
+ * Describes a template stored in a guild's library
+ * @interface LibraryEntry
+ */
+export interface LibraryEntry {
+    /** The name the template was saved as, unique per guild */
+    name: string;
+    /** The ID of the guild the template belongs to */
+    guildId: string;
+    /** When the template was last saved, as an ISO timestamp */
+    savedAt: string;
+    /** Who saved the template */
+    savedBy: string;
+}
+
+/**
+ * A library file as it is stored on disk
+ * @interface LibraryFile
+ */
+interface LibraryFile {
+    entry: LibraryEntry;
+    template: ServerTemplate;
+}
+
+/**
+ * Checks whether a name can be used for a stored template
+ * @param {string} name - The name to check
+ * @returns {boolean} True if the name is valid
+ */
+export function isValidTemplateName(name: string): boolean {
+    return TEMPLATE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Stores named templates per guild on the local file system.
+ * Templates live in `<DATA_DIR>/templates/<guild ID>/<name>.json`.
+ * @class TemplateLibrary
+ */
+export class TemplateLibrary {
+    private directory: string;
+
+    /**
+     * Creates an instance of TemplateLibrary
+     * @param {string} [dataDir] - Base directory for stored data, defaults to `DATA_DIR` or `./data`
+     */
+    constructor(dataDir = process.env.DATA_DIR || 'data') {
+        this.directory = join(dataDir, 'templates');
+    }
+
+    /**
+     * Stores a template under a name, replacing any template stored under the same name
+     * @param {string} guildId - The ID of the guild
+     * @param {string} name - The name to store the template as
+     * @param {ServerTemplate} template - The validated template
+     * @param {string} savedBy - Who saves the template
+     * @throws {Error} If the name is not valid
+     * @returns {Promise<LibraryEntry>} The stored entry
+     */
+    async save(guildId: string, name: string, template: ServerTemplate, savedBy: string): Promise<LibraryEntry> {
+        if (!isValidTemplateName(name)) {
+            throw new Error('Template names may only contain letters, digits, dashes and underscores, up to 64 characters');
+        }
+
+        const entry: LibraryEntry = {
+            name: name,
+            guildId: guildId,
+            savedAt: new Date().toISOString(),
+            savedBy: savedBy
+        };
+
+        const file: LibraryFile = { entry, template };
+        await mkdir(this.guildDirectory(guildId), { recursive: true });
+        await writeFile(this.templatePath(guildId, name), JSON.stringify(file, null, 2), 'utf-8');
+        return entry;
+    }
+
+    /**
+     * Lists the templates stored for a guild
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<LibraryEntry[]>} The entries, sorted by name
+     */
+    async list(guildId: string): Promise<LibraryEntry[]> {
+        const files = await readdir(this.guildDirectory(guildId)).catch(() => [] as string[]);
+        const entries: LibraryEntry[] = [];
+
+        for (const file of files.filter(name => name.endsWith('.json'))) {
+            try {
+                const content = await this.readFile(guildId, file.slice(0, -'.json'.length));
+                entries.push(content.entry);
+            } catch (error) {
+                console.error(`Skipping unreadable template ${file}:`, error);
+            }
+        }
+
+        return entries.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Loads a stored template, migrating it to the current schema version
+     * @param {string} guildId - The ID of the guild
+     * @param {string} name - The name of the template
+     * @returns {Promise<{ entry: LibraryEntry, template: ServerTemplate } | null>} The template, or null if it does not exist
+     * @throws {TemplateValidationError} If the stored template is invalid
+     */
+    async load(guildId: string, name: string): Promise<{ entry: LibraryEntry; template: ServerTemplate } | null> {
+        if (!isValidTemplateName(name)) return null;
+
+        const content = await this.readFile(guildId, name).catch(() => null);
+        if (!content) return null;
+
+        return { entry: content.entry, template: parseTemplate(content.template) };
+    }
+
+    /**
+     * Removes a stored template
+     * @param {string} guildId - The ID of the guild
+     * @param {string} name - The name of the template
+     * @returns {Promise<boolean>} True if the template existed
+     */
+    async remove(guildId: string, name: string): Promise<boolean> {
+        if (!isValidTemplateName(name)) return false;
+
+        const exists = await this.readFile(guildId, name).then(() => true, () => false);
+        await rm(this.templatePath(guildId, name), { force: true });
+        return exists;
+    }
+
+    /**
+     * Removes the oldest templates whose name starts with a prefix, keeping the newest ones.
+     * Names with a common prefix are expected to end in a timestamp, so they sort by age.
+     * @param {string} guildId - The ID of the guild
+     * @param {string} prefix - The prefix of the names to prune, e.g. `backup-`
+     * @param {number} keep - How many of the matching templates to keep
+     * @returns {Promise<string[]>} The names of the removed templates
+     */
+    async prune(guildId: string, prefix: string, keep: number): Promise<string[]> {
+        const stale = (await this.list(guildId))
+            .filter(entry => entry.name.startsWith(prefix))
+            .sort((a, b) => b.name.localeCompare(a.name))
+            .slice(Math.max(0, keep));
+
+        for (const entry of stale) {
+            await rm(this.templatePath(guildId, entry.name), { force: true });
+        }
+        return stale.map(entry => entry.name);
+    }
+
+    /**
+     * Reads and parses a library file
+     * @param {string} guildId - The ID of the guild
+     * @param {string} name - The name of the template
+     * @returns {Promise<LibraryFile>} The parsed file
+     * @private
+     */
+    private async readFile(guildId: string, name: string): Promise<LibraryFile> {
+        return JSON.parse(await readFile(this.templatePath(guildId, name), 'utf-8'));
+    }
+
+    /**
+     * Resolves the directory holding a guild's templates
+     * @param {string} guildId - The ID of the guild
+     * @returns {string} The directory path
+     * @private
+     */
+    private guildDirectory(guildId: string): string {
+        return join(this.directory, guildId);
+    }
+
+    /**
+     * Resolves the path of a stored template
+     * @param {string} guildId - The ID of the guild
+     * @param {string} name - The name of the template
+     * @returns {string} The file path
+     * @private
+     */
+    private templatePath(guildId: string, name: string): string {
+        return join(this.guildDirectory(guildId), `${name}.json`);
+    }
+}
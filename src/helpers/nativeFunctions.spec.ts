@@ -0,0 +1,126 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+
+import {
+    describeNativeOmissions,
+    isNativeTemplate,
+    NativeTemplateGuild,
+    parseNativeTemplate,
+    toNativeTemplate
+} from './nativeFunctions';
+import { parseTemplate } from '../schema/migrations';
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { TemplateValidationError } from '../schema/validateTemplate';
+
+/**
+ * Reads a fixture from the fixtures/native directory
+ * @param {string} name - The file name
+ * @returns {unknown} The parsed JSON
+ */
+function fixture(name: string): unknown {
+    return JSON.parse(readFileSync(join(__dirname, 'fixtures', 'native', name), 'utf-8'));
+}
+
+describe('parseNativeTemplate', () => {
+    const native = fixture('gaming-community.json') as { serialized_source_guild: NativeTemplateGuild };
+
+    it('accepts a whole Discord template or only its serialized_source_guild', () => {
+        expect(isNativeTemplate(native)).toBe(true);
+        expect(isNativeTemplate(native.serialized_source_guild)).toBe(true);
+        expect(isNativeTemplate(fixture('study-group.template.json'))).toBe(false);
+        expect(parseNativeTemplate(native.serialized_source_guild).roles).toEqual(parseNativeTemplate(native).roles);
+    });
+
+    it('replaces integer IDs with keys, highest role first', () => {
+        const template = parseNativeTemplate(native);
+
+        expect(template.roles.map(role => [role.key, role.position])).toEqual([
+            ['admin', 3],
+            ['moderator', 2],
+            ['member', 1],
+            ['everyone', 0],
+        ]);
+        expect(template.categories.map(category => [category.key, category.channels.map(channel => channel.key)])).toEqual([
+            ['information', ['rules', 'announcements']],
+            ['text-channels', ['general', 'lfg']],
+            ['voice-channels', ['lounge']],
+        ]);
+        expect(template.uncategorizedChannels.map(channel => channel.key)).toEqual(['afk']);
+    });
+
+    it('maps role overwrites to role keys and drops overwrites for unknown roles', () => {
+        const template = parseNativeTemplate(native);
+        const [information, , voice] = template.categories;
+
+        expect(information.permissionOverwrites).toEqual([
+            { id: 'everyone', type: 0, allow: '0', deny: '2048' },
+            { id: 'moderator', type: 0, allow: '2048', deny: '0' },
+        ]);
+        expect(information.channels[0].permissionOverwrites).toEqual([]);
+        expect(voice.permissionOverwrites).toEqual([{ id: 'member', type: 0, allow: '1048576', deny: '0' }]);
+    });
+
+    it('references the AFK and system channels by key', () => {
+        expect(parseNativeTemplate(native).settings).toEqual({
+            verificationLevel: 1,
+            explicitContentFilter: 2,
+            defaultMessageNotifications: 1,
+            afkTimeout: 900,
+            afkChannel: 'afk',
+            systemChannel: 'general',
+            systemChannelFlags: 4,
+            preferredLocale: 'en-US'
+        });
+    });
+
+    it('converts type-specific channel settings and leaves out channel types a template cannot hold', () => {
+        const channels = parseNativeTemplate(native).categories.flatMap(category => category.channels);
+
+        expect(channels.map(channel => channel.name)).not.toContain('Hub directory');
+        expect(channels.find(channel => channel.key === 'lfg')).toMatchObject({
+            availableTags: [
+                { name: 'PC', moderated: false, emoji: { id: null, name: '🖥️' } },
+                { name: 'Staff pick', moderated: true, emoji: null },
+            ],
+            defaultReactionEmoji: { id: null, name: '👍' },
+            defaultForumLayout: 1
+        });
+        expect(channels.find(channel => channel.key === 'lounge')).toMatchObject({ bitrate: 96000, userLimit: 10 });
+    });
+
+    it('rejects data that is not a usable Discord template', () => {
+        expect(() => parseNativeTemplate({ name: 'Broken', roles: [], channels: {} })).toThrow(TemplateValidationError);
+    });
+});
+
+describe('toNativeTemplate', () => {
+    const template = parseTemplate(fixture('study-group.template.json'));
+
+    it('numbers roles from @everyone and channels from 1, and keeps only role overwrites', () => {
+        expect(toNativeTemplate(template)).toEqual(fixture('study-group.native.json'));
+    });
+
+    it('lists what the Discord format cannot hold', () => {
+        expect(describeNativeOmissions(template)).toEqual([
+            '1 emoji(s)',
+            '1 member permission overwrite(s)',
+            'server images (icon)',
+            'community settings (rulesChannel)',
+        ]);
+        expect(describeNativeOmissions(parseNativeTemplate(fixture('gaming-community.json')))).toEqual([]);
+    });
+
+    it('converts a Discord template back into the same template', () => {
+        const imported = parseNativeTemplate(fixture('gaming-community.json'));
+        const { exportedAt, ...reimported } = parseNativeTemplate(toNativeTemplate(imported));
+        const { exportedAt: _, ...original } = imported;
+
+        expect(reimported).toEqual(original);
+    });
+
+    it('refuses partial templates', () => {
+        const partial: ServerTemplate = { ...template, partial: { sections: ['roles'], roleReferences: [] } };
+        expect(() => toNativeTemplate(partial)).toThrow();
+    });
+});
@@ -0,0 +1,521 @@
+import { ChannelType, OverwriteType } from 'discord.js';
+
+import { EVERYONE_ROLE_KEY, KeyAllocator } from '../utils/TemplateKeys';
+import { 
+    ServerTemplate, 
+    TEMPLATE_SCHEMA_VERSION, 
+    TemplateCategory, 
+    TemplateChannel, 
+    TemplateEmojiReference, 
+    TemplateGuildSettings, 
+    TemplatePermissionOverwrite, 
+    TemplateRole 
+} from '../schema/ServerTemplate';
+import { 
+    assertValidTemplate, 
+    TemplateIssue, 
+    TemplateValidationError 
+} from '../schema/validateTemplate';
+
+/** Channel types a native template can hold besides categories */
+const NATIVE_CHANNEL_TYPES: number[] = [
+    ChannelType.GuildText,
+    ChannelType.GuildVoice,
+    ChannelType.GuildAnnouncement,
+    ChannelType.GuildStageVoice,
+    ChannelType.GuildForum,
+    ChannelType.GuildMedia,
+];
+
+/**
+ * A permission overwrite in Discord's native template format; only role overwrites are kept by Discord
+ * @interface NativeOverwrite
+ */
+export interface NativeOverwrite {
+    /** The template-local integer ID of the role */
+    id: number;
+    /** The type of overwrite (0 for role, 1 for member) */
+    type: number;
+    /** Allowed permissions bitfield as a decimal string */
+    allow: string;
+    /** Denied permissions bitfield as a decimal string */
+    deny: string;
+}
+
+/**
+ * A role in Discord's native template format
+ * @interface NativeRole
+ */
+export interface NativeRole {
+    /** The template-local integer ID; 0 is the @everyone role */
+    id: number;
+    name: string;
+    color: number;
+    hoist: boolean;
+    mentionable: boolean;
+    /** Permissions bitfield as a decimal string */
+    permissions: string;
+    icon?: string | null;
+    unicode_emoji?: string | null;
+}
+
+/**
+ * A forum tag in Discord's native template format
+ * @interface NativeForumTag
+ */
+export interface NativeForumTag {
+    id?: number | null;
+    name: string;
+    moderated: boolean;
+    emoji_id: string | null;
+    emoji_name: string | null;
+}
+
+/**
+ * A category or channel in Discord's native template format
+ * @interface NativeChannel
+ */
+export interface NativeChannel {
+    /** The template-local integer ID, referenced by `parent_id` and the AFK and system channels */
+    id: number;
+    /** The channel type, as defined in Discord.js ChannelType */
+    type: number;
+    name: string;
+    position: number;
+    /** The integer ID of the category the channel is in */
+    parent_id: number | null;
+    permission_overwrites: NativeOverwrite[];
+    topic?: string | null;
+    nsfw?: boolean;
+    rate_limit_per_user?: number;
+    bitrate?: number;
+    user_limit?: number;
+    rtc_region?: string | null;
+    video_quality_mode?: number | null;
+    default_auto_archive_duration?: number | null;
+    default_thread_rate_limit_per_user?: number | null;
+    available_tags?: NativeForumTag[] | null;
+    default_reaction_emoji?: { emoji_id: string | null; emoji_name: string | null } | null;
+    default_sort_order?: number | null;
+    default_forum_layout?: number | null;
+}
+
+/**
+ * A server in Discord's native template format: the `serialized_source_guild`
+ * of a template fetched by its code
+ * @interface NativeTemplateGuild
+ */
+export interface NativeTemplateGuild {
+    name: string;
+    description: string | null;
+    region?: string | null;
+    verification_level: number;
+    default_message_notifications: number;
+    explicit_content_filter: number;
+    preferred_locale: string;
+    afk_timeout: number;
+    /** The roles, lowest first; the first one is the @everyone role */
+    roles: NativeRole[];
+    /** The categories and channels */
+    channels: NativeChannel[];
+    afk_channel_id: number | null;
+    system_channel_id: number | null;
+    system_channel_flags: number;
+    icon_hash: string | null;
+}
+
+/**
+ * Checks whether parsed JSON is a template in Discord's native format, either
+ * a whole template object or just its `serialized_source_guild`
+ * @param {unknown} data - The parsed JSON
+ * @returns {boolean} True if the data is a native template
+ */
+export function isNativeTemplate(data: unknown): boolean {
+    if (typeof data !== 'object' || data === null || 'schemaVersion' in data) return false;
+
+    const source = 'serialized_source_guild' in data ? data.serialized_source_guild : data;
+    return typeof source === 'object' && source !== null &&
+        Array.isArray((source as Record<string, unknown>).roles) &&
+        Array.isArray((source as Record<string, unknown>).channels) &&
+        (source as { roles: unknown[] }).roles.every(role =>
+            typeof role === 'object' && role !== null && 'id' in role && /^\d+$/.test(String(role.id)));
+}
+
+/**
+ * Extracts the code of a Discord template from a code or a template link
+ * @param {string} value - A code such as `hgM48av5Q69A`, or a link such as `https://discord.new/hgM48av5Q69A`
+ * @returns {string | null} The code, or null if the value is neither
+ */
+export function parseTemplateCode(value: string): string | null {
+    const match = value.trim().match(/^(?:https?:\/\/)?(?:discord\.new\/|(?:www\.)?discord(?:app)?\.com\/template\/)?([\w-]{2,})\/?$/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Checks the shape of a native template closely enough to convert it
+ * @param {unknown} data - A whole native template or its `serialized_source_guild`
+ * @throws {TemplateValidationError} If the data is not a usable native template
+ * @returns {NativeTemplateGuild} The native server
+ */
+export function readNativeTemplate(data: unknown): NativeTemplateGuild {
+    const source = typeof data === 'object' && data !== null && 'serialized_source_guild' in data
+        ? data.serialized_source_guild
+        : data;
+    const issues: TemplateIssue[] = [];
+    const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+    const isId = (value: unknown) => /^\d+$/.test(String(value));
+
+    if (!isObject(source)) {
+        throw new TemplateValidationError([{ path: '', message: 'must be a Discord template or its serialized_source_guild' }]);
+    }
+
+    if (typeof source.name !== 'string') issues.push({ path: 'name', message: 'must be a string' });
+    if (!Array.isArray(source.roles) || source.roles.length === 0) {
+        issues.push({ path: 'roles', message: 'must be a non-empty array, starting with @everyone' });
+    } else {
+        source.roles.forEach((role: unknown, index: number) => {
+            if (!isObject(role) || !isId(role.id) || typeof role.name !== 'string') {
+                issues.push({ path: `roles[${index}]`, message: 'must have an integer id and a name' });
+            }
+        });
+    }
+
+    if (!Array.isArray(source.channels)) {
+        issues.push({ path: 'channels', message: 'must be an array' });
+    } else {
+        source.channels.forEach((channel: unknown, index: number) => {
+            if (!isObject(channel) || !isId(channel.id) || typeof channel.name !== 'string' || typeof channel.type !== 'number') {
+                issues.push({ path: `channels[${index}]`, message: 'must have an integer id, a name and a type' });
+            }
+        });
+    }
+
+    if (issues.length > 0) {
+        throw new TemplateValidationError(issues);
+    }
+    return source as unknown as NativeTemplateGuild;
+}
+
+/**
+ * Converts a template in Discord's native format into a template. Integer IDs become
+ * keys derived from names, role overwrites reference roles by key, and channels the
+ * template cannot hold are left out.
+ * @param {NativeTemplateGuild} source - The native server
+ * @param {string} [exportedAt] - The export timestamp to record, defaults to now
+ * @throws {TemplateValidationError} If the converted template is invalid
+ * @returns {ServerTemplate} The template
+ */
+export function fromNativeTemplate(source: NativeTemplateGuild, exportedAt = new Date().toISOString()): ServerTemplate {
+    const roleKeys = new KeyAllocator([EVERYONE_ROLE_KEY]);
+    const roleKeyMap = new Map<string, string>();
+    const roles: TemplateRole[] = source.roles.map((role, index) => {
+        const key = index === 0 ? EVERYONE_ROLE_KEY : roleKeys.allocate(role.name, 'role');
+        roleKeyMap.set(String(role.id), key);
+        return {
+            key: key,
+            name: index === 0 ? '@everyone' : role.name,
+            color: role.color ?? 0,
+            hoist: role.hoist ?? false,
+            position: index,
+            permissions: String(role.permissions ?? '0'),
+            mentionable: role.mentionable ?? false
+        };
+    }).reverse();
+
+    const overwrites = (list: NativeOverwrite[] | undefined): TemplatePermissionOverwrite[] => (list ?? [])
+        .filter(overwrite => overwrite.type === OverwriteType.Role && roleKeyMap.has(String(overwrite.id)))
+        .map(overwrite => ({
+            id: roleKeyMap.get(String(overwrite.id))!,
+            type: OverwriteType.Role,
+            allow: String(overwrite.allow ?? '0'),
+            deny: String(overwrite.deny ?? '0')
+        }));
+
+    const byPosition = [...source.channels].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+    const categoryKeys = new KeyAllocator();
+    const channelKeys = new KeyAllocator();
+    const channelKeyMap = new Map<string, string>();
+
+    const categories: TemplateCategory[] = byPosition
+        .filter(channel => channel.type === ChannelType.GuildCategory)
+        .map(category => ({
+            key: categoryKeys.allocate(category.name, 'category'),
+            name: category.name,
+            position: category.position ?? 0,
+            permissionOverwrites: overwrites(category.permission_overwrites),
+            channels: []
+        }));
+    const categoryById = new Map(byPosition
+        .filter(channel => channel.type === ChannelType.GuildCategory)
+        .map((category, index) => [String(category.id), categories[index]]));
+
+    const uncategorizedChannels: TemplateChannel[] = [];
+    for (const channel of byPosition.filter(channel => NATIVE_CHANNEL_TYPES.includes(channel.type))) {
+        const key = channelKeys.allocate(channel.name, 'channel');
+        channelKeyMap.set(String(channel.id), key);
+
+        const converted: TemplateChannel = {
+            key: key,
+            name: channel.name,
+            type: channel.type,
+            position: channel.position ?? 0,
+            permissionOverwrites: overwrites(channel.permission_overwrites),
+            ...channelSettingsFromNative(channel)
+        };
+
+        const category = channel.parent_id !== null && channel.parent_id !== undefined
+            ? categoryById.get(String(channel.parent_id))
+            : undefined;
+        (category ? category.channels : uncategorizedChannels).push(converted);
+    }
+
+    const channelKey = (id: number | null | undefined) => id !== null && id !== undefined
+        ? channelKeyMap.get(String(id)) ?? null
+        : null;
+    const settings: TemplateGuildSettings = {};
+    if (typeof source.verification_level === 'number') settings.verificationLevel = source.verification_level;
+    if (typeof source.explicit_content_filter === 'number') settings.explicitContentFilter = source.explicit_content_filter;
+    if (typeof source.default_message_notifications === 'number') settings.defaultMessageNotifications = source.default_message_notifications;
+    if (typeof source.afk_timeout === 'number') settings.afkTimeout = source.afk_timeout;
+    if ('afk_channel_id' in source) settings.afkChannel = channelKey(source.afk_channel_id);
+    if ('system_channel_id' in source) settings.systemChannel = channelKey(source.system_channel_id);
+    if (typeof source.system_channel_flags === 'number') settings.systemChannelFlags = source.system_channel_flags;
+    if (typeof source.preferred_locale === 'string') settings.preferredLocale = source.preferred_locale;
+
+    const template: ServerTemplate = {
+        schemaVersion: TEMPLATE_SCHEMA_VERSION,
+        name: source.name,
+        roles: roles,
+        categories: categories,
+        uncategorizedChannels: uncategorizedChannels,
+        settings: settings,
+        emojis: [],
+        stickers: [],
+        exportedAt: exportedAt
+    };
+
+    assertValidTemplate(template);
+    return template;
+}
+
+/**
+ * Reads a template in Discord's native format and converts it into a template
+ * @param {unknown} data - A whole native template or its `serialized_source_guild`
+ * @throws {TemplateValidationError} If the data is not a usable native template
+ * @returns {ServerTemplate} The template
+ */
+export function parseNativeTemplate(data: unknown): ServerTemplate {
+    return fromNativeTemplate(readNativeTemplate(data));
+}
+
+/**
+ * Converts a template into Discord's native format. Keys become sequential integer IDs:
+ * roles count up from @everyone at 0 and channels from 1. Anything the native format
+ * cannot hold is left out; `describeNativeOmissions` lists it.
+ * @param {ServerTemplate} template - A complete, rendered template
+ * @throws {Error} If the template is partial or declares variables
+ * @returns {NativeTemplateGuild} The native server
+ */
+export function toNativeTemplate(template: ServerTemplate): NativeTemplateGuild {
+    if (template.partial) {
+        throw new Error('Only complete templates can be converted to the Discord format, this one is partial');
+    }
+    if (template.variables && template.variables.length > 0) {
+        throw new Error('Parameterised templates must be rendered before they can be converted to the Discord format');
+    }
+
+    const sortedRoles = [...template.roles].sort((a, b) => {
+        if (a.key === EVERYONE_ROLE_KEY) return -1;
+        if (b.key === EVERYONE_ROLE_KEY) return 1;
+        return a.position - b.position;
+    });
+    const roleIds = new Map(sortedRoles.map((role, index) => [role.key, index]));
+    const roles: NativeRole[] = sortedRoles.map((role, index) => ({
+        id: index,
+        name: role.name,
+        color: role.color,
+        hoist: role.hoist,
+        mentionable: role.mentionable,
+        permissions: role.permissions,
+        icon: null,
+        unicode_emoji: null
+    }));
+
+    const overwrites = (list: TemplatePermissionOverwrite[]): NativeOverwrite[] => list
+        .filter(overwrite => overwrite.type === OverwriteType.Role && roleIds.has(overwrite.id))
+        .map(overwrite => ({
+            id: roleIds.get(overwrite.id)!,
+            type: OverwriteType.Role,
+            allow: overwrite.allow,
+            deny: overwrite.deny
+        }));
+
+    let nextId = 1;
+    const channelIds = new Map<string, number>();
+    const channels: NativeChannel[] = [];
+    const addChannel = (channel: TemplateChannel, parentId: number | null) => {
+        const id = nextId++;
+        channelIds.set(channel.key, id);
+        channels.push({
+            id: id,
+            type: channel.type,
+            name: channel.name,
+            position: channel.position,
+            parent_id: parentId,
+            permission_overwrites: overwrites(channel.permissionOverwrites),
+            ...channelSettingsToNative(channel)
+        });
+    };
+
+    const byPosition = <T extends { position: number }>(items: T[]) => [...items].sort((a, b) => a.position - b.position);
+    byPosition(template.uncategorizedChannels).forEach(channel => addChannel(channel, null));
+    for (const category of byPosition(template.categories)) {
+        const id = nextId++;
+        channels.push({
+            id: id,
+            type: ChannelType.GuildCategory,
+            name: category.name,
+            position: category.position,
+            parent_id: null,
+            permission_overwrites: overwrites(category.permissionOverwrites)
+        });
+        byPosition(category.channels).forEach(channel => addChannel(channel, id));
+    }
+
+    const settings = template.settings ?? {};
+    const channelId = (key: string | null | undefined) => key ? channelIds.get(key) ?? null : null;
+
+    return {
+        name: template.name,
+        description: null,
+        region: null,
+        verification_level: settings.verificationLevel ?? 0,
+        default_message_notifications: settings.defaultMessageNotifications ?? 0,
+        explicit_content_filter: settings.explicitContentFilter ?? 0,
+        preferred_locale: settings.preferredLocale ?? 'en-US',
+        afk_timeout: settings.afkTimeout ?? 300,
+        roles: roles,
+        channels: channels,
+        afk_channel_id: channelId(settings.afkChannel),
+        system_channel_id: channelId(settings.systemChannel),
+        system_channel_flags: settings.systemChannelFlags ?? 0,
+        icon_hash: null
+    };
+}
+
+/**
+ * Lists what is lost when a template is converted into Discord's native format
+ * @param {ServerTemplate} template - The template
+ * @returns {string[]} Descriptions of the parts that are left out, empty if nothing is lost
+ */
+export function describeNativeOmissions(template: ServerTemplate): string[] {
+    const channels = [
+        ...template.categories,
+        ...template.uncategorizedChannels,
+        ...template.categories.flatMap(category => category.channels),
+    ];
+    const memberOverwrites = channels.reduce((count, channel) =>
+        count + channel.permissionOverwrites.filter(overwrite => overwrite.type === OverwriteType.Member).length, 0);
+    const settings = template.settings ?? {};
+    const imageSettings = (['icon', 'banner', 'splash'] as const).filter(name => settings[name]);
+    const communitySettings = (['rulesChannel', 'publicUpdatesChannel', 'welcomeScreen'] as const).filter(name => settings[name]);
+
+    return [
+        ...(template.emojis?.length ? [`${template.emojis.length} emoji(s)`] : []),
+        ...(template.stickers?.length ? [`${template.stickers.length} sticker(s)`] : []),
+        ...(memberOverwrites > 0 ? [`${memberOverwrites} member permission overwrite(s)`] : []),
+        ...(template.members?.length ? [`the roles of ${template.members.length} member(s)`] : []),
+        ...(imageSettings.length > 0 ? [`server images (${imageSettings.join(', ')})`] : []),
+        ...(communitySettings.length > 0 ? [`community settings (${communitySettings.join(', ')})`] : []),
+    ];
+}
+
+/**
+ * Converts the type-specific settings of a native channel, like the export does for a live channel
+ * @param {NativeChannel} channel - The native channel
+ * @returns {Partial<TemplateChannel>} The settings that apply to the channel's type
+ */
+function channelSettingsFromNative(channel: NativeChannel): Partial<TemplateChannel> {
+    const emoji = (id: string | null | undefined, name: string | null | undefined): TemplateEmojiReference | null =>
+        id || name ? { id: id ?? null, name: name ?? null } : null;
+
+    switch (channel.type) {
+        case ChannelType.GuildText:
+            return {
+                topic: channel.topic ?? null,
+                nsfw: channel.nsfw ?? false,
+                rateLimitPerUser: channel.rate_limit_per_user ?? 0,
+                defaultAutoArchiveDuration: channel.default_auto_archive_duration ?? null,
+                defaultThreadRateLimitPerUser: channel.default_thread_rate_limit_per_user ?? null
+            };
+        case ChannelType.GuildAnnouncement:
+            return {
+                topic: channel.topic ?? null,
+                nsfw: channel.nsfw ?? false,
+                defaultAutoArchiveDuration: channel.default_auto_archive_duration ?? null
+            };
+        case ChannelType.GuildVoice:
+        case ChannelType.GuildStageVoice:
+            return {
+                ...(channel.type === ChannelType.GuildStageVoice ? { topic: channel.topic ?? null } : {}),
+                nsfw: channel.nsfw ?? false,
+                rateLimitPerUser: channel.rate_limit_per_user ?? 0,
+                bitrate: channel.bitrate ?? 64000,
+                userLimit: channel.user_limit ?? 0,
+                rtcRegion: channel.rtc_region ?? null,
+                videoQualityMode: channel.video_quality_mode ?? null
+            };
+        case ChannelType.GuildForum:
+        case ChannelType.GuildMedia:
+            return {
+                topic: channel.topic ?? null,
+                nsfw: channel.nsfw ?? false,
+                rateLimitPerUser: channel.rate_limit_per_user ?? 0,
+                defaultAutoArchiveDuration: channel.default_auto_archive_duration ?? null,
+                defaultThreadRateLimitPerUser: channel.default_thread_rate_limit_per_user ?? null,
+                availableTags: (channel.available_tags ?? []).map(tag => ({
+                    name: tag.name,
+                    moderated: tag.moderated ?? false,
+                    emoji: emoji(tag.emoji_id, tag.emoji_name)
+                })),
+                defaultReactionEmoji: channel.default_reaction_emoji
+                    ? emoji(channel.default_reaction_emoji.emoji_id, channel.default_reaction_emoji.emoji_name)
+                    : null,
+                defaultSortOrder: channel.default_sort_order ?? null,
+                ...(channel.type === ChannelType.GuildForum ? { defaultForumLayout: channel.default_forum_layout ?? 0 } : {})
+            };
+        default:
+            return {};
+    }
+}
+
+/**
+ * Converts the type-specific settings of a template channel into native fields
+ * @param {TemplateChannel} channel - The template channel
+ * @returns {Partial<NativeChannel>} The native fields
+ */
+function channelSettingsToNative(channel: TemplateChannel): Partial<NativeChannel> {
+    return {
+        topic: channel.topic ?? null,
+        nsfw: channel.nsfw ?? false,
+        rate_limit_per_user: channel.rateLimitPerUser ?? 0,
+        ...(channel.bitrate !== undefined ? { bitrate: channel.bitrate } : {}),
+        ...(channel.userLimit !== undefined ? { user_limit: channel.userLimit } : {}),
+        default_auto_archive_duration: channel.defaultAutoArchiveDuration ?? null,
+        default_thread_rate_limit_per_user: channel.defaultThreadRateLimitPerUser ?? null,
+        available_tags: channel.availableTags
+            ? channel.availableTags.map(tag => ({
+                id: null,
+                name: tag.name,
+                moderated: tag.moderated,
+                emoji_id: tag.emoji?.id ?? null,
+                emoji_name: tag.emoji?.name ?? null
+            }))
+            : null,
+        default_reaction_emoji: channel.defaultReactionEmoji
+            ? { emoji_id: channel.defaultReactionEmoji.id, emoji_name: channel.defaultReactionEmoji.name }
+            : null,
+        default_sort_order: channel.defaultSortOrder ?? null,
+        default_forum_layout: channel.defaultForumLayout ?? null
+    };
+}
@@ -0,0 +1,374 @@
+import { OverwriteType } from 'discord.js';
+
+import { EVERYONE_ROLE_KEY, KeyAllocator } from '../utils/TemplateKeys';
+import {
+    OverlayCategory,
+    OverlayChanges,
+    OverlayChannel,
+    ServerTemplate,
+    TEMPLATE_SCHEMA_VERSION,
+    TemplateCategory,
+    TemplateChannel,
+    TemplateGuildSettings,
+    TemplateOverlay,
+    TemplatePermissionOverwrite,
+    TemplateRole
+} from '../schema/ServerTemplate';
+import {
+    assertValidOverlay,
+    assertValidTemplate,
+    TemplateIssue,
+    TemplateValidationError
+} from '../schema/validateTemplate';
+import { matchItems } from './planFunctions';
+import { selectSettings } from './selectionFunctions';
+
+/**
+ * Thrown when an overlay conflicts with its base template, e.g. because it modifies a key the base does not have
+ * @extends {TemplateValidationError}
+ */
+export class TemplateMergeError extends TemplateValidationError {
+    /**
+     * Creates a new TemplateMergeError
+     * @param {TemplateIssue[]} issues - The conflicts found while merging
+     */
+    constructor(issues: TemplateIssue[]) {
+        super(issues);
+        this.name = 'TemplateMergeError';
+    }
+}
+
+/**
+ * A channel together with the key of the category it belongs to
+ * @interface PlacedChannel
+ */
+interface PlacedChannel {
+    channel: TemplateChannel;
+    parent: string | null;
+}
+
+/**
+ * Checks whether parsed JSON is an overlay rather than a full template
+ * @param {unknown} data - The parsed JSON
+ * @returns {boolean} True if the data names a base template to extend
+ */
+export function isOverlay(data: unknown): boolean {
+    return typeof data === 'object' && data !== null && typeof (data as Record<string, unknown>).extends === 'string';
+}
+
+/**
+ * Applies one kind of overlay change to a list of items, in the order remove, modify, add.
+ * Every conflict is reported instead of being resolved silently:
+ * - a key that is both modified and removed
+ * - a modified or removed key that the base does not have
+ * - an added key that the base already has
+ * @param {T[]} items - The items of the base template
+ * @param {OverlayChanges<T>} changes - The changes to apply
+ * @param {string} path - The location of the changes in the overlay, for issues
+ * @param {TemplateIssue[]} issues - Collects the conflicts found
+ * @returns {T[]} The changed items
+ * @private
+ */
+function applyChanges<T extends { key: string }>(
+    items: T[],
+    changes: OverlayChanges<T> | undefined,
+    path: string,
+    issues: TemplateIssue[]
+): T[] {
+    if (!changes) return items;
+
+    const keys = new Set(items.map(item => item.key));
+    const removed = new Set(changes.remove ?? []);
+    let result = items;
+
+    (changes.remove ?? []).forEach((key, index) => {
+        if (!keys.has(key)) issues.push({ path: `${path}.remove[${index}]`, message: `"${key}" does not exist in the base template` });
+    });
+    result = result.filter(item => !removed.has(item.key));
+
+    (changes.modify ?? []).forEach((change, index) => {
+        const at = `${path}.modify[${index}]`;
+        if (removed.has(change.key)) {
+            issues.push({ path: at, message: `"${change.key}" is both modified and removed` });
+        } else if (!keys.has(change.key)) {
+            issues.push({ path: at, message: `"${change.key}" does not exist in the base template, use add instead` });
+        } else {
+            result = result.map(item => item.key === change.key ? { ...item, ...change } : item);
+        }
+    });
+
+    (changes.add ?? []).forEach((item, index) => {
+        if (keys.has(item.key)) {
+            issues.push({ path: `${path}.add[${index}]`, message: `"${item.key}" already exists in the base template, use modify instead` });
+        } else {
+            result = [...result, item];
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Applies an overlay to its base template.
+ *
+ * Items are identified by key. Modifying an item only changes the fields the overlay gives.
+ * Removing a category also removes the channels left in it, unless the overlay moves them
+ * elsewhere, and removing a role removes the overwrites and emoji restrictions that use it.
+ * Settings from the overlay replace those of the base one by one.
+ * @param {ServerTemplate} base - The template the overlay extends
+ * @param {unknown} overlay - The parsed overlay
+ * @throws {TemplateValidationError} If the overlay is invalid or the merged template is invalid
+ * @throws {TemplateMergeError} If the overlay conflicts with the base
+ * @returns {ServerTemplate} The merged template
+ */
+export function applyOverlay(base: ServerTemplate, overlay: unknown): ServerTemplate {
+    assertValidOverlay(overlay);
+
+    const issues: TemplateIssue[] = [];
+    if (overlay.extends !== base.name) {
+        issues.push({ path: 'extends', message: `the overlay extends "${overlay.extends}", but the base template is "${base.name}"` });
+    }
+    if (overlay.roles?.remove?.includes(EVERYONE_ROLE_KEY)) {
+        issues.push({ path: 'roles.remove', message: `"${EVERYONE_ROLE_KEY}" cannot be removed` });
+    }
+
+    const roles = applyChanges(base.roles, overlay.roles, 'roles', issues);
+    const roleKeys = new Set(roles.map(role => role.key));
+    roleKeys.add(EVERYONE_ROLE_KEY);
+
+    const baseCategories: OverlayCategory[] = base.categories.map(({ channels, ...category }) => category);
+    const categoryChanges = overlay.categories && {
+        ...overlay.categories,
+        modify: overlay.categories.modify?.map(({ channels, ...change }: Partial<TemplateCategory>) => change as OverlayCategory)
+    };
+    const categories = applyChanges(baseCategories, categoryChanges, 'categories', issues);
+    const categoryKeys = new Set(categories.map(category => category.key));
+
+    const placed: OverlayChannel[] = [
+        ...base.categories.flatMap(category => category.channels.map(channel => ({ ...channel, parent: category.key }))),
+        ...base.uncategorizedChannels.map(channel => ({ ...channel, parent: null })),
+    ];
+    const channels = applyChanges(placed, overlay.channels, 'channels', issues);
+
+    const changed = new Set([
+        ...overlay.channels?.add ?? [],
+        ...(overlay.channels?.modify ?? []).filter(change => change.parent !== undefined),
+    ].map(channel => channel.key));
+    const kept = channels.filter(channel => {
+        if (channel.parent === null || categoryKeys.has(channel.parent)) return true;
+        if (changed.has(channel.key)) {
+            issues.push({ path: 'channels', message: `channel "${channel.key}" is placed in category "${channel.parent}", which does not exist` });
+        }
+        return false;
+    });
+
+    if (issues.length > 0) {
+        throw new TemplateMergeError(issues);
+    }
+
+    const removedRoles = new Set(overlay.roles?.remove ?? []);
+    const overwrites = (list: TemplatePermissionOverwrite[]) =>
+        list.filter(overwrite => overwrite.type !== OverwriteType.Role || !removedRoles.has(overwrite.id));
+    const unplace = ({ parent, ...channel }: OverlayChannel): TemplateChannel =>
+        ({ ...channel, permissionOverwrites: overwrites(channel.permissionOverwrites) });
+
+    const channelKeys = new Set(kept.map(channel => channel.key));
+    const settings = base.settings || overlay.settings
+        ? selectSettings({ ...base.settings, ...overlay.settings }, channelKeys)
+        : undefined;
+
+    const merged: ServerTemplate = {
+        ...base,
+        name: overlay.name ?? base.name,
+        roles: roles,
+        categories: categories.map(category => ({
+            ...category,
+            permissionOverwrites: overwrites(category.permissionOverwrites),
+            channels: kept.filter(channel => channel.parent === category.key).map(unplace)
+        })),
+        uncategorizedChannels: kept.filter(channel => channel.parent === null).map(unplace),
+        settings: settings,
+        emojis: base.emojis?.map(emoji => ({ ...emoji, roles: emoji.roles.filter(role => roleKeys.has(role)) })),
+        members: base.members?.map(member => ({ ...member, roles: member.roles.filter(role => roleKeys.has(role)) })),
+        partial: base.partial && {
+            ...base.partial,
+            roleReferences: base.partial.roleReferences.filter(reference => !removedRoles.has(reference.key))
+        }
+    };
+
+    assertValidTemplate(merged);
+    return merged;
+}
+
+/**
+ * Applies overlays to a base template one after another. Each overlay must extend the result of the previous one.
+ * @param {ServerTemplate} base - The base template
+ * @param {unknown[]} overlays - The parsed overlays, in the order they are applied
+ * @throws {TemplateValidationError} If an overlay is invalid or conflicts with the template it extends
+ * @returns {ServerTemplate} The composed template
+ */
+export function composeTemplate(base: ServerTemplate, overlays: unknown[]): ServerTemplate {
+    return overlays.reduce<ServerTemplate>((template, overlay) => applyOverlay(template, overlay), base);
+}
+
+/**
+ * Compares two values by their JSON representation
+ * @param {unknown} a - The first value
+ * @param {unknown} b - The second value
+ * @returns {boolean} True if both serialize to the same JSON
+ * @private
+ */
+function same(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Sorts overwrites by target, so lists that only differ in order compare as equal
+ * @param {TemplatePermissionOverwrite[]} overwrites - The overwrites
+ * @returns {TemplatePermissionOverwrite[]} A sorted copy
+ * @private
+ */
+function sortOverwrites(overwrites: TemplatePermissionOverwrite[]): TemplatePermissionOverwrite[] {
+    return [...overwrites].sort((a, b) => a.type - b.type || a.id.localeCompare(b.id));
+}
+
+/**
+ * Lists the differences between matched items as overlay changes
+ * @param {T[]} base - The items of the base template
+ * @param {T[]} current - The items of the current template, already using the base's keys where they match
+ * @param {Function} normalize - Prepares an item for comparison
+ * @returns {OverlayChanges<T> | undefined} The changes, or undefined if there are none
+ * @private
+ */
+function diffItems<T extends { key: string }>(
+    base: T[],
+    current: T[],
+    normalize: (item: T) => T = item => item
+): OverlayChanges<T> | undefined {
+    const currentByKey = new Map(current.map(item => [item.key, item]));
+    const baseKeys = new Set(base.map(item => item.key));
+
+    const remove = base.filter(item => !currentByKey.has(item.key)).map(item => item.key);
+    const add = current.filter(item => !baseKeys.has(item.key));
+    const modify = base.flatMap(item => {
+        const match = currentByKey.get(item.key);
+        if (!match) return [];
+
+        const before = normalize(item) as Record<string, unknown>;
+        const after = normalize(match) as Record<string, unknown>;
+        const fields = Object.keys(after).filter(field => field !== 'key' && !same(before[field], after[field]));
+        if (fields.length === 0) return [];
+
+        return [{ key: item.key, ...Object.fromEntries(fields.map(field => [field, after[field]])) } as Partial<T> & { key: string }];
+    });
+
+    const changes: OverlayChanges<T> = {};
+    if (add.length > 0) changes.add = add;
+    if (modify.length > 0) changes.modify = modify;
+    if (remove.length > 0) changes.remove = remove;
+    return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+/**
+ * Creates the overlay that turns a base template into the current state of a server.
+ * Items of the server are matched with those of the base by key, then by name, so
+ * renamed items and items created by an earlier import keep the base's keys.
+ * @param {ServerTemplate} base - The template the overlay extends
+ * @param {ServerTemplate} current - The current state of the server, as exported
+ * @throws {Error} If the base is parameterised or partial and cannot be compared with a server
+ * @returns {TemplateOverlay} The overlay
+ */
+export function createOverlay(base: ServerTemplate, current: ServerTemplate): TemplateOverlay {
+    if (base.variables || base.partial) {
+        throw new Error('The base template must be a complete template without variables.');
+    }
+
+    const roleKeys = new Map<string, string>();
+    const roleMatches = matchItems(base.roles, current.roles, role => role,
+        (desired, candidate) => (desired.key === EVERYONE_ROLE_KEY) === (candidate.key === EVERYONE_ROLE_KEY));
+    const roleAllocator = new KeyAllocator([EVERYONE_ROLE_KEY, ...base.roles.map(role => role.key)]);
+    for (const [desired, match] of roleMatches) roleKeys.set(match.key, desired.key);
+    for (const role of current.roles) {
+        if (!roleKeys.has(role.key)) roleKeys.set(role.key, roleAllocator.allocate(role.key, 'role'));
+    }
+
+    const categoryKeys = new Map<string, string>();
+    const categoryMatches = matchItems(base.categories, current.categories, category => category);
+    const categoryAllocator = new KeyAllocator(base.categories.map(category => category.key));
+    for (const [desired, match] of categoryMatches) categoryKeys.set(match.key, desired.key);
+    for (const category of current.categories) {
+        if (!categoryKeys.has(category.key)) categoryKeys.set(category.key, categoryAllocator.allocate(category.key, 'category'));
+    }
+
+    const place = (template: ServerTemplate): PlacedChannel[] => [
+        ...template.categories.flatMap(category => category.channels.map(channel => ({ channel, parent: category.key }))),
+        ...template.uncategorizedChannels.map(channel => ({ channel, parent: null })),
+    ];
+    const basePlaced = place(base);
+    const currentPlaced = place(current);
+
+    const channelKeys = new Map<string, string>();
+    const channelMatches = matchItems(basePlaced, currentPlaced, placed => placed.channel,
+        (desired, candidate) => desired.channel.type === candidate.channel.type);
+    const channelAllocator = new KeyAllocator(basePlaced.map(placed => placed.channel.key));
+    for (const [desired, match] of channelMatches) channelKeys.set(match.channel.key, desired.channel.key);
+    for (const { channel } of currentPlaced) {
+        if (!channelKeys.has(channel.key)) channelKeys.set(channel.key, channelAllocator.allocate(channel.key, 'channel'));
+    }
+
+    const rekeyOverwrites = (overwrites: TemplatePermissionOverwrite[]) => overwrites.map(overwrite =>
+        overwrite.type === OverwriteType.Role ? { ...overwrite, id: roleKeys.get(overwrite.id) ?? overwrite.id } : overwrite);
+    const rekeyChannel = (key: string | null | undefined) =>
+        typeof key === 'string' ? channelKeys.get(key) ?? key : key;
+
+    const roles = current.roles.map(role => ({ ...role, key: roleKeys.get(role.key)! }));
+    const categories: OverlayCategory[] = current.categories.map(({ channels, ...category }) => ({
+        ...category,
+        key: categoryKeys.get(category.key)!,
+        permissionOverwrites: rekeyOverwrites(category.permissionOverwrites)
+    }));
+    const channels: OverlayChannel[] = currentPlaced.map(({ channel, parent }) => ({
+        ...channel,
+        key: channelKeys.get(channel.key)!,
+        permissionOverwrites: rekeyOverwrites(channel.permissionOverwrites),
+        parent: parent !== null ? categoryKeys.get(parent)! : null
+    }));
+
+    const normalize = <T extends { permissionOverwrites: TemplatePermissionOverwrite[] }>(item: T): T =>
+        ({ ...item, permissionOverwrites: sortOverwrites(item.permissionOverwrites) });
+
+    const overlay: TemplateOverlay = {
+        schemaVersion: TEMPLATE_SCHEMA_VERSION,
+        extends: base.name
+    };
+    if (current.name !== base.name) overlay.name = current.name;
+
+    const roleChanges = diffItems<TemplateRole>(base.roles, roles);
+    const categoryChanges = diffItems<OverlayCategory>(
+        base.categories.map(({ channels, ...category }) => category), categories, normalize);
+    const channelChanges = diffItems<OverlayChannel>(
+        basePlaced.map(({ channel, parent }) => ({ ...channel, parent })), channels, normalize);
+    if (roleChanges) overlay.roles = roleChanges;
+    if (categoryChanges) overlay.categories = categoryChanges;
+    if (channelChanges) overlay.channels = channelChanges;
+
+    if (current.settings) {
+        const settings: TemplateGuildSettings = {
+            ...current.settings,
+            afkChannel: rekeyChannel(current.settings.afkChannel),
+            systemChannel: rekeyChannel(current.settings.systemChannel),
+            rulesChannel: rekeyChannel(current.settings.rulesChannel),
+            publicUpdatesChannel: rekeyChannel(current.settings.publicUpdatesChannel),
+            welcomeScreen: current.settings.welcomeScreen && {
+                ...current.settings.welcomeScreen,
+                channels: current.settings.welcomeScreen.channels.map(channel => ({ ...channel, channel: rekeyChannel(channel.channel)! }))
+            }
+        };
+        const changed = Object.entries(settings).filter(([name, value]) =>
+            value !== undefined && !same(value, base.settings?.[name as keyof TemplateGuildSettings]));
+        if (changed.length > 0) overlay.settings = Object.fromEntries(changed);
+    }
+
+    overlay.exportedAt = new Date().toISOString();
+    return overlay;
+}
@@ -0,0 +1,622 @@
+import {
+    OverwriteType,
+    PermissionFlagsBits,
+    PermissionsBitField
+} from 'discord.js';
+
+import { EVERYONE_ROLE_KEY } from '../utils/TemplateKeys';
+import {
+    ServerTemplate,
+    TemplateChannel,
+    TemplatePermissionOverwrite,
+    TemplateRole
+} from '../schema/ServerTemplate';
+import { LiveContext, LiveItem } from './exportFunctions';
+
+/** What an import would do with a single role, category or channel */
+export type PlanAction = 'create' | 'update' | 'delete' | 'keep';
+
+/** The kind of item a plan entry describes */
+export type PlanItemKind = 'role' | 'category' | 'channel';
+
+/**
+ * Describes how a single permission overwrite would change
+ * @interface PermissionChange
+ */
+export interface PermissionChange {
+    /** The template role key or user ID the overwrite targets */
+    id: string;
+    /** The type of overwrite (0 for role, 1 for member) */
+    type: number;
+    /** Whether the overwrite is added, removed or changed */
+    action: 'add' | 'remove' | 'change';
+    /** Permissions that become allowed */
+    allowAdded: string[];
+    /** Permissions that are no longer allowed */
+    allowRemoved: string[];
+    /** Permissions that become denied */
+    denyAdded: string[];
+    /** Permissions that are no longer denied */
+    denyRemoved: string[];
+}
+
+/**
+ * Describes what would happen to a single role, category or channel
+ * @interface PlanEntry
+ */
+export interface PlanEntry {
+    /** The kind of item */
+    kind: PlanItemKind;
+    /** What would happen to the item */
+    action: PlanAction;
+    /** The template key of the item, or the live key for items only present in the guild */
+    key: string;
+    /** The name of the item */
+    name: string;
+    /** The live key of the matched guild item, if one was matched */
+    currentKey?: string;
+    /** The live snowflake of the matched guild item, if known */
+    id?: string;
+    /** Names of the properties that differ between the template and the guild */
+    changes: string[];
+    /** Permission overwrite changes, for categories and channels */
+    permissionChanges: PermissionChange[];
+}
+
+/**
+ * An action from the plan that the bot is not able to carry out
+ * @interface BlockedAction
+ */
+export interface BlockedAction {
+    /** The kind of item */
+    kind: PlanItemKind;
+    /** The key of the affected item */
+    key: string;
+    /** The name of the affected item */
+    name: string;
+    /** The action that is blocked */
+    action: PlanAction;
+    /** Why the bot cannot carry out the action */
+    reason: string;
+}
+
+/**
+ * The differences between a template and a guild
+ * @interface ImportPlan
+ */
+export interface ImportPlan {
+    /** Role changes, highest role first */
+    roles: PlanEntry[];
+    /** Category changes */
+    categories: PlanEntry[];
+    /** Channel changes, both inside and outside categories */
+    channels: PlanEntry[];
+    /** Actions the bot cannot carry out because of missing permissions or the role hierarchy */
+    blocked: BlockedAction[];
+}
+
+/**
+ * Options that control how a plan is built
+ * @interface PlanOptions
+ */
+export interface PlanOptions {
+    /** Whether items that exist in the guild but not in the template are deleted (default true) */
+    prune?: boolean;
+}
+
+/** Type-specific channel settings that are compared when planning */
+const CHANNEL_SETTINGS: (keyof TemplateChannel)[] = [
+    'topic',
+    'nsfw',
+    'rateLimitPerUser',
+    'defaultAutoArchiveDuration',
+    'defaultThreadRateLimitPerUser',
+    'bitrate',
+    'userLimit',
+    'rtcRegion',
+    'videoQualityMode',
+    'availableTags',
+    'defaultReactionEmoji',
+    'defaultSortOrder',
+    'defaultForumLayout',
+];
+
+/**
+ * A template channel together with the key of the category it belongs to
+ * @interface PlacedChannel
+ */
+interface PlacedChannel {
+    channel: TemplateChannel;
+    parent: string | null;
+}
+
+/**
+ * Pairs desired items with current items, first by key and then by name
+ * @param {T[]} desired - Items from the template being applied
+ * @param {T[]} current - Items currently in the guild
+ * @param {Function} identify - Returns the key and name of an item
+ * @param {Function} [compatible] - Whether a desired and a current item may be paired
+ * @returns {Map<T, T>} The current item matched to each desired item
+ */
+export function matchItems<T>(
+    desired: T[],
+    current: T[],
+    identify: (item: T) => { key: string; name: string },
+    compatible: (desired: T, current: T) => boolean = () => true
+): Map<T, T> {
+    const matches = new Map<T, T>();
+    const claimed = new Set<T>();
+
+    for (const item of desired) {
+        const { key } = identify(item);
+        const match = current.find(candidate =>
+            !claimed.has(candidate) && identify(candidate).key === key && compatible(item, candidate)
+        );
+        if (match) {
+            matches.set(item, match);
+            claimed.add(match);
+        }
+    }
+
+    for (const item of desired) {
+        if (matches.has(item)) continue;
+        const { name } = identify(item);
+        const match = current.find(candidate =>
+            !claimed.has(candidate) && identify(candidate).name === name && compatible(item, candidate)
+        );
+        if (match) {
+            matches.set(item, match);
+            claimed.add(match);
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Lists the names of the permissions in a bitfield
+ * @param {bigint} bits - The permissions bitfield
+ * @returns {string[]} The permission names
+ */
+function permissionNames(bits: bigint): string[] {
+    return new PermissionsBitField(bits).toArray();
+}
+
+/**
+ * Compares the permission overwrites of a desired and a current channel
+ * @param {TemplatePermissionOverwrite[]} desired - Overwrites from the template
+ * @param {TemplatePermissionOverwrite[]} current - Overwrites in the guild
+ * @param {Map<string, string>} roleKeys - Maps template role keys to live role keys
+ * @returns {PermissionChange[]} Every overwrite that would be added, removed or changed
+ */
+export function diffPermissionOverwrites(
+    desired: TemplatePermissionOverwrite[],
+    current: TemplatePermissionOverwrite[],
+    roleKeys: Map<string, string>
+): PermissionChange[] {
+    const changes: PermissionChange[] = [];
+    const remaining = new Map(current.map(overwrite => [`${overwrite.type}:${overwrite.id}`, overwrite]));
+
+    for (const overwrite of desired) {
+        const liveId = overwrite.type === OverwriteType.Role
+            ? roleKeys.get(overwrite.id)
+            : overwrite.id;
+        const existing = liveId !== undefined ? remaining.get(`${overwrite.type}:${liveId}`) : undefined;
+        if (existing) remaining.delete(`${existing.type}:${existing.id}`);
+
+        const allow = BigInt(overwrite.allow);
+        const deny = BigInt(overwrite.deny);
+        const currentAllow = existing ? BigInt(existing.allow) : 0n;
+        const currentDeny = existing ? BigInt(existing.deny) : 0n;
+        if (existing && allow === currentAllow && deny === currentDeny) continue;
+
+        changes.push({
+            id: overwrite.id,
+            type: overwrite.type,
+            action: existing ? 'change' : 'add',
+            allowAdded: permissionNames(allow & ~currentAllow),
+            allowRemoved: permissionNames(currentAllow & ~allow),
+            denyAdded: permissionNames(deny & ~currentDeny),
+            denyRemoved: permissionNames(currentDeny & ~deny)
+        });
+    }
+
+    for (const overwrite of remaining.values()) {
+        changes.push({
+            id: overwrite.id,
+            type: overwrite.type,
+            action: 'remove',
+            allowAdded: [],
+            allowRemoved: permissionNames(BigInt(overwrite.allow)),
+            denyAdded: [],
+            denyRemoved: permissionNames(BigInt(overwrite.deny))
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Builds plans from a template and the current state of a guild
+ */
+class PlanBuilder {
+    private plan: ImportPlan = { roles: [], categories: [], channels: [], blocked: [] };
+    /** Maps template role keys to the live key of the role they were matched with */
+    private roleKeys: Map<string, string> = new Map();
+    /** Maps template category keys to the live key of the category they were matched with */
+    private categoryKeys: Map<string, string> = new Map();
+    private botPermissions: bigint;
+
+    /**
+     * Creates a new PlanBuilder
+     * @param {ServerTemplate} desired - The template that would be applied
+     * @param {ServerTemplate} current - The guild's current state in template form
+     * @param {LiveContext | undefined} live - Live IDs and bot capabilities, if known
+     * @param {boolean} prune - Whether items missing from the template are deleted
+     */
+    constructor(
+        private desired: ServerTemplate,
+        private current: ServerTemplate,
+        private live: LiveContext | undefined,
+        private prune: boolean
+    ) {
+        this.botPermissions = live ? BigInt(live.botPermissions) : -1n;
+    }
+
+    /**
+     * Compares roles, categories and channels, in that order
+     * @returns {ImportPlan} The planned changes
+     */
+    build(): ImportPlan {
+        this.planRoles();
+        this.planCategories();
+        this.planChannels();
+        return this.plan;
+    }
+
+    /**
+     * Checks whether the bot has a permission guild-wide
+     * @param {bigint} permission - The permission flag to check
+     * @returns {boolean} True if the bot has the permission or is an administrator
+     * @private
+     */
+    private hasPermission(permission: bigint): boolean {
+        return (this.botPermissions & PermissionFlagsBits.Administrator) !== 0n
+            || (this.botPermissions & permission) === permission;
+    }
+
+    /**
+     * Lists the permissions in a bitfield that the bot cannot grant
+     * @param {bigint} bits - The permissions to check
+     * @returns {string[]} The names of the permissions the bot lacks
+     * @private
+     */
+    private missingPermissions(bits: bigint): string[] {
+        if (this.hasPermission(PermissionFlagsBits.Administrator)) return [];
+        return permissionNames(bits & ~this.botPermissions);
+    }
+
+    /**
+     * Records that the action of a plan entry cannot be carried out
+     * @param {PlanEntry} entry - The blocked entry
+     * @param {string} reason - Why the action is blocked
+     * @private
+     */
+    private block(entry: PlanEntry, reason: string): void {
+        this.plan.blocked.push({
+            kind: entry.kind,
+            key: entry.key,
+            name: entry.name,
+            action: entry.action,
+            reason: reason
+        });
+    }
+
+    /**
+     * Looks up the live metadata of an item by its live key
+     * @param {PlanItemKind} kind - The kind of item
+     * @param {string | undefined} key - The live key of the item
+     * @returns {LiveItem | undefined} The live metadata, if known
+     * @private
+     */
+    private liveItem(kind: PlanItemKind, key: string | undefined): LiveItem | undefined {
+        if (!this.live || key === undefined) return undefined;
+        const items = kind === 'role' ? this.live.roles : kind === 'category' ? this.live.categories : this.live.channels;
+        return items.get(key);
+    }
+
+    /**
+     * Plans role changes. The @everyone role is only ever matched with itself,
+     * and integration-managed roles are never edited or deleted.
+     * @private
+     */
+    private planRoles(): void {
+        const matches = matchItems(this.desired.roles, this.current.roles, role => role,
+            (desired, candidate) => (desired.key === EVERYONE_ROLE_KEY) === (candidate.key === EVERYONE_ROLE_KEY));
+
+        for (const role of this.desired.roles) {
+            const match = matches.get(role);
+            if (match) this.roleKeys.set(role.key, match.key);
+
+            const managed = this.liveItem('role', match?.key)?.managed ?? false;
+            const changes = match && !managed ? this.roleChanges(role, match) : [];
+            const entry: PlanEntry = {
+                kind: 'role',
+                action: !match ? 'create' : changes.length > 0 ? 'update' : 'keep',
+                key: role.key,
+                name: role.name,
+                currentKey: match?.key,
+                id: this.liveItem('role', match?.key)?.id,
+                changes: changes,
+                permissionChanges: []
+            };
+            this.plan.roles.push(entry);
+            this.checkRole(entry, role);
+        }
+
+        const matched = new Set(matches.values());
+        for (const role of this.current.roles) {
+            if (matched.has(role)) continue;
+
+            const managed = this.liveItem('role', role.key)?.managed ?? false;
+            const entry: PlanEntry = {
+                kind: 'role',
+                action: this.prune && !managed && role.key !== EVERYONE_ROLE_KEY ? 'delete' : 'keep',
+                key: role.key,
+                name: role.name,
+                currentKey: role.key,
+                id: this.liveItem('role', role.key)?.id,
+                changes: [],
+                permissionChanges: []
+            };
+            this.plan.roles.push(entry);
+            if (entry.action === 'delete') this.checkRole(entry);
+        }
+    }
+
+    /**
+     * Lists the properties that differ between two roles
+     * @param {TemplateRole} desired - The role from the template
+     * @param {TemplateRole} current - The matched role in the guild
+     * @returns {string[]} The names of the differing properties
+     * @private
+     */
+    private roleChanges(desired: TemplateRole, current: TemplateRole): string[] {
+        if (desired.key === EVERYONE_ROLE_KEY) {
+            return BigInt(desired.permissions) !== BigInt(current.permissions) ? ['permissions'] : [];
+        }
+
+        const changes: string[] = [];
+        if (desired.name !== current.name) changes.push('name');
+        if (desired.color !== current.color) changes.push('color');
+        if (desired.hoist !== current.hoist) changes.push('hoist');
+        if (desired.position !== current.position) changes.push('position');
+        if (BigInt(desired.permissions) !== BigInt(current.permissions)) changes.push('permissions');
+        if (desired.mentionable !== current.mentionable) changes.push('mentionable');
+        return changes;
+    }
+
+    /**
+     * Records anything that would stop the bot from carrying out a role entry
+     * @param {PlanEntry} entry - The role entry to check
+     * @param {TemplateRole} [desired] - The role from the template, unless the role is deleted
+     * @private
+     */
+    private checkRole(entry: PlanEntry, desired?: TemplateRole): void {
+        if (!this.live || entry.action === 'keep') return;
+
+        if (!this.hasPermission(PermissionFlagsBits.ManageRoles)) {
+            this.block(entry, 'the bot is missing the Manage Roles permission');
+            return;
+        }
+
+        const item = this.liveItem('role', entry.currentKey);
+        if (item && !item.manageable) {
+            this.block(entry, item.managed
+                ? 'the role is managed by an integration'
+                : 'the role is at or above the bot\'s highest role');
+            return;
+        }
+
+        if (!desired) return;
+
+        if (desired.key !== EVERYONE_ROLE_KEY && desired.position >= this.live.botHighestRolePosition) {
+            this.block(entry, `position ${desired.position} is at or above the bot's highest role (${this.live.botHighestRolePosition}); it will be placed below it`);
+        }
+
+        const missing = this.missingPermissions(BigInt(desired.permissions));
+        if (missing.length > 0) {
+            this.block(entry, `grants permissions the bot does not have: ${missing.join(', ')}`);
+        }
+    }
+
+    /**
+     * Plans category changes
+     * @private
+     */
+    private planCategories(): void {
+        const matches = matchItems(this.desired.categories, this.current.categories, category => category);
+
+        for (const category of this.desired.categories) {
+            const match = matches.get(category);
+            if (match) this.categoryKeys.set(category.key, match.key);
+
+            const changes: string[] = [];
+            if (match && category.name !== match.name) changes.push('name');
+            if (match && category.position !== match.position) changes.push('position');
+
+            this.pushChannelEntry('category', category.key, category.name, match?.key, changes,
+                category.permissionOverwrites, match?.permissionOverwrites);
+        }
+
+        const matched = new Set(matches.values());
+        for (const category of this.current.categories) {
+            if (matched.has(category)) continue;
+            this.pushRemovedEntry('category', category.key, category.name);
+        }
+    }
+
+    /**
+     * Plans channel changes. Channels are only matched with channels of the same type.
+     * @private
+     */
+    private planChannels(): void {
+        const place = (template: ServerTemplate): PlacedChannel[] => [
+            ...template.categories.flatMap(category =>
+                category.channels.map(channel => ({ channel, parent: category.key }))),
+            ...template.uncategorizedChannels.map(channel => ({ channel, parent: null })),
+        ];
+
+        const desired = place(this.desired);
+        const current = place(this.current);
+        const matches = matchItems(desired, current, placed => placed.channel,
+            (wanted, candidate) => wanted.channel.type === candidate.channel.type);
+
+        for (const placed of desired) {
+            const match = matches.get(placed);
+            const changes: string[] = [];
+            if (match) {
+                const parent = placed.parent !== null ? this.categoryKeys.get(placed.parent) ?? placed.parent : null;
+                if (placed.channel.name !== match.channel.name) changes.push('name');
+                if (placed.channel.position !== match.channel.position) changes.push('position');
+                if (parent !== match.parent) changes.push('parent');
+                for (const setting of CHANNEL_SETTINGS) {
+                    const wanted = placed.channel[setting];
+                    if (wanted !== undefined && JSON.stringify(wanted) !== JSON.stringify(match.channel[setting])) {
+                        changes.push(setting);
+                    }
+                }
+            }
+
+            this.pushChannelEntry('channel', placed.channel.key, placed.channel.name, match?.channel.key, changes,
+                placed.channel.permissionOverwrites, match?.channel.permissionOverwrites);
+        }
+
+        const matched = new Set(matches.values());
+        for (const placed of current) {
+            if (matched.has(placed)) continue;
+            this.pushRemovedEntry('channel', placed.channel.key, placed.channel.name);
+        }
+    }
+
+    /**
+     * Adds a plan entry for a category or channel that is in the template
+     * @param {PlanItemKind} kind - Either category or channel
+     * @param {string} key - The template key of the item
+     * @param {string} name - The name of the item
+     * @param {string | undefined} currentKey - The live key of the matched item, if any
+     * @param {string[]} changes - The properties that differ, apart from overwrites
+     * @param {TemplatePermissionOverwrite[]} overwrites - Overwrites from the template
+     * @param {TemplatePermissionOverwrite[] | undefined} currentOverwrites - Overwrites of the matched item
+     * @private
+     */
+    private pushChannelEntry(
+        kind: PlanItemKind,
+        key: string,
+        name: string,
+        currentKey: string | undefined,
+        changes: string[],
+        overwrites: TemplatePermissionOverwrite[],
+        currentOverwrites: TemplatePermissionOverwrite[] | undefined
+    ): void {
+        const permissionChanges = diffPermissionOverwrites(overwrites, currentOverwrites ?? [], this.roleKeys);
+        if (currentKey !== undefined && permissionChanges.length > 0) changes.push('permissionOverwrites');
+
+        const entry: PlanEntry = {
+            kind: kind,
+            action: currentKey === undefined ? 'create' : changes.length > 0 ? 'update' : 'keep',
+            key: key,
+            name: name,
+            currentKey: currentKey,
+            id: this.liveItem(kind, currentKey)?.id,
+            changes: changes,
+            permissionChanges: permissionChanges
+        };
+        (kind === 'category' ? this.plan.categories : this.plan.channels).push(entry);
+        this.checkChannel(entry, overwrites);
+    }
+
+    /**
+     * Adds a plan entry for a category or channel that is only in the guild
+     * @param {PlanItemKind} kind - Either category or channel
+     * @param {string} key - The live key of the item
+     * @param {string} name - The name of the item
+     * @private
+     */
+    private pushRemovedEntry(kind: PlanItemKind, key: string, name: string): void {
+        const entry: PlanEntry = {
+            kind: kind,
+            action: this.prune ? 'delete' : 'keep',
+            key: key,
+            name: name,
+            currentKey: key,
+            id: this.liveItem(kind, key)?.id,
+            changes: [],
+            permissionChanges: []
+        };
+        (kind === 'category' ? this.plan.categories : this.plan.channels).push(entry);
+        this.checkChannel(entry, []);
+    }
+
+    /**
+     * Records anything that would stop the bot from carrying out a category or channel entry
+     * @param {PlanEntry} entry - The entry to check
+     * @param {TemplatePermissionOverwrite[]} overwrites - The overwrites the entry would set
+     * @private
+     */
+    private checkChannel(entry: PlanEntry, overwrites: TemplatePermissionOverwrite[]): void {
+        if (!this.live || entry.action === 'keep') return;
+
+        if (!this.hasPermission(PermissionFlagsBits.ManageChannels)) {
+            this.block(entry, 'the bot is missing the Manage Channels permission');
+            return;
+        }
+
+        const item = this.liveItem(entry.kind, entry.currentKey);
+        if (item && !item.manageable) {
+            this.block(entry, `the bot cannot manage this ${entry.kind}`);
+            return;
+        }
+
+        if (entry.action === 'delete') return;
+
+        if (overwrites.length > 0 && !this.hasPermission(PermissionFlagsBits.ManageRoles)) {
+            this.block(entry, 'the bot is missing the Manage Roles permission needed to set permission overwrites');
+        }
+
+        const granted = overwrites.reduce((bits, overwrite) => bits | BigInt(overwrite.allow) | BigInt(overwrite.deny), 0n);
+        const missing = this.missingPermissions(granted);
+        if (missing.length > 0) {
+            this.block(entry, `overwrites use permissions the bot does not have: ${missing.join(', ')}`);
+        }
+    }
+}
+
+/**
+ * Compares a template with the current state of a guild without changing anything.
+ * Roles, categories and channels are matched by key first and by name second.
+ * @param {ServerTemplate} desired - The template that would be applied
+ * @param {ServerTemplate} current - The guild's current state in template form
+ * @param {LiveContext} [live] - Live IDs and bot capabilities; without it nothing is reported as blocked
+ * @param {PlanOptions} [options] - Options that control the plan
+ * @returns {ImportPlan} The planned changes
+ */
+export function createImportPlan(
+    desired: ServerTemplate,
+    current: ServerTemplate,
+    live?: LiveContext,
+    options: PlanOptions = {}
+): ImportPlan {
+    return new PlanBuilder(desired, current, live, options.prune ?? true).build();
+}
+
+/**
+ * Counts the entries of a plan by action
+ * @param {PlanEntry[]} entries - The entries to count
+ * @returns {Record<PlanAction, number>} The number of entries per action
+ */
+export function countActions(entries: PlanEntry[]): Record<PlanAction, number> {
+    const counts: Record<PlanAction, number> = { create: 0, update: 0, delete: 0, keep: 0 };
+    for (const entry of entries) counts[entry.action]++;
+    return counts;
+}
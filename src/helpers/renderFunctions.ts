@@ -0,0 +1,169 @@
+import {
+    ServerTemplate,
+    TemplateCategory,
+    TemplateChannel,
+    TemplateRole,
+    TemplateVariable
+} from '../schema/ServerTemplate';
+import {
+    assertValidTemplate,
+    PLACEHOLDER_PATTERN,
+    TemplateIssue,
+    TemplateValidationError
+} from '../schema/validateTemplate';
+import { selectSettings } from './selectionFunctions';
+
+/** Values given for the variables of a parameterised template, by variable name */
+export type VariableValues = Record<string, string | number | boolean>;
+
+/**
+ * Thrown when a parameterised template cannot be rendered, e.g. because a required variable has no value
+ * @extends {TemplateValidationError}
+ */
+export class TemplateRenderError extends TemplateValidationError {
+    /**
+     * Creates a new TemplateRenderError
+     * @param {TemplateIssue[]} issues - The problems found while rendering
+     */
+    constructor(issues: TemplateIssue[]) {
+        super(issues);
+        this.name = 'TemplateRenderError';
+    }
+}
+
+/**
+ * Parses variable values given as `name=value` pairs separated by commas,
+ * e.g. `projectName=Acme, brandColor=#ff8800, voice=true`
+ * @param {string | null} value - The option value
+ * @throws {Error} If a pair has no `=`
+ * @returns {VariableValues} The values by variable name
+ */
+export function parseVariableList(value: string | null): VariableValues {
+    const values: VariableValues = {};
+
+    for (const pair of (value ?? '').split(',').map(part => part.trim()).filter(part => part.length > 0)) {
+        const separator = pair.indexOf('=');
+        if (separator <= 0) {
+            throw new Error(`Expected name=value, got "${pair}"`);
+        }
+        values[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+
+    return values;
+}
+
+/**
+ * Converts a variable's value to the type the variable declares
+ * @param {TemplateVariable} variable - The variable
+ * @param {string | number | boolean} value - The given or default value
+ * @returns {string | number | boolean | undefined} The converted value, or undefined if it is not valid for the type
+ */
+function convertValue(variable: TemplateVariable, value: string | number | boolean): string | number | boolean | undefined {
+    switch (variable.type) {
+        case 'boolean': {
+            if (typeof value === 'boolean') return value;
+            const text = String(value).toLowerCase();
+            if (['true', 'yes', 'on', '1'].includes(text)) return true;
+            if (['false', 'no', 'off', '0'].includes(text)) return false;
+            return undefined;
+        }
+        case 'color': {
+            if (typeof value === 'number') return Number.isInteger(value) && value >= 0 && value <= 0xffffff ? value : undefined;
+            const match = /^#?([0-9a-f]{6})$/i.exec(String(value));
+            return match ? parseInt(match[1], 16) : undefined;
+        }
+        default:
+            return String(value);
+    }
+}
+
+/**
+ * Renders a parameterised template with the given variable values. Placeholders are
+ * replaced, roles, categories and channels whose condition does not hold are left out,
+ * and settings that refer to left-out channels are removed. Templates without
+ * variables are returned unchanged, but only if no values were given for them.
+ * @param {ServerTemplate} template - The template to render, already migrated to the current schema
+ * @param {VariableValues} values - The values by variable name; variables without one use their default
+ * @throws {TemplateRenderError} If a required variable has no value, a value is not valid for its variable's type, or a value is given for an unknown variable
+ * @returns {ServerTemplate} The rendered template, which declares no variables
+ */
+export function renderTemplate(template: ServerTemplate, values: VariableValues = {}): ServerTemplate {
+    const declared = template.variables ?? [];
+    const issues: TemplateIssue[] = Object.keys(values)
+        .filter(name => !declared.some(variable => variable.name === name))
+        .map(name => ({
+            path: 'variables',
+            message: declared.length > 0
+                ? `a value was given for unknown variable "${name}"`
+                : `a value was given for "${name}", but the template declares no variables`
+        }));
+    if (!template.variables) {
+        if (issues.length > 0) throw new TemplateRenderError(issues);
+        return template;
+    }
+
+    const resolved = new Map<string, string | number | boolean>();
+
+    template.variables.forEach((variable, index) => {
+        const value = values[variable.name] ?? variable.default;
+        if (value === undefined) {
+            const description = variable.description ? ` (${variable.description})` : '';
+            issues.push({ path: `variables[${index}]`, message: `required ${variable.type} variable "${variable.name}"${description} has no value` });
+            return;
+        }
+
+        const converted = convertValue(variable, value);
+        if (converted === undefined) {
+            issues.push({ path: `variables[${index}]`, message: `${JSON.stringify(value)} is not a valid ${variable.type} for "${variable.name}"` });
+            return;
+        }
+        resolved.set(variable.name, converted);
+    });
+
+    if (issues.length > 0) throw new TemplateRenderError(issues);
+
+    const text = (value: string) => value.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+        const resolvedValue = resolved.get(name)!;
+        return typeof resolvedValue === 'number' ? `#${resolvedValue.toString(16).padStart(6, '0')}` : String(resolvedValue);
+    });
+    const holds = (condition: string | undefined) =>
+        condition === undefined || resolved.get(condition.replace(/^!/, '')) === !condition.startsWith('!');
+
+    const renderChannel = ({ when, ...channel }: TemplateChannel): TemplateChannel => ({
+        ...channel,
+        name: text(channel.name),
+        ...(typeof channel.topic === 'string' ? { topic: text(channel.topic) } : {})
+    });
+    const renderCategory = ({ when, ...category }: TemplateCategory): TemplateCategory => ({
+        ...category,
+        name: text(category.name),
+        channels: category.channels.filter(channel => holds(channel.when)).map(renderChannel)
+    });
+    const renderRole = ({ when, ...role }: TemplateRole): TemplateRole => ({
+        ...role,
+        name: text(role.name),
+        color: typeof role.color === 'string'
+            ? resolved.get(String(role.color).replace(PLACEHOLDER_PATTERN, '$1')) as number
+            : role.color
+    });
+
+    const { variables, ...rest } = template;
+    const categories = template.categories.filter(category => holds(category.when)).map(renderCategory);
+    const uncategorizedChannels = template.uncategorizedChannels.filter(channel => holds(channel.when)).map(renderChannel);
+    const channelKeys = new Set([
+        ...categories.flatMap(category => category.channels),
+        ...uncategorizedChannels,
+    ].map(channel => channel.key));
+
+    const rendered: ServerTemplate = {
+        ...rest,
+        name: text(template.name),
+        roles: template.roles.filter(role => holds(role.when)).map(renderRole),
+        categories: categories,
+        uncategorizedChannels: uncategorizedChannels,
+        ...(template.settings ? { settings: selectSettings(template.settings, channelKeys) } : {})
+    };
+
+    assertValidTemplate(rendered);
+    return rendered;
+}
@@ -0,0 +1,641 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+    APIEmbed,
+    AttachmentPayload,
+    ChannelType,
+    ForumChannel,
+    Guild,
+    MediaChannel,
+    Message,
+    MessageType,
+    NewsChannel,
+    RateLimitData,
+    RESTEvents,
+    StageChannel,
+    TextChannel,
+    VoiceChannel,
+    Webhook,
+    WebhookMessageCreateOptions
+} from 'discord.js';
+
+import {
+    TaskFailure,
+    TaskProgress,
+    TaskScheduler
+} from '../utils/TaskScheduler';
+import {
+    ArchivedChannel,
+    ArchivedMessage,
+    ArchivedThread,
+    ArchiveManifest,
+    ArchiveStore,
+    uploadLimit
+} from './archiveFunctions';
+import { ExportHelper } from './exportFunctions';
+
+/** Name of the temporary webhooks messages are replayed through */
+const WEBHOOK_NAME = 'Templatte replay';
+
+/** Maximum length of a Discord message */
+const MESSAGE_LIMIT = 2000;
+
+/** Maximum number of embeds in a Discord message */
+const EMBED_LIMIT = 10;
+
+/** Message types that carry user content; system messages such as joins and pins are not replayed */
+const REPLAYABLE_TYPES: number[] = [
+    MessageType.Default,
+    MessageType.Reply,
+    MessageType.ChatInputCommand,
+    MessageType.ContextMenuCommand,
+];
+
+/** Channels messages can be replayed into */
+type WebhookChannel = TextChannel | NewsChannel | VoiceChannel | StageChannel | ForumChannel | MediaChannel;
+
+/**
+ * The persisted state of a replay, written after every replayed message
+ * so an interrupted replay continues where it stopped
+ * @interface ReplayCursor
+ */
+export interface ReplayCursor {
+    /** The ID of the guild messages are replayed into */
+    guildId: string;
+    /** The ID of the guild the archive was created in */
+    sourceGuildId: string;
+    /** The ID of the archive being replayed */
+    archiveId: string;
+    /** When the replay was started, as an ISO timestamp */
+    startedAt: string;
+    /** The tag of the user who started the replay */
+    startedBy: string;
+    /** Whether the archived channels have been matched to channels of the guild */
+    mapped: boolean;
+    /** Archived channel IDs mapped to the IDs of the channels they are replayed into */
+    channelMap: Record<string, string>;
+    /** Archived thread IDs mapped to the IDs of the threads recreated for them */
+    threadMap: Record<string, string>;
+    /** Names of the archived channels no matching channel was found for */
+    unmatchedChannels: string[];
+    /** IDs of the replay tasks that have completed */
+    completedSteps: string[];
+    /** Number of messages replayed so far from each channel or thread file */
+    positions: Record<string, number>;
+    /** Number of messages replayed so far */
+    replayed: number;
+    /** Number of attachments that could not be uploaded again and were linked instead */
+    linkedAttachments: number;
+}
+
+/**
+ * A report of a finished replay
+ * @interface ReplayReport
+ */
+export interface ReplayReport {
+    /** Number of messages replayed */
+    replayed: number;
+    /** Names of the archived channels no matching channel was found for */
+    unmatchedChannels: string[];
+    /** Number of attachments that could not be uploaded again and were linked instead */
+    linkedAttachments: number;
+    /** Channels and threads that could not be replayed */
+    failedSteps: TaskFailure[];
+}
+
+/**
+ * Options for running a replay
+ * @interface ReplayOptions
+ */
+export interface ReplayOptions {
+    /** Milliseconds to wait after each message per channel (default REPLAY_DELAY or 1000) */
+    delay?: number;
+    /** Maximum number of channels replayed at the same time (default IMPORT_CONCURRENCY or 4) */
+    concurrency?: number;
+    /** Called whenever a channel or thread starts or finishes */
+    onProgress?: (progress: TaskProgress) => void;
+}
+
+/**
+ * Stores the cursor of the pending replay of each guild on the local file system.
+ * Cursors live in `<DATA_DIR>/replays/<guild ID>.json` and are removed once the replay finishes.
+ * @class ReplayStore
+ */
+export class ReplayStore {
+    private directory: string;
+    /** Pending writes per guild, so cursor updates are written in order */
+    private writes: Map<string, Promise<void>> = new Map();
+
+    /**
+     * Creates an instance of ReplayStore
+     * @param {string} [dataDir] - Base directory for stored data, defaults to `DATA_DIR` or `./data`
+     */
+    constructor(dataDir = process.env.DATA_DIR || 'data') {
+        this.directory = join(dataDir, 'replays');
+    }
+
+    /**
+     * Creates the cursor for a new replay, replacing the cursor of any earlier one
+     * @param {Object} details - What is being replayed and by whom
+     * @returns {Promise<ReplayCursor>} The stored cursor
+     */
+    async start(details: Pick<ReplayCursor, 'guildId' | 'sourceGuildId' | 'archiveId' | 'startedBy'>): Promise<ReplayCursor> {
+        const cursor: ReplayCursor = {
+            ...details,
+            startedAt: new Date().toISOString(),
+            mapped: false,
+            channelMap: {},
+            threadMap: {},
+            unmatchedChannels: [],
+            completedSteps: [],
+            positions: {},
+            replayed: 0,
+            linkedAttachments: 0
+        };
+
+        await this.save(cursor);
+        return cursor;
+    }
+
+    /**
+     * Writes a cursor to disk. The file is replaced atomically, so a crash
+     * while writing leaves the previous version intact.
+     * @param {ReplayCursor} cursor - The cursor to write
+     * @returns {Promise<void>}
+     */
+    async save(cursor: ReplayCursor): Promise<void> {
+        const content = JSON.stringify(cursor);
+        const previous = this.writes.get(cursor.guildId) ?? Promise.resolve();
+
+        const write = previous.catch(() => undefined).then(async () => {
+            const path = this.cursorPath(cursor.guildId);
+            await mkdir(this.directory, { recursive: true });
+            await writeFile(`${path}.tmp`, content, 'utf-8');
+            await rename(`${path}.tmp`, path);
+        });
+
+        this.writes.set(cursor.guildId, write);
+        return write;
+    }
+
+    /**
+     * Loads the cursor of a guild's pending replay
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<ReplayCursor | null>} The cursor, or null if there is none
+     */
+    async load(guildId: string): Promise<ReplayCursor | null> {
+        if (!/^\d+$/.test(guildId)) return null;
+
+        const content = await readFile(this.cursorPath(guildId), 'utf-8').catch(() => null);
+        return content ? JSON.parse(content) : null;
+    }
+
+    /**
+     * Lists the IDs of the guilds that have a pending replay
+     * @returns {Promise<string[]>} The guild IDs
+     */
+    async list(): Promise<string[]> {
+        const files = await readdir(this.directory).catch(() => [] as string[]);
+        return files
+            .filter(name => /^\d+\.json$/.test(name))
+            .map(name => name.slice(0, -'.json'.length));
+    }
+
+    /**
+     * Removes the cursor of a guild once its replay has finished or was superseded
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<void>}
+     */
+    async remove(guildId: string): Promise<void> {
+        await this.writes.get(guildId)?.catch(() => undefined);
+        this.writes.delete(guildId);
+        await rm(this.cursorPath(guildId), { force: true });
+    }
+
+    /**
+     * Resolves the path of a guild's cursor file
+     * @param {string} guildId - The ID of the guild
+     * @returns {string} The file path
+     * @private
+     */
+    private cursorPath(guildId: string): string {
+        return join(this.directory, `${guildId}.json`);
+    }
+}
+
+/**
+ * Helper class for replaying archived messages into a guild's channels through
+ * temporary webhooks that carry the original authors' names and avatars
+ * @class ReplayHelper
+ */
+export class ReplayHelper {
+    /** IDs of the guilds a replay is currently running in */
+    private static running: Set<string> = new Set();
+
+    private guild: Guild;
+    private store: ReplayStore = new ReplayStore();
+    private archives: ArchiveStore = new ArchiveStore();
+    /** The cursor of the current replay */
+    private cursor!: ReplayCursor;
+    /** The manifest of the archive being replayed */
+    private manifest!: ArchiveManifest;
+    /** Milliseconds to wait after each message */
+    private delay = 0;
+    /** The webhook created in each channel during the current replay */
+    private webhooks: Map<string, Promise<Webhook>> = new Map();
+
+    /**
+     * Creates an instance of ReplayHelper
+     * @param {Guild} guild - The Discord guild to replay messages into
+     */
+    constructor(guild: Guild) {
+        this.guild = guild;
+    }
+
+    /**
+     * Checks whether a replay is currently running in a guild
+     * @param {string} guildId - The ID of the guild
+     * @returns {boolean} True if a replay is running
+     */
+    static isRunning(guildId: string): boolean {
+        return ReplayHelper.running.has(guildId);
+    }
+
+    /**
+     * Replays the messages of an archive recorded in a cursor. Archived channels are matched
+     * to the guild's channels by template key, then by name and type. Channels are replayed
+     * concurrently, but each waits between its messages; new channels are not started while
+     * Discord reports a rate limit. Threads started from a replayed message are started from
+     * its copy, forum posts are recreated as posts, and the cursor is saved after every
+     * message so the replay can be resumed by running the cursor again.
+     * The cursor is removed once the replay finishes.
+     * @param {ReplayCursor} cursor - The cursor of the replay to run
+     * @param {ReplayOptions} [options] - Options that control the replay
+     * @throws {Error} If a replay is already running in the guild, or the archive no longer exists, in which case the cursor is dropped
+     * @returns {Promise<ReplayReport>} A report of the replay
+     */
+    async runReplay(cursor: ReplayCursor, options: ReplayOptions = {}): Promise<ReplayReport> {
+        if (ReplayHelper.running.has(this.guild.id)) {
+            throw new Error('A replay is already running in this server');
+        }
+
+        const manifest = await this.archives.loadManifest(cursor.sourceGuildId, cursor.archiveId);
+        if (!manifest) {
+            await this.store.remove(this.guild.id);
+            throw new Error(`The archive ${cursor.archiveId} no longer exists`);
+        }
+
+        ReplayHelper.running.add(this.guild.id);
+        this.cursor = cursor;
+        this.manifest = manifest;
+        this.delay = options.delay ?? (process.env.REPLAY_DELAY ? Number(process.env.REPLAY_DELAY) : 1000);
+
+        try {
+            if (!cursor.mapped) {
+                await this.mapChannels();
+            }
+
+            const scheduler = new TaskScheduler({
+                concurrency: options.concurrency,
+                onProgress: options.onProgress,
+                completed: cursor.completedSteps,
+                onTaskComplete: async id => {
+                    cursor.completedSteps.push(id);
+                    await this.store.save(cursor);
+                }
+            });
+
+            for (const channel of manifest.channels.filter(channel => cursor.channelMap[channel.id])) {
+                const channelTask = scheduler.add({
+                    id: `channel:${channel.id}`,
+                    label: `#${channel.name}`,
+                    run: () => this.replayChannel(channel)
+                });
+
+                for (const thread of channel.threads) {
+                    scheduler.add({
+                        id: `thread:${thread.id}`,
+                        label: `#${channel.name} › ${thread.name}`,
+                        dependsOn: [channelTask],
+                        run: () => this.replayThread(channel, thread)
+                    });
+                }
+            }
+
+            const failedSteps = await this.runTasks(scheduler);
+            await this.store.remove(this.guild.id);
+
+            return {
+                replayed: cursor.replayed,
+                unmatchedChannels: cursor.unmatchedChannels,
+                linkedAttachments: cursor.linkedAttachments,
+                failedSteps: failedSteps
+            };
+        } finally {
+            await this.deleteWebhooks();
+            ReplayHelper.running.delete(this.guild.id);
+        }
+    }
+
+    /**
+     * Matches the archived channels to the guild's channels and records the result in the cursor
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async mapChannels(): Promise<void> {
+        const state = await new ExportHelper(this.guild).captureState();
+        const channels = [
+            ...state.template.uncategorizedChannels,
+            ...state.template.categories.flatMap(category => category.channels),
+        ];
+        const used = new Set<string>();
+
+        for (const archived of this.manifest.channels) {
+            const available = channels.filter(channel => channel.type === archived.type && !used.has(channel.key));
+            const match = available.find(channel => archived.key !== null && channel.key === archived.key) ??
+                available.find(channel => channel.name === archived.name);
+
+            if (match) {
+                used.add(match.key);
+                this.cursor.channelMap[archived.id] = state.live.channels.get(match.key)!.id;
+            } else {
+                this.cursor.unmatchedChannels.push(archived.name);
+            }
+        }
+
+        this.cursor.mapped = true;
+        await this.store.save(this.cursor);
+    }
+
+    /**
+     * Runs the scheduled tasks, pausing the scheduler whenever Discord.js reports a rate limit
+     * @param {TaskScheduler} scheduler - The scheduler to run
+     * @returns {Promise<TaskFailure[]>} The tasks that failed
+     * @private
+     */
+    private async runTasks(scheduler: TaskScheduler): Promise<TaskFailure[]> {
+        const rest = this.guild.client.rest;
+        const onRateLimited = (info: RateLimitData) => scheduler.pause(info.retryAfter);
+
+        rest.on(RESTEvents.RateLimited, onRateLimited);
+        try {
+            return await scheduler.run();
+        } finally {
+            rest.off(RESTEvents.RateLimited, onRateLimited);
+        }
+    }
+
+    /**
+     * Replays the messages of an archived channel, starting a thread from every
+     * replayed message an archived thread was started from
+     * @param {ArchivedChannel} archived - The archived channel
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async replayChannel(archived: ArchivedChannel): Promise<void> {
+        const channel = await this.targetChannel(archived);
+        if (channel.isThreadOnly()) return;
+
+        const file = await this.archives.readChannel(this.cursor.sourceGuildId, this.cursor.archiveId, archived.file);
+        const webhook = await this.webhookFor(channel);
+
+        await this.replayMessages(archived.file, file.messages, webhook, {}, async (message, sent) => {
+            const thread = archived.threads.find(thread => thread.id === message.threadId);
+            if (!thread || this.cursor.threadMap[thread.id]) return;
+
+            const started = await sent.startThread({ name: thread.name });
+            this.cursor.threadMap[thread.id] = started.id;
+        });
+    }
+
+    /**
+     * Replays the messages of an archived thread. Threads whose starter message was not
+     * replayed are created on their own, and forum posts are created by their first message.
+     * The thread is archived and locked again afterwards if it was when it was archived.
+     * @param {ArchivedChannel} archived - The archived parent channel
+     * @param {ArchivedThread} thread - The archived thread
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async replayThread(archived: ArchivedChannel, thread: ArchivedThread): Promise<void> {
+        const channel = await this.targetChannel(archived);
+        const file = await this.archives.readChannel(this.cursor.sourceGuildId, this.cursor.archiveId, thread.file);
+        const webhook = await this.webhookFor(channel);
+
+        if (!this.cursor.threadMap[thread.id] && !channel.isThreadOnly()) {
+            if (channel.type !== ChannelType.GuildText) {
+                throw new Error('its starter message was not replayed, and threads can only be created on their own in text channels');
+            }
+
+            const created = await channel.threads.create({
+                name: thread.name,
+                type: thread.type === ChannelType.PrivateThread ? ChannelType.PrivateThread : ChannelType.PublicThread,
+                reason: `Replaying archive ${this.cursor.archiveId}`
+            });
+            this.cursor.threadMap[thread.id] = created.id;
+            await this.store.save(this.cursor);
+        }
+
+        await this.replayMessages(thread.file, file.messages, webhook, { archivedThreadId: thread.id, threadName: thread.name });
+
+        if (thread.archived || thread.locked) {
+            const target = await this.guild.channels.fetch(this.cursor.threadMap[thread.id]).catch(() => null);
+            if (target?.isThread()) {
+                try {
+                    if (thread.locked) await target.setLocked(true);
+                    if (thread.archived) await target.setArchived(true);
+                } catch (error) {
+                    console.error(`Error archiving the replayed thread ${thread.name}:`, error);
+                }
+            }
+        }
+    }
+
+    /**
+     * Sends the messages of a channel or thread file through a webhook, continuing after the
+     * last message recorded in the cursor, and pins the copies of pinned messages
+     * @param {string} file - The path of the file inside the archive, used as the cursor position's key
+     * @param {ArchivedMessage[]} messages - The messages, oldest first
+     * @param {Webhook} webhook - The webhook of the channel
+     * @param {{ archivedThreadId?: string, threadName?: string }} thread - The archived thread the messages belong to, if any
+     * @param {Function} [onSent] - Called with every message and its copy before the cursor moves past it
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async replayMessages(
+        file: string,
+        messages: ArchivedMessage[],
+        webhook: Webhook,
+        thread: { archivedThreadId?: string; threadName?: string },
+        onSent?: (message: ArchivedMessage, sent: Message) => Promise<void>
+    ): Promise<void> {
+        for (let index = this.cursor.positions[file] ?? 0; index < messages.length; index++) {
+            const message = messages[index];
+            const payload = REPLAYABLE_TYPES.includes(message.type) ? await this.buildMessage(message) : null;
+
+            if (payload) {
+                const threadId = thread.archivedThreadId ? this.cursor.threadMap[thread.archivedThreadId] : undefined;
+                const sent = await webhook.send({
+                    ...payload,
+                    ...(threadId ? { threadId } : {}),
+                    ...(thread.archivedThreadId && !threadId ? { threadName: thread.threadName } : {})
+                });
+
+                if (thread.archivedThreadId && !threadId) {
+                    this.cursor.threadMap[thread.archivedThreadId] = sent.channelId;
+                }
+                if (message.pinned) {
+                    await sent.pin().catch(error => console.error(`Error pinning replayed message ${message.id}:`, error));
+                }
+                await onSent?.(message, sent);
+                this.cursor.replayed++;
+            }
+
+            this.cursor.positions[file] = index + 1;
+            await this.store.save(this.cursor);
+            if (payload && this.delay > 0) {
+                await new Promise(resolve => setTimeout(resolve, this.delay));
+            }
+        }
+    }
+
+    /**
+     * Builds the webhook message that replays an archived message. Attachments are uploaded
+     * from the archive, or downloaded again if the archive only links them; attachments that
+     * are unavailable or too large are linked instead.
+     * @param {ArchivedMessage} message - The archived message
+     * @returns {Promise<WebhookMessageCreateOptions | null>} The message, or null if it has nothing to replay
+     * @private
+     */
+    private async buildMessage(message: ArchivedMessage): Promise<WebhookMessageCreateOptions | null> {
+        const directory = this.archives.archiveDirectory(this.cursor.sourceGuildId, this.cursor.archiveId);
+        const limit = uploadLimit(this.guild);
+        const files: AttachmentPayload[] = [];
+        const links: string[] = [];
+
+        for (const attachment of message.attachments) {
+            let data: string | Buffer | null = null;
+            if (attachment.size <= limit) {
+                data = attachment.file
+                    ? join(directory, attachment.file)
+                    : await fetch(attachment.url)
+                        .then(async response => response.ok ? Buffer.from(await response.arrayBuffer()) : null)
+                        .catch(() => null);
+            }
+
+            if (data) {
+                files.push({ attachment: data, name: attachment.name, description: attachment.description ?? undefined });
+            } else {
+                links.push(`[${attachment.name}](<${attachment.url}>)`);
+                this.cursor.linkedAttachments++;
+            }
+        }
+
+        let content = [this.mapContent(message.content), ...links].filter(part => part.length > 0).join('\n');
+        if (content.length > MESSAGE_LIMIT) {
+            content = `${content.slice(0, MESSAGE_LIMIT - 3)}...`;
+        }
+
+        const embeds = (message.embeds as APIEmbed[])
+            .filter(embed => embed.type === undefined || embed.type === 'rich')
+            .slice(0, EMBED_LIMIT);
+
+        if (content.length === 0 && files.length === 0 && embeds.length === 0) {
+            return null;
+        }
+
+        return {
+            username: this.webhookName(message.author.displayName),
+            avatarURL: message.author.avatarUrl,
+            content: content || undefined,
+            embeds: embeds,
+            files: files,
+            allowedMentions: { parse: [] }
+        };
+    }
+
+    /**
+     * Points channel mentions and channel links in a message at the replayed channels and threads
+     * @param {string} content - The archived content
+     * @returns {string} The content with the references replaced
+     * @private
+     */
+    private mapContent(content: string): string {
+        const target = (id: string) => this.cursor.channelMap[id] ?? this.cursor.threadMap[id];
+        const links = new RegExp(`(https://(?:\\w+\\.)?discord(?:app)?\\.com/channels/)${this.cursor.sourceGuildId}/(\\d+)`, 'g');
+
+        return content
+            .replace(/<#(\d+)>/g, (mention, id) => target(id) ? `<#${target(id)}>` : mention)
+            .replace(links, (link, prefix, id) => target(id) ? `${prefix}${this.guild.id}/${target(id)}` : link);
+    }
+
+    /**
+     * Turns an author's name into a name Discord accepts for webhook messages
+     * @param {string} name - The author's display name
+     * @returns {string} The webhook username
+     * @private
+     */
+    private webhookName(name: string): string {
+        const cleaned = name
+            .replace(/(disc)(ord)/gi, '$1-$2')
+            .replace(/(cly)(de)/gi, '$1-$2')
+            .replace(/```/g, '')
+            .trim()
+            .slice(0, 80);
+
+        return cleaned.length > 0 && !['everyone', 'here'].includes(cleaned.toLowerCase()) ? cleaned : 'Unknown user';
+    }
+
+    /**
+     * Resolves the channel an archived channel is replayed into
+     * @param {ArchivedChannel} archived - The archived channel
+     * @throws {Error} If the channel no longer exists or does not support webhooks
+     * @returns {Promise<WebhookChannel>} The channel
+     * @private
+     */
+    private async targetChannel(archived: ArchivedChannel): Promise<WebhookChannel> {
+        const channel = await this.guild.channels.fetch(this.cursor.channelMap[archived.id]).catch(() => null);
+        if (!channel || !('createWebhook' in channel)) {
+            throw new Error('the channel no longer exists or does not support webhooks');
+        }
+        return channel;
+    }
+
+    /**
+     * Returns the replay webhook of a channel, reusing one left behind by an interrupted replay
+     * @param {WebhookChannel} channel - The channel
+     * @returns {Promise<Webhook>} The webhook
+     * @private
+     */
+    private webhookFor(channel: WebhookChannel): Promise<Webhook> {
+        let webhook = this.webhooks.get(channel.id);
+        if (!webhook) {
+            webhook = (async () => {
+                const existing = (await channel.fetchWebhooks()).find(hook =>
+                    hook.name === WEBHOOK_NAME && hook.owner?.id === this.guild.client.user.id && hook.token !== null);
+                return existing ?? await channel.createWebhook({
+                    name: WEBHOOK_NAME,
+                    reason: `Replaying archive ${this.cursor.archiveId}`
+                });
+            })();
+            this.webhooks.set(channel.id, webhook);
+        }
+        return webhook;
+    }
+
+    /**
+     * Deletes the webhooks created during the current replay
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async deleteWebhooks(): Promise<void> {
+        for (const webhook of this.webhooks.values()) {
+            try {
+                await (await webhook).delete('Replay finished');
+            } catch (error) {
+                console.error('Error deleting a replay webhook:', error);
+            }
+        }
+        this.webhooks.clear();
+    }
+}
@@ -0,0 +1,196 @@
+import {
+    ChatInputCommandInteraction,
+    OverwriteType,
+    SlashCommandBuilder
+} from 'discord.js';
+
+import { EVERYONE_ROLE_KEY } from '../utils/TemplateKeys';
+import {
+    ServerTemplate,
+    TEMPLATE_SECTIONS,
+    TemplateGuildSettings,
+    TemplatePermissionOverwrite,
+    TemplateSection
+} from '../schema/ServerTemplate';
+
+/**
+ * The parts of a template to export or import
+ * @interface TemplateSelection
+ */
+export interface TemplateSelection {
+    /** Sections to include in full */
+    sections: TemplateSection[];
+    /** Names or keys of categories to include with their channels */
+    categories: string[];
+    /** Names or keys of roles to include */
+    roles: string[];
+}
+
+/**
+ * Splits a comma separated option value into its trimmed, non-empty parts
+ * @param {string | null} value - The option value
+ * @returns {string[]} The parts
+ */
+export function splitList(value: string | null): string[] {
+    return (value ?? '')
+        .split(',')
+        .map(part => part.trim())
+        .filter(part => part.length > 0);
+}
+
+/**
+ * Adds the options that limit a command to parts of a template
+ * @param {SlashCommandBuilder} builder - The command to add the options to
+ * @returns {SlashCommandBuilder} The command
+ */
+export function addSelectionOptions(builder: SlashCommandBuilder): SlashCommandBuilder {
+    return builder
+        .addStringOption(option =>
+            option
+                .setName('sections')
+                .setDescription(`Comma separated sections to include in full: ${TEMPLATE_SECTIONS.join(', ')}`)
+        )
+        .addStringOption(option =>
+            option
+                .setName('categories')
+                .setDescription('Comma separated category names to include with their channels')
+        )
+        .addStringOption(option =>
+            option
+                .setName('roles')
+                .setDescription('Comma separated role names to include')
+        ) as SlashCommandBuilder;
+}
+
+/**
+ * Reads the selection options added by addSelectionOptions
+ * @param {ChatInputCommandInteraction} interaction - The command interaction
+ * @throws {Error} If an unknown section is requested
+ * @returns {TemplateSelection} The selection
+ */
+export function readSelection(interaction: ChatInputCommandInteraction): TemplateSelection {
+    const sections = splitList(interaction.options.getString('sections'));
+    const unknown = sections.filter(section => !TEMPLATE_SECTIONS.includes(section as TemplateSection));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown section(s): ${unknown.join(', ')}. Valid sections are: ${TEMPLATE_SECTIONS.join(', ')}.`);
+    }
+
+    return {
+        sections: sections as TemplateSection[],
+        categories: splitList(interaction.options.getString('categories')),
+        roles: splitList(interaction.options.getString('roles'))
+    };
+}
+
+/**
+ * Checks whether a selection limits the template at all
+ * @param {TemplateSelection} selection - The selection
+ * @returns {boolean} True if nothing was selected, meaning the whole template is used
+ */
+export function isFullSelection(selection: TemplateSelection): boolean {
+    return selection.sections.length === 0 && selection.categories.length === 0 && selection.roles.length === 0;
+}
+
+/**
+ * Limits a template to the selected parts. The result is marked as partial and lists
+ * the roles its overwrites and emoji restrictions reference without including them,
+ * so they can be matched by name in the server the template is imported into.
+ * Settings that refer to channels left out of the result are removed.
+ * @param {ServerTemplate} template - The template to limit
+ * @param {TemplateSelection} selection - The parts to keep
+ * @throws {Error} If a selected category or role does not exist in the template
+ * @returns {ServerTemplate} The limited template, or the template itself if nothing was selected
+ */
+export function selectTemplate(template: ServerTemplate, selection: TemplateSelection): ServerTemplate {
+    if (isFullSelection(selection)) return template;
+
+    const matches = (wanted: string[], item: { key: string; name: string }) =>
+        wanted.some(name => name === item.key || name.toLowerCase() === item.name.toLowerCase());
+    const missing = (wanted: string[], items: { key: string; name: string }[]) =>
+        wanted.filter(name => !items.some(item => matches([name], item)));
+
+    const unknown = [
+        ...missing(selection.categories, template.categories).map(name => `category "${name}"`),
+        ...missing(selection.roles, template.roles).map(name => `role "${name}"`),
+    ];
+    if (unknown.length > 0) {
+        throw new Error(`Not found in the template: ${unknown.join(', ')}`);
+    }
+
+    const has = (section: TemplateSection) => selection.sections.includes(section);
+
+    const roles = has('roles')
+        ? template.roles
+        : template.roles.filter(role => matches(selection.roles, role));
+    const categories = has('channels')
+        ? template.categories
+        : template.categories.filter(category => matches(selection.categories, category));
+    const uncategorizedChannels = has('channels') ? template.uncategorizedChannels : [];
+    const emojis = has('emojis') ? template.emojis : undefined;
+    const stickers = has('emojis') ? template.stickers : undefined;
+    const members = has('members') ? template.members : undefined;
+
+    const channelKeys = new Set([
+        ...categories.flatMap(category => category.channels),
+        ...uncategorizedChannels,
+    ].map(channel => channel.key));
+    const settings = has('settings') && template.settings
+        ? selectSettings(template.settings, channelKeys)
+        : undefined;
+
+    const includedRoles = new Set(roles.map(role => role.key));
+    const overwrites: TemplatePermissionOverwrite[] = [
+        ...categories.flatMap(category => [
+            ...category.permissionOverwrites,
+            ...category.channels.flatMap(channel => channel.permissionOverwrites),
+        ]),
+        ...uncategorizedChannels.flatMap(channel => channel.permissionOverwrites),
+    ];
+    const referencedRoles = new Set([
+        ...overwrites.filter(overwrite => overwrite.type === OverwriteType.Role).map(overwrite => overwrite.id),
+        ...(emojis ?? []).flatMap(emoji => emoji.roles),
+        ...(members ?? []).flatMap(member => member.roles),
+    ]);
+
+    return {
+        ...template,
+        roles: roles,
+        categories: categories,
+        uncategorizedChannels: uncategorizedChannels,
+        settings: settings,
+        emojis: emojis,
+        stickers: stickers,
+        members: members,
+        partial: {
+            sections: TEMPLATE_SECTIONS.filter(section =>
+                has(section) ||
+                (section === 'roles' && roles.length > 0) ||
+                (section === 'channels' && categories.length > 0)),
+            roleReferences: [...template.roles, ...template.partial?.roleReferences ?? []]
+                .filter(role => referencedRoles.has(role.key) && !includedRoles.has(role.key) && role.key !== EVERYONE_ROLE_KEY)
+                .map(role => ({ key: role.key, name: role.name }))
+        }
+    };
+}
+
+/**
+ * Removes the settings that refer to channels a partial template leaves out.
+ * Removed settings are left unchanged on import.
+ * @param {TemplateGuildSettings} settings - The settings of the full template
+ * @param {Set<string>} channelKeys - The keys of the channels the partial template includes
+ * @returns {TemplateGuildSettings} The settings that can be applied
+ */
+export function selectSettings(settings: TemplateGuildSettings, channelKeys: Set<string>): TemplateGuildSettings {
+    const selected: TemplateGuildSettings = { ...settings };
+
+    for (const setting of ['afkChannel', 'systemChannel', 'rulesChannel', 'publicUpdatesChannel'] as const) {
+        const key = selected[setting];
+        if (key && !channelKeys.has(key)) delete selected[setting];
+    }
+
+    if (selected.welcomeScreen?.channels.some(channel => !channelKeys.has(channel.channel))) {
+        delete selected.welcomeScreen;
+    }
+
+    return selected;
+}
@@ -0,0 +1,147 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { parseTemplate } from '../schema/migrations';
+
+/**
+ * Describes a stored snapshot of a guild
+ * @interface SnapshotInfo
+ */
+export interface SnapshotInfo {
+    /** Identifier of the snapshot, unique per guild and sortable by creation time */
+    id: string;
+    /** The ID of the guild the snapshot was taken from */
+    guildId: string;
+    /** When the snapshot was taken, as an ISO timestamp */
+    createdAt: string;
+    /** Why the snapshot was taken, e.g. `before /import` */
+    reason: string;
+}
+
+/**
+ * A snapshot file as it is stored on disk
+ * @interface SnapshotFile
+ */
+interface SnapshotFile {
+    snapshot: SnapshotInfo;
+    template: ServerTemplate;
+}
+
+/**
+ * Stores guild templates on the local file system so an import can be rolled back.
+ * Snapshots live in `<DATA_DIR>/snapshots/<guild ID>/<snapshot ID>.json`.
+ * @class SnapshotStore
+ */
+export class SnapshotStore {
+    private directory: string;
+    private limit: number;
+
+    /**
+     * Creates an instance of SnapshotStore
+     * @param {string} [dataDir] - Base directory for stored data, defaults to `DATA_DIR` or `./data`
+     * @param {number} [limit] - How many snapshots to keep per guild, defaults to `SNAPSHOT_LIMIT` or 10
+     */
+    constructor(dataDir = process.env.DATA_DIR || 'data', limit = Number(process.env.SNAPSHOT_LIMIT) || 10) {
+        this.directory = join(dataDir, 'snapshots');
+        this.limit = limit;
+    }
+
+    /**
+     * Stores a snapshot of a guild and removes the oldest snapshots beyond the limit
+     * @param {string} guildId - The ID of the guild the template was exported from
+     * @param {ServerTemplate} template - The exported template
+     * @param {string} reason - Why the snapshot is taken
+     * @returns {Promise<SnapshotInfo>} The stored snapshot
+     */
+    async save(guildId: string, template: ServerTemplate, reason: string): Promise<SnapshotInfo> {
+        const createdAt = new Date().toISOString();
+        const snapshot: SnapshotInfo = {
+            id: createdAt.replace(/[:.]/g, '-'),
+            guildId: guildId,
+            createdAt: createdAt,
+            reason: reason
+        };
+
+        const file: SnapshotFile = { snapshot, template };
+        await mkdir(this.guildDirectory(guildId), { recursive: true });
+        await writeFile(this.snapshotPath(guildId, snapshot.id), JSON.stringify(file, null, 2), 'utf-8');
+
+        const stale = (await this.list(guildId)).slice(this.limit);
+        for (const old of stale) {
+            await rm(this.snapshotPath(guildId, old.id), { force: true });
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Lists the stored snapshots of a guild
+     * @param {string} guildId - The ID of the guild
+     * @returns {Promise<SnapshotInfo[]>} The snapshots, newest first
+     */
+    async list(guildId: string): Promise<SnapshotInfo[]> {
+        const files = await readdir(this.guildDirectory(guildId)).catch(() => [] as string[]);
+        const snapshots: SnapshotInfo[] = [];
+
+        for (const file of files.filter(name => name.endsWith('.json'))) {
+            try {
+                const content = await this.readFile(guildId, file.slice(0, -'.json'.length));
+                snapshots.push(content.snapshot);
+            } catch (error) {
+                console.error(`Skipping unreadable snapshot ${file}:`, error);
+            }
+        }
+
+        return snapshots.sort((a, b) => b.id.localeCompare(a.id));
+    }
+
+    /**
+     * Loads a snapshot, migrating its template to the current schema version
+     * @param {string} guildId - The ID of the guild
+     * @param {string} [id] - The ID of the snapshot, defaults to the newest one
+     * @returns {Promise<{ snapshot: SnapshotInfo, template: ServerTemplate } | null>} The snapshot, or null if it does not exist
+     * @throws {TemplateValidationError} If the stored template is invalid
+     */
+    async load(guildId: string, id?: string): Promise<{ snapshot: SnapshotInfo; template: ServerTemplate } | null> {
+        const snapshotId = id ?? (await this.list(guildId))[0]?.id;
+        if (!snapshotId || !/^[\w-]+$/.test(snapshotId)) return null;
+
+        const content = await this.readFile(guildId, snapshotId).catch(() => null);
+        if (!content) return null;
+
+        return { snapshot: content.snapshot, template: parseTemplate(content.template) };
+    }
+
+    /**
+     * Reads and parses a snapshot file
+     * @param {string} guildId - The ID of the guild
+     * @param {string} id - The ID of the snapshot
+     * @returns {Promise<SnapshotFile>} The parsed file
+     * @private
+     */
+    private async readFile(guildId: string, id: string): Promise<SnapshotFile> {
+        return JSON.parse(await readFile(this.snapshotPath(guildId, id), 'utf-8'));
+    }
+
+    /**
+     * Resolves the directory holding a guild's snapshots
+     * @param {string} guildId - The ID of the guild
+     * @returns {string} The directory path
+     * @private
+     */
+    private guildDirectory(guildId: string): string {
+        return join(this.directory, guildId);
+    }
+
+    /**
+     * Resolves the path of a snapshot file
+     * @param {string} guildId - The ID of the guild
+     * @param {string} id - The ID of the snapshot
+     * @returns {string} The file path
+     * @private
+     */
+    private snapshotPath(guildId: string, id: string): string {
+        return join(this.guildDirectory(guildId), `${id}.json`);
+    }
+}
@@ -0,0 +1,411 @@
+/**
+ * The schema version written by this version of the bot.
+ * Older templates are upgraded by the migrations in `schema/migrations.ts`.
+ */
+export const TEMPLATE_SCHEMA_VERSION = 3;
+
+/**
+ * Represents a permission overwrite on a category or channel
+ * @interface TemplatePermissionOverwrite
+ */
+export interface TemplatePermissionOverwrite {
+    /** The template key of the role, or the ID of the user */
+    id: string;
+    /** The type of overwrite (0 for role, 1 for member) */
+    type: number;
+    /** Allowed permissions bitfield as a decimal string */
+    allow: string;
+    /** Denied permissions bitfield as a decimal string */
+    deny: string;
+}
+
+/**
+ * References a unicode emoji by name or a custom emoji by ID
+ * @interface TemplateEmojiReference
+ */
+export interface TemplateEmojiReference {
+    /** The template key of a custom emoji included in the template */
+    key?: string;
+    /** The ID of a custom emoji */
+    id: string | null;
+    /** The unicode character of a unicode emoji */
+    name: string | null;
+}
+
+/**
+ * Represents a tag of a forum or media channel
+ * @interface TemplateForumTag
+ */
+export interface TemplateForumTag {
+    /** The name of the tag */
+    name: string;
+    /** Whether only moderators can apply the tag */
+    moderated: boolean;
+    /** The emoji shown with the tag */
+    emoji: TemplateEmojiReference | null;
+}
+
+/**
+ * Represents a channel within a Discord server template
+ * @interface TemplateChannel
+ */
+export interface TemplateChannel {
+    /** Template-local key identifying the channel, unique across all channels */
+    key: string;
+    /** The name of the channel */
+    name: string;
+    /** The channel type (text, voice, etc.) as defined in Discord.js ChannelType */
+    type: number;
+    /** The position of the channel in the channel list */
+    position: number;
+    /** Array of permission overwrites for the channel */
+    permissionOverwrites: TemplatePermissionOverwrite[];
+    /** Condition of a parameterised template; the channel is only imported when it holds */
+    when?: string;
+    /** The topic of a text, announcement or stage channel, or the post guidelines of a forum or media channel */
+    topic?: string | null;
+    /** Whether the channel is age-restricted */
+    nsfw?: boolean;
+    /** Slowmode in seconds; not available for announcement channels */
+    rateLimitPerUser?: number;
+    /** Default auto-archive duration in minutes for new threads */
+    defaultAutoArchiveDuration?: number | null;
+    /** Default slowmode in seconds for new threads */
+    defaultThreadRateLimitPerUser?: number | null;
+    /** Bitrate of a voice or stage channel in bits per second */
+    bitrate?: number;
+    /** Maximum number of users in a voice or stage channel, 0 for no limit */
+    userLimit?: number;
+    /** Voice region of a voice or stage channel, null for automatic */
+    rtcRegion?: string | null;
+    /** Camera video quality mode of a voice or stage channel */
+    videoQualityMode?: number | null;
+    /** Tags that can be applied to posts in a forum or media channel */
+    availableTags?: TemplateForumTag[];
+    /** Emoji shown as the default reaction on posts in a forum or media channel */
+    defaultReactionEmoji?: TemplateEmojiReference | null;
+    /** Default sort order of posts in a forum or media channel */
+    defaultSortOrder?: number | null;
+    /** Default layout of posts in a forum channel */
+    defaultForumLayout?: number;
+}
+
+/**
+ * Represents a category within a Discord server template
+ * @interface TemplateCategory
+ */
+export interface TemplateCategory {
+    /** Template-local key identifying the category */
+    key: string;
+    /** The name of the category */
+    name: string;
+    /** The position of the category in the channel list */
+    position: number;
+    /** Array of permission overwrites for the category */
+    permissionOverwrites: TemplatePermissionOverwrite[];
+    /** Array of channels within this category */
+    channels: TemplateChannel[];
+    /** Condition of a parameterised template; the category and its channels are only imported when it holds */
+    when?: string;
+}
+
+/**
+ * Represents a role within a Discord server template
+ * @interface TemplateRole
+ */
+export interface TemplateRole {
+    /** Template-local key identifying the role, referenced by permission overwrites */
+    key: string;
+    /** The name of the role */
+    name: string;
+    /** The color of the role in integer format; a `{{variable}}` placeholder in parameterised templates */
+    color: number;
+    /** Whether the role is hoisted (displayed separately) */
+    hoist: boolean;
+    /** The position of the role in the role hierarchy */
+    position: number;
+    /** The permissions bitfield for the role as a decimal string */
+    permissions: string;
+    /** Whether the role is mentionable */
+    mentionable: boolean;
+    /** Condition of a parameterised template; the role is only imported when it holds */
+    when?: string;
+}
+
+/**
+ * Represents a custom emoji of the server
+ * @interface TemplateEmoji
+ */
+export interface TemplateEmoji {
+    /** Template-local key identifying the emoji, referenced by emoji references */
+    key: string;
+    /** The name of the emoji */
+    name: string;
+    /** Whether the emoji is animated */
+    animated: boolean;
+    /** The emoji image as a data URI */
+    image: string;
+    /** Template keys of the roles allowed to use the emoji; empty for everyone */
+    roles: string[];
+}
+
+/**
+ * Represents a custom sticker of the server
+ * @interface TemplateSticker
+ */
+export interface TemplateSticker {
+    /** Template-local key identifying the sticker */
+    key: string;
+    /** The name of the sticker */
+    name: string;
+    /** The description of the sticker */
+    description: string | null;
+    /** The name of the unicode emoji the sticker is related to */
+    tags: string;
+    /** The sticker format, as defined in Discord.js StickerFormatType */
+    format: number;
+    /** The sticker image as a data URI */
+    image: string;
+}
+
+/**
+ * Records the roles a member had, so they can be given back once the roles are recreated
+ * @interface TemplateMember
+ */
+export interface TemplateMember {
+    /** The user ID of the member */
+    id: string;
+    /** The template keys of the member's roles, without @everyone and integration-managed roles */
+    roles: string[];
+    /** The member's nickname; left out when nicknames were not exported */
+    nickname?: string | null;
+}
+
+/**
+ * Represents a channel shown on the community welcome screen
+ * @interface TemplateWelcomeChannel
+ */
+export interface TemplateWelcomeChannel {
+    /** The template key of the channel */
+    channel: string;
+    /** The description shown for the channel */
+    description: string;
+    /** The emoji shown for the channel */
+    emoji: TemplateEmojiReference | null;
+}
+
+/**
+ * Represents the community welcome screen
+ * @interface TemplateWelcomeScreen
+ */
+export interface TemplateWelcomeScreen {
+    /** Whether the welcome screen is shown to new members */
+    enabled: boolean;
+    /** The server description shown on the welcome screen */
+    description: string | null;
+    /** The channels recommended to new members */
+    channels: TemplateWelcomeChannel[];
+}
+
+/**
+ * Represents the server-wide settings of a template.
+ * Channels are referenced by template key and images are embedded as data URIs.
+ * Settings that are left out are not changed on import.
+ * @interface TemplateGuildSettings
+ */
+export interface TemplateGuildSettings {
+    /** Verification level new members must meet, as defined in Discord.js GuildVerificationLevel */
+    verificationLevel?: number;
+    /** Explicit media content filter level, as defined in Discord.js GuildExplicitContentFilter */
+    explicitContentFilter?: number;
+    /** Default notification level, as defined in Discord.js GuildDefaultMessageNotifications */
+    defaultMessageNotifications?: number;
+    /** The voice channel inactive members are moved to */
+    afkChannel?: string | null;
+    /** Seconds of inactivity before a member is moved to the AFK channel */
+    afkTimeout?: number;
+    /** The channel system messages are sent to */
+    systemChannel?: string | null;
+    /** Bitfield of suppressed system messages, as defined in Discord.js SystemChannelFlags */
+    systemChannelFlags?: number;
+    /** The rules channel of a community server */
+    rulesChannel?: string | null;
+    /** The channel community updates from Discord are sent to */
+    publicUpdatesChannel?: string | null;
+    /** The preferred locale of a community server, e.g. `en-US` */
+    preferredLocale?: string;
+    /** The server icon as a data URI */
+    icon?: string | null;
+    /** The server banner as a data URI */
+    banner?: string | null;
+    /** The invite splash image as a data URI */
+    splash?: string | null;
+    /** The community welcome screen */
+    welcomeScreen?: TemplateWelcomeScreen | null;
+}
+
+/**
+ * Names of the server settings that can be skipped on import.
+ * `name` refers to the template's name, the rest to the fields of TemplateGuildSettings.
+ */
+export const GUILD_SETTINGS = [
+    'name',
+    'verificationLevel',
+    'explicitContentFilter',
+    'defaultMessageNotifications',
+    'afkChannel',
+    'afkTimeout',
+    'systemChannel',
+    'systemChannelFlags',
+    'rulesChannel',
+    'publicUpdatesChannel',
+    'preferredLocale',
+    'icon',
+    'banner',
+    'splash',
+    'welcomeScreen',
+] as const;
+
+/** The name of a server setting that can be skipped on import */
+export type GuildSettingName = typeof GUILD_SETTINGS[number];
+
+/** The parts of a server a template can be limited to */
+export const TEMPLATE_SECTIONS = [
+    'roles',
+    'channels',
+    'emojis',
+    'settings',
+    'members',
+] as const;
+
+/** A part of a server a template can be limited to; `channels` includes categories, `emojis` includes stickers */
+export type TemplateSection = typeof TEMPLATE_SECTIONS[number];
+
+/** The kinds of value a template variable can hold */
+export const VARIABLE_TYPES = [
+    'string',
+    'color',
+    'boolean',
+] as const;
+
+/** The kind of value a template variable holds */
+export type TemplateVariableType = typeof VARIABLE_TYPES[number];
+
+/**
+ * A variable of a parameterised template. Names, topics and role colors can contain
+ * `{{name}}` placeholders, and roles, categories and channels can have a `when`
+ * condition naming a boolean variable, optionally negated as `!name`.
+ * @interface TemplateVariable
+ */
+export interface TemplateVariable {
+    /** The name used in placeholders and conditions */
+    name: string;
+    /** The kind of value the variable holds */
+    type: TemplateVariableType;
+    /** What the variable is for, shown when a value is missing */
+    description?: string;
+    /** The value used when none is given; variables without a default are required */
+    default?: string | boolean;
+}
+
+/**
+ * A role that a partial template references without including it
+ * @interface TemplateRoleReference
+ */
+export interface TemplateRoleReference {
+    /** The role key used by the template's overwrites and emoji restrictions */
+    key: string;
+    /** The name of the role, used to find it in the target server */
+    name: string;
+}
+
+/**
+ * Marks a template that only covers part of a server
+ * @interface TemplatePartial
+ */
+export interface TemplatePartial {
+    /** The sections the template includes, in full or in part */
+    sections: TemplateSection[];
+    /** Roles referenced by the template but not included in it; they are matched by name on import */
+    roleReferences: TemplateRoleReference[];
+}
+
+/**
+ * Represents a complete Discord server template
+ * @interface ServerTemplate
+ */
+export interface ServerTemplate {
+    /** The schema version the template was written with */
+    schemaVersion: number;
+    /** The name of the server */
+    name: string;
+    /** Array of roles to be created */
+    roles: TemplateRole[];
+    /** Array of categories and their channels */
+    categories: TemplateCategory[];
+    /** Array of channels not belonging to any category */
+    uncategorizedChannels: TemplateChannel[];
+    /** Server-wide settings; older templates do not have them */
+    settings?: TemplateGuildSettings;
+    /** Custom emojis; older templates do not have them */
+    emojis?: TemplateEmoji[];
+    /** Custom stickers; older templates do not have them */
+    stickers?: TemplateSticker[];
+    /** Member role assignments, only present when the server was exported with its members */
+    members?: TemplateMember[];
+    /** Set when the template only covers part of a server; such templates never delete anything on import */
+    partial?: TemplatePartial;
+    /** Variables of a parameterised template, which is rendered with their values before it is imported */
+    variables?: TemplateVariable[];
+    /** Timestamp when the template was exported */
+    exportedAt: string;
+}
+
+/**
+ * The changes an overlay makes to one kind of template item, identified by key
+ * @interface OverlayChanges
+ */
+export interface OverlayChanges<T extends { key: string }> {
+    /** Items to add; their keys must not exist in the base template */
+    add?: T[];
+    /** Fields to change on items of the base template; fields that are left out keep their base value */
+    modify?: (Partial<T> & { key: string })[];
+    /** Keys of items of the base template to remove */
+    remove?: string[];
+}
+
+/**
+ * A channel added or modified by an overlay, together with its category
+ * @interface OverlayChannel
+ */
+export interface OverlayChannel extends TemplateChannel {
+    /** The key of the category the channel belongs to, or null for an uncategorized channel */
+    parent: string | null;
+}
+
+/** A category added or modified by an overlay; its channels are changed through the overlay's channels */
+export type OverlayCategory = Omit<TemplateCategory, 'channels'>;
+
+/**
+ * A set of changes applied on top of a base template, so one canonical template
+ * can be shared while each team keeps only its own differences
+ * @interface TemplateOverlay
+ */
+export interface TemplateOverlay {
+    /** The schema version the overlay was written with */
+    schemaVersion: number;
+    /** The name of the base template the overlay applies to */
+    extends: string;
+    /** Replaces the base template's name */
+    name?: string;
+    /** Roles to add, change or remove */
+    roles?: OverlayChanges<TemplateRole>;
+    /** Categories to add, change or remove; removing a category removes the channels left in it */
+    categories?: OverlayChanges<OverlayCategory>;
+    /** Channels to add, change or remove; setting `parent` moves a channel to another category */
+    channels?: OverlayChanges<OverlayChannel>;
+    /** Server settings that replace those of the base template */
+    settings?: TemplateGuildSettings;
+    /** Timestamp when the overlay was exported */
+    exportedAt?: string;
+}
@@ -0,0 +1,151 @@
+import { ServerTemplate, TEMPLATE_SCHEMA_VERSION } from './ServerTemplate';
+import { assertValidTemplate } from './validateTemplate';
+import { EVERYONE_ROLE_KEY, KeyAllocator } from '../utils/TemplateKeys';
+
+/**
+ * Upgrades a template from one schema version to the next
+ * @interface TemplateMigration
+ */
+export interface TemplateMigration {
+    /** The schema version this migration accepts */
+    from: number;
+    /** The schema version this migration produces */
+    to: number;
+    /** Short description of what changed between the two versions */
+    description: string;
+    /** Returns the upgraded template; the input may be mutated */
+    migrate(template: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Checks whether a value is a non-null object whose properties can be read
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if the value is an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Reads a list of objects from a template that has not been validated yet
+ * @param {unknown} value - The value that should be an array of objects
+ * @returns {Record<string, unknown>[]} The objects in the array; empty if the value is not an array
+ */
+function records(value: unknown): Record<string, unknown>[] {
+    return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * Every migration, ordered by the version it upgrades from
+ */
+export const migrations: TemplateMigration[] = [
+    {
+        from: 1,
+        to: 2,
+        description: 'Add template-local keys to roles and categories',
+        migrate(template) {
+            const roleKeys = new KeyAllocator([EVERYONE_ROLE_KEY]);
+            const categoryKeys = new KeyAllocator();
+
+            const roles = records(template.roles);
+            const categories = records(template.categories);
+
+            for (const role of roles) {
+                if (typeof role.key === 'string') roleKeys.reserve(role.key);
+            }
+            for (const role of roles) {
+                if (typeof role.key === 'string') continue;
+                role.key = role.name === '@everyone'
+                    ? EVERYONE_ROLE_KEY
+                    : roleKeys.allocate(String(role.name ?? ''), 'role');
+            }
+
+            for (const category of categories) {
+                if (typeof category.key === 'string') categoryKeys.reserve(category.key);
+            }
+            for (const category of categories) {
+                if (typeof category.key === 'string') continue;
+                category.key = categoryKeys.allocate(String(category.name ?? ''), 'category');
+                delete category.id;
+            }
+
+            template.uncategorizedChannels ??= [];
+            template.schemaVersion = 2;
+            return template;
+        }
+    },
+    {
+        from: 2,
+        to: 3,
+        description: 'Add template-local keys to channels',
+        migrate(template) {
+            const channelKeys = new KeyAllocator();
+            const channels = [
+                ...records(template.categories).flatMap(category => records(category.channels)),
+                ...records(template.uncategorizedChannels),
+            ];
+
+            for (const channel of channels) {
+                if (typeof channel.key === 'string') channelKeys.reserve(channel.key);
+            }
+            for (const channel of channels) {
+                if (typeof channel.key === 'string') continue;
+                channel.key = channelKeys.allocate(String(channel.name ?? ''), 'channel');
+            }
+
+            template.schemaVersion = 3;
+            return template;
+        }
+    },
+];
+
+/**
+ * Reads the schema version of a template. Templates written before
+ * versioning was introduced have no version field and count as version 1.
+ * @param {unknown} data - The parsed template
+ * @returns {number} The schema version of the template
+ */
+export function getSchemaVersion(data: unknown): number {
+    return isRecord(data) && typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+}
+
+/**
+ * Runs every migration needed to bring a template up to the current schema version
+ * @param {unknown} data - The parsed template, in any supported schema version
+ * @returns {unknown} The upgraded template; not yet validated
+ * @throws {Error} If the template is newer than this bot supports or no migration path exists
+ */
+export function migrateTemplate(data: unknown): unknown {
+    if (!isRecord(data)) return data;
+
+    let template = structuredClone(data);
+    let version = getSchemaVersion(template);
+
+    if (version > TEMPLATE_SCHEMA_VERSION) {
+        throw new Error(`Template schema version ${version} is newer than the supported version ${TEMPLATE_SCHEMA_VERSION}`);
+    }
+
+    while (version < TEMPLATE_SCHEMA_VERSION) {
+        const migration = migrations.find(m => m.from === version);
+        if (!migration) {
+            throw new Error(`No migration available from template schema version ${version}`);
+        }
+
+        template = migration.migrate(template);
+        version = migration.to;
+    }
+
+    return template;
+}
+
+/**
+ * Migrates a parsed template file to the current schema version and validates it
+ * @param {unknown} data - The parsed template, in any supported schema version
+ * @returns {ServerTemplate} The upgraded and validated template
+ * @throws {TemplateValidationError} If the upgraded template is invalid
+ */
+export function parseTemplate(data: unknown): ServerTemplate {
+    const template = migrateTemplate(data);
+    assertValidTemplate(template);
+    return template;
+}
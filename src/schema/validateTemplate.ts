@@ -0,0 +1,576 @@
+import { 
+    ChannelType, 
+    OverwriteType 
+} from 'discord.js';
+
+import { 
+    ServerTemplate, 
+    TemplateOverlay, 
+    TEMPLATE_SCHEMA_VERSION, 
+    TEMPLATE_SECTIONS, 
+    TemplateSection, 
+    TemplateVariableType, 
+    VARIABLE_TYPES 
+} from './ServerTemplate';
+
+/** Matches a `{{variable}}` placeholder of a parameterised template */
+export const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Channel types that may appear as channels in a template
+ * (categories are described separately).
+ */
+const CHANNEL_TYPES: number[] = [
+    ChannelType.GuildText,
+    ChannelType.GuildVoice,
+    ChannelType.GuildAnnouncement,
+    ChannelType.GuildStageVoice,
+    ChannelType.GuildForum,
+    ChannelType.GuildMedia,
+];
+
+/**
+ * A single problem found while validating a template
+ * @interface TemplateIssue
+ */
+export interface TemplateIssue {
+    /** Location of the offending value, e.g. `categories[2].channels[0].type` */
+    path: string;
+    /** Human readable description of the problem */
+    message: string;
+}
+
+/**
+ * Thrown when a template does not match the current schema
+ * @extends {Error}
+ */
+export class TemplateValidationError extends Error {
+    /** Every issue found in the template */
+    public issues: TemplateIssue[];
+
+    /**
+     * Creates a new TemplateValidationError
+     * @param {TemplateIssue[]} issues - The issues found in the template
+     */
+    constructor(issues: TemplateIssue[]) {
+        super(`Invalid template:\n${issues.map(formatIssue).join('\n')}`);
+        this.name = 'TemplateValidationError';
+        this.issues = issues;
+    }
+}
+
+/**
+ * Formats an issue as `path: message`
+ * @param {TemplateIssue} issue - The issue to format
+ * @returns {string} The formatted issue
+ */
+export function formatIssue(issue: TemplateIssue): string {
+    return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Collects issues while walking a template
+ */
+class TemplateValidator {
+    public issues: TemplateIssue[] = [];
+    /** The declared variables of a parameterised template, or null if it declares none */
+    private variableTypes: Map<string, TemplateVariableType> | null = null;
+
+    report(path: string, message: string): void {
+        this.issues.push({ path, message });
+    }
+
+    isObject(value: unknown, path: string): value is Record<string, unknown> {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) return true;
+        this.report(path, 'expected an object');
+        return false;
+    }
+
+    isArray(value: unknown, path: string): value is unknown[] {
+        if (Array.isArray(value)) return true;
+        this.report(path, 'expected an array');
+        return false;
+    }
+
+    string(value: unknown, path: string, allowEmpty = true): void {
+        if (typeof value !== 'string') {
+            this.report(path, 'expected a string');
+        } else if (!allowEmpty && value.length === 0) {
+            this.report(path, 'must not be empty');
+        }
+    }
+
+    integer(value: unknown, path: string, min?: number, max?: number): void {
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+            this.report(path, 'expected an integer');
+        } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+            this.report(path, `must be between ${min ?? '-∞'} and ${max ?? '∞'}`);
+        }
+    }
+
+    boolean(value: unknown, path: string): void {
+        if (typeof value !== 'boolean') this.report(path, 'expected a boolean');
+    }
+
+    permissions(value: unknown, path: string): void {
+        if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+            this.report(path, 'expected a permissions bitfield as a decimal string');
+        }
+    }
+
+    key(value: unknown, path: string, seen: Set<string>): void {
+        this.string(value, path, false);
+        if (typeof value !== 'string' || value.length === 0) return;
+        if (seen.has(value)) {
+            this.report(path, `duplicate key "${value}"`);
+        }
+        seen.add(value);
+    }
+
+    overwrites(value: unknown, path: string): void {
+        if (!this.isArray(value, path)) return;
+        value.forEach((overwrite, index) => {
+            const at = `${path}[${index}]`;
+            if (!this.isObject(overwrite, at)) return;
+
+            this.string(overwrite.id, `${at}.id`, false);
+            if (overwrite.type !== OverwriteType.Role && overwrite.type !== OverwriteType.Member) {
+                this.report(`${at}.type`, `unknown overwrite type ${JSON.stringify(overwrite.type)}`);
+            }
+            this.permissions(overwrite.allow, `${at}.allow`);
+            this.permissions(overwrite.deny, `${at}.deny`);
+        });
+    }
+
+    channel(value: unknown, path: string, keys: Set<string>): void {
+        if (!this.isObject(value, path)) return;
+
+        this.key(value.key, `${path}.key`, keys);
+        this.string(value.name, `${path}.name`, false);
+        this.placeholders(value.name, `${path}.name`);
+        this.placeholders(value.topic, `${path}.topic`);
+        this.condition(value.when, `${path}.when`);
+        if (value.type === ChannelType.GuildCategory) {
+            this.report(`${path}.type`, 'categories cannot be nested inside channel lists');
+        } else if (typeof value.type !== 'number' || !CHANNEL_TYPES.includes(value.type)) {
+            this.report(`${path}.type`, `unknown channel type ${JSON.stringify(value.type)}`);
+        }
+        this.integer(value.position, `${path}.position`, 0);
+        this.overwrites(value.permissionOverwrites, `${path}.permissionOverwrites`);
+        this.channelSettings(value, path);
+    }
+
+    channelSettings(value: Record<string, unknown>, path: string): void {
+        const optional = (field: string, check: (value: unknown, path: string) => void, nullable = false) => {
+            if (value[field] === undefined || (nullable && value[field] === null)) return;
+            check(value[field], `${path}.${field}`);
+        };
+
+        optional('topic', (v, p) => this.string(v, p), true);
+        optional('nsfw', (v, p) => this.boolean(v, p));
+        optional('rateLimitPerUser', (v, p) => this.integer(v, p, 0, 21600));
+        optional('defaultAutoArchiveDuration', (v, p) => {
+            if (![60, 1440, 4320, 10080].includes(v as number)) {
+                this.report(p, `unknown auto-archive duration ${JSON.stringify(v)}`);
+            }
+        }, true);
+        optional('defaultThreadRateLimitPerUser', (v, p) => this.integer(v, p, 0, 21600), true);
+        optional('bitrate', (v, p) => this.integer(v, p, 8000));
+        optional('userLimit', (v, p) => this.integer(v, p, 0, 10000));
+        optional('rtcRegion', (v, p) => this.string(v, p, false), true);
+        optional('videoQualityMode', (v, p) => this.integer(v, p, 1, 2), true);
+        optional('defaultReactionEmoji', (v, p) => this.emoji(v, p), true);
+        optional('defaultSortOrder', (v, p) => this.integer(v, p, 0, 1), true);
+        optional('defaultForumLayout', (v, p) => this.integer(v, p, 0, 2));
+        optional('availableTags', (v, p) => {
+            if (!this.isArray(v, p)) return;
+            v.forEach((tag, index) => {
+                const at = `${p}[${index}]`;
+                if (!this.isObject(tag, at)) return;
+                this.string(tag.name, `${at}.name`, false);
+                this.boolean(tag.moderated, `${at}.moderated`);
+                if (tag.emoji !== null) this.emoji(tag.emoji, `${at}.emoji`);
+            });
+        });
+    }
+
+    emoji(value: unknown, path: string): void {
+        if (!this.isObject(value, path)) return;
+        if (value.key !== undefined) this.string(value.key, `${path}.key`, false);
+        if (value.id !== null) this.string(value.id, `${path}.id`, false);
+        if (value.name !== null) this.string(value.name, `${path}.name`, false);
+        if (value.id === null && value.name === null) {
+            this.report(path, 'either id or name must be set');
+        }
+    }
+
+    channelReference(value: unknown, path: string, channelKeys: Set<string>): void {
+        if (value === null) return;
+        this.string(value, path, false);
+        if (typeof value === 'string' && value.length > 0 && !channelKeys.has(value)) {
+            this.report(path, `unknown channel key "${value}"`);
+        }
+    }
+
+    image(value: unknown, path: string): void {
+        if (value === null) return;
+        if (typeof value !== 'string' || !/^data:image\/(png|jpeg|gif|webp);base64,/.test(value)) {
+            this.report(path, 'expected a base64 image data URI');
+        }
+    }
+
+    settings(value: unknown, path: string, channelKeys: Set<string>): void {
+        if (!this.isObject(value, path)) return;
+
+        const optional = (field: string, check: (value: unknown, path: string) => void) => {
+            if (value[field] !== undefined) check(value[field], `${path}.${field}`);
+        };
+
+        optional('verificationLevel', (v, p) => this.integer(v, p, 0, 4));
+        optional('explicitContentFilter', (v, p) => this.integer(v, p, 0, 2));
+        optional('defaultMessageNotifications', (v, p) => this.integer(v, p, 0, 1));
+        optional('afkChannel', (v, p) => this.channelReference(v, p, channelKeys));
+        optional('afkTimeout', (v, p) => {
+            if (![60, 300, 900, 1800, 3600].includes(v as number)) {
+                this.report(p, `unknown AFK timeout ${JSON.stringify(v)}`);
+            }
+        });
+        optional('systemChannel', (v, p) => this.channelReference(v, p, channelKeys));
+        optional('systemChannelFlags', (v, p) => this.integer(v, p, 0));
+        optional('rulesChannel', (v, p) => this.channelReference(v, p, channelKeys));
+        optional('publicUpdatesChannel', (v, p) => this.channelReference(v, p, channelKeys));
+        optional('preferredLocale', (v, p) => this.string(v, p, false));
+        optional('icon', (v, p) => this.image(v, p));
+        optional('banner', (v, p) => this.image(v, p));
+        optional('splash', (v, p) => this.image(v, p));
+        optional('welcomeScreen', (v, p) => {
+            if (v === null || !this.isObject(v, p)) return;
+            this.boolean(v.enabled, `${p}.enabled`);
+            if (v.description !== null) this.string(v.description, `${p}.description`);
+            if (!this.isArray(v.channels, `${p}.channels`)) return;
+            v.channels.forEach((channel, index) => {
+                const at = `${p}.channels[${index}]`;
+                if (!this.isObject(channel, at)) return;
+                this.channelReference(channel.channel, `${at}.channel`, channelKeys);
+                this.string(channel.description, `${at}.description`);
+                if (channel.emoji !== null) this.emoji(channel.emoji, `${at}.emoji`);
+            });
+        });
+    }
+
+    customEmoji(value: unknown, path: string, keys: Set<string>): void {
+        if (!this.isObject(value, path)) return;
+
+        this.key(value.key, `${path}.key`, keys);
+        this.string(value.name, `${path}.name`, false);
+        if (typeof value.name === 'string' && !/^\w{2,32}$/.test(value.name)) {
+            this.report(`${path}.name`, 'must be 2 to 32 letters, digits or underscores');
+        }
+        this.boolean(value.animated, `${path}.animated`);
+        this.image(value.image, `${path}.image`);
+        if (this.isArray(value.roles, `${path}.roles`)) {
+            value.roles.forEach((role, index) => this.string(role, `${path}.roles[${index}]`, false));
+        }
+    }
+
+    sticker(value: unknown, path: string, keys: Set<string>): void {
+        if (!this.isObject(value, path)) return;
+
+        this.key(value.key, `${path}.key`, keys);
+        this.string(value.name, `${path}.name`, false);
+        if (value.description !== null) this.string(value.description, `${path}.description`);
+        this.string(value.tags, `${path}.tags`, false);
+        this.integer(value.format, `${path}.format`, 1, 4);
+        this.image(value.image, `${path}.image`);
+    }
+
+    member(value: unknown, path: string, ids: Set<string>): void {
+        if (!this.isObject(value, path)) return;
+
+        if (typeof value.id !== 'string' || !/^\d{17,20}$/.test(value.id)) {
+            this.report(`${path}.id`, 'must be a user ID');
+        } else if (ids.has(value.id)) {
+            this.report(`${path}.id`, `duplicate member "${value.id}"`);
+        } else {
+            ids.add(value.id);
+        }
+        if (this.isArray(value.roles, `${path}.roles`)) {
+            value.roles.forEach((role, index) => this.string(role, `${path}.roles[${index}]`, false));
+        }
+        if (value.nickname !== undefined && value.nickname !== null) {
+            this.string(value.nickname, `${path}.nickname`, false);
+            if (typeof value.nickname === 'string' && value.nickname.length > 32) {
+                this.report(`${path}.nickname`, 'must be at most 32 characters');
+            }
+        }
+    }
+
+    role(value: unknown, path: string, keys: Set<string>): void {
+        if (!this.isObject(value, path)) return;
+
+        this.key(value.key, `${path}.key`, keys);
+        this.string(value.name, `${path}.name`, false);
+        this.placeholders(value.name, `${path}.name`);
+        this.condition(value.when, `${path}.when`);
+        if (this.variableTypes && typeof value.color === 'string') {
+            this.colorPlaceholder(value.color, `${path}.color`);
+        } else {
+            this.integer(value.color, `${path}.color`, 0, 0xffffff);
+        }
+        this.boolean(value.hoist, `${path}.hoist`);
+        this.integer(value.position, `${path}.position`, 0);
+        this.permissions(value.permissions, `${path}.permissions`);
+        this.boolean(value.mentionable, `${path}.mentionable`);
+    }
+
+    category(value: unknown, path: string, keys: Set<string>, channelKeys: Set<string>): void {
+        if (!this.isObject(value, path)) return;
+
+        this.key(value.key, `${path}.key`, keys);
+        this.string(value.name, `${path}.name`, false);
+        this.placeholders(value.name, `${path}.name`);
+        this.condition(value.when, `${path}.when`);
+        this.integer(value.position, `${path}.position`, 0);
+        this.overwrites(value.permissionOverwrites, `${path}.permissionOverwrites`);
+        if (this.isArray(value.channels, `${path}.channels`)) {
+            value.channels.forEach((channel, index) => this.channel(channel, `${path}.channels[${index}]`, channelKeys));
+        }
+    }
+
+    template(value: unknown): void {
+        if (!this.isObject(value, '')) return;
+
+        if (value.schemaVersion !== TEMPLATE_SCHEMA_VERSION) {
+            this.report('schemaVersion', `expected ${TEMPLATE_SCHEMA_VERSION}, got ${JSON.stringify(value.schemaVersion)}`);
+        }
+        if (value.variables !== undefined) {
+            this.variables(value.variables, 'variables');
+        }
+
+        this.string(value.name, 'name');
+        this.placeholders(value.name, 'name');
+        this.string(value.exportedAt, 'exportedAt');
+
+        const roleKeys = new Set<string>();
+        if (this.isArray(value.roles, 'roles')) {
+            value.roles.forEach((role, index) => this.role(role, `roles[${index}]`, roleKeys));
+        }
+
+        const categoryKeys = new Set<string>();
+        const channelKeys = new Set<string>();
+        if (this.isArray(value.categories, 'categories')) {
+            value.categories.forEach((category, index) => this.category(category, `categories[${index}]`, categoryKeys, channelKeys));
+        }
+
+        if (this.isArray(value.uncategorizedChannels, 'uncategorizedChannels')) {
+            value.uncategorizedChannels.forEach((channel, index) => this.channel(channel, `uncategorizedChannels[${index}]`, channelKeys));
+        }
+
+        const emojiKeys = new Set<string>();
+        if (value.emojis !== undefined && this.isArray(value.emojis, 'emojis')) {
+            value.emojis.forEach((emoji, index) => this.customEmoji(emoji, `emojis[${index}]`, emojiKeys));
+        }
+
+        const stickerKeys = new Set<string>();
+        if (value.stickers !== undefined && this.isArray(value.stickers, 'stickers')) {
+            value.stickers.forEach((sticker, index) => this.sticker(sticker, `stickers[${index}]`, stickerKeys));
+        }
+
+        if (value.members !== undefined && this.isArray(value.members, 'members')) {
+            const memberIds = new Set<string>();
+            value.members.forEach((member, index) => this.member(member, `members[${index}]`, memberIds));
+        }
+
+        if (value.settings !== undefined) {
+            this.settings(value.settings, 'settings', channelKeys);
+        }
+
+        if (value.partial !== undefined) {
+            this.partial(value.partial, 'partial', roleKeys);
+        }
+    }
+
+    variables(value: unknown, path: string): void {
+        if (!this.isArray(value, path)) return;
+
+        const types = new Map<string, TemplateVariableType>();
+        value.forEach((variable, index) => {
+            const at = `${path}[${index}]`;
+            if (!this.isObject(variable, at)) return;
+
+            if (typeof variable.name !== 'string' || !/^\w+$/.test(variable.name)) {
+                this.report(`${at}.name`, 'must be letters, digits or underscores');
+            } else if (types.has(variable.name)) {
+                this.report(`${at}.name`, `duplicate variable "${variable.name}"`);
+            }
+
+            if (!VARIABLE_TYPES.includes(variable.type as TemplateVariableType)) {
+                this.report(`${at}.type`, `unknown variable type ${JSON.stringify(variable.type)}`);
+                return;
+            }
+            if (variable.description !== undefined) this.string(variable.description, `${at}.description`);
+            if (variable.default !== undefined) {
+                if (variable.type === 'boolean') {
+                    this.boolean(variable.default, `${at}.default`);
+                } else {
+                    this.string(variable.default, `${at}.default`);
+                }
+            }
+
+            if (typeof variable.name === 'string') types.set(variable.name, variable.type as TemplateVariableType);
+        });
+
+        this.variableTypes = types;
+    }
+
+    placeholders(value: unknown, path: string): void {
+        if (!this.variableTypes || typeof value !== 'string') return;
+
+        for (const [, name] of value.matchAll(PLACEHOLDER_PATTERN)) {
+            if (!this.variableTypes.has(name)) {
+                this.report(path, `unknown variable "${name}"`);
+            }
+        }
+    }
+
+    colorPlaceholder(value: string, path: string): void {
+        const match = /^\{\{\s*(\w+)\s*\}\}$/.exec(value);
+        if (!match) {
+            this.report(path, 'expected an integer or a single {{variable}} placeholder');
+        } else if (this.variableTypes?.get(match[1]) !== 'color') {
+            this.report(path, `"${match[1]}" is not a declared color variable`);
+        }
+    }
+
+    condition(value: unknown, path: string): void {
+        if (value === undefined) return;
+
+        if (typeof value !== 'string' || !/^!?\w+$/.test(value)) {
+            this.report(path, 'expected a variable name, optionally prefixed with !');
+        } else if (this.variableTypes?.get(value.replace(/^!/, '')) !== 'boolean') {
+            this.report(path, `"${value.replace(/^!/, '')}" is not a declared boolean variable`);
+        }
+    }
+
+    overlayChanges(value: unknown, path: string, validateItem: (item: unknown, path: string, keys: Set<string>) => void): void {
+        if (!this.isObject(value, path)) return;
+
+        if (value.add !== undefined && this.isArray(value.add, `${path}.add`)) {
+            const keys = new Set<string>();
+            value.add.forEach((item, index) => validateItem(item, `${path}.add[${index}]`, keys));
+        }
+
+        if (value.modify !== undefined && this.isArray(value.modify, `${path}.modify`)) {
+            const keys = new Set<string>();
+            value.modify.forEach((item, index) => {
+                const at = `${path}.modify[${index}]`;
+                if (this.isObject(item, at)) this.key(item.key, `${at}.key`, keys);
+            });
+        }
+
+        if (value.remove !== undefined && this.isArray(value.remove, `${path}.remove`)) {
+            const keys = new Set<string>();
+            value.remove.forEach((key, index) => this.key(key, `${path}.remove[${index}]`, keys));
+        }
+    }
+
+    overlay(value: unknown): void {
+        if (!this.isObject(value, '')) return;
+
+        if (value.schemaVersion !== TEMPLATE_SCHEMA_VERSION) {
+            this.report('schemaVersion', `expected ${TEMPLATE_SCHEMA_VERSION}, got ${JSON.stringify(value.schemaVersion)}`);
+        }
+        this.string(value.extends, 'extends', false);
+        if (value.name !== undefined) this.string(value.name, 'name', false);
+        if (value.settings !== undefined) this.isObject(value.settings, 'settings');
+
+        if (value.roles !== undefined) {
+            this.overlayChanges(value.roles, 'roles', (item, path, keys) => this.role(item, path, keys));
+        }
+        if (value.categories !== undefined) {
+            this.overlayChanges(value.categories, 'categories', (item, path, keys) => {
+                if (!this.isObject(item, path)) return;
+                this.key(item.key, `${path}.key`, keys);
+                this.string(item.name, `${path}.name`, false);
+                this.integer(item.position, `${path}.position`, 0);
+                this.overwrites(item.permissionOverwrites, `${path}.permissionOverwrites`);
+            });
+        }
+        if (value.channels !== undefined) {
+            this.overlayChanges(value.channels, 'channels', (item, path, keys) => {
+                this.channel(item, path, keys);
+                if (this.isObject(item, path) && item.parent !== null) this.string(item.parent, `${path}.parent`, false);
+            });
+        }
+    }
+
+    partial(value: unknown, path: string, roleKeys: Set<string>): void {
+        if (!this.isObject(value, path)) return;
+
+        if (this.isArray(value.sections, `${path}.sections`)) {
+            value.sections.forEach((section, index) => {
+                if (!TEMPLATE_SECTIONS.includes(section as TemplateSection)) {
+                    this.report(`${path}.sections[${index}]`, `unknown section ${JSON.stringify(section)}`);
+                }
+            });
+        }
+
+        if (this.isArray(value.roleReferences, `${path}.roleReferences`)) {
+            const keys = new Set(roleKeys);
+            value.roleReferences.forEach((reference, index) => {
+                const at = `${path}.roleReferences[${index}]`;
+                if (!this.isObject(reference, at)) return;
+
+                this.key(reference.key, `${at}.key`, keys);
+                this.string(reference.name, `${at}.name`, false);
+            });
+        }
+    }
+}
+
+/**
+ * Validates a template against the current schema version
+ * @param {unknown} data - The parsed template to validate
+ * @returns {TemplateIssue[]} Every issue found, or an empty array if the template is valid
+ */
+export function validateTemplate(data: unknown): TemplateIssue[] {
+    const validator = new TemplateValidator();
+    validator.template(data);
+    return validator.issues;
+}
+
+/**
+ * Validates a template and narrows its type
+ * @param {unknown} data - The parsed template to validate
+ * @throws {TemplateValidationError} If the template is invalid
+ */
+export function assertValidTemplate(data: unknown): asserts data is ServerTemplate {
+    const issues = validateTemplate(data);
+    if (issues.length > 0) {
+        throw new TemplateValidationError(issues);
+    }
+}
+
+/**
+ * Validates a template overlay. Only the overlay's own structure is checked;
+ * the template it produces is validated once it has been applied to its base.
+ * @param {unknown} data - The parsed overlay to validate
+ * @returns {TemplateIssue[]} Every issue found; empty if the overlay is valid
+ */
+export function validateOverlay(data: unknown): TemplateIssue[] {
+    const validator = new TemplateValidator();
+    validator.overlay(data);
+    return validator.issues;
+}
+
+/**
+ * Validates a template overlay and narrows its type
+ * @param {unknown} data - The parsed overlay to validate
+ * @throws {TemplateValidationError} If the overlay is invalid
+ */
+export function assertValidOverlay(data: unknown): asserts data is TemplateOverlay {
+    const issues = validateOverlay(data);
+    if (issues.length > 0) {
+        throw new TemplateValidationError(issues);
+    }
+}
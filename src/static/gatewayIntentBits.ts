@@ -10,3 +10,12 @@ export const gatewayIntentBits = [
     GatewayIntentBits.GuildMessages,
     GatewayIntentBits.MessageContent,
 ] as const;
+
+/**
+ * Gateway Intents needed to back up and restore member roles, requested only when
+ * MEMBER_ROLE_BACKUPS is true. Guild Members is privileged, so it must also be
+ * enabled for the bot in the Discord developer portal.
+ */
+export const memberIntentBits = [
+    GatewayIntentBits.GuildMembers,
+] as const;
@@ -1,5 +1,7 @@
 import { 
+    AutocompleteInteraction, 
     ChatInputCommandInteraction, 
+    MessageComponentInteraction, 
     SlashCommandBuilder 
 } from 'discord.js';
 
@@ -22,4 +24,19 @@ export abstract class BaseCommand {
      * @returns {Promise<void>}
      */
     abstract execute(interaction: ChatInputCommandInteraction): Promise<void>;
+
+    /**
+     * Handles a button or other message component created by this command.
+     * Components are routed to the command named by the first `:`-separated part of their custom ID.
+     * @param {MessageComponentInteraction} interaction - The component interaction
+     * @returns {Promise<void>}
+     */
+    handleComponent?(interaction: MessageComponentInteraction): Promise<void>;
+
+    /**
+     * Suggests values for the option the user is typing, for options with autocomplete enabled.
+     * @param {AutocompleteInteraction} interaction - The autocomplete interaction
+     * @returns {Promise<void>}
+     */
+    autocomplete?(interaction: AutocompleteInteraction): Promise<void>;
 } 
\ No newline at end of file
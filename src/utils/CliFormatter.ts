@@ -0,0 +1,247 @@
+import chalk from 'chalk';
+import {
+    ChannelType,
+    OverwriteType,
+    PermissionsBitField
+} from 'discord.js';
+
+import { formatIssue, TemplateIssue } from '../schema/validateTemplate';
+import {
+    ServerTemplate,
+    TemplateChannel,
+    TemplatePermissionOverwrite
+} from '../schema/ServerTemplate';
+import {
+    countActions,
+    ImportPlan,
+    PermissionChange,
+    PlanAction,
+    PlanEntry
+} from '../helpers/planFunctions';
+import {
+    AuditFinding,
+    AuditSeverity,
+    countSeverities
+} from '../helpers/auditFunctions';
+
+/** Marker and color of each plan action in diffs */
+const ACTION_STYLES: Record<PlanAction, { marker: string; color: chalk.Chalk }> = {
+    create: { marker: '+', color: chalk.green },
+    update: { marker: '~', color: chalk.yellow },
+    delete: { marker: '-', color: chalk.red },
+    keep: { marker: ' ', color: chalk.gray },
+};
+
+/** Color of each audit severity */
+const SEVERITY_COLORS: Record<AuditSeverity, chalk.Chalk> = {
+    error: chalk.red,
+    warning: chalk.yellow,
+    info: chalk.cyan,
+};
+
+/** Formats templates, diffs and validation results for the terminal */
+export class CliFormatter {
+    /**
+     * Lists the names of the permissions in a bitfield
+     * @param {string} bits - The permissions bitfield as a decimal string
+     * @returns {string[]} The permission names
+     * @private
+     */
+    private static permissions(bits: string): string[] {
+        return new PermissionsBitField(BigInt(bits)).toArray();
+    }
+
+    /**
+     * Formats a role's name as a mention, without doubling the @ of @everyone
+     * @param {string} name - The role name
+     * @returns {string} The mention
+     * @private
+     */
+    private static roleName(name: string): string {
+        return name.startsWith('@') ? name : `@${name}`;
+    }
+
+    /**
+     * Formats a channel's name with a marker for its type
+     * @param {TemplateChannel} channel - The channel
+     * @returns {string} The channel name
+     * @private
+     */
+    private static channelName(channel: TemplateChannel): string {
+        switch (channel.type) {
+            case ChannelType.GuildText: return `#${channel.name}`;
+            case ChannelType.GuildAnnouncement: return `#${channel.name} ${chalk.gray('(announcement)')}`;
+            case ChannelType.GuildVoice: return `${channel.name} ${chalk.gray('(voice)')}`;
+            case ChannelType.GuildStageVoice: return `${channel.name} ${chalk.gray('(stage)')}`;
+            case ChannelType.GuildForum: return `${channel.name} ${chalk.gray('(forum)')}`;
+            case ChannelType.GuildMedia: return `${channel.name} ${chalk.gray('(media)')}`;
+            default: return `${channel.name} ${chalk.gray(`(type ${channel.type})`)}`;
+        }
+    }
+
+    /**
+     * Formats the permission overwrites of a category or channel, one per line
+     * @param {TemplatePermissionOverwrite[]} overwrites - The overwrites
+     * @param {Map<string, string>} roleNames - Role names by key
+     * @param {string} indent - Prefix of every line
+     * @returns {string[]} The lines
+     * @private
+     */
+    private static overwrites(overwrites: TemplatePermissionOverwrite[], roleNames: Map<string, string>, indent: string): string[] {
+        return overwrites.map(overwrite => {
+            const target = overwrite.type === OverwriteType.Role
+                ? CliFormatter.roleName(roleNames.get(overwrite.id) ?? overwrite.id)
+                : `member ${overwrite.id}`;
+            const allow = CliFormatter.permissions(overwrite.allow);
+            const deny = CliFormatter.permissions(overwrite.deny);
+            const parts = [
+                ...(allow.length > 0 ? [chalk.green(`allow ${allow.join(', ')}`)] : []),
+                ...(deny.length > 0 ? [chalk.red(`deny ${deny.join(', ')}`)] : []),
+            ];
+            return `${indent}${chalk.gray('↳')} ${target}: ${parts.join('; ') || chalk.gray('no changes')}`;
+        });
+    }
+
+    /**
+     * Formats a template as a tree of roles, categories and channels
+     * @param {ServerTemplate} template - The template to print
+     * @param {boolean} [showOverwrites] - Whether to list the permission overwrites of categories and channels
+     * @returns {string} The tree
+     */
+    static tree(template: ServerTemplate, showOverwrites = false): string {
+        const roleNames = new Map(template.roles.map(role => [role.key, role.name]));
+        const byPosition = <T extends { position: number }>(items: T[]) => [...items].sort((a, b) => a.position - b.position);
+        const lines = [chalk.bold(template.name)];
+
+        if (template.partial) {
+            lines.push(chalk.gray(`partial template: ${template.partial.sections.join(', ')}`));
+        }
+
+        lines.push('', chalk.bold(`Roles (${template.roles.length})`));
+        for (const role of byPosition(template.roles).reverse()) {
+            const details = [
+                role.key,
+                `#${role.color.toString(16).padStart(6, '0')}`,
+                ...(role.hoist ? ['hoisted'] : []),
+                ...(role.mentionable ? ['mentionable'] : []),
+                `${CliFormatter.permissions(role.permissions).length} permission(s)`,
+            ];
+            lines.push(`  ${CliFormatter.roleName(role.name)} ${chalk.gray(`(${details.join(', ')})`)}`);
+        }
+
+        const channelCount = template.uncategorizedChannels.length +
+            template.categories.reduce((count, category) => count + category.channels.length, 0);
+        lines.push('', chalk.bold(`Channels (${template.categories.length} categories, ${channelCount} channels)`));
+
+        for (const channel of byPosition(template.uncategorizedChannels)) {
+            lines.push(`  ${CliFormatter.channelName(channel)}`);
+            if (showOverwrites) lines.push(...CliFormatter.overwrites(channel.permissionOverwrites, roleNames, '    '));
+        }
+
+        for (const category of byPosition(template.categories)) {
+            lines.push(`  ${chalk.bold(category.name.toUpperCase())}`);
+            if (showOverwrites) lines.push(...CliFormatter.overwrites(category.permissionOverwrites, roleNames, '    '));
+
+            const channels = byPosition(category.channels);
+            channels.forEach((channel, index) => {
+                const last = index === channels.length - 1;
+                lines.push(`  ${last ? '└─' : '├─'} ${CliFormatter.channelName(channel)}`);
+                if (showOverwrites) {
+                    lines.push(...CliFormatter.overwrites(channel.permissionOverwrites, roleNames, last ? '       ' : '  │    '));
+                }
+            });
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Formats a permission overwrite change of a diff
+     * @param {PermissionChange} change - The change
+     * @returns {string} The formatted change
+     * @private
+     */
+    private static permissionChange(change: PermissionChange): string {
+        const target = change.type === OverwriteType.Role ? CliFormatter.roleName(change.id) : `member ${change.id}`;
+        const parts = [
+            ...change.allowAdded.map(name => chalk.green(`+allow ${name}`)),
+            ...change.allowRemoved.map(name => chalk.red(`-allow ${name}`)),
+            ...change.denyAdded.map(name => chalk.green(`+deny ${name}`)),
+            ...change.denyRemoved.map(name => chalk.red(`-deny ${name}`)),
+        ];
+        return `      ${change.action} overwrite for ${target}: ${parts.join(' ')}`;
+    }
+
+    /**
+     * Formats the differences between two templates
+     * @param {ImportPlan} plan - The plan that turns the first template into the second
+     * @returns {string} The diff, or a note that the templates are equivalent
+     */
+    static diff(plan: ImportPlan): string {
+        const entries = [...plan.roles, ...plan.categories, ...plan.channels].filter(entry => entry.action !== 'keep');
+        if (entries.length === 0) {
+            return chalk.green('The templates are equivalent.');
+        }
+
+        const describe = (entry: PlanEntry) => {
+            const { marker, color } = ACTION_STYLES[entry.action];
+            const changes = entry.changes.filter(change => change !== 'permissionOverwrites');
+            const details = entry.action === 'update' && changes.length > 0 ? chalk.gray(` (${changes.join(', ')})`) : '';
+            return [
+                color(`  ${marker} ${entry.kind} ${entry.name}`) + details,
+                ...entry.permissionChanges.map(change => CliFormatter.permissionChange(change)),
+            ];
+        };
+
+        const summary = (label: string, items: PlanEntry[]) => {
+            const counts = countActions(items);
+            return `${label}: ${counts.create} added, ${counts.update} changed, ${counts.delete} removed`;
+        };
+
+        return [
+            summary('Roles', plan.roles),
+            summary('Categories', plan.categories),
+            summary('Channels', plan.channels),
+            '',
+            ...entries.flatMap(describe),
+        ].join('\n');
+    }
+
+    /**
+     * Formats the result of validating a file
+     * @param {string} file - The path of the file
+     * @param {TemplateIssue[]} issues - The issues found; empty if the file is valid
+     * @returns {string} The result
+     */
+    static validation(file: string, issues: TemplateIssue[]): string {
+        if (issues.length === 0) {
+            return `${chalk.green('✔')} ${file}`;
+        }
+
+        return [
+            `${chalk.red('✖')} ${file} (${issues.length} problem(s))`,
+            ...issues.map(issue => `    ${formatIssue(issue)}`),
+        ].join('\n');
+    }
+
+    /**
+     * Formats the findings of auditing a file
+     * @param {string} file - The path of the file
+     * @param {AuditFinding[]} findings - The findings that were not suppressed
+     * @returns {string} The result
+     */
+    static audit(file: string, findings: AuditFinding[]): string {
+        if (findings.length === 0) {
+            return `${chalk.green('✔')} ${file}`;
+        }
+
+        const counts = countSeverities(findings);
+        const marker = counts.error > 0 ? chalk.red('✖') : chalk.yellow('!');
+        return [
+            `${marker} ${file} (${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} note(s))`,
+            ...findings.map(finding =>
+                `    ${SEVERITY_COLORS[finding.severity](finding.severity.padEnd(7))} ${finding.kind} ${finding.key}: ${finding.message} ${chalk.gray(finding.rule)}`
+            ),
+        ].join('\n');
+    }
+}
@@ -0,0 +1,249 @@
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    ChatInputCommandInteraction,
+    Message,
+    MessageComponentInteraction
+} from 'discord.js';
+
+/**
+ * What to ask for confirmation of, and what to do once it is given
+ * @interface ConfirmationRequest
+ */
+export interface ConfirmationRequest {
+    /** Summary of what will happen, shown above the buttons */
+    content: string;
+    /** Whether the guild owner must approve as well, after the invoking user confirmed */
+    requireOwner: boolean;
+    /**
+     * Runs the confirmed action with the invoking user's Confirm interaction, also when the owner
+     * approved it, so the action is attributed to the invoking user and reports on their reply.
+     * The reply has already been updated and its buttons removed. Errors are only logged
+     */
+    run: (interaction: MessageComponentInteraction) => Promise<void>;
+}
+
+/**
+ * A confirmation that is waiting for a button press
+ * @interface PendingConfirmation
+ */
+interface PendingConfirmation {
+    request: ConfirmationRequest;
+    /** The command interaction whose reply holds the Confirm/Cancel buttons */
+    interaction: ChatInputCommandInteraction;
+    /** The invoking user's Confirm interaction and the message asking the owner for approval, sent as its follow-up */
+    ownerMessage: { interaction: MessageComponentInteraction; message: Message } | null;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Asks for confirmation with Confirm/Cancel buttons before a destructive action runs.
+ * Only the invoking user can confirm; when the guild owner's approval is required,
+ * the owner is asked in the channel afterwards. Button custom IDs have the form
+ * `<prefix>:<action>:<interaction ID>`, so the bot routes them to the command named by the prefix.
+ * @class ConfirmationGate
+ */
+export class ConfirmationGate {
+    private prefix: string;
+    private timeout: number;
+    private pending: Map<string, PendingConfirmation> = new Map();
+
+    /**
+     * Creates an instance of ConfirmationGate
+     * @param {string} prefix - The name of the command that owns the buttons
+     * @param {number} [timeout] - Milliseconds each confirmation step waits before it expires
+     */
+    constructor(prefix: string, timeout = 120_000) {
+        this.prefix = prefix;
+        this.timeout = timeout;
+    }
+
+    /**
+     * Replies to a deferred command interaction with the summary and Confirm/Cancel buttons
+     * @param {ChatInputCommandInteraction} interaction - The deferred command interaction
+     * @param {ConfirmationRequest} request - What to confirm
+     * @returns {Promise<void>}
+     */
+    async request(interaction: ChatInputCommandInteraction, request: ConfirmationRequest): Promise<void> {
+        const id = interaction.id;
+        this.pending.set(id, {
+            request: request,
+            interaction: interaction,
+            ownerMessage: null,
+            timer: setTimeout(() => this.expire(id), this.timeout)
+        });
+
+        const expires = Math.floor((Date.now() + this.timeout) / 1000);
+        await interaction.editReply({
+            content: `${request.content}\n\nThis request expires <t:${expires}:R>.`,
+            components: [this.buttons(id, 'confirm', 'Confirm')]
+        });
+    }
+
+    /**
+     * Handles a press of one of the gate's buttons. A confirmed action is started but not
+     * awaited, as it may outlive the button interaction and its token. When the owner approves,
+     * the action still runs on the invoking user's Confirm interaction, so its progress stays
+     * on the invoking user's reply instead of the owner's message in the channel.
+     * @param {MessageComponentInteraction} interaction - The button interaction
+     * @returns {Promise<void>}
+     */
+    async handle(interaction: MessageComponentInteraction): Promise<void> {
+        const [, action, id] = interaction.customId.split(':');
+        const pending = this.pending.get(id);
+        if (!pending) {
+            await interaction.reply({ content: 'This confirmation has expired, nothing was changed.', ephemeral: true });
+            return;
+        }
+
+        const userId = pending.interaction.user.id;
+        const ownerId = interaction.guild?.ownerId;
+        const isInvoker = interaction.user.id === userId;
+        const isOwner = interaction.user.id === ownerId;
+
+        if (action === 'cancel') {
+            if (!isInvoker && !isOwner) {
+                await interaction.reply({ content: `Only <@${userId}> or the server owner can cancel this.`, ephemeral: true });
+                return;
+            }
+
+            this.close(id);
+            await interaction.update({ content: `Cancelled by ${interaction.user}, nothing was changed.`, components: [] });
+            if (interaction.message.id !== pending.ownerMessage?.message.id) {
+                await this.editOwnerMessage(pending, 'This request was cancelled.');
+            } else {
+                await pending.interaction.editReply({ content: `Cancelled by ${interaction.user}, nothing was changed.`, components: [] }).catch(console.error);
+            }
+            return;
+        }
+
+        if (action === 'confirm') {
+            if (!isInvoker) {
+                await interaction.reply({ content: `Only <@${userId}> can confirm this.`, ephemeral: true });
+                return;
+            }
+
+            if (pending.request.requireOwner && !isOwner && ownerId) {
+                await this.askOwner(interaction, pending, ownerId);
+                return;
+            }
+        } else if (action === 'approve') {
+            if (!isOwner) {
+                await interaction.reply({ content: 'Only the server owner can approve this.', ephemeral: true });
+                return;
+            }
+
+            const confirmed = pending.ownerMessage?.interaction;
+            if (!confirmed) return;
+
+            this.close(id);
+            await interaction.update({ content: `Approved by ${interaction.user}.`, components: [] });
+            await confirmed.editReply({ content: 'Approved by the server owner, starting...', components: [] }).catch(console.error);
+            this.start(pending.request, confirmed);
+            return;
+        } else {
+            return;
+        }
+
+        this.close(id);
+        await interaction.update({ content: 'Confirmed, starting...', components: [] });
+        this.start(pending.request, interaction);
+    }
+
+    /**
+     * Starts a confirmed action without awaiting it
+     * @param {ConfirmationRequest} request - The confirmed request
+     * @param {MessageComponentInteraction} interaction - The invoking user's Confirm interaction
+     * @private
+     */
+    private start(request: ConfirmationRequest, interaction: MessageComponentInteraction): void {
+        request.run(interaction).catch(error => console.error('Error running the confirmed action:', error));
+    }
+
+    /**
+     * Asks the guild owner to approve after the invoking user confirmed
+     * @param {MessageComponentInteraction} interaction - The invoking user's confirm interaction
+     * @param {PendingConfirmation} pending - The pending confirmation
+     * @param {string} ownerId - The ID of the guild owner
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async askOwner(interaction: MessageComponentInteraction, pending: PendingConfirmation, ownerId: string): Promise<void> {
+        const id = pending.interaction.id;
+        clearTimeout(pending.timer);
+        pending.timer = setTimeout(() => this.expire(id), this.timeout);
+
+        await interaction.update({ content: 'Confirmed. Waiting for the server owner to approve...', components: [] });
+        const message = await interaction.followUp({
+            content: `<@${ownerId}>, ${interaction.user} asks for your approval:\n\n${pending.request.content}`,
+            components: [this.buttons(id, 'approve', 'Approve')],
+            allowedMentions: { users: [ownerId] }
+        });
+        pending.ownerMessage = { interaction, message };
+    }
+
+    /**
+     * Replaces the content of the message asking the owner for approval and removes its buttons
+     * @param {PendingConfirmation} pending - The pending confirmation
+     * @param {string} content - The new content
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async editOwnerMessage(pending: PendingConfirmation, content: string): Promise<void> {
+        if (!pending.ownerMessage) return;
+
+        const { interaction, message } = pending.ownerMessage;
+        await interaction.webhook.editMessage(message, { content, components: [] }).catch(console.error);
+    }
+
+    /**
+     * Builds the row with the confirming button and the Cancel button
+     * @param {string} id - The ID of the pending confirmation
+     * @param {string} action - The action of the confirming button
+     * @param {string} label - The label of the confirming button
+     * @returns {ActionRowBuilder<ButtonBuilder>} The button row
+     * @private
+     */
+    private buttons(id: string, action: string, label: string): ActionRowBuilder<ButtonBuilder> {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`${this.prefix}:${action}:${id}`)
+                .setLabel(label)
+                .setStyle(ButtonStyle.Danger),
+            new ButtonBuilder()
+                .setCustomId(`${this.prefix}:cancel:${id}`)
+                .setLabel('Cancel')
+                .setStyle(ButtonStyle.Secondary)
+        );
+    }
+
+    /**
+     * Removes a pending confirmation and stops its timer
+     * @param {string} id - The ID of the pending confirmation
+     * @private
+     */
+    private close(id: string): void {
+        const pending = this.pending.get(id);
+        if (!pending) return;
+
+        clearTimeout(pending.timer);
+        this.pending.delete(id);
+    }
+
+    /**
+     * Expires a pending confirmation that was not answered in time
+     * @param {string} id - The ID of the pending confirmation
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async expire(id: string): Promise<void> {
+        const pending = this.pending.get(id);
+        if (!pending) return;
+
+        this.pending.delete(id);
+        const content = 'The confirmation timed out, nothing was changed.';
+        await pending.interaction.editReply({ content, components: [] }).catch(console.error);
+        await this.editOwnerMessage(pending, content);
+    }
+}
@@ -0,0 +1,261 @@
+import { formatIssue, TemplateValidationError } from '../schema/validateTemplate';
+import { ServerTemplate } from '../schema/ServerTemplate';
+import { ImportReport, ImportSummary } from '../helpers/importFunctions';
+import { TemplateRenderError } from '../helpers/renderFunctions';
+import { TemplateMergeError } from '../helpers/overlayFunctions';
+import { countActions, ImportPlan, PlanEntry } from '../helpers/planFunctions';
+import { ReplayReport } from '../helpers/replayFunctions';
+import { DriftEntry, DriftReport } from '../helpers/driftFunctions';
+import { AuditFinding, countSeverities } from '../helpers/auditFunctions';
+import { TaskProgress } from './TaskScheduler';
+
+/** Maximum length of a Discord message */
+const MESSAGE_LIMIT = 2000;
+
+/** Formats command results into replies that fit into a single Discord message */
+export class MessageFormatter {
+    /**
+     * Appends a list of lines to a message, stopping before it exceeds Discord's message length limit
+     * @param {string} content - The message to start with
+     * @param {string[]} lines - The lines to append
+     * @param {number} [limit] - The maximum length of the message, defaults to Discord's limit
+     * @returns {string} The message with as many lines as fit, followed by a count of the omitted ones
+     */
+    static appendLines(content: string, lines: string[], limit = MESSAGE_LIMIT): string {
+        for (const [index, line] of lines.entries()) {
+            const remaining = `\n...and ${lines.length - index} more`;
+            if (content.length + line.length + remaining.length + 1 > limit) {
+                return content + remaining;
+            }
+            content += `\n${line}`;
+        }
+
+        return content;
+    }
+
+    /**
+     * Appends everything an import could not apply to a message
+     * @param {string} message - The message to start with
+     * @param {ImportReport} report - The report returned by the import
+     * @returns {string} The message, trimmed to fit into a single Discord message
+     */
+    static importReport(message: string, report: ImportReport): string {
+        const { unresolvedOverwrites, unappliedSettings, skippedExpressions, failedSteps } = report;
+        const lines: string[] = [];
+
+        if (failedSteps.length > 0) {
+            lines.push('', `${failedSteps.length} step(s) failed:`);
+            lines.push(...failedSteps.map(entry => `- ${entry.label}: ${entry.reason}`));
+        }
+
+        if (unresolvedOverwrites.length > 0) {
+            lines.push('', `${unresolvedOverwrites.length} permission overwrite(s) could not be applied:`);
+            lines.push(...unresolvedOverwrites.map(entry =>
+                `- \`${entry.target}\`: ${entry.type === 1 ? 'member' : 'role'} \`${entry.id}\` (${entry.reason})`
+            ));
+        }
+
+        if (unappliedSettings.length > 0) {
+            lines.push('', `${unappliedSettings.length} server setting(s) could not be applied:`);
+            lines.push(...unappliedSettings.map(entry => `- \`${entry.setting}\`: ${entry.reason}`));
+        }
+
+        if (skippedExpressions.length > 0) {
+            lines.push('', `${skippedExpressions.length} emoji(s) and sticker(s) could not be created:`);
+            lines.push(...skippedExpressions.map(entry => `- ${entry.kind} \`${entry.name}\`: ${entry.reason}`));
+        }
+
+        if (report.memberRestore) {
+            const { restored, departed, failed } = report.memberRestore;
+            lines.push('', `Roles were restored for ${restored} member(s).`);
+            if (failed.length > 0) {
+                lines.push(`${failed.length} member(s) could not be restored:`);
+                lines.push(...failed.map(entry => `- <@${entry.id}>: ${entry.reason}`));
+            }
+            if (departed.length > 0) {
+                lines.push(`${departed.length} member(s) have left the server:`);
+                lines.push(...departed.map(id => `- <@${id}>`));
+            }
+        }
+
+        return MessageFormatter.appendLines(message, lines);
+    }
+
+    /**
+     * Summarizes a finished replay of archived messages
+     * @param {string} message - The message to start with
+     * @param {ReplayReport} report - The report returned by the replay
+     * @returns {string} The message, trimmed to fit into a single Discord message
+     */
+    static replayReport(message: string, report: ReplayReport): string {
+        const lines = [`${report.replayed} message(s) were replayed.`];
+
+        if (report.linkedAttachments > 0) {
+            lines.push(`${report.linkedAttachments} attachment(s) could not be uploaded again and were linked instead.`);
+        }
+
+        if (report.unmatchedChannels.length > 0) {
+            lines.push('', `No matching channel was found for ${report.unmatchedChannels.length} archived channel(s):`);
+            lines.push(...report.unmatchedChannels.map(name => `- #${name}`));
+        }
+
+        if (report.failedSteps.length > 0) {
+            lines.push('', `${report.failedSteps.length} channel(s) and thread(s) could not be replayed:`);
+            lines.push(...report.failedSteps.map(entry => `- ${entry.label}: ${entry.reason}`));
+        }
+
+        return MessageFormatter.appendLines(message, lines);
+    }
+
+    /**
+     * Describes how a guild differs from its pinned template and what was reverted.
+     * Users are mentioned, so the message should be sent without pinging them.
+     * @param {string} message - The message to start with
+     * @param {DriftReport} report - The drift found
+     * @param {DriftEntry[]} [reverted] - The entries that were reverted before the report was taken
+     * @returns {string} The report, trimmed to fit into a single Discord message
+     */
+    static driftReport(message: string, report: DriftReport, reverted: DriftEntry[] = []): string {
+        const describe = (entry: DriftEntry) => {
+            const change = entry.change === 'missing' ? 'deleted'
+                : entry.change === 'unexpected' ? 'added' : `changed (${entry.changes.join(', ')})`;
+            return `- ${entry.kind} \`${entry.name}\` ${change}${entry.changedBy ? ` by <@${entry.changedBy}>` : ''}`;
+        };
+
+        const lines = [
+            ...(reverted.length > 0 ? ['', `**Reverted (${reverted.length})**`, ...reverted.map(describe)] : []),
+            ...(report.entries.length > 0 ? ['', `**Drift (${report.entries.length})**`, ...report.entries.map(describe)] : []),
+        ];
+
+        const status = report.entries.length > 0
+            ? `The server has drifted from its pinned template (checked <t:${Math.floor(Date.parse(report.checkedAt) / 1000)}:R>).`
+            : 'The server matches its pinned template.';
+        return MessageFormatter.appendLines(`${message}\n${status}`, lines);
+    }
+
+    /**
+     * Lists the findings of an audit, most severe first. The full findings are attached to the reply as JSON.
+     * @param {string} title - What was audited, e.g. "the server"
+     * @param {AuditFinding[]} findings - The findings that were not suppressed
+     * @returns {string} The report, trimmed to fit into a single Discord message
+     */
+    static auditReport(title: string, findings: AuditFinding[]): string {
+        if (findings.length === 0) {
+            return `**Audit of ${title}** - no problems were found.`;
+        }
+
+        const counts = countSeverities(findings);
+        return MessageFormatter.appendLines(
+            `**Audit of ${title}** - ${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} note(s).\n` +
+            'Suppress a rule with `suppress:<rule>`, or for a single item with `suppress:<rule>:<key>`.',
+            findings.map(finding => `- **${finding.severity}** \`${finding.rule}\` ${finding.kind} \`${finding.name}\`: ${finding.message}`)
+        );
+    }
+
+    /**
+     * Summarizes what an import will do, to be confirmed before it runs. Room is left
+     * for the confirmation's own text, such as its expiry and the request for the owner's approval.
+     * @param {string} title - What is about to be run, e.g. "/import mode:replace of `My Server`"
+     * @param {ImportSummary} summary - What the import will delete, create and edit
+     * @param {boolean} requireOwner - Whether the server owner must approve as well
+     * @returns {string} The summary, trimmed to leave room in a single Discord message
+     */
+    static importConfirmation(title: string, summary: ImportSummary, requireOwner: boolean): string {
+        const { deletions, creations, updates } = summary;
+
+        const header = [
+            `**Confirm ${title}**`,
+            `This will delete ${deletions.length}, create ${creations.length} and edit ${updates.length} role(s), categories and channel(s).`,
+            ...(requireOwner ? ['The server owner must approve after you confirm.'] : []),
+        ].join('\n');
+
+        const lines = [
+            ...(deletions.length > 0 ? ['', `**Deleted (${deletions.length})**`, ...deletions.map(item => `- ${item}`)] : []),
+            ...(creations.length > 0 ? ['', `**Created (${creations.length})**`, ...creations.map(item => `- ${item}`)] : []),
+            ...(updates.length > 0 ? ['', `**Edited (${updates.length})**`, ...updates.map(item => `- ${item}`)] : []),
+        ];
+
+        return MessageFormatter.appendLines(header, lines, MESSAGE_LIMIT - 300);
+    }
+
+    /**
+     * Describes the progress of a running import
+     * @param {string} title - What is being done, e.g. "Importing the template"
+     * @param {TaskProgress} progress - The current progress
+     * @returns {string} The progress message, trimmed to fit into a single Discord message
+     */
+    static progress(title: string, progress: TaskProgress): string {
+        const eta = progress.etaSeconds === null
+            ? ''
+            : ` - about ${progress.etaSeconds >= 60 ? `${Math.ceil(progress.etaSeconds / 60)} min` : `${progress.etaSeconds}s`} left`;
+
+        const lines = [
+            ...progress.running.map(label => `- ${label}`),
+            ...(progress.failures.length > 0 ? ['', `**Failed so far (${progress.failures.length})**`] : []),
+            ...progress.failures.map(failure => `- ${failure.label}: ${failure.reason}`),
+        ];
+
+        return MessageFormatter.appendLines(
+            `${title}... ${progress.completed}/${progress.total} steps done${eta}`,
+            lines
+        );
+    }
+
+    /**
+     * Describes why an uploaded template could not be loaded
+     * @param {Error} error - The error thrown while parsing, migrating, validating or rendering the template
+     * @returns {string} A message listing the problems, trimmed to fit into a single Discord message
+     */
+    static templateError(error: Error): string {
+        if (!(error instanceof TemplateValidationError)) {
+            return `The template file could not be read: ${error.message}`;
+        }
+
+        const problem = error instanceof TemplateRenderError
+            ? 'could not be rendered'
+            : error instanceof TemplateMergeError ? 'could not be merged with its base' : 'is invalid';
+        return MessageFormatter.appendLines(
+            `The template file ${problem} (${error.issues.length} problem(s)), nothing was changed:`,
+            error.issues.map(issue => `- \`${formatIssue(issue)}\``)
+        );
+    }
+
+    /**
+     * Summarizes an import plan. A plan lists what syncing the guild with the template would
+     * change, so the summary is labelled as a sync plan. The full plan is attached to the reply as JSON.
+     * @param {ServerTemplate} template - The template the plan was built for
+     * @param {ImportPlan} plan - The plan to summarize
+     * @returns {string} The summary, trimmed to fit into a single Discord message
+     */
+    static plan(template: ServerTemplate, plan: ImportPlan): string {
+        const summarize = (label: string, entries: PlanEntry[]) => {
+            const counts = countActions(entries);
+            return `${label}: ${counts.create} to create, ${counts.update} to update, ${counts.delete} to delete, ${counts.keep} to keep`;
+        };
+
+        const blocked = plan.blocked.map(item =>
+            `- ${item.action} ${item.kind} \`${item.name}\`: ${item.reason}`
+        );
+        const changes = [...plan.roles, ...plan.categories, ...plan.channels]
+            .filter(entry => entry.action !== 'keep')
+            .map(entry => {
+                const details = entry.action === 'update' ? ` (${entry.changes.join(', ')})` : '';
+                return `- ${entry.action} ${entry.kind} \`${entry.name}\`${details}`;
+            });
+
+        const header = [
+            `**Sync plan for \`${template.name}\`** - nothing has been changed.`,
+            'This is what `mode:sync` would change; `mode:replace` deletes everything and recreates it from the template.',
+            summarize('Roles', plan.roles),
+            summarize('Categories', plan.categories),
+            summarize('Channels', plan.channels),
+        ].join('\n');
+
+        const lines = [
+            ...(blocked.length > 0 ? ['', `**Blocked (${blocked.length})**`, ...blocked] : []),
+            ...(changes.length > 0 ? ['', '**Changes**', ...changes] : []),
+        ];
+
+        return MessageFormatter.appendLines(header, lines);
+    }
+}
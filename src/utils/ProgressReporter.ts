@@ -0,0 +1,109 @@
+import { 
+    ChatInputCommandInteraction, 
+    MessageComponentInteraction 
+} from 'discord.js';
+
+import { MessageFormatter } from './MessageFormatter';
+import { TaskProgress } from './TaskScheduler';
+
+/**
+ * The final reply of an operation whose progress was reported
+ * @interface ProgressResult
+ */
+export interface ProgressResult {
+    /** The message */
+    content: string;
+    /** Files to attach */
+    files?: { attachment: string | Buffer; name: string }[];
+}
+
+/**
+ * Streams the progress of a long-running import into an interaction's reply.
+ * Progress is reported far more often than a reply can be edited, so edits are
+ * throttled and only the latest progress is shown.
+ * @class ProgressReporter
+ */
+export class ProgressReporter {
+    private interaction: ChatInputCommandInteraction | MessageComponentInteraction;
+    private title: string;
+    private interval: number;
+    private lastEdit = 0;
+    private latest: TaskProgress | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private pending: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Creates an instance of ProgressReporter
+     * @param {ChatInputCommandInteraction | MessageComponentInteraction} interaction - The deferred or updated interaction whose reply is edited
+     * @param {string} title - What is being done, e.g. "Importing the template"
+     * @param {number} [interval] - Minimum number of milliseconds between edits
+     */
+    constructor(interaction: ChatInputCommandInteraction | MessageComponentInteraction, title: string, interval = 2500) {
+        this.interaction = interaction;
+        this.title = title;
+        this.interval = interval;
+    }
+
+    /**
+     * Records the latest progress and edits the reply once the interval has passed.
+     * @param {TaskProgress} progress - The current progress
+     */
+    update(progress: TaskProgress): void {
+        this.latest = progress;
+        if (this.timer) return;
+
+        const delay = Math.max(0, this.lastEdit + this.interval - Date.now());
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.lastEdit = Date.now();
+            const content = MessageFormatter.progress(this.title, this.latest!);
+            this.pending = this.pending
+                .then(() => this.interaction.editReply({ content }))
+                .catch(error => console.error('Error updating progress message:', error));
+        }, delay);
+    }
+
+    /**
+     * Cancels any scheduled edit and waits for a running one, so the final reply is not overwritten
+     * @returns {Promise<void>}
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.pending;
+    }
+
+    /**
+     * Stops reporting progress and replaces it with the result. Interaction tokens expire after
+     * 15 minutes, so when the reply can no longer be edited the result is sent to the user directly.
+     * @param {ProgressResult} result - The final reply
+     * @returns {Promise<void>}
+     */
+    async finish(result: ProgressResult): Promise<void> {
+        await this.stop();
+        await this.interaction.editReply(result).catch(() => this.sendDirect(result));
+    }
+
+    /**
+     * Sends an ephemeral follow-up after the result, or sends it to the user directly once the token has expired
+     * @param {string} content - The follow-up message
+     * @returns {Promise<void>}
+     */
+    async followUp(content: string): Promise<void> {
+        await this.interaction.followUp({ content, ephemeral: true }).catch(() => this.sendDirect({ content }));
+    }
+
+    /**
+     * Sends a message the interaction can no longer deliver to the user who started the operation
+     * @param {ProgressResult} result - The message
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async sendDirect(result: ProgressResult): Promise<void> {
+        const origin = this.interaction.guild ? ` (${this.interaction.guild.name})` : '';
+        await this.interaction.user.send({ ...result, content: `${this.title}${origin}:\n${result.content}`.slice(0, 2000) })
+            .catch(error => console.error('Error sending the result to the user:', error));
+    }
+}
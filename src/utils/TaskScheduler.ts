@@ -0,0 +1,186 @@
+/**
+ * A unit of work run by the TaskScheduler
+ * @interface ScheduledTask
+ */
+export interface ScheduledTask {
+    /** Unique ID of the task, referenced by dependent tasks */
+    id: string;
+    /** Human-readable description shown in progress updates */
+    label: string;
+    /** IDs of tasks that must have finished, successfully or not, before this one starts */
+    dependsOn?: string[];
+    /** Performs the work */
+    run: () => Promise<void>;
+}
+
+/**
+ * Describes a task that threw an error
+ * @interface TaskFailure
+ */
+export interface TaskFailure {
+    /** The ID of the task */
+    id: string;
+    /** The label of the task */
+    label: string;
+    /** The error message */
+    reason: string;
+}
+
+/**
+ * A snapshot of the scheduler's progress
+ * @interface TaskProgress
+ */
+export interface TaskProgress {
+    /** Number of tasks scheduled */
+    total: number;
+    /** Number of tasks that have finished, including failed ones */
+    completed: number;
+    /** Labels of the tasks that are currently running */
+    running: string[];
+    /** Estimated seconds until all tasks have finished, or null before the first task finishes */
+    etaSeconds: number | null;
+    /** Tasks that have failed so far */
+    failures: TaskFailure[];
+}
+
+/**
+ * Options for a TaskScheduler
+ * @interface TaskSchedulerOptions
+ */
+export interface TaskSchedulerOptions {
+    /** Maximum number of tasks running at the same time (default IMPORT_CONCURRENCY or 4) */
+    concurrency?: number;
+    /** Called whenever a task starts or finishes */
+    onProgress?: (progress: TaskProgress) => void;
+    /** IDs of tasks that already completed in an earlier run and are not run again */
+    completed?: string[];
+    /** Called after a task succeeds, before any task that depends on it starts */
+    onTaskComplete?: (id: string) => Promise<void>;
+}
+
+/**
+ * Runs tasks concurrently while respecting the dependencies between them.
+ * Discord.js already queues requests per rate limit bucket, so the scheduler
+ * only keeps a bounded number of requests in flight and stops starting new
+ * tasks while it is paused, e.g. after a rate limit was hit.
+ * @class TaskScheduler
+ */
+export class TaskScheduler {
+    private concurrency: number;
+    private onProgress?: (progress: TaskProgress) => void;
+    private onTaskComplete?: (id: string) => Promise<void>;
+    private tasks: ScheduledTask[] = [];
+    private finished: Set<string> = new Set();
+    private running: Map<string, Promise<void>> = new Map();
+    private failures: TaskFailure[] = [];
+    private startedAt = 0;
+    /** Number of tasks that had already completed before this run */
+    private skipped = 0;
+    private resumeAt = 0;
+
+    /**
+     * Creates an instance of TaskScheduler
+     * @param {TaskSchedulerOptions} [options] - Options that control the scheduler
+     */
+    constructor(options: TaskSchedulerOptions = {}) {
+        this.concurrency = Math.max(1, options.concurrency ?? (Number(process.env.IMPORT_CONCURRENCY) || 4));
+        this.onProgress = options.onProgress;
+        this.onTaskComplete = options.onTaskComplete;
+        this.finished = new Set(options.completed ?? []);
+    }
+
+    /**
+     * Adds a task to the scheduler
+     * @param {ScheduledTask} task - The task to add
+     * @returns {string} The ID of the task, for use in other tasks' dependencies
+     */
+    add(task: ScheduledTask): string {
+        this.tasks.push(task);
+        return task.id;
+    }
+
+    /**
+     * Stops starting new tasks for a while. Running tasks are not interrupted.
+     * @param {number} milliseconds - How long to pause for
+     */
+    pause(milliseconds: number): void {
+        this.resumeAt = Math.max(this.resumeAt, Date.now() + milliseconds);
+    }
+
+    /**
+     * Runs all tasks added so far. A task whose dependencies never finish,
+     * because they are unknown or form a cycle, is recorded as failed.
+     * @returns {Promise<TaskFailure[]>} The tasks that failed
+     */
+    async run(): Promise<TaskFailure[]> {
+        const pending = this.tasks.filter(task => !this.finished.has(task.id));
+        this.skipped = this.tasks.length - pending.length;
+        this.startedAt = Date.now();
+
+        while (pending.length > 0 || this.running.size > 0) {
+            const wait = this.resumeAt - Date.now();
+            if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+            const ready = pending.filter(task => (task.dependsOn ?? []).every(id => this.finished.has(id)));
+            for (const task of ready.slice(0, this.concurrency - this.running.size)) {
+                pending.splice(pending.indexOf(task), 1);
+                this.start(task);
+            }
+
+            if (this.running.size === 0) {
+                for (const task of pending.splice(0)) {
+                    this.failures.push({ id: task.id, label: task.label, reason: 'its dependencies could not be resolved' });
+                    this.finished.add(task.id);
+                }
+                break;
+            }
+
+            await Promise.race(this.running.values());
+        }
+
+        this.emitProgress();
+        return this.failures;
+    }
+
+    /**
+     * Starts a task and records its outcome once it settles
+     * @param {ScheduledTask} task - The task to start
+     * @private
+     */
+    private start(task: ScheduledTask): void {
+        const promise = task.run()
+            .then(() => this.onTaskComplete?.(task.id))
+            .catch(error => {
+                console.error(`Error during task "${task.label}":`, error);
+                this.failures.push({ id: task.id, label: task.label, reason: (error as Error).message });
+            })
+            .finally(() => {
+                this.running.delete(task.id);
+                this.finished.add(task.id);
+                this.emitProgress();
+            });
+
+        this.running.set(task.id, promise);
+        this.emitProgress();
+    }
+
+    /**
+     * Reports the current progress to the progress callback
+     * @private
+     */
+    private emitProgress(): void {
+        if (!this.onProgress) return;
+
+        const completed = this.tasks.filter(task => this.finished.has(task.id)).length;
+        const completedThisRun = completed - this.skipped;
+        const elapsed = (Date.now() - this.startedAt) / 1000;
+
+        this.onProgress({
+            total: this.tasks.length,
+            completed: completed,
+            running: this.tasks.filter(task => this.running.has(task.id)).map(task => task.label),
+            etaSeconds: completedThisRun > 0 ? Math.round(elapsed / completedThisRun * (this.tasks.length - completed)) : null,
+            failures: [...this.failures]
+        });
+    }
+}
@@ -0,0 +1,57 @@
+/** Template key reserved for the guild's @everyone role */
+export const EVERYONE_ROLE_KEY = 'everyone';
+
+/**
+ * Allocates stable, human-readable keys that identify roles and categories
+ * inside a single template, independently of the source guild's snowflakes.
+ */
+export class KeyAllocator {
+    private used: Set<string>;
+
+    /**
+     * Creates a new KeyAllocator
+     * @param {string[]} [reserved] - Keys that must never be handed out
+     */
+    constructor(reserved: string[] = []) {
+        this.used = new Set(reserved);
+    }
+
+    /**
+     * Converts a display name into a lowercase, dash separated slug
+     * @param {string} name - The name to convert
+     * @returns {string} The slug, or an empty string if nothing usable remains
+     */
+    static slugify(name: string): string {
+        return name
+            .normalize('NFKD')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '');
+    }
+
+    /**
+     * Marks an existing key as taken
+     * @param {string} key - The key to reserve
+     */
+    reserve(key: string): void {
+        this.used.add(key);
+    }
+
+    /**
+     * Allocates a unique key derived from the given name
+     * @param {string} name - The display name of the item
+     * @param {string} fallback - Key base to use when the name has no usable characters
+     * @returns {string} A key that has not been allocated before
+     */
+    allocate(name: string, fallback: string): string {
+        const base = KeyAllocator.slugify(name) || fallback;
+        let key = base;
+
+        for (let suffix = 2; this.used.has(key); suffix++) {
+            key = `${base}-${suffix}`;
+        }
+
+        this.used.add(key);
+        return key;
+    }
+}